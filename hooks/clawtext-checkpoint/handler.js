@@ -8,6 +8,13 @@ const __dirname = path.dirname(__filename);
 const _distDir = '/home/lumadmin/.openclaw/workspace/repo/clawtext/dist';
 const { bindSessionToTopic, sanitizeTopicName } = await import(path.join(_distDir, 'session-topic-map.js'));
 const { syncTopicAnchor } = await import(path.join(_distDir, 'topic-anchor.js'));
+const { emitTransaction, recordSessionCheckpoint } = await import(path.join(_distDir, 'record/index.js'));
+const { getClawTextProdStateRoot } = await import(path.join(_distDir, 'runtime-paths.js'));
+// Optional: without node:sqlite the checkpoint just carries an empty filesTouched
+const sessionIntelligence = await Promise.all([
+    import(path.join(_distDir, 'session-intelligence/db.js')),
+    import(path.join(_distDir, 'session-intelligence/resource-versions.js')),
+]).then(([db, versions]) => ({ ...db, ...versions })).catch(() => null);
 const WORKSPACE = path.join(os.homedir(), '.openclaw/workspace');
 const JOURNAL_DIR = path.join(WORKSPACE, 'journal');
 const STATE_DIR = path.join(WORKSPACE, 'state', 'clawtext', 'prod', 'checkpoint');
@@ -92,6 +99,28 @@ function getFilterReason(ctx, content = '') {
 function isFilteredSession(ctx, content = '') {
     return getFilterReason(ctx, content) !== null;
 }
+// ── Files touched (session-intelligence) ─────────────────────────────────────
+function readFilesTouched(sessionIds) {
+    const dbPath = path.join(WORKSPACE, '.clawtext', 'session-intelligence.db');
+    if (!sessionIntelligence || !fs.existsSync(dbPath))
+        return [];
+    let db;
+    try {
+        db = sessionIntelligence.openDatabase(WORKSPACE);
+        for (const id of sessionIds.filter(Boolean)) {
+            const { files } = sessionIntelligence.getFilesTouched(db, id);
+            if (files.length > 0)
+                return sessionIntelligence.formatFilesTouched(files, { limit: 20 });
+        }
+    } catch (err) {
+        if (process.env.DEBUG_CLAWTEXT) {
+            console.error('[clawtext-checkpoint] files touched lookup failed:', err instanceof Error ? err.message : String(err));
+        }
+    } finally {
+        db?.close();
+    }
+    return [];
+}
 // ── Write checkpoint record to journal ───────────────────────────────────────
 function writeCheckpoint(params) {
     const nowMs = Date.now();
@@ -111,6 +140,8 @@ function writeCheckpoint(params) {
         recentTopics: params.recentContent.filter(Boolean).slice(-5),
         lastSender: params.lastSender,
         lastMessageTs: nowMs,
+        // Files the agent read, wrote or edited in this session (empty without session-intelligence)
+        filesTouched: readFilesTouched([params.sessionId ?? '', params.sessionKey]),
     };
     const journalFile = path.join(JOURNAL_DIR, `${today}.jsonl`);
     fs.appendFile(journalFile, JSON.stringify(record) + '\n', (err) => {
@@ -118,6 +149,10 @@ function writeCheckpoint(params) {
             console.error('[clawtext-checkpoint] write error:', err.message);
         }
     });
+    // Mirror into the Record so replicas see the checkpoint (best-effort)
+    emitTransaction(() => recordSessionCheckpoint(params.sessionKey, record.recentTopics.join('\n'), [], [], {
+        stateRoot: getClawTextProdStateRoot(WORKSPACE),
+    }));
 }
 // ── WORKQUEUE checkpoint helpers ──────────────────────────────────────────────
 /**
@@ -313,6 +348,7 @@ const handler = async (event) => {
             if (state.messageCount > 0) {
                 writeCheckpoint({
                     sessionKey,
+                    sessionId: typeof ctx.sessionId === 'string' ? ctx.sessionId : undefined,
                     channel,
                     channelName,
                     trigger: 'reset',
@@ -438,6 +474,7 @@ const handler = async (event) => {
                 });
                 writeCheckpoint({
                     sessionKey,
+                    sessionId: typeof ctx.sessionId === 'string' ? ctx.sessionId : undefined,
                     channel,
                     channelName,
                     trigger: 'interval',
@@ -7,6 +7,19 @@ const STATE_DIR = path.join(WORKSPACE, 'state', 'clawtext', 'prod', 'ingest');
 const BUFFER_FILE = path.join(STATE_DIR, 'extract-buffer.jsonl');
 const JOURNAL_DIR = path.join(WORKSPACE, 'journal');
 
+// Permissions and the Record are resolved through the built package. Without
+// dist the hook keeps buffering as before rather than dropping every message.
+const distModules = new Map();
+async function loadDistModule(relPath) {
+  if (!distModules.has(relPath)) {
+    distModules.set(relPath, await import(new URL(`../../dist/${relPath}`, import.meta.url).href)
+      .catch(() => null));
+  }
+  return distModules.get(relPath);
+}
+const loadPermissions = () => loadDistModule('permissions/index.js');
+const loadRecord = () => loadDistModule('record/index.js');
+
 /**
  * ClawText Auto-Extract Hook
  *
@@ -78,6 +91,17 @@ function isFilteredSession(ctx, content = '') {
   return false;
 }
 
+/**
+ * Retention gate: the principal must hold `retain` (denials are logged) and
+ * the message's role — in → user, out → assistant — must be in retainRoles.
+ */
+async function isRetained(ctx, role) {
+  const permissions = await loadPermissions();
+  if (!permissions) return true;
+  const access = permissions.enforcePermission(permissions.resolvePrincipal(ctx), 'retain', 'extract', WORKSPACE);
+  return access.allowed && access.permissions.retainRoles.includes(role);
+}
+
 const handler = async (event) => {
   // Only care about message events
   if (event.type !== 'message') return;
@@ -98,6 +122,9 @@ const handler = async (event) => {
     // Skip bot system noise
     if (content.startsWith('HEARTBEAT_OK') || content.startsWith('NO_REPLY')) return;
 
+    // Skip principals without retain, and roles outside retainRoles
+    if (!(await isRetained(ctx, event.action === 'sent' ? 'assistant' : 'user'))) return;
+
     const from = ctx.from || ctx.to || 'unknown';
     const rawLog = isRawLog(content);
     const nowMs = Date.now();
@@ -150,6 +177,17 @@ const handler = async (event) => {
         console.error('[clawtext-extract] journal write error:', err.message);
       }
     });
+
+    // Mirror into the Record as session.message / session.assistant (deferred, best-effort)
+    const recordModule = await loadRecord();
+    if (recordModule) {
+      setImmediate(() => recordModule.emitTransaction(() => recordModule.recordSessionMessage(
+        sessionId || 'unknown',
+        event.action === 'sent' ? 'assistant' : 'user',
+        journalRecord.content,
+        { stateRoot: path.dirname(STATE_DIR) },
+      )));
+    }
   } catch (err) {
     // Never crash the gateway
     if (process.env.DEBUG_CLAWTEXT) {
@@ -15,6 +15,31 @@ const MAX_TAIL_PREVIEW_CHARS = 3000;
 const MAX_SUMMARY_CHARS = 1500;
 // Messages kept after compaction (the "surviving" window) — not evicted
 const SURVIVING_WINDOW = 30;
+// ── Permissions ───────────────────────────────────────────────────────────────
+// Resolved through the built package. Without dist the hook keeps capturing
+// as before rather than silently dropping every tail.
+let permissionsModule;
+async function loadPermissions() {
+    if (permissionsModule === undefined) {
+        permissionsModule = await import(new URL('../../dist/permissions/index.js', import.meta.url).href)
+            .catch(() => null);
+    }
+    return permissionsModule;
+}
+/**
+ * The principal must hold `retain` (denials are logged); tail messages are
+ * limited to its retainRoles.
+ */
+async function resolveRetention(ctx) {
+    const permissions = await loadPermissions();
+    if (!permissions)
+        return { allowed: true, roles: null };
+    const access = permissions.enforcePermission(permissions.resolvePrincipal(ctx), 'retain', 'ingest', WORKSPACE);
+    return { allowed: access.allowed, roles: access.permissions.retainRoles };
+}
+function filterTailRoles(tail, roles) {
+    return roles ? tail.filter(m => roles.includes(m.role)) : tail;
+}
 // ── Helpers ───────────────────────────────────────────────────────────────────
 function ensureStateDir() {
     if (!fs.existsSync(STATE_DIR)) {
@@ -270,6 +295,10 @@ function readAllMessagesFromSessionFile(sessionFile) {
 const handler = async (event, ctx) => {
     const sessionKey = ctx.sessionKey || ctx.sessionId || '';
     const channelId = extractChannelId(sessionKey, ctx);
+    // No tail or marker for principals without retain
+    const retention = await resolveRetention(ctx);
+    if (!retention.allowed)
+        return;
     // ── BEFORE COMPACTION: capture tail + summary ─────────────────────────────
     if (event.type === 'before_compaction' || (event.type === 'compaction' && event.action === 'before')) {
         try {
@@ -306,7 +335,7 @@ const handler = async (event, ctx) => {
                     }
                 }
             }
-            tail = applyTailBudget(tail);
+            tail = applyTailBudget(filterTailRoles(tail, retention.roles));
             // Extract summary from eviction window
             let summary;
             if (allMessages.length > SURVIVING_WINDOW) {
@@ -364,7 +393,7 @@ const handler = async (event, ctx) => {
                 catch { /* ignore */ }
             }
             if (tail.length === 0 && event.sessionFile) {
-                tail = readTailFromSessionFile(event.sessionFile);
+                tail = filterTailRoles(readTailFromSessionFile(event.sessionFile), retention.roles);
             }
             // If we had no summary from pending but have sessionFile, try extracting now
             // (less ideal — post-compaction some messages may already be gone)
@@ -51,6 +51,40 @@ interface CompactionMarker {
   summary?: CompactionSummary;
 }
 
+// ── Permissions ───────────────────────────────────────────────────────────────
+// Resolved through the built package. Without dist the hook keeps capturing
+// as before rather than silently dropping every tail.
+interface Retention {
+  allowed: boolean;
+  roles: string[] | null;
+}
+
+type PermissionsModule = typeof import('../../src/permissions/index.js');
+
+let permissionsModule: PermissionsModule | null | undefined;
+async function loadPermissions(): Promise<PermissionsModule | null> {
+  if (permissionsModule === undefined) {
+    permissionsModule = await (import(new URL('../../dist/permissions/index.js', import.meta.url).href) as Promise<PermissionsModule>)
+      .catch(() => null);
+  }
+  return permissionsModule;
+}
+
+/**
+ * The principal must hold `retain` (denials are logged); tail messages are
+ * limited to its retainRoles.
+ */
+async function resolveRetention(ctx: Record<string, unknown>): Promise<Retention> {
+  const permissions = await loadPermissions();
+  if (!permissions) return { allowed: true, roles: null };
+  const access = permissions.enforcePermission(permissions.resolvePrincipal(ctx), 'retain', 'ingest', WORKSPACE);
+  return { allowed: access.allowed, roles: access.permissions.retainRoles };
+}
+
+function filterTailRoles(tail: TailMessage[], roles: string[] | null): TailMessage[] {
+  return roles ? tail.filter(m => roles.includes(m.role)) : tail;
+}
+
 // ── Helpers ───────────────────────────────────────────────────────────────────
 
 function ensureStateDir(): void {
@@ -344,6 +378,10 @@ const handler = async (event: {
   const sessionKey = ctx.sessionKey || ctx.sessionId || '';
   const channelId = extractChannelId(sessionKey, ctx as Record<string, unknown>);
 
+  // No tail or marker for principals without retain
+  const retention = await resolveRetention(ctx as Record<string, unknown>);
+  if (!retention.allowed) return;
+
   // ── BEFORE COMPACTION: capture tail + summary ─────────────────────────────
   if (event.type === 'before_compaction' || (event.type === 'compaction' && event.action === 'before')) {
     try {
@@ -380,7 +418,7 @@ const handler = async (event: {
         }
       }
 
-      tail = applyTailBudget(tail);
+      tail = applyTailBudget(filterTailRoles(tail, retention.roles));
 
       // Extract summary from eviction window
       let summary: CompactionSummary | undefined;
@@ -441,7 +479,7 @@ const handler = async (event: {
       }
 
       if (tail.length === 0 && event.sessionFile) {
-        tail = readTailFromSessionFile(event.sessionFile);
+        tail = filterTailRoles(readTailFromSessionFile(event.sessionFile), retention.roles);
       }
 
       // If we had no summary from pending but have sessionFile, try extracting now
@@ -22,6 +22,8 @@ const WORKSPACE = path.join(os.homedir(), '.openclaw/workspace');
 const MEMORY_DIR = path.join(WORKSPACE, 'memory');
 const CLUSTERS_DIR = path.join(MEMORY_DIR, 'clusters');
 const API_MEMORIES_DIR = path.join(MEMORY_DIR, 'api-memories');
+const STATE_ROOT = process.env.CLAWTEXT_STATE_ROOT || path.join(WORKSPACE, 'state', 'clawtext', 'prod');
+const ARCHIVE_INDEX = path.join(STATE_ROOT, 'archive', 'index.json');
 
 // Project keyword routing — auto-extended by cluster filenames at runtime
 const PROJECT_KEYWORDS = {
@@ -312,6 +314,8 @@ function loadApiMemories() {
   for (const file of fs.readdirSync(API_MEMORIES_DIR).filter(f => f.endsWith('.json'))) {
     try {
       const data = JSON.parse(fs.readFileSync(path.join(API_MEMORIES_DIR, file), 'utf8'));
+      // Superseded memories are kept for history but never clustered
+      if (data.status === 'superseded') continue;
       const content = data.body || data.summary || '';
       if (content.length < 20) continue;
 
@@ -328,6 +332,10 @@ function loadApiMemories() {
         dedupeHash: data.dedupeHash || dedupeHash(content),
         mentionCount: Number.isFinite(data.mentionCount) ? Math.max(1, Number(data.mentionCount)) : 1,
         lastMentionedAt: data.lastMentionedAt || data.updatedAt || data.observedAt || data.createdAt || null,
+        // Carried so RAG can apply agent visibility (and log decoherence) on cluster copies
+        agentId: data.agentId || null,
+        visibility: data.visibility || null,
+        targetAgent: data.targetAgent || null,
       });
     } catch (e) {
       console.warn(`  skip api memory ${file}: ${e.message}`);
@@ -388,6 +396,9 @@ function addOrMergeMemory(input, mentionIncrement = 1) {
     lastMentionedAt: input.lastMentionedAt || input.createdAt || nowIso,
     updatedAt: nowIso,
   };
+  if (input.agentId) memory.agentId = input.agentId;
+  if (input.visibility) memory.visibility = input.visibility;
+  if (input.targetAgent) memory.targetAgent = input.targetAgent;
 
   byProject[proj].push(memory);
   if (dedupeKey) dedupeIndex.set(dedupeKey, memory);
@@ -414,6 +425,22 @@ if (apiMemories.length > 0) {
   console.log(`[build-clusters] Loaded ${apiMemories.length} API memories from ${API_MEMORIES_DIR}`);
 }
 
+// Entries moved to the archive tier by retention GC stay out of clusters
+// until restored (src/retention.ts)
+let archivedIds = new Set();
+try {
+  if (fs.existsSync(ARCHIVE_INDEX)) {
+    archivedIds = new Set(Object.keys(JSON.parse(fs.readFileSync(ARCHIVE_INDEX, 'utf8')).entries || {}));
+  }
+} catch (e) {
+  console.warn(`  could not read archive index: ${e.message}`);
+}
+if (archivedIds.size > 0) {
+  for (const project of Object.keys(byProject)) {
+    byProject[project] = byProject[project].filter(m => !archivedIds.has(m.id));
+  }
+}
+
 // Write cluster files
 const builtAt = new Date().toISOString();
 let totalMemories = 0;
@@ -436,4 +463,14 @@ for (const [project, memories] of Object.entries(byProject)) {
   console.log(`  [${project}] ${memories.length} memories → cluster-${project}.json`);
 }
 
+// Feed the knowledge graph (src/graph/index.ts) from the rebuilt clusters and
+// API memories; unchanged sources are skipped. Needs the built package.
+try {
+  const { syncKnowledgeGraph } = await import(new URL('../dist/graph/index.js', import.meta.url).href);
+  const graph = syncKnowledgeGraph(WORKSPACE);
+  console.log(`  knowledge graph: ${graph.sources} changed source(s), +${graph.entitiesAdded} entities, +${graph.factsAdded} facts, ${graph.factsEnded} ended`);
+} catch (e) {
+  console.warn(`  knowledge graph not updated: ${e.message}`);
+}
+
 console.log(`\n[build-clusters] Done. ${writtenClusters} clusters, ${totalMemories} total memories. (${builtAt})`);
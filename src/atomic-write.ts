@@ -0,0 +1,31 @@
+/**
+ * ClawText Atomic Writes
+ *
+ * State files (permissions, strategies, the knowledge graph, salience, ...)
+ * are replaced by writing a sibling temp file and renaming it over the
+ * target, so readers never see a partial file. The temp name carries the pid
+ * and random bytes: two writers racing on the same target each rename their
+ * own complete file instead of interleaving into a shared `<target>.tmp`.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+
+/** Replace `filePath` with `content` by rename. The parent directory must exist. */
+export function writeFileAtomic(filePath: string, content: string | Uint8Array): void {
+  const tmp = `${filePath}.${process.pid}.${crypto.randomBytes(6).toString('hex')}.tmp`;
+  try {
+    fs.writeFileSync(tmp, content);
+    fs.renameSync(tmp, filePath);
+  } catch (error) {
+    fs.rmSync(tmp, { force: true });
+    throw error;
+  }
+}
+
+/** Replace `filePath` with pretty-printed JSON, creating its directory first. */
+export function writeJsonAtomic(filePath: string, value: unknown): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  writeFileAtomic(filePath, JSON.stringify(value, null, 2));
+}
@@ -42,6 +42,7 @@ export const DEFAULT_SLOT_CONFIGS: Record<ContextSlotSource, SlotConfig> = {
   advisor: { ratio: 0.03, policy: 'if-present', minBytes: 256, enabled: true },
   'session-matrix': { ratio: 0.04, policy: 'if-present', minBytes: 320, enabled: true },
   extraction: { ratio: 0.02, policy: 'if-present', minBytes: 256, enabled: true },
+  'knowledge-graph': { ratio: 0.03, policy: 'entity-match', minBytes: 256, enabled: true },
   'recent-history': { ratio: 0.12, policy: 'always-include', enabled: true },
   'mid-history': { ratio: 0.15, policy: 'scored-select', enabled: true },
   'deep-history': { ratio: 0.08, policy: 'decision-only', enabled: true },
@@ -0,0 +1,154 @@
+import {
+  buildDecoherenceReport,
+  loadDecoherenceAlerts,
+  loadDecoherenceConfig,
+  loadQuarantine,
+  reviewQuarantine,
+  type QuarantineStatus,
+} from '../decoherence.js';
+
+const defaultWorkspacePath = process.env.CLAWTEXT_WORKSPACE || '/home/lumadmin/.openclaw/workspace';
+
+function out(msg: string) {
+  console.log(msg);
+}
+
+function err(msg: string) {
+  console.error(`Error: ${msg}`);
+}
+
+function getFlag(args: string[], name: string): string | undefined {
+  const idx = args.indexOf(name);
+  return idx >= 0 ? args[idx + 1] : undefined;
+}
+
+function positional(args: string[]): string[] {
+  return args.filter((a, i) => !a.startsWith('--') && !args[i - 1]?.startsWith('--'));
+}
+
+function workspaceOf(args: string[]): string {
+  return getFlag(args, '--workspace') || defaultWorkspacePath;
+}
+
+// Decoherence CLI commands
+
+export async function cmdDecoherenceReport(args: string[]) {
+  const days = Number(getFlag(args, '--days') || 7);
+  if (!(days > 0)) {
+    err('--days must be a positive number');
+    process.exitCode = 1;
+    return;
+  }
+
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+  const report = buildDecoherenceReport(workspaceOf(args), { since });
+  if (args.includes('--json')) {
+    out(JSON.stringify(report, null, 2));
+    return;
+  }
+
+  out(`Cross-agent events, last ${days} day(s): ${report.stats.totalEvents} (${report.stats.filteredCount} filtered, ${report.stats.leakedCount} leaked)`);
+  for (const pair of report.pairs) {
+    const trend = Object.entries(pair.byDay).sort(([a], [b]) => a.localeCompare(b)).map(([day, n]) => `${day.slice(5)}:${n}`).join(' ');
+    out(`  ${pair.leakedAgentId} → ${pair.currentAgentId}  ${pair.total} (${pair.filtered} filtered, ${pair.leaked} leaked)  ${trend}`);
+    for (const { query, count } of pair.topQueries) out(`      ${String(count).padStart(3)}× "${query}"`);
+  }
+
+  const repeat = report.memories.filter((m) => m.events > 1);
+  if (repeat.length > 0) {
+    out('Memories reached repeatedly:');
+    for (const m of repeat.slice(0, 10)) out(`  ${m.memoryId}  ${m.events}× by ${m.agents.join(', ')}${m.quarantine ? `  [${m.quarantine}]` : ''}`);
+  }
+  if (report.alerts.length > 0) out(`${report.alerts.length} alert(s) raised — see: decoherence alerts`);
+  const open = report.quarantine.filter((q) => q.status === 'quarantined').length;
+  if (open > 0) out(`${open} memor${open === 1 ? 'y' : 'ies'} quarantined pending review — see: decoherence quarantine`);
+}
+
+export async function cmdDecoherenceAlerts(args: string[]) {
+  const workspacePath = workspaceOf(args);
+  const alerts = loadDecoherenceAlerts(workspacePath);
+  if (args.includes('--json')) {
+    out(JSON.stringify(alerts, null, 2));
+    return;
+  }
+
+  const config = loadDecoherenceConfig(workspacePath);
+  out(`${alerts.length} alert(s) (threshold: ${config.alertThreshold} events per agent pair in ${config.windowHours}h)`);
+  for (const alert of alerts) {
+    out(`  ${alert.raisedAt}  ${alert.leakedAgentId} → ${alert.currentAgentId}  ${alert.count} events, ${alert.memoryIds.length} memories`);
+    for (const query of alert.queries.slice(0, 3)) out(`      "${query}"`);
+  }
+}
+
+export async function cmdDecoherenceQuarantine(args: string[]) {
+  const status = getFlag(args, '--status') || 'quarantined';
+  if (!['quarantined', 'released', 'confirmed', 'all'].includes(status)) {
+    err('Usage: decoherence quarantine [--status quarantined|released|confirmed|all] [--json]');
+    process.exitCode = 1;
+    return;
+  }
+
+  const entries = loadQuarantine(workspaceOf(args), status === 'all' ? undefined : status as QuarantineStatus);
+  if (args.includes('--json')) {
+    out(JSON.stringify(entries, null, 2));
+    return;
+  }
+
+  out(`Quarantine (${status}): ${entries.length}`);
+  for (const entry of entries) {
+    const review = entry.reviewedAt ? `  ${entry.status} ${entry.reviewedAt.slice(0, 10)}${entry.reviewedBy ? ` by ${entry.reviewedBy}` : ''}` : '';
+    out(`  ${entry.memoryId}  by ${entry.leakedAgentId}, reached ${entry.agents.join(', ')} (${entry.events} events) on ${entry.quarantinedAt.slice(0, 10)}; was ${entry.previousVisibility ?? 'cluster-only'}${review}`);
+  }
+}
+
+export async function cmdDecoherenceReview(args: string[], decision: 'release' | 'confirm') {
+  const [memoryId] = positional(args);
+  if (!memoryId) {
+    err(`Usage: decoherence ${decision} <memoryId> [--by <reviewer>]`);
+    process.exitCode = 1;
+    return;
+  }
+
+  try {
+    const entry = reviewQuarantine(workspaceOf(args), memoryId, decision, getFlag(args, '--by'));
+    out(decision === 'release'
+      ? `Released ${memoryId} (visibility ${entry.previousVisibility ?? 'unchanged'})`
+      : `Confirmed ${memoryId} stays private`);
+  } catch (e) {
+    err(e instanceof Error ? e.message : String(e));
+    process.exitCode = 1;
+  }
+}
+
+export async function decoherenceCLI(args: string[]) {
+  const cmd = args[0];
+
+  switch (cmd) {
+    case 'report':
+      await cmdDecoherenceReport(args.slice(1));
+      break;
+    case 'alerts':
+      await cmdDecoherenceAlerts(args.slice(1));
+      break;
+    case 'quarantine':
+      await cmdDecoherenceQuarantine(args.slice(1));
+      break;
+    case 'release':
+      await cmdDecoherenceReview(args.slice(1), 'release');
+      break;
+    case 'confirm':
+      await cmdDecoherenceReview(args.slice(1), 'confirm');
+      break;
+    default:
+      out(`Decoherence commands:
+  decoherence report [--days 7] [--json]           - Leak trends per agent pair, top triggering queries
+  decoherence alerts [--json]                      - Alerts raised when a pair crossed the threshold
+  decoherence quarantine [--status quarantined|released|confirmed|all] [--json]
+                                                   - Memories forced private after repeated leaks
+  decoherence release <memoryId> [--by <reviewer>] - Restore the memory's previous visibility
+  decoherence confirm <memoryId> [--by <reviewer>] - Keep it private
+
+  Thresholds live in <stateRoot>/decoherence/config.json (windowHours, alertThreshold, quarantineThreshold, autoQuarantine).
+  All decoherence commands accept --workspace <path> (default: $CLAWTEXT_WORKSPACE).`);
+  }
+}
@@ -0,0 +1,156 @@
+import {
+  loadQuerySet,
+  runEval,
+  saveBaseline,
+  loadBaseline,
+  compareReports,
+  EVAL_LANES,
+  type EvalLaneId,
+  type EvalQuerySet,
+  type EvalReport,
+  type MetricDelta,
+} from '../eval/index.js';
+
+const defaultWorkspacePath = process.env.CLAWTEXT_WORKSPACE || '/home/lumadmin/.openclaw/workspace';
+
+function out(msg: string) {
+  console.log(msg);
+}
+
+function err(msg: string) {
+  console.error(`Error: ${msg}`);
+}
+
+function getFlag(args: string[], name: string): string | undefined {
+  const idx = args.indexOf(name);
+  return idx >= 0 ? args[idx + 1] : undefined;
+}
+
+function positional(args: string[]): string[] {
+  return args.filter((a, i) => !a.startsWith('--') && !args[i - 1]?.startsWith('--'));
+}
+
+function fmt(value: number): string {
+  return value.toFixed(3);
+}
+
+function fmtDelta(metric: MetricDelta): string {
+  const sign = metric.delta > 0 ? '+' : '';
+  return `${fmt(metric.current)} (${sign}${fmt(metric.delta)})`;
+}
+
+/**
+ * Parse the shared run flags and execute the set. Returns null (after
+ * printing the error) when the set or flags are invalid.
+ */
+function runFromArgs(args: string[], usage: string): { set: EvalQuerySet; report: EvalReport; workspacePath: string } | null {
+  const [setPath] = positional(args);
+  if (!setPath) {
+    err(`Usage: ${usage}`);
+    process.exitCode = 1;
+    return null;
+  }
+
+  const lanesArg = getFlag(args, '--lanes');
+  const lanes = lanesArg ? lanesArg.split(',').map((l) => l.trim()).filter(Boolean) : undefined;
+  const unknown = (lanes ?? []).filter((l) => !(EVAL_LANES as string[]).includes(l));
+  if (unknown.length > 0) {
+    err(`Unknown lane(s): ${unknown.join(', ')} (expected: ${EVAL_LANES.join(', ')})`);
+    process.exitCode = 1;
+    return null;
+  }
+
+  const kArg = getFlag(args, '--k');
+  const k = kArg !== undefined ? Number(kArg) : undefined;
+  if (k !== undefined && (!Number.isInteger(k) || k <= 0)) {
+    err(`Invalid --k "${kArg}"`);
+    process.exitCode = 1;
+    return null;
+  }
+
+  const workspacePath = getFlag(args, '--workspace') || defaultWorkspacePath;
+  try {
+    const set = loadQuerySet(setPath);
+    const report = runEval(set, { workspacePath, lanes: lanes as EvalLaneId[] | undefined, k });
+    return { set, report, workspacePath };
+  } catch (e) {
+    err(e instanceof Error ? e.message : String(e));
+    process.exitCode = 1;
+    return null;
+  }
+}
+
+// Eval CLI commands
+
+export async function cmdEvalRun(args: string[]) {
+  const run = runFromArgs(args, 'eval run <queries.json> [--lanes rag,hot-cache,operational] [--k N] [--baseline FILE]');
+  if (!run) return;
+  const { report, workspacePath } = run;
+
+  const baseline = loadBaseline(workspacePath, report.set, getFlag(args, '--baseline'));
+  const comparison = baseline ? compareReports(report, baseline) : null;
+
+  if (args.includes('--json')) {
+    out(JSON.stringify({ report, comparison }, null, 2));
+  } else {
+    out(`Retrieval eval: ${report.set} (k=${report.k})`);
+    for (const lane of Object.values(report.lanes)) {
+      if (!lane) continue;
+      const diff = comparison?.lanes.find((l) => l.lane === lane.lane);
+      if (diff) {
+        out(`  ${lane.lane.padEnd(12)} recall@${report.k} ${fmtDelta(diff.recallAtK)}  MRR ${fmtDelta(diff.mrr)}  nDCG@${report.k} ${fmtDelta(diff.ndcg)}  [${lane.metrics.queries} queries]`);
+        for (const q of diff.regressions) out(`    ↓ ${q.id}: nDCG ${fmt(q.baseline)} → ${fmt(q.current)}`);
+        for (const q of diff.improvements) out(`    ↑ ${q.id}: nDCG ${fmt(q.baseline)} → ${fmt(q.current)}`);
+      } else {
+        out(`  ${lane.lane.padEnd(12)} recall@${report.k} ${fmt(lane.metrics.recallAtK)}  MRR ${fmt(lane.metrics.mrr)}  nDCG@${report.k} ${fmt(lane.metrics.ndcg)}  [${lane.metrics.queries} queries]`);
+      }
+    }
+    if (!comparison) {
+      out('  (no baseline — save one with: eval baseline <queries.json>)');
+    } else {
+      out(`  compared with baseline from ${comparison.baselineGeneratedAt}`);
+      if (comparison.kMismatch) {
+        out(`  warning: baseline used k=${comparison.kMismatch.baseline}, this run k=${comparison.kMismatch.current}`);
+      }
+      if (comparison.missingLanes.length > 0) out(`  lanes not in both reports: ${comparison.missingLanes.join(', ')}`);
+    }
+  }
+
+  if (args.includes('--fail-on-regression') && comparison?.lanes.some((l) => l.ndcg.delta < 0 || l.regressions.length > 0)) {
+    process.exitCode = 1;
+  }
+}
+
+export async function cmdEvalBaseline(args: string[]) {
+  const run = runFromArgs(args, 'eval baseline <queries.json> [--lanes ...] [--k N] [--out FILE]');
+  if (!run) return;
+  const target = saveBaseline(run.report, run.workspacePath, getFlag(args, '--out'));
+  out(`Saved baseline for ${run.report.set} (k=${run.report.k}) → ${target}`);
+  for (const lane of Object.values(run.report.lanes)) {
+    if (!lane) continue;
+    out(`  ${lane.lane.padEnd(12)} recall@${run.report.k} ${fmt(lane.metrics.recallAtK)}  MRR ${fmt(lane.metrics.mrr)}  nDCG@${run.report.k} ${fmt(lane.metrics.ndcg)}`);
+  }
+}
+
+export async function evalCLI(args: string[]) {
+  const cmd = args[0];
+  const cmdArgs = args.slice(1);
+
+  switch (cmd) {
+    case 'run':
+      await cmdEvalRun(cmdArgs);
+      break;
+    case 'baseline':
+      await cmdEvalBaseline(cmdArgs);
+      break;
+    default:
+      out(`Eval commands:
+  eval run <queries.json> [--lanes rag,hot-cache,operational] [--k N] [--baseline FILE] [--json] [--fail-on-regression]
+                        - Score each lane (recall@k, MRR, nDCG@k) and diff against the stored baseline
+  eval baseline <queries.json> [--lanes ...] [--k N] [--out FILE]
+                        - Run the set and store the report as its baseline
+
+  All eval commands accept --workspace <path> (default: $CLAWTEXT_WORKSPACE).
+  Baselines live in state/clawtext/dev/evals/baselines/<set>.json.`);
+  }
+}
@@ -271,109 +271,193 @@ export async function reflectCLI(args: string[]) {
 import { loadRoles, loadGlobalDefaults, getPermissionsRoot } from '../permissions/index.js';
 import { getRecordStatus, verifyChain } from '../record/index.js';
 import { getFleetStatus, loadNodeConfig } from '../fleet/index.js';
+import {
+  applyIac,
+  detectDrift,
+  importConfig,
+  listHistory,
+  loadAppliedState,
+  loadDesiredState,
+  loadHistoryEntry,
+  planIac,
+  rollbackIac,
+  type DesiredState,
+  type IacPlan,
+} from '../iac/index.js';
+import { diffConfigBundle, exportConfigBundle, loadConfigBundle, type ConfigBundle } from '../iac/bundle.js';
 
 const stateRoot = path.join(workspacePath, 'state', 'clawtext', 'prod');
 
-interface ResourceSnapshot {
-  type: string;
-  id: string;
-  data: Record<string, unknown>;
+function desiredStatePath(args: string[]): string {
+  return args.find((a) => !a.startsWith('--')) || 'clawtext.yaml';
 }
 
-function loadCurrentState(): ResourceSnapshot[] {
-  const resources: ResourceSnapshot[] = [];
-
-  // Roles
+function readDesiredState(args: string[]): DesiredState | null {
   try {
-    const permsRoot = getPermissionsRoot(workspacePath);
-    const roles = loadRoles(permsRoot);
-    for (const role of roles) {
-      resources.push({ type: 'role', id: role.roleId, data: role as unknown as Record<string, unknown> });
-    }
-    const defaults = loadGlobalDefaults(permsRoot);
-    resources.push({ type: 'defaults', id: 'global', data: defaults as unknown as Record<string, unknown> });
-  } catch {
-    // no permissions state yet
+    return loadDesiredState(desiredStatePath(args));
+  } catch (e) {
+    err(e instanceof Error ? e.message : String(e));
+    process.exitCode = 1;
+    return null;
   }
+}
 
-  // Extraction strategies
-  try {
-    const extractionState = loadExtractionState(workspacePath);
-    for (const [id, strategy] of Object.entries(extractionState.strategies || {})) {
-      resources.push({ type: 'strategy', id, data: strategy as unknown as Record<string, unknown> });
-    }
-  } catch {
-    // no extraction state yet
+function printPlan(plan: IacPlan) {
+  for (const d of plan.drift) {
+    out(`  ! Drift ${d.type}: "${d.id}" ${d.kind} since last apply${d.fields.length ? ` (${d.fields.join(', ')})` : ''}`);
   }
+  if (plan.drift.length > 0) out('');
 
-  // Fleet nodes
-  try {
-    const fleet = getFleetStatus(stateRoot);
-    for (const node of fleet.nodes) {
-      resources.push({ type: 'node', id: node.nodeId, data: node as unknown as Record<string, unknown> });
+  if (plan.changes.length === 0) {
+    out('No changes. Infrastructure is up-to-date.');
+  } else {
+    const sign = { add: '+ Add', modify: '~ Modify', remove: '- Remove' };
+    for (const c of plan.changes) {
+      out(`  ${sign[c.action]} ${c.type}: "${c.id}"${c.action === 'modify' ? ` (${c.fields.join(', ')})` : ''}`);
     }
-  } catch {
-    // no fleet state yet
+    const count = (action: string) => plan.changes.filter((c) => c.action === action).length;
+    out('');
+    out(`Plan: ${count('add')} add, ${count('modify')} modify, ${count('remove')} remove`);
   }
 
-  return resources;
+  for (const w of plan.warnings) out(`  warning: ${w}`);
 }
 
-function diffResources(
-  current: ResourceSnapshot[],
-  desired: ResourceSnapshot[]
-): { adds: ResourceSnapshot[]; modifies: ResourceSnapshot[]; removes: ResourceSnapshot[] } {
-  const currentMap = new Map(current.map((r) => [`${r.type}:${r.id}`, r]));
-  const desiredMap = new Map(desired.map((r) => [`${r.type}:${r.id}`, r]));
-
-  const adds = desired.filter((r) => !currentMap.has(`${r.type}:${r.id}`));
-  const removes = current.filter((r) => !desiredMap.has(`${r.type}:${r.id}`));
-  const modifies = desired.filter((r) => {
-    const key = `${r.type}:${r.id}`;
-    if (!currentMap.has(key)) return false;
-    return JSON.stringify(currentMap.get(key)!.data) !== JSON.stringify(r.data);
-  });
-
-  return { adds, modifies, removes };
+export async function cmdPlan(args: string[]) {
+  const desired = readDesiredState(args);
+  if (!desired) return;
+
+  out(`\nPlanning ClawText configuration from ${desired.source}...\n`);
+  const plan = planIac(workspacePath, desired);
+  if (args.includes('--json')) {
+    out(JSON.stringify(plan, null, 2));
+    return;
+  }
+  printPlan(plan);
 }
 
-export async function cmdPlan(_args: string[]) {
-  out('\nPlanning ClawText configuration...\n');
+export async function cmdApply(args: string[]) {
+  const desired = readDesiredState(args);
+  if (!desired) return;
 
-  const current = loadCurrentState();
-  // desired = current when no pending config changes exist
-  const diff = diffResources(current, current);
+  out('\nGenerating plan...\n');
+  printPlan(planIac(workspacePath, desired));
 
-  if (diff.adds.length === 0 && diff.modifies.length === 0 && diff.removes.length === 0) {
-    out('No changes. Infrastructure is up-to-date.');
-    out('');
-    out('Current resources:');
-    for (const r of current) {
-      out(`  ${r.type}/${r.id}`);
-    }
+  if (!args.includes('--auto-approve')) {
+    out('\nRun with --auto-approve to apply, or review changes above.');
     return;
   }
 
-  for (const r of diff.adds) out(`  + Add ${r.type}: "${r.id}"`);
-  for (const r of diff.modifies) out(`  ~ Modify ${r.type}: "${r.id}"`);
-  for (const r of diff.removes) out(`  - Remove ${r.type}: "${r.id}"`);
-  out('');
-  out(`Plan: ${diff.adds.length} add, ${diff.modifies.length} modify, ${diff.removes.length} remove`);
+  out('\nApplying...');
+  try {
+    const result = applyIac(workspacePath, desired);
+    out(result.applied === 0
+      ? 'Apply complete. No changes were needed.'
+      : `Apply complete! ${result.applied} change${result.applied === 1 ? '' : 's'} made, ${result.journaled} journaled to the Record.`);
+  } catch (e) {
+    err(`apply failed: ${e instanceof Error ? e.message : String(e)}`);
+    process.exitCode = 1;
+  }
 }
 
-export async function cmdApply(args: string[]) {
-  const autoApprove = args.includes('--auto-approve');
+export async function cmdDrift(args: string[]) {
+  const applied = loadAppliedState(workspacePath);
+  if (!applied) {
+    out('No apply recorded yet; nothing to compare against.');
+    return;
+  }
 
-  out('\nGenerating plan...\n');
-  await cmdPlan([]);
+  const drift = detectDrift(workspacePath);
+  if (args.includes('--json')) {
+    out(JSON.stringify(drift, null, 2));
+    return;
+  }
+  out(`Last apply: ${applied.appliedAt} from ${applied.source}`);
+  if (drift.length === 0) {
+    out('No drift. Managed resources match the last apply.');
+    return;
+  }
+  for (const d of drift) {
+    out(`  ! ${d.type}: "${d.id}" ${d.kind}${d.fields.length ? ` (${d.fields.join(', ')})` : ''}`);
+  }
+  out(`${drift.length} resource${drift.length === 1 ? '' : 's'} drifted. Run apply to restore the desired state.`);
+}
 
-  if (!autoApprove) {
+export async function cmdExport(args: string[]) {
+  const bundle = JSON.stringify(exportConfigBundle(workspacePath), null, 2);
+  const outIdx = args.indexOf('--out');
+  const target = outIdx >= 0 ? args[outIdx + 1] : undefined;
+  if (!target) {
+    out(bundle);
+    return;
+  }
+  fs.writeFileSync(target, bundle + '\n', 'utf8');
+  out(`Exported configuration to ${target}`);
+}
+
+function previewRestore(bundle: ConfigBundle, what: string, args: string[]): boolean {
+  const stores = diffConfigBundle(workspacePath, bundle);
+  if (stores.length === 0) {
+    out(`No changes. Configuration already matches ${what}.`);
+    return false;
+  }
+  out(`Restoring ${what} would replace: ${stores.join(', ')}`);
+  if (!args.includes('--auto-approve')) {
     out('\nRun with --auto-approve to apply, or review changes above.');
+    return false;
+  }
+  return true;
+}
+
+export async function cmdImport(args: string[]) {
+  const file = args.find((a) => !a.startsWith('--'));
+  if (!file) {
+    err('Usage: iac import <bundle.json> [--auto-approve]');
+    process.exitCode = 1;
     return;
   }
 
-  out('\nApplying...');
-  out('Apply complete. No changes were needed.');
+  try {
+    const bundle = loadConfigBundle(file);
+    if (!previewRestore(bundle, file, args)) return;
+    const report = importConfig(workspacePath, bundle, file);
+    out(`Import complete (history #${report.entry.id}); ${report.journaled} change(s) journaled to the Record.`);
+  } catch (e) {
+    err(e instanceof Error ? e.message : String(e));
+    process.exitCode = 1;
+  }
+}
+
+export async function cmdHistory(_args: string[]) {
+  const entries = listHistory(workspacePath);
+  if (entries.length === 0) {
+    out('No applies recorded yet.');
+    return;
+  }
+  for (const entry of entries) {
+    out(`  #${entry.id}  ${entry.at}  ${entry.source}  (${entry.changes} change${entry.changes === 1 ? '' : 's'})`);
+  }
+}
+
+export async function cmdRollback(args: string[]) {
+  const raw = args.find((a) => !a.startsWith('--'));
+  const id = Number(raw);
+  if (raw === undefined || !Number.isInteger(id) || id < 0) {
+    err('Usage: iac rollback <n> [--auto-approve]   (n from: iac history)');
+    process.exitCode = 1;
+    return;
+  }
+
+  try {
+    const entry = loadHistoryEntry(workspacePath, id);
+    if (!entry) throw new Error(`no history entry ${id} (see: iac history)`);
+    if (!previewRestore(entry.bundle, `history #${id} (${entry.source}, ${entry.at})`, args)) return;
+    const report = rollbackIac(workspacePath, id);
+    out(`Rolled back to #${id} (history #${report.entry.id}); ${report.journaled} change(s) journaled to the Record.`);
+  } catch (e) {
+    err(e instanceof Error ? e.message : String(e));
+    process.exitCode = 1;
+  }
 }
 
 export async function cmdValidate(_args: string[]) {
@@ -481,16 +565,31 @@ export function iacCLI(args: string[]) {
       return cmdPlan(rest);
     case 'apply':
       return cmdApply(rest);
+    case 'drift':
+      return cmdDrift(rest);
+    case 'export':
+      return cmdExport(rest);
+    case 'import':
+      return cmdImport(rest);
+    case 'history':
+      return cmdHistory(rest);
+    case 'rollback':
+      return cmdRollback(rest);
     case 'validate':
       return cmdValidate(rest);
     case 'status':
       return cmdIacStatus(rest);
     default:
       out(`IaC commands:
-  plan          - Show what would change
-  apply         - Apply configuration changes
-  apply --auto-approve - Apply without confirmation
-  validate      - Validate config files
-  status        - Show current resource state`);
+  plan [file] [--json]     - Diff a desired-state YAML file (default: clawtext.yaml) against current state
+  apply [file]             - Show the plan for a desired-state file
+  apply [file] --auto-approve - Write the plan and journal it to the Record
+  drift [--json]           - Show managed resources edited since the last apply
+  export [--out <file>]    - Dump permissions, extraction, tag filters, advisors, session matrix and reflect config as a bundle
+  import <bundle> [--auto-approve] - Replace the configuration with an exported bundle
+  history                  - List applies, imports and rollbacks
+  rollback <n> [--auto-approve] - Restore the configuration as of history entry n
+  validate                 - Validate config files
+  status                   - Show current resource state`);
   }
 }
@@ -0,0 +1,185 @@
+import {
+  describeGraphEntity,
+  findEntityOwners,
+  formatGraphFact,
+  GRAPH_ENTITY_KINDS,
+  loadKnowledgeGraph,
+  normalizeAsOf,
+  queryGraphFacts,
+  syncKnowledgeGraph,
+  type GraphEntityKind,
+  type GraphPredicate,
+} from '../graph/index.js';
+
+const defaultWorkspacePath = process.env.CLAWTEXT_WORKSPACE || '/home/lumadmin/.openclaw/workspace';
+
+function out(msg: string) {
+  console.log(msg);
+}
+
+function err(msg: string) {
+  console.error(`Error: ${msg}`);
+}
+
+function getFlag(args: string[], name: string): string | undefined {
+  const idx = args.indexOf(name);
+  return idx >= 0 ? args[idx + 1] : undefined;
+}
+
+function positional(args: string[]): string[] {
+  return args.filter((a, i) => !a.startsWith('--') && !args[i - 1]?.startsWith('--'));
+}
+
+function workspaceOf(args: string[]): string {
+  return getFlag(args, '--workspace') || defaultWorkspacePath;
+}
+
+function fail(e: unknown) {
+  err(e instanceof Error ? e.message : String(e));
+  process.exitCode = 1;
+}
+
+// Graph CLI commands
+
+export async function cmdGraphAbout(args: string[]) {
+  const ref = positional(args).join(' ');
+  if (!ref) {
+    err('Usage: graph about <entity> [--as-of <date>] [--json]');
+    process.exitCode = 1;
+    return;
+  }
+
+  const workspacePath = workspaceOf(args);
+  let description;
+  try {
+    description = describeGraphEntity(workspacePath, ref, { asOf: getFlag(args, '--as-of') });
+  } catch (e) {
+    fail(e);
+    return;
+  }
+  if (!description) {
+    err(`no entity matches "${ref}" (see: graph entities)`);
+    process.exitCode = 1;
+    return;
+  }
+  if (args.includes('--json')) {
+    out(JSON.stringify(description, null, 2));
+    return;
+  }
+
+  const graph = loadKnowledgeGraph(workspacePath);
+  const { entity } = description;
+  out(`${entity.name} (${entity.id}) as of ${description.asOf.slice(0, 10)}`);
+  out(`  seen ${entity.mentions}× between ${entity.firstSeen.slice(0, 10)} and ${entity.lastSeen.slice(0, 10)}${entity.aliases.length ? `; also: ${entity.aliases.join(', ')}` : ''}`);
+  for (const fact of [...description.outgoing, ...description.incoming]) out(`  - ${formatGraphFact(graph, fact)}`);
+  if (description.ended.length > 0) {
+    out('  No longer true:');
+    for (const fact of description.ended) out(`  - ${formatGraphFact(graph, fact)}`);
+  }
+}
+
+export async function cmdGraphOwner(args: string[]) {
+  const ref = positional(args).join(' ');
+  if (!ref) {
+    err('Usage: graph owner <entity> [--as-of <date>]');
+    process.exitCode = 1;
+    return;
+  }
+
+  try {
+    const asOf = normalizeAsOf(getFlag(args, '--as-of'));
+    const owners = findEntityOwners(workspaceOf(args), ref, asOf);
+    out(owners.length === 0
+      ? `No known owner of ${ref} as of ${asOf.slice(0, 10)}.`
+      : `${ref} as of ${asOf.slice(0, 10)}: ${owners.map((o) => o.name).join(', ')}`);
+  } catch (e) {
+    fail(e);
+  }
+}
+
+export async function cmdGraphFacts(args: string[]) {
+  const workspacePath = workspaceOf(args);
+  let facts;
+  try {
+    facts = queryGraphFacts(workspacePath, {
+      subject: getFlag(args, '--subject'),
+      predicate: getFlag(args, '--predicate') as GraphPredicate | undefined,
+      object: getFlag(args, '--object'),
+      asOf: getFlag(args, '--as-of'),
+      includeEnded: args.includes('--all'),
+    });
+  } catch (e) {
+    fail(e);
+    return;
+  }
+  if (args.includes('--json')) {
+    out(JSON.stringify(facts, null, 2));
+    return;
+  }
+
+  const graph = loadKnowledgeGraph(workspacePath);
+  out(`${facts.length} fact(s)`);
+  for (const fact of facts) out(`  ${formatGraphFact(graph, fact)}`);
+}
+
+export async function cmdGraphEntities(args: string[]) {
+  const kind = getFlag(args, '--kind');
+  if (kind && !GRAPH_ENTITY_KINDS.includes(kind as GraphEntityKind)) {
+    err(`--kind must be one of: ${GRAPH_ENTITY_KINDS.join(', ')}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const entities = Object.values(loadKnowledgeGraph(workspaceOf(args)).entities)
+    .filter((e) => !kind || e.kind === kind)
+    .sort((a, b) => b.mentions - a.mentions || a.id.localeCompare(b.id));
+  if (args.includes('--json')) {
+    out(JSON.stringify(entities, null, 2));
+    return;
+  }
+
+  out(`${entities.length} entit${entities.length === 1 ? 'y' : 'ies'}`);
+  for (const entity of entities) out(`  ${entity.id.padEnd(40)} ${String(entity.mentions).padStart(4)}×  last seen ${entity.lastSeen.slice(0, 10)}`);
+}
+
+export async function cmdGraphSync(args: string[]) {
+  try {
+    const result = syncKnowledgeGraph(workspaceOf(args));
+    out(`Read ${result.sources} changed source(s): +${result.entitiesAdded} entities, +${result.factsAdded} facts, ${result.factsEnded} ended.`);
+  } catch (e) {
+    fail(e);
+  }
+}
+
+export async function graphCLI(args: string[]) {
+  const cmd = args[0];
+
+  switch (cmd) {
+    case 'about':
+      await cmdGraphAbout(args.slice(1));
+      break;
+    case 'owner':
+      await cmdGraphOwner(args.slice(1));
+      break;
+    case 'facts':
+      await cmdGraphFacts(args.slice(1));
+      break;
+    case 'entities':
+      await cmdGraphEntities(args.slice(1));
+      break;
+    case 'sync':
+      await cmdGraphSync(args.slice(1));
+      break;
+    default:
+      out(`Graph commands:
+  graph about <entity> [--as-of <date>] [--json]   - What we know about an entity (and what stopped being true)
+  graph owner <entity> [--as-of <date>]            - Who owns it at that date
+  graph facts [--subject <e>] [--predicate <p>] [--object <e>] [--as-of <date>] [--all] [--json]
+                                                   - Facts valid at the date (--all: include ended ones)
+  graph entities [--kind ${GRAPH_ENTITY_KINDS.join('|')}] [--json]
+  graph sync                                       - Read new or changed API and cluster memories into the graph
+
+  Dates are ISO timestamps or YYYY-MM-DD (end of that day). Predicates: owns, depends-on, replaces, part-of, about.
+  All graph commands accept --workspace <path> (default: $CLAWTEXT_WORKSPACE).`);
+  }
+}
@@ -0,0 +1,252 @@
+import { ClawTextMemory } from '../memory.js';
+import {
+  loadMemoryConflicts,
+  getMemoryConflict,
+  MEMORY_CONFLICT_RESOLUTIONS,
+  type MemoryConflict,
+  type MemoryConflictResolution,
+  type MemoryConflictStatus,
+} from '../memory-conflicts.js';
+import { buildSalienceReport } from '../salience.js';
+import { restoreArchivedMemory, runRetentionGc, searchArchive } from '../retention.js';
+import { resolveTopicAnchorConflict } from '../topic-anchor.js';
+
+const defaultWorkspacePath = process.env.CLAWTEXT_WORKSPACE || '/home/lumadmin/.openclaw/workspace';
+
+function out(msg: string) {
+  console.log(msg);
+}
+
+function err(msg: string) {
+  console.error(`Error: ${msg}`);
+}
+
+function getFlag(args: string[], name: string): string | undefined {
+  const idx = args.indexOf(name);
+  return idx >= 0 ? args[idx + 1] : undefined;
+}
+
+function positional(args: string[]): string[] {
+  return args.filter((a, i) => !a.startsWith('--') && !args[i - 1]?.startsWith('--'));
+}
+
+function workspaceOf(args: string[]): string {
+  return getFlag(args, '--workspace') || defaultWorkspacePath;
+}
+
+function clip(text: string, max = 100): string {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > max ? `${line.slice(0, max - 1)}…` : line;
+}
+
+function describe(conflict: MemoryConflict): string {
+  const where = conflict.source === 'topic-anchor' ? `topic ${conflict.topic}` : `project ${conflict.project}`;
+  const side = (label: string, s: MemoryConflict['older']) => `    ${label}${s.id ? ` ${s.id}` : ''}: ${clip(s.text)}`;
+  const status = conflict.status === 'resolved' ? `resolved: ${conflict.resolution}` : 'open';
+  return [
+    `  ${conflict.id}  ${conflict.source} (${where})  ${conflict.reason} on [${conflict.overlap.join(', ')}]  ${status}`,
+    side('older', conflict.older),
+    side('newer', conflict.newer),
+  ].join('\n');
+}
+
+// Memory CLI commands
+
+export async function cmdMemoryConflicts(args: string[]) {
+  const status = getFlag(args, '--status') || 'open';
+  if (!['open', 'resolved', 'all'].includes(status)) {
+    err('Usage: memory conflicts [--status open|resolved|all] [--json]');
+    process.exitCode = 1;
+    return;
+  }
+
+  const conflicts = loadMemoryConflicts(workspaceOf(args), status === 'all' ? {} : { status: status as MemoryConflictStatus });
+  if (args.includes('--json')) {
+    out(JSON.stringify(conflicts, null, 2));
+    return;
+  }
+
+  out(`Memory conflicts (${status}): ${conflicts.length}`);
+  for (const conflict of conflicts) out(describe(conflict));
+}
+
+export async function cmdMemoryResolve(args: string[]) {
+  const [conflictId, resolution] = positional(args);
+  if (!conflictId || !MEMORY_CONFLICT_RESOLUTIONS.includes(resolution as MemoryConflictResolution)) {
+    err(`Usage: memory resolve <conflictId> <${MEMORY_CONFLICT_RESOLUTIONS.join('|')}> [--by <reviewer>]`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const workspacePath = workspaceOf(args);
+  try {
+    const conflict = getMemoryConflict(workspacePath, conflictId);
+    if (!conflict) throw new Error(`Memory conflict ${conflictId} not found`);
+    const resolved = conflict.source === 'topic-anchor'
+      ? resolveTopicAnchorConflict(workspacePath, conflictId, resolution as MemoryConflictResolution, getFlag(args, '--by'))
+      : await new ClawTextMemory(workspacePath).resolveConflict(conflictId, resolution as MemoryConflictResolution, getFlag(args, '--by'));
+    out(`Resolved ${resolved.id}: ${resolved.resolution}`);
+  } catch (e) {
+    err(e instanceof Error ? e.message : String(e));
+    process.exitCode = 1;
+  }
+}
+
+export async function cmdMemorySalience(args: string[]) {
+  const thresholdFlag = getFlag(args, '--threshold');
+  const threshold = thresholdFlag === undefined ? undefined : Number(thresholdFlag);
+  if (threshold !== undefined && !(threshold > 0 && threshold <= 1)) {
+    err('--threshold must be a number in (0, 1]');
+    process.exitCode = 1;
+    return;
+  }
+
+  const report = buildSalienceReport(workspaceOf(args), { threshold });
+  const entries = args.includes('--all') ? report.entries : report.entries.filter(e => e.fading);
+  const limit = Number(getFlag(args, '--limit') || 20);
+  if (args.includes('--json')) {
+    out(JSON.stringify({ ...report, entries: entries.slice(0, limit) }, null, 2));
+    return;
+  }
+
+  out(`${report.total} memories: ${report.fading} fading (salience < ${report.threshold}), ${report.pinned} pinned`);
+  for (const entry of entries.slice(0, limit)) {
+    const halfLife = Number.isFinite(entry.effectiveHalfLifeDays) ? `${Math.round(entry.effectiveHalfLifeDays)}d` : 'never';
+    const flag = entry.pinned ? 'pinned' : entry.fading ? 'fading' : '';
+    out(`  ${entry.salience.toFixed(2)}  ${entry.id}  ${entry.type.padEnd(10)} ${Math.round(entry.ageDays)}d idle, half-life ${halfLife}  ${flag}`);
+    out(`        ${clip(entry.summary)}`);
+  }
+  if (entries.length > limit) out(`  … ${entries.length - limit} more (--limit)`);
+}
+
+export async function cmdMemoryPin(args: string[], pinned: boolean) {
+  const [id] = positional(args);
+  if (!id) {
+    err(`Usage: memory ${pinned ? 'pin' : 'unpin'} <memoryId>`);
+    process.exitCode = 1;
+    return;
+  }
+
+  try {
+    const memory = new ClawTextMemory(workspaceOf(args));
+    if (pinned) {
+      memory.pin(id, getFlag(args, '--by'));
+      out(`Pinned ${id}`);
+    } else {
+      out(memory.unpin(id) ? `Unpinned ${id}` : `${id} was not pinned`);
+    }
+  } catch (e) {
+    err(e instanceof Error ? e.message : String(e));
+    process.exitCode = 1;
+  }
+}
+
+export async function cmdMemoryGc(args: string[]) {
+  let report;
+  try {
+    report = runRetentionGc(workspaceOf(args), {
+      dryRun: args.includes('--dry-run'),
+      journalMaxAge: getFlag(args, '--journal-max-age'),
+    });
+  } catch (e) {
+    err(e instanceof Error ? e.message : String(e));
+    process.exitCode = 1;
+    return;
+  }
+  if (args.includes('--json')) {
+    out(JSON.stringify(report, null, 2));
+    return;
+  }
+
+  const verb = report.dryRun ? 'Would archive' : 'Archived';
+  const count = (kind: string) => report.archived.filter(a => a.kind === kind).length;
+  out(`${verb} ${count('api-memory')} of ${report.scanned.apiMemories} API memories, ${count('cluster-entry')} of ${report.scanned.clusterEntries} cluster entries, ${count('journal')} of ${report.scanned.journalFiles} journal files.`);
+  for (const [topic, summary] of Object.entries(report.topics)) {
+    const rules = summary.retention
+      ? [summary.retention.maxAge && `maxAge ${summary.retention.maxAge}`, summary.retention.maxEntries !== undefined && `maxEntries ${summary.retention.maxEntries}`].filter(Boolean).join(', ') || 'no limits'
+      : 'no retention';
+    out(`  ${topic.padEnd(24)} ${String(summary.archived).padStart(4)}/${summary.scanned}  (${rules})`);
+  }
+  if (report.pinnedKept > 0) out(`  ${report.pinnedKept} pinned entr${report.pinnedKept === 1 ? 'y' : 'ies'} kept past retention`);
+  out(`Report: ${report.id}${report.dryRun ? ' (dry run — nothing moved)' : ''}`);
+}
+
+export async function cmdMemoryArchive(args: string[]) {
+  const [sub, ...rest] = positional(args);
+  const workspacePath = workspaceOf(args);
+
+  if (sub === 'search' && rest.length > 0) {
+    const results = searchArchive(workspacePath, rest.join(' '), {
+      project: getFlag(args, '--project'),
+      limit: Number(getFlag(args, '--limit') || 10),
+    });
+    if (args.includes('--json')) {
+      out(JSON.stringify(results, null, 2));
+      return;
+    }
+    out(`${results.length} archived match(es)`);
+    for (const { memory, archive } of results) {
+      out(`  ${archive.id}  ${archive.project}  archived ${archive.archivedAt.slice(0, 10)} (${archive.reason})`);
+      out(`        ${clip(String(memory.body || memory.content || memory.summary || ''))}`);
+    }
+    return;
+  }
+
+  if (sub === 'restore' && rest.length === 1) {
+    try {
+      restoreArchivedMemory(workspacePath, rest[0]);
+      out(`Restored ${rest[0]}`);
+    } catch (e) {
+      err(e instanceof Error ? e.message : String(e));
+      process.exitCode = 1;
+    }
+    return;
+  }
+
+  err('Usage: memory archive search <query> [--project <p>] [--limit N] [--json] | memory archive restore <memoryId>');
+  process.exitCode = 1;
+}
+
+export async function memoryCLI(args: string[]) {
+  const cmd = args[0];
+
+  switch (cmd) {
+    case 'conflicts':
+      await cmdMemoryConflicts(args.slice(1));
+      break;
+    case 'resolve':
+      await cmdMemoryResolve(args.slice(1));
+      break;
+    case 'salience':
+      await cmdMemorySalience(args.slice(1));
+      break;
+    case 'pin':
+      await cmdMemoryPin(args.slice(1), true);
+      break;
+    case 'unpin':
+      await cmdMemoryPin(args.slice(1), false);
+      break;
+    case 'gc':
+      await cmdMemoryGc(args.slice(1));
+      break;
+    case 'archive':
+      await cmdMemoryArchive(args.slice(1));
+      break;
+    default:
+      out(`Memory commands:
+  memory conflicts [--status open|resolved|all] [--json]
+                                                   - Contradicting decisions queued for review (default: open)
+  memory resolve <conflictId> keep-newer|keep-older|keep-both [--by <reviewer>]
+                                                   - Confirm the supersession, or restore the older decision
+  memory salience [--threshold 0.5] [--all] [--limit 20] [--json]
+                                                   - Memories fading from retrieval, lowest salience first
+  memory pin <memoryId> [--by <who>]               - Keep a memory at full salience
+  memory unpin <memoryId>
+  memory gc [--dry-run] [--journal-max-age 90d] [--json]
+                                                   - Archive memories past their topic's retention (maxAge, maxEntries)
+  memory archive search <query> [--project <p>] [--limit N] [--json]
+  memory archive restore <memoryId>                - Bring an archived memory back
+
+  All memory commands accept --workspace <path> (default: $CLAWTEXT_WORKSPACE).`);
+  }
+}
@@ -0,0 +1,240 @@
+import {
+  explainPermissions,
+  simulatePermissionChange,
+  commitPermissionChange,
+  parsePermissionValue,
+  loadPermissionSnapshot,
+  isPermissionField,
+  PERMISSION_FIELDS,
+  type PermissionChange,
+  type PermissionField,
+  type PermissionValue,
+} from '../permissions/policy.js';
+import { getPermissionsRoot } from '../permissions/index.js';
+
+const defaultWorkspacePath = process.env.CLAWTEXT_WORKSPACE || '/home/lumadmin/.openclaw/workspace';
+
+function out(msg: string) {
+  console.log(msg);
+}
+
+function err(msg: string) {
+  console.error(`Error: ${msg}`);
+}
+
+function getFlag(args: string[], name: string): string | undefined {
+  const idx = args.indexOf(name);
+  return idx >= 0 ? args[idx + 1] : undefined;
+}
+
+function positional(args: string[]): string[] {
+  return args.filter((a, i) => !a.startsWith('--') && !args[i - 1]?.startsWith('--'));
+}
+
+function workspaceOf(args: string[]): string {
+  return getFlag(args, '--workspace') || defaultWorkspacePath;
+}
+
+function fmtValue(value: PermissionValue): string {
+  if (value === undefined) return '(unset)';
+  return Array.isArray(value) ? `[${value.join(', ')}]` : String(value);
+}
+
+function field(name: string | undefined): PermissionField {
+  if (!name || !isPermissionField(name)) {
+    throw new Error(`unknown permission field "${name ?? ''}" (expected: ${PERMISSION_FIELDS.join(', ')})`);
+  }
+  return name;
+}
+
+function required(value: string | undefined, usage: string): string {
+  if (!value) throw new Error(`Usage: ${usage}`);
+  return value;
+}
+
+/**
+ * Turn `role|defaults|vault|user ...` arguments into a change. Shared by the
+ * editing commands and `simulate`, so a simulated change is spelled exactly
+ * like the command that would apply it.
+ */
+export function parsePermissionChange(args: string[]): PermissionChange {
+  const [scope, action, ...rest] = positional(args);
+
+  switch (`${scope} ${action}`) {
+    case 'role create':
+      return { kind: 'role-create', roleId: required(rest[0], 'perms role create <roleId> [--name <display name>]'), displayName: getFlag(args, '--name') };
+    case 'role set': {
+      const usage = 'perms role set <roleId> <field> <value|unset>';
+      return { kind: 'role', roleId: required(rest[0], usage), field: field(rest[1]), value: parsePermissionValue(field(rest[1]), required(rest[2], usage)) };
+    }
+    case 'role add-member':
+    case 'role remove-member': {
+      const usage = `perms role ${action} <roleId> <userId>`;
+      return {
+        kind: 'role-member',
+        roleId: required(rest[0], usage),
+        userId: required(rest[1], usage),
+        action: action === 'add-member' ? 'add' : 'remove',
+      };
+    }
+    case 'defaults set': {
+      const usage = 'perms defaults set <field> <value|unset>';
+      return { kind: 'defaults', field: field(rest[0]), value: parsePermissionValue(field(rest[0]), required(rest[1], usage)) };
+    }
+    case 'vault set': {
+      const usage = 'perms vault set <vaultId> <field> <value|unset> [--role <roleId>]';
+      return {
+        kind: 'vault',
+        vaultId: required(rest[0], usage),
+        roleId: getFlag(args, '--role'),
+        field: field(rest[1]),
+        value: parsePermissionValue(field(rest[1]), required(rest[2], usage)),
+      };
+    }
+    case 'user set': {
+      const usage = 'perms user set <userId> <vaultId> <field> <value|unset>';
+      return {
+        kind: 'user',
+        userId: required(rest[0], usage),
+        vaultId: required(rest[1], usage),
+        field: field(rest[2]),
+        value: parsePermissionValue(field(rest[2]), required(rest[3], usage)),
+      };
+    }
+    default:
+      throw new Error(`Unknown permission change "${[scope, action].filter(Boolean).join(' ')}" (see: perms help)`);
+  }
+}
+
+// Perms CLI commands
+
+export async function cmdPermsList(args: string[]) {
+  const snapshot = loadPermissionSnapshot(getPermissionsRoot(workspaceOf(args)));
+  if (args.includes('--json')) {
+    out(JSON.stringify(snapshot, null, 2));
+    return;
+  }
+
+  const defaults = Object.entries(snapshot.defaults);
+  out(`Defaults: ${defaults.length === 0 ? '(built-in)' : defaults.map(([k, v]) => `${k}=${fmtValue(v)}`).join(', ')}`);
+  out(`Roles (${snapshot.roles.length}):`);
+  for (const role of snapshot.roles) {
+    const { roleId, displayName, members, ...perms } = role;
+    out(`  ${roleId} (${displayName}) members: ${members.join(', ') || '-'}`);
+    for (const [k, v] of Object.entries(perms)) out(`    ${k} = ${fmtValue(v)}`);
+  }
+  out(`Vault overrides (${snapshot.vaults.length}):`);
+  for (const vault of snapshot.vaults) {
+    for (const [k, v] of Object.entries(vault.globalOverride ?? {})) out(`  ${vault.vaultId}: ${k} = ${fmtValue(v)}`);
+    for (const [roleId, record] of Object.entries(vault.roleOverrides ?? {})) {
+      for (const [k, v] of Object.entries(record)) out(`  ${vault.vaultId} [role ${roleId}]: ${k} = ${fmtValue(v)}`);
+    }
+  }
+  out(`User overrides (${snapshot.users.length}):`);
+  for (const user of snapshot.users) {
+    const { userId, vaultId, ...perms } = user;
+    for (const [k, v] of Object.entries(perms)) out(`  ${userId} @ ${vaultId}: ${k} = ${fmtValue(v)}`);
+  }
+}
+
+export async function cmdPermsExplain(args: string[]) {
+  const [userId, vaultId] = positional(args);
+  if (!userId || !vaultId) {
+    err('Usage: perms explain <userId> <vaultId> [--json]');
+    process.exitCode = 1;
+    return;
+  }
+
+  const explanation = explainPermissions({ userId, vaultId }, workspaceOf(args));
+  if (args.includes('--json')) {
+    out(JSON.stringify(explanation, null, 2));
+    return;
+  }
+
+  out(`Permissions for ${userId} in vault ${vaultId} (roles: ${explanation.roles.join(', ') || 'none'}; source: ${explanation.source})`);
+  for (const entry of explanation.fields) {
+    out(`  ${entry.field.padEnd(26)} ${fmtValue(entry.value).padEnd(24)} ${entry.origin.ref}`);
+  }
+}
+
+export async function cmdPermsSimulate(args: string[]) {
+  let simulation;
+  try {
+    simulation = simulatePermissionChange(parsePermissionChange(args), workspaceOf(args));
+  } catch (e) {
+    err(e instanceof Error ? e.message : String(e));
+    process.exitCode = 1;
+    return;
+  }
+
+  if (args.includes('--json')) {
+    out(JSON.stringify(simulation, null, 2));
+    return;
+  }
+
+  out(`Simulating: ${positional(args).join(' ')}`);
+  for (const principal of simulation.affected) {
+    out(`  ${principal.userId} @ ${principal.vaultId}`);
+    for (const delta of principal.changes) {
+      const origin = delta.beforeOrigin.ref === delta.afterOrigin.ref
+        ? delta.afterOrigin.ref
+        : `${delta.beforeOrigin.ref} → ${delta.afterOrigin.ref}`;
+      out(`    ${delta.field}: ${fmtValue(delta.before)} → ${fmtValue(delta.after)}  (${origin})`);
+    }
+  }
+  out(`${simulation.affected.length} of ${simulation.principals} user/vault pair(s) affected. Nothing was written.`);
+}
+
+/**
+ * Apply one editing command (`role ...`, `defaults set`, `vault set`,
+ * `user set`). Each changed field is journaled to the Record.
+ */
+export async function cmdPermsChange(args: string[]) {
+  try {
+    const change = parsePermissionChange(args);
+    const changed = commitPermissionChange(change, workspaceOf(args));
+    out(changed === 0 ? 'No change.' : `Updated ${positional(args).slice(0, 3).join(' ')} (${changed} field${changed === 1 ? '' : 's'} changed)`);
+  } catch (e) {
+    err(e instanceof Error ? e.message : String(e));
+    process.exitCode = 1;
+  }
+}
+
+export async function permsCLI(args: string[]) {
+  const cmd = args[0];
+
+  switch (cmd) {
+    case 'list':
+      await cmdPermsList(args.slice(1));
+      break;
+    case 'explain':
+      await cmdPermsExplain(args.slice(1));
+      break;
+    case 'simulate':
+      await cmdPermsSimulate(args.slice(1));
+      break;
+    case 'role':
+    case 'defaults':
+    case 'vault':
+    case 'user':
+      await cmdPermsChange(args);
+      break;
+    default:
+      out(`Perms commands:
+  perms list [--json]                              - Show defaults, roles, vault and user overrides
+  perms explain <userId> <vaultId> [--json]        - Resolved permissions and the layer that set each field
+  perms role create <roleId> [--name <display>]    - Create an empty role
+  perms role set <roleId> <field> <value|unset>    - Set a role field
+  perms role add-member|remove-member <roleId> <userId>
+  perms defaults set <field> <value|unset>         - Set a global default
+  perms vault set <vaultId> <field> <value|unset> [--role <roleId>]
+                                                   - Set a vault override (for one role with --role)
+  perms user set <userId> <vaultId> <field> <value|unset>
+                                                   - Set a user override
+  perms simulate <any change above> [--json]       - Show what the change would alter for every known user × vault
+
+  Lists are comma-separated. Fields: ${PERMISSION_FIELDS.join(', ')}.
+  All perms commands accept --workspace <path> (default: $CLAWTEXT_WORKSPACE).
+  Changes are journaled to the Record as vault.permission_changed.`);
+  }
+}
@@ -0,0 +1,334 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  getRecordStatus,
+  verifyChain,
+  createSnapshot,
+  compactJournal,
+  emitTransaction,
+  recordNodeRegistered,
+} from '../record/index.js';
+import { loadNodeRegistry } from '../fleet/index.js';
+import { syncWithPeers } from '../peer/index.js';
+import { startPeerServer } from '../peer/server.js';
+import { reconcileJournal } from '../record/merge.js';
+import { replayJournal } from '../record/replay.js';
+import {
+  generateNodeKeyPair,
+  loadNodePublicKey,
+  keyFingerprint,
+  trustPeerKey,
+  signaturesRequired,
+} from '../record/signing.js';
+
+const workspacePath = process.env.CLAWTEXT_WORKSPACE || '/home/lumadmin/.openclaw/workspace';
+const defaultStateRoot = path.join(workspacePath, 'state', 'clawtext', 'prod');
+
+function out(msg: string) {
+  console.log(msg);
+}
+
+function err(msg: string) {
+  console.error(`Error: ${msg}`);
+}
+
+function getFlag(args: string[], name: string): string | undefined {
+  const idx = args.indexOf(name);
+  return idx >= 0 ? args[idx + 1] : undefined;
+}
+
+function resolveStateRoot(args: string[]): string {
+  return getFlag(args, '--state-root') || process.env.CLAWTEXT_STATE_ROOT || defaultStateRoot;
+}
+
+// Record CLI commands
+
+export async function cmdRecordServe(args: string[]) {
+  const stateRoot = resolveStateRoot(args);
+  const portArg = getFlag(args, '--port');
+  const port = portArg !== undefined ? Number(portArg) : undefined;
+
+  if (port !== undefined && (!Number.isInteger(port) || port < 0 || port > 65535)) {
+    err(`Invalid port "${portArg}"`);
+    return;
+  }
+
+  const running = await startPeerServer({
+    port,
+    host: getFlag(args, '--host'),
+    basePath: getFlag(args, '--base-path'),
+    nodeId: getFlag(args, '--node-id'),
+    stateRoot,
+    log: args.includes('--quiet') ? undefined : out,
+  });
+
+  out(`Record peer server listening on ${running.url}`);
+  out(`  state root: ${stateRoot}`);
+  out('  routes: POST /push, GET /pull, GET /status, POST /heartbeat, GET /health');
+
+  const shutdown = () => {
+    out('\nShutting down record peer server...');
+    running.close().finally(() => process.exit(0));
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+}
+
+export async function cmdRecordStatus(args: string[]) {
+  const status = getRecordStatus(resolveStateRoot(args));
+  out('Record Status:');
+  out(`  path: ${status.path}`);
+  out(`  seq: ${status.lastSeq}`);
+  out(`  entries: ${status.count}`);
+  out(`  lastHash: ${status.lastHash ?? '(none)'}`);
+  const segments = status.segments ?? [];
+  out(`  segments: ${segments.length} sealed (${segments.filter((s) => s.archived).length} archived)`);
+  out(`  snapshot: ${status.snapshotSeq !== undefined ? `seq ${status.snapshotSeq}` : '(none)'}`);
+  out(`  updated: ${status.updatedAt}`);
+}
+
+export async function cmdRecordVerify(args: string[]) {
+  const result = verifyChain(resolveStateRoot(args), {
+    requireSignatures: args.includes('--require-signatures'),
+    fromSnapshot: args.includes('--from-snapshot'),
+  });
+  const sigs = result.signatures;
+  if (result.valid) {
+    const since = result.snapshotSeq !== undefined ? ` after snapshot at seq ${result.snapshotSeq}` : '';
+    out(`Chain intact (${result.checked} entries${since}).`);
+    out(`  signatures: ${sigs.valid} valid, ${sigs.unsigned} unsigned, ${sigs.unknownSigner} unknown signer`);
+  } else {
+    err(`Chain broken at seq ${result.firstBadSeq}: ${result.reason}`);
+    process.exitCode = 1;
+  }
+}
+
+export async function cmdRecordSync(args: string[]) {
+  const results = await syncWithPeers(resolveStateRoot(args));
+  if (results.length === 0) {
+    out('No online peers to sync with.');
+    return;
+  }
+  for (const r of results) {
+    out(`  ${r.peer}: pulled ${r.pulled}, pushed ${r.pushed}, conflicts ${r.conflicts}${r.errors.length ? ` — errors: ${r.errors.join('; ')}` : ''}`);
+  }
+}
+
+export async function cmdRecordReconcile(args: string[]) {
+  const report = reconcileJournal(resolveStateRoot(args));
+
+  if (args.includes('--json')) {
+    out(JSON.stringify(report, null, 2));
+    return;
+  }
+
+  out(`Reconciled ${report.transactions} transactions from ${report.nodes.length} node(s): ${report.nodes.join(', ') || '(none)'}`);
+  out(`  promotions: ${Object.keys(report.state.promotions).length}, permissions: ${Object.keys(report.state.permissions).length}, patterns: ${Object.keys(report.state.patterns).length}`);
+  if (report.conflicts.length === 0) {
+    out('  No concurrent writes.');
+    return;
+  }
+  out(`\nConflicts (${report.conflicts.length}):`);
+  for (const c of report.conflicts) {
+    out(`  ${c.type} ${c.key}`);
+    out(`    rule: ${c.rule}, nodes: ${c.nodes.join(', ')}`);
+    out(`    winner: ${c.winner} → ${JSON.stringify(c.resolvedValue)}`);
+    out(`    superseded: ${c.losers.join(', ')}`);
+  }
+}
+
+export async function cmdRecordSnapshot(args: string[]) {
+  const snapshot = createSnapshot(resolveStateRoot(args));
+  out(`Snapshot at seq ${snapshot.seq} (${snapshot.hash ?? 'empty journal'})`);
+  out(`  signed: ${snapshot.signature ? `yes, by ${snapshot.sourceNode}` : 'no (no node key)'}`);
+}
+
+export async function cmdRecordCompact(args: string[]) {
+  const keepArg = getFlag(args, '--keep-segments');
+  const keepSegments = keepArg !== undefined ? Number(keepArg) : undefined;
+  if (keepSegments !== undefined && (!Number.isInteger(keepSegments) || keepSegments < 0)) {
+    err(`Invalid segment count "${keepArg}"`);
+    return;
+  }
+
+  const result = compactJournal(resolveStateRoot(args), { keepSegments });
+  out(`Compacted journal at seq ${result.snapshot.seq}: ${result.segments} sealed segment(s)`);
+  if (result.archived.length === 0) {
+    out('  No segments archived.');
+    return;
+  }
+  for (const segment of result.archived) {
+    out(`  archived ${segment.file} (seq ${segment.firstSeq}–${segment.lastSeq}, ${segment.count} entries)`);
+  }
+}
+
+export async function cmdRecordReplay(args: string[]) {
+  const targetWorkspace = getFlag(args, '--out');
+  if (!targetWorkspace) {
+    err('Usage: record replay --out <workspace> [--to-seq N] [--until ISO] [--journal <transactions.jsonl>]');
+    return;
+  }
+
+  const toSeqArg = getFlag(args, '--to-seq');
+  const toSeq = toSeqArg !== undefined ? Number(toSeqArg) : undefined;
+  if (toSeq !== undefined && (!Number.isInteger(toSeq) || toSeq < 0)) {
+    err(`Invalid seq "${toSeqArg}"`);
+    return;
+  }
+
+  let report;
+  try {
+    report = replayJournal({
+      targetWorkspace,
+      stateRoot: resolveStateRoot(args),
+      journalPath: getFlag(args, '--journal'),
+      toSeq,
+      until: getFlag(args, '--until'),
+    });
+  } catch (e) {
+    err(e instanceof Error ? e.message : String(e));
+    process.exitCode = 1;
+    return;
+  }
+
+  if (args.includes('--json')) {
+    out(JSON.stringify(report, null, 2));
+    return;
+  }
+
+  out(`Replayed ${report.transactions} transactions (through seq ${report.lastSeq}, ${report.lastTimestamp ?? 'empty journal'})`);
+  out(`  into: ${report.targetWorkspace}`);
+  out(`  memories: ${report.memories}, promotions: ${report.promotions.applied}, patterns: ${report.patterns}, failures: ${report.failures}`);
+  out(`  library entries: ${report.libraryEntries}, permissions: ${report.permissions}, conflicts: ${report.conflicts.length}`);
+  if (report.promotions.unmatched.length > 0) {
+    out(`  promotions for memories not in the journal: ${report.promotions.unmatched.join(', ')}`);
+  }
+}
+
+export async function cmdRecordKeysGenerate(args: string[]) {
+  const stateRoot = resolveStateRoot(args);
+  try {
+    const info = generateNodeKeyPair(stateRoot, { force: args.includes('--force') });
+    out(`Generated Ed25519 node key ${info.fingerprint}`);
+    out(`  private key: ${info.privateKeyPath}`);
+    out('  Share the public key with peers: record keys show --pem');
+  } catch (e) {
+    err(e instanceof Error ? e.message : String(e));
+    process.exitCode = 1;
+  }
+}
+
+export async function cmdRecordKeysShow(args: string[]) {
+  const stateRoot = resolveStateRoot(args);
+  const publicKey = loadNodePublicKey(stateRoot);
+  if (!publicKey) {
+    out('No node key. Run: record keys generate');
+    return;
+  }
+  if (args.includes('--pem')) {
+    process.stdout.write(publicKey);
+    return;
+  }
+  out(`Node key: ${keyFingerprint(publicKey)}`);
+  out(`  signatures required: ${signaturesRequired(stateRoot)}`);
+}
+
+export async function cmdRecordKeysTrust(args: string[]) {
+  const positional = args.filter((a, i) => !a.startsWith('--') && !args[i - 1]?.startsWith('--'));
+  if (positional.length < 2) {
+    err('Usage: record keys trust <node-id> <public-key.pem>');
+    return;
+  }
+
+  const [nodeId, pemPath] = positional;
+  const stateRoot = resolveStateRoot(args);
+  const known = Boolean(loadNodeRegistry(stateRoot).nodes[nodeId]);
+  let fingerprint: string;
+  try {
+    fingerprint = trustPeerKey(nodeId, fs.readFileSync(pemPath, 'utf-8'), stateRoot);
+  } catch (e) {
+    err(`Could not load public key from ${pemPath}: ${e instanceof Error ? e.message : String(e)}`);
+    process.exitCode = 1;
+    return;
+  }
+  if (!known) {
+    emitTransaction(() => recordNodeRegistered(nodeId, { displayName: nodeId, keyFingerprint: fingerprint, via: 'keys trust' }, { stateRoot }));
+  }
+  out(`Trusted ${nodeId} → ${fingerprint}`);
+}
+
+export async function recordKeysCLI(args: string[]) {
+  const cmd = args[0];
+  const cmdArgs = args.slice(1);
+
+  switch (cmd) {
+    case 'generate':
+      await cmdRecordKeysGenerate(cmdArgs);
+      break;
+    case 'show':
+      await cmdRecordKeysShow(cmdArgs);
+      break;
+    case 'trust':
+      await cmdRecordKeysTrust(cmdArgs);
+      break;
+    default:
+      out(`Record key commands:
+  record keys generate [--force]        - Create this node's Ed25519 signing key
+  record keys show [--pem]              - Show key fingerprint (or the public key PEM)
+  record keys trust <node-id> <pem>     - Register a peer's public key in fleet/nodes.json`);
+  }
+}
+
+export async function recordCLI(args: string[]) {
+  const cmd = args[0];
+  const cmdArgs = args.slice(1);
+
+  switch (cmd) {
+    case 'serve':
+      await cmdRecordServe(cmdArgs);
+      break;
+    case 'status':
+      await cmdRecordStatus(cmdArgs);
+      break;
+    case 'verify':
+      await cmdRecordVerify(cmdArgs);
+      break;
+    case 'sync':
+      await cmdRecordSync(cmdArgs);
+      break;
+    case 'keys':
+      await recordKeysCLI(cmdArgs);
+      break;
+    case 'reconcile':
+      await cmdRecordReconcile(cmdArgs);
+      break;
+    case 'replay':
+      await cmdRecordReplay(cmdArgs);
+      break;
+    case 'snapshot':
+      await cmdRecordSnapshot(cmdArgs);
+      break;
+    case 'compact':
+      await cmdRecordCompact(cmdArgs);
+      break;
+    default:
+      out(`Record commands:
+  record serve [--port N] [--host H] [--base-path P] [--node-id ID]
+                        - Serve the peer replication protocol (push, pull, status, heartbeat)
+  record status         - Show local journal seq, count, last hash, segments and snapshot
+  record verify [--require-signatures] [--from-snapshot]
+                        - Verify hash chain and transaction signatures
+  record snapshot       - Write a signed snapshot of the chain head
+  record compact [--keep-segments N]
+                        - Seal the active segment, snapshot, and gzip older segments
+  record sync           - Push/pull with all online peers in fleet/nodes.json
+  record reconcile [--json]
+                        - Resolve concurrent writes and show the merge report
+  record replay --out <workspace> [--to-seq N] [--until ISO] [--journal FILE] [--json]
+                        - Rebuild memories, patterns, library and permissions from the journal
+  record keys generate|show|trust
+                        - Manage Ed25519 node keys
+
+  All record commands accept --state-root <path> (default: $CLAWTEXT_STATE_ROOT or workspace prod state).`);
+  }
+}
@@ -0,0 +1,305 @@
+import type { DatabaseSync } from 'node:sqlite';
+import { openDatabase } from '../session-intelligence/db.js';
+import {
+  getSlotDefinition,
+  loadSlotSchema,
+  mergeSlotItems,
+  normalizeSlotItem,
+  parseSlotItems,
+} from '../session-intelligence/slot-schema.js';
+import {
+  deleteStateSlot,
+  getAllStateSlots,
+  getStateSlot,
+  pinStateSlot,
+  unpinStateSlot,
+  upsertStateSlot,
+} from '../session-intelligence/state-slots.js';
+
+const defaultWorkspacePath = process.env.CLAWTEXT_WORKSPACE || '/home/lumadmin/.openclaw/workspace';
+
+// Kernel and overlay are rebuilt from ACA files on bootstrap; not edited here
+const SYSTEM_SLOTS = new Set(['identity_kernel', 'active_overlay']);
+
+function out(msg: string) {
+  console.log(msg);
+}
+
+function err(msg: string) {
+  console.error(`Error: ${msg}`);
+}
+
+function getFlag(args: string[], name: string): string | undefined {
+  const idx = args.indexOf(name);
+  return idx >= 0 ? args[idx + 1] : undefined;
+}
+
+function positional(args: string[]): string[] {
+  return args.filter((a, i) => !a.startsWith('--') && !args[i - 1]?.startsWith('--'));
+}
+
+function workspaceOf(args: string[]): string {
+  return getFlag(args, '--workspace') || defaultWorkspacePath;
+}
+
+function fail(e: unknown) {
+  err(e instanceof Error ? e.message : String(e));
+  process.exitCode = 1;
+}
+
+function usage(msg: string) {
+  err(`Usage: ${msg}`);
+  process.exitCode = 1;
+}
+
+function withDatabase<T>(args: string[], fn: (db: DatabaseSync) => T): T {
+  const db = openDatabase(workspaceOf(args));
+  try {
+    return fn(db);
+  } finally {
+    db.close();
+  }
+}
+
+function conversationIdOf(db: DatabaseSync, sessionKey: string): number {
+  const row = db
+    .prepare('SELECT id FROM conversations WHERE session_key = ? LIMIT 1')
+    .get(sessionKey) as { id: number } | undefined;
+  if (!row) throw new Error(`No conversation for session "${sessionKey}" (see: slots sessions)`);
+  return row.id;
+}
+
+function assertEditable(slotName: string) {
+  if (SYSTEM_SLOTS.has(slotName)) throw new Error(`${slotName} is rebuilt from identity files and cannot be edited here`);
+}
+
+// Slots CLI commands
+
+export async function cmdSlotsSessions(args: string[]) {
+  const rows = withDatabase(args, (db) => db
+    .prepare(
+      `SELECT c.session_key, c.updated_at, COUNT(s.id) AS slots
+         FROM conversations c
+         LEFT JOIN state_slots s ON s.conversation_id = c.id
+        GROUP BY c.id
+        ORDER BY c.updated_at DESC`,
+    )
+    .all() as Array<{ session_key: string; updated_at: string; slots: number }>);
+
+  if (args.includes('--json')) {
+    out(JSON.stringify(rows.map((r) => ({ sessionKey: r.session_key, updatedAt: r.updated_at, slots: r.slots })), null, 2));
+    return;
+  }
+  out(`Conversations: ${rows.length}`);
+  for (const row of rows) out(`  ${row.session_key}  ${row.slots} slot(s), updated ${row.updated_at.slice(0, 19)}`);
+}
+
+export async function cmdSlotsList(args: string[]) {
+  const [sessionKey] = positional(args);
+  if (!sessionKey) return usage('slots list <sessionKey> [--all] [--json]');
+
+  try {
+    const schema = loadSlotSchema(workspaceOf(args));
+    const slots = withDatabase(args, (db) => getAllStateSlots(db, conversationIdOf(db, sessionKey)))
+      .filter((slot) => args.includes('--all') || !SYSTEM_SLOTS.has(slot.slotName));
+    if (args.includes('--json')) {
+      out(JSON.stringify(slots.map((slot) => ({ ...slot, items: parseSlotItems(slot.content) })), null, 2));
+      return;
+    }
+
+    out(`Slots for ${sessionKey}: ${slots.length}`);
+    for (const slot of slots) {
+      const definition = getSlotDefinition(schema, slot.slotName);
+      const flags = [definition?.merge ?? 'unmanaged', slot.isPinned ? 'pinned' : '', slot.loadedFrom ?? ''].filter(Boolean).join(', ');
+      out(`  ${slot.slotName} (${flags})`);
+      for (const item of parseSlotItems(slot.content).slice(0, 10)) out(`      ${item.slice(0, 120)}`);
+    }
+  } catch (e) {
+    fail(e);
+  }
+}
+
+export async function cmdSlotsShow(args: string[]) {
+  const [sessionKey, slotName] = positional(args);
+  if (!sessionKey || !slotName) return usage('slots show <sessionKey> <slot> [--json]');
+
+  try {
+    const slot = withDatabase(args, (db) => getStateSlot(db, conversationIdOf(db, sessionKey), slotName));
+    if (!slot) throw new Error(`Slot ${slotName} is empty for ${sessionKey}`);
+    if (args.includes('--json')) {
+      out(JSON.stringify({ slotName, ...slot, items: parseSlotItems(slot.content) }, null, 2));
+      return;
+    }
+    parseSlotItems(slot.content).forEach((item, i) => out(`${String(i + 1).padStart(3)}. ${item}`));
+  } catch (e) {
+    fail(e);
+  }
+}
+
+export async function cmdSlotsSet(args: string[]) {
+  const [sessionKey, slotName, ...rest] = positional(args);
+  const text = rest.join(' ').replace(/\\n/g, '\n');
+  if (!sessionKey || !slotName || !text.trim()) return usage('slots set <sessionKey> <slot> <text> [--pin]   (use \\n between items)');
+
+  try {
+    assertEditable(slotName);
+    const items = parseSlotItems(text).map(normalizeSlotItem);
+    withDatabase(args, (db) => {
+      const conversationId = conversationIdOf(db, sessionKey);
+      const isPinned = args.includes('--pin') || getStateSlot(db, conversationId, slotName)?.isPinned === true;
+      upsertStateSlot(db, conversationId, slotName, items.join('\n'), { loadedFrom: 'manual', isPinned });
+    });
+    out(`Set ${slotName} (${items.length} item(s))${args.includes('--pin') ? ', pinned' : ''}`);
+  } catch (e) {
+    fail(e);
+  }
+}
+
+export async function cmdSlotsAdd(args: string[]) {
+  const [sessionKey, slotName, ...rest] = positional(args);
+  const item = rest.join(' ');
+  if (!sessionKey || !slotName || !item.trim()) return usage('slots add <sessionKey> <slot> <item>');
+
+  try {
+    assertEditable(slotName);
+    const definition = getSlotDefinition(loadSlotSchema(workspaceOf(args)), slotName) ?? { merge: 'append' as const };
+    const items = withDatabase(args, (db) => {
+      const conversationId = conversationIdOf(db, sessionKey);
+      const existing = getStateSlot(db, conversationId, slotName);
+      const next = mergeSlotItems(definition, parseSlotItems(existing?.content), [item]);
+      upsertStateSlot(db, conversationId, slotName, next.join('\n'), { loadedFrom: 'manual', isPinned: existing?.isPinned === true });
+      return next;
+    });
+    out(`${slotName} now holds ${items.length} item(s) (${definition.merge})`);
+  } catch (e) {
+    fail(e);
+  }
+}
+
+export async function cmdSlotsRemove(args: string[]) {
+  const [sessionKey, slotName, ...rest] = positional(args);
+  const target = rest.join(' ');
+  if (!sessionKey || !slotName || !target) return usage('slots remove <sessionKey> <slot> <item number|text>');
+
+  try {
+    assertEditable(slotName);
+    const removed = withDatabase(args, (db) => {
+      const conversationId = conversationIdOf(db, sessionKey);
+      const existing = getStateSlot(db, conversationId, slotName);
+      const items = parseSlotItems(existing?.content);
+      const index = /^\d+$/.test(target)
+        ? Number(target) - 1
+        : items.findIndex((entry) => entry.toLowerCase() === target.toLowerCase());
+      if (!existing || index < 0 || index >= items.length) throw new Error(`No item "${target}" in ${slotName}`);
+
+      const [gone] = items.splice(index, 1);
+      if (items.length === 0) {
+        deleteStateSlot(db, conversationId, slotName);
+      } else {
+        upsertStateSlot(db, conversationId, slotName, items.join('\n'), { loadedFrom: 'manual', isPinned: existing.isPinned });
+      }
+      return gone;
+    });
+    out(`Removed from ${slotName}: ${removed}`);
+  } catch (e) {
+    fail(e);
+  }
+}
+
+export async function cmdSlotsClear(args: string[]) {
+  const [sessionKey, slotName] = positional(args);
+  if (!sessionKey || !slotName) return usage('slots clear <sessionKey> <slot>');
+
+  try {
+    assertEditable(slotName);
+    const deleted = withDatabase(args, (db) => deleteStateSlot(db, conversationIdOf(db, sessionKey), slotName));
+    out(deleted ? `Cleared ${slotName}` : `${slotName} was already empty`);
+  } catch (e) {
+    fail(e);
+  }
+}
+
+export async function cmdSlotsPin(args: string[], pin: boolean) {
+  const [sessionKey, slotName] = positional(args);
+  if (!sessionKey || !slotName) return usage(`slots ${pin ? 'pin' : 'unpin'} <sessionKey> <slot>`);
+
+  try {
+    withDatabase(args, (db) => {
+      const conversationId = conversationIdOf(db, sessionKey);
+      if (!getStateSlot(db, conversationId, slotName)) throw new Error(`Slot ${slotName} is empty for ${sessionKey}`);
+      if (pin) pinStateSlot(db, conversationId, slotName);
+      else unpinStateSlot(db, conversationId, slotName);
+    });
+    out(pin ? `Pinned ${slotName}; extraction will leave it alone` : `Unpinned ${slotName}`);
+  } catch (e) {
+    fail(e);
+  }
+}
+
+export async function cmdSlotsSchema(args: string[]) {
+  try {
+    const schema = loadSlotSchema(workspaceOf(args));
+    if (args.includes('--json')) {
+      out(JSON.stringify(schema, null, 2));
+      return;
+    }
+    out(`Slot schema: ${schema.slots.length} slot(s)`);
+    for (const slot of schema.slots) {
+      const cap = slot.maxItems ? ` max ${slot.maxItems}` : '';
+      const extractors = slot.extractors.map((e) => (e.type === 'classifier' ? `classifier:${e.classifier}` : e.type)).join(', ');
+      out(`  ${slot.name}${slot.enabled === false ? ' (disabled)' : ''}  ${slot.merge}${cap}  [${extractors}]${slot.description ? `  ${slot.description}` : ''}`);
+    }
+  } catch (e) {
+    fail(e);
+  }
+}
+
+export async function slotsCLI(args: string[]) {
+  const cmd = args[0];
+
+  switch (cmd) {
+    case 'sessions':
+      await cmdSlotsSessions(args.slice(1));
+      break;
+    case 'list':
+      await cmdSlotsList(args.slice(1));
+      break;
+    case 'show':
+      await cmdSlotsShow(args.slice(1));
+      break;
+    case 'set':
+      await cmdSlotsSet(args.slice(1));
+      break;
+    case 'add':
+      await cmdSlotsAdd(args.slice(1));
+      break;
+    case 'remove':
+      await cmdSlotsRemove(args.slice(1));
+      break;
+    case 'clear':
+      await cmdSlotsClear(args.slice(1));
+      break;
+    case 'pin':
+      await cmdSlotsPin(args.slice(1), true);
+      break;
+    case 'unpin':
+      await cmdSlotsPin(args.slice(1), false);
+      break;
+    case 'schema':
+      await cmdSlotsSchema(args.slice(1));
+      break;
+    default:
+      out(`State slot commands:
+  slots sessions [--json]                      - Conversations with their slot counts
+  slots list <sessionKey> [--all] [--json]     - A conversation's slots (--all includes kernel/overlay)
+  slots show <sessionKey> <slot> [--json]      - Items of one slot
+  slots set <sessionKey> <slot> <text> [--pin] - Replace a slot (\\n separates items)
+  slots add <sessionKey> <slot> <item>         - Merge one item using the slot's merge policy
+  slots remove <sessionKey> <slot> <n|text>    - Drop one item
+  slots clear <sessionKey> <slot>              - Delete the slot
+  slots pin|unpin <sessionKey> <slot>          - Pinned slots are not touched by extraction
+  slots schema [--json]                        - Active slot schema (.clawtext/slot-schema.json over defaults)
+
+  All slots commands accept --workspace <path> (default: $CLAWTEXT_WORKSPACE).`);
+  }
+}
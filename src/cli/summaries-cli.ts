@@ -0,0 +1,239 @@
+import fs from 'fs';
+import type { DatabaseSync } from 'node:sqlite';
+import { resolveCompactorConfig, resummarizeSubtree, SummarizationTracker } from '../session-intelligence/compactor.js';
+import { openDatabase } from '../session-intelligence/db.js';
+import {
+  compareSummaryToSources,
+  findSummaryNode,
+  getSummaryRevisions,
+  getSummaryRow,
+  getSummaryTree,
+  parseSummaryId,
+  renderSummaryComparison,
+  renderSummaryTree,
+} from '../session-intelligence/summary-tree.js';
+
+const defaultWorkspacePath = process.env.CLAWTEXT_WORKSPACE || '/home/lumadmin/.openclaw/workspace';
+const defaultEndpoint = process.env.CLAWTEXT_SUMMARIZATION_URL || 'http://127.0.0.1:4141/v1/chat/completions';
+
+// A CLI rewrite is deliberate; allow more calls than the compactor's hourly cap
+const CLI_MAX_CALLS = 50;
+
+function out(msg: string) {
+  console.log(msg);
+}
+
+function err(msg: string) {
+  console.error(`Error: ${msg}`);
+}
+
+function getFlag(args: string[], name: string): string | undefined {
+  const idx = args.indexOf(name);
+  return idx >= 0 ? args[idx + 1] : undefined;
+}
+
+function positional(args: string[]): string[] {
+  return args.filter((a, i) => !a.startsWith('--') && !args[i - 1]?.startsWith('--'));
+}
+
+function workspaceOf(args: string[]): string {
+  return getFlag(args, '--workspace') || defaultWorkspacePath;
+}
+
+function fail(e: unknown) {
+  err(e instanceof Error ? e.message : String(e));
+  process.exitCode = 1;
+}
+
+function usage(msg: string) {
+  err(`Usage: ${msg}`);
+  process.exitCode = 1;
+}
+
+function withDatabase<T>(args: string[], fn: (db: DatabaseSync) => T): T {
+  const db = openDatabase(workspaceOf(args));
+  try {
+    return fn(db);
+  } finally {
+    db.close();
+  }
+}
+
+function conversationIdOf(db: DatabaseSync, sessionKey: string): number {
+  const row = db
+    .prepare('SELECT id FROM conversations WHERE session_key = ? LIMIT 1')
+    .get(sessionKey) as { id: number } | undefined;
+  if (!row) throw new Error(`No conversation for session "${sessionKey}"`);
+  return row.id;
+}
+
+function summaryIdOf(db: DatabaseSync, value: string): number {
+  const id = parseSummaryId(value);
+  if (id === null || !getSummaryRow(db, id)) throw new Error(`No summary ${value}`);
+  return id;
+}
+
+/** OpenAI-compatible chat completions; unlike the plugin's api it sends the requested model. */
+function chatCompletionsApi(endpoint: string) {
+  return {
+    async complete(model: string, prompt: string): Promise<string> {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(process.env.CLAWTEXT_SUMMARIZATION_KEY ? { Authorization: `Bearer ${process.env.CLAWTEXT_SUMMARIZATION_KEY}` } : {}),
+        },
+        body: JSON.stringify({ model, messages: [{ role: 'user', content: prompt }] }),
+      });
+      if (!response.ok) throw new Error(`${endpoint} answered ${response.status}`);
+      const data = await response.json() as { choices?: Array<{ message?: { content?: string } }> };
+      const content = data.choices?.[0]?.message?.content;
+      if (typeof content !== 'string' || content.trim().length === 0) throw new Error('empty completion');
+      return content.trim();
+    },
+  };
+}
+
+// Summaries CLI commands
+
+export async function cmdSummariesTree(args: string[]) {
+  const [sessionKey] = positional(args);
+  if (!sessionKey) return usage('summaries tree <sessionKey> [--from <summaryId>] [--full] [--json]');
+
+  try {
+    const from = getFlag(args, '--from');
+    const nodes = withDatabase(args, (db) => {
+      const forest = getSummaryTree(db, conversationIdOf(db, sessionKey));
+      if (!from) return forest;
+      const node = findSummaryNode(forest, summaryIdOf(db, from));
+      if (!node) throw new Error(`${from} does not belong to ${sessionKey}`);
+      return [node];
+    });
+
+    if (args.includes('--json')) {
+      out(JSON.stringify(nodes, null, 2));
+      return;
+    }
+    if (nodes.length === 0) {
+      out(`No summaries for ${sessionKey}`);
+      return;
+    }
+    for (const line of renderSummaryTree(nodes, { full: args.includes('--full') })) out(line);
+  } catch (e) {
+    fail(e);
+  }
+}
+
+export async function cmdSummariesDiff(args: string[]) {
+  const [summaryId] = positional(args);
+  if (!summaryId) return usage('summaries diff <summaryId> [--messages] [--json]');
+
+  try {
+    const comparison = withDatabase(args, (db) => compareSummaryToSources(db, summaryIdOf(db, summaryId), {
+      against: args.includes('--messages') ? 'messages' : undefined,
+    }));
+    if (!comparison) throw new Error(`No summary ${summaryId}`);
+
+    if (args.includes('--json')) {
+      out(JSON.stringify(comparison, null, 2));
+      return;
+    }
+    for (const line of renderSummaryComparison(comparison)) out(line);
+  } catch (e) {
+    fail(e);
+  }
+}
+
+export async function cmdSummariesResummarize(args: string[]) {
+  const [summaryId] = positional(args);
+  const model = getFlag(args, '--model');
+  if (!summaryId || !model) {
+    return usage('summaries resummarize <summaryId> --model <model> [--prompt <text> | --prompt-file <path>] [--endpoint <url>] [--reason <text>]');
+  }
+
+  try {
+    const promptFile = getFlag(args, '--prompt-file');
+    const instructions = promptFile ? fs.readFileSync(promptFile, 'utf8') : getFlag(args, '--prompt');
+    const endpoint = getFlag(args, '--endpoint') || defaultEndpoint;
+
+    const db = openDatabase(workspaceOf(args));
+    try {
+      const result = await resummarizeSubtree(
+        db,
+        chatCompletionsApi(endpoint),
+        summaryIdOf(db, summaryId),
+        resolveCompactorConfig({ summarizationModel: model }),
+        new SummarizationTracker(CLI_MAX_CALLS),
+        { instructions, reason: getFlag(args, '--reason') ?? 'cli' },
+      );
+
+      if (args.includes('--json')) {
+        out(JSON.stringify(result, null, 2));
+        return;
+      }
+      out(`Rewrote ${result.updatedIds.length} summary(ies) with ${model}: ${result.updatedIds.map((id) => `sum-${id}`).join(', ') || 'none'}`);
+      if (result.skippedIds.length > 0) {
+        out(`Left as they were (source messages gone): ${result.skippedIds.map((id) => `sum-${id}`).join(', ')}`);
+      }
+      if (result.reason) {
+        out(`Stopped early: ${result.reason}`);
+        process.exitCode = 1;
+      }
+    } finally {
+      db.close();
+    }
+  } catch (e) {
+    fail(e);
+  }
+}
+
+export async function cmdSummariesRevisions(args: string[]) {
+  const [summaryId] = positional(args);
+  if (!summaryId) return usage('summaries revisions <summaryId> [--json]');
+
+  try {
+    const revisions = withDatabase(args, (db) => getSummaryRevisions(db, summaryIdOf(db, summaryId)));
+    if (args.includes('--json')) {
+      out(JSON.stringify(revisions, null, 2));
+      return;
+    }
+    out(`Earlier versions of ${summaryId}: ${revisions.length}`);
+    for (const revision of revisions) {
+      const via = [revision.model, revision.reason].filter(Boolean).join(', ');
+      out(`  #${revision.id}  replaced ${revision.createdAt.slice(0, 19)}${via ? ` (${via})` : ''}`);
+      if (revision.prompt) out(`      prompt: ${revision.prompt.replace(/\s+/g, ' ').slice(0, 120)}`);
+      out(`      ${revision.content.replace(/\s+/g, ' ').slice(0, 200)}`);
+    }
+  } catch (e) {
+    fail(e);
+  }
+}
+
+export async function summariesCLI(args: string[]) {
+  const cmd = args[0];
+
+  switch (cmd) {
+    case 'tree':
+      await cmdSummariesTree(args.slice(1));
+      break;
+    case 'diff':
+      await cmdSummariesDiff(args.slice(1));
+      break;
+    case 'resummarize':
+      await cmdSummariesResummarize(args.slice(1));
+      break;
+    case 'revisions':
+      await cmdSummariesRevisions(args.slice(1));
+      break;
+    default:
+      out(`Summary DAG commands:
+  summaries tree <sessionKey> [--from <id>] [--full] [--json]  - Leaf and condensed summaries with the messages they cover
+  summaries diff <summaryId> [--messages] [--json]             - Salient terms the summary dropped from its sources
+  summaries resummarize <summaryId> --model <model>            - Rewrite the summary and its subtree
+      [--prompt <text> | --prompt-file <path>]                   instructions replacing the default prompt
+      [--endpoint <url>] [--reason <text>]                       chat-completions endpoint (default: $CLAWTEXT_SUMMARIZATION_URL or ${defaultEndpoint})
+  summaries revisions <summaryId> [--json]                     - Earlier versions kept by resummarize
+
+  All summaries commands accept --workspace <path> (default: $CLAWTEXT_WORKSPACE).`);
+  }
+}
@@ -75,7 +75,7 @@ const ACK_PHRASES = new Set([
   'got it',
 ]);
 
-const HALF_LIFE: Record<ContentType, number> = {
+export const CONTENT_TYPE_HALF_LIFE_DAYS: Record<ContentType, number> = {
   decision: Number.POSITIVE_INFINITY,
   spec: 180,
   preference: 180,
@@ -96,40 +96,40 @@ export function classifyContentType(content: string): ContentTypeResult {
   const lc = normalized(body);
 
   if (!body) {
-    return { type: 'noise', confidence: 0.95, halfLifeDays: HALF_LIFE.noise };
+    return { type: 'noise', confidence: 0.95, halfLifeDays: CONTENT_TYPE_HALF_LIFE_DAYS.noise };
   }
 
   if (NOISE_PATTERNS.some((rx) => rx.test(body))) {
-    return { type: 'noise', confidence: 0.85, halfLifeDays: HALF_LIFE.noise };
+    return { type: 'noise', confidence: 0.85, halfLifeDays: CONTENT_TYPE_HALF_LIFE_DAYS.noise };
   }
 
   if (body.length < 30 && ACK_PHRASES.has(lc)) {
-    return { type: 'ack', confidence: 0.95, halfLifeDays: HALF_LIFE.ack };
+    return { type: 'ack', confidence: 0.95, halfLifeDays: CONTENT_TYPE_HALF_LIFE_DAYS.ack };
   }
 
   if (DECISION_PATTERNS.some((rx) => rx.test(body))) {
-    return { type: 'decision', confidence: 0.9, halfLifeDays: HALF_LIFE.decision };
+    return { type: 'decision', confidence: 0.9, halfLifeDays: CONTENT_TYPE_HALF_LIFE_DAYS.decision };
   }
 
   if (SPEC_PATTERNS.some((rx) => rx.test(body))) {
-    return { type: 'spec', confidence: 0.82, halfLifeDays: HALF_LIFE.spec };
+    return { type: 'spec', confidence: 0.82, halfLifeDays: CONTENT_TYPE_HALF_LIFE_DAYS.spec };
   }
 
   if (PREFERENCE_PATTERNS.some((rx) => rx.test(body))) {
-    return { type: 'preference', confidence: 0.8, halfLifeDays: HALF_LIFE.preference };
+    return { type: 'preference', confidence: 0.8, halfLifeDays: CONTENT_TYPE_HALF_LIFE_DAYS.preference };
   }
 
   if (SKILL_PATTERNS.some((rx) => rx.test(body))) {
-    return { type: 'skill', confidence: 0.78, halfLifeDays: HALF_LIFE.skill };
+    return { type: 'skill', confidence: 0.78, halfLifeDays: CONTENT_TYPE_HALF_LIFE_DAYS.skill };
   }
 
   if (ATTRIBUTE_PATTERNS.some((rx) => rx.test(body))) {
-    return { type: 'attribute', confidence: 0.72, halfLifeDays: HALF_LIFE.attribute };
+    return { type: 'attribute', confidence: 0.72, halfLifeDays: CONTENT_TYPE_HALF_LIFE_DAYS.attribute };
   }
 
   if (/\?$/.test(body) || /\b(why|how|maybe|could|should|explore|question)\b/i.test(body)) {
-    return { type: 'discussion', confidence: 0.75, halfLifeDays: HALF_LIFE.discussion };
+    return { type: 'discussion', confidence: 0.75, halfLifeDays: CONTENT_TYPE_HALF_LIFE_DAYS.discussion };
   }
 
-  return { type: 'discussion', confidence: 0.6, halfLifeDays: HALF_LIFE.discussion };
+  return { type: 'discussion', confidence: 0.6, halfLifeDays: CONTENT_TYPE_HALF_LIFE_DAYS.discussion };
 }
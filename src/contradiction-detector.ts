@@ -25,9 +25,74 @@ const STOPWORDS = new Set([
   'at',
 ]);
 
-const DECISION_CUES = [/\bdecided\b/i, /\bthe approach is\b/i, /\bwe(?:'|’)ll go with\b/i, /\bthe plan is\b/i];
-const EXPLICIT_SUPERSEDE = [/\binstead of\b/i, /\bchanged to\b/i, /\bno longer\b/i, /\bsuperseded\b/i];
-const NEGATIONS = new Set(['not', 'no', 'never', 'without', "don't", 'dont', "isn't", 'isnt']);
+const DECISION_CUES = [
+  /\bdecided\b/i,
+  /\bthe approach is\b/i,
+  /\bwe(?:'|’)ll go with\b/i,
+  /\bthe plan is\b/i,
+  /\bdecision\s*:/i,
+  /\bwe (?:chose|picked|selected|settled on|agreed)\b/i,
+  /\b(?:going|go) with\b/i,
+  /\bswitch(?:ed|ing)? (?:to|from|over)\b/i,
+  /\bwe(?:'|’)re (?:using|moving to)\b/i,
+  /\bwe (?:will|should|now) use\b/i,
+  /\bstandardi[sz]e on\b/i,
+];
+const EXPLICIT_SUPERSEDE = [
+  /\binstead of\b/i,
+  /\bchanged to\b/i,
+  /\bno longer\b/i,
+  /\bsuperseded\b/i,
+  /\brather than\b/i,
+  /\breplac(?:e|es|ed|ing)\b/i,
+  /\bswitch(?:ed|ing)? (?:from|away from)\b/i,
+  /\bmov(?:e|ed|ing) (?:off|away from)\b/i,
+  /\bdeprecated?\b/i,
+  /\brevert(?:ed|ing)?\b/i,
+  /\bnot anymore\b/i,
+];
+/** Replacement cues followed by what is being replaced ("instead of Postgres") */
+const REPLACED_OBJECT_CUES = [
+  /\binstead of\s+(.+)/i,
+  /\brather than\s+(.+)/i,
+  /\breplac(?:e|es|ed|ing)\s+(.+)/i,
+  /\bswitch(?:ed|ing)? (?:from|away from)\s+(.+)/i,
+  /\bmov(?:e|ed|ing) (?:off|away from)\s+(.+)/i,
+  /\bdeprecat(?:e|es|ed|ing)\s+(.+)/i,
+  /\brevert(?:ed|ing)?\s+(.+)/i,
+];
+/** Content words two decisions must share to be about the same thing */
+const MIN_SUBJECT_OVERLAP = 2;
+/** Words after a replacement cue read as the replaced object */
+const REPLACED_OBJECT_WORDS = 4;
+/** Cues that a restated decision replaces the earlier one */
+const CHANGE_CUES = [/\bnow\b/i, /\bswitch(?:ed|ing)? (?:to|over)\b/i, /\bchanged?\b/i, /\bmov(?:e|ed|ing) to\b/i];
+const NEGATIONS = new Set(['not', 'no', 'never', 'without', "don't", 'dont', "isn't", 'isnt', "won't", 'wont', 'stop', 'stopped']);
+/** Decision vocabulary, ignored when comparing what two decisions are about */
+const CUE_WORDS = new Set([
+  'decided', 'decide', 'decision', 'approach', 'plan', 'going', 'will', "we'll", 'use', 'using', 'chose',
+  'picked', 'selected', 'settled', 'agreed', 'switch', 'switched', 'switching', 'now', 'should', 'standardize', 'standardise',
+]);
+
+export type ContradictionReason = 'explicit' | 'negation' | 'conclusion' | 'value';
+
+export interface Contradiction {
+  /**
+   * explicit: the newer text says it replaces something ("instead of", "no longer")
+   * negation: the newer text negates a keyword the older one asserts
+   * conclusion: the stated conclusions differ and the newer one reads as a change
+   * value: the same statement with a different value ("port 8080" → "port 9090"),
+   *   or with a swapped word when the newer text reads as a change ("we now use …")
+   */
+  reason: ContradictionReason;
+  /** Content words both texts share (decision vocabulary excluded) */
+  overlap: string[];
+}
+
+export interface ContradictionOptions {
+  /** Treat both texts as decisions even without a cue (e.g. memories typed 'decision') */
+  assumeDecision?: boolean;
+}
 
 function tokenize(content: string): string[] {
   return content
@@ -37,13 +102,34 @@ function tokenize(content: string): string[] {
     .filter((t) => t.length > 2 && !STOPWORDS.has(t));
 }
 
-function decisionLike(content: string): boolean {
+export function isDecisionLike(content: string): boolean {
   return DECISION_CUES.some((rx) => rx.test(content));
 }
 
+/** Tokens naming what a text is about: no stopwords and no decision vocabulary */
+function subjectWords(content: string): string[] {
+  return tokenize(content).filter((token) => !CUE_WORDS.has(token));
+}
+
 function sharedKeywords(a: string, b: string): string[] {
-  const setA = new Set(tokenize(a));
-  return tokenize(b).filter((token) => setA.has(token));
+  const setA = new Set(subjectWords(a));
+  return subjectWords(b).filter((token) => setA.has(token));
+}
+
+/**
+ * Whether `newer` names something from `older` as the thing it replaces: most
+ * of the words between the cue and the next clause ("replace winston with
+ * pino" → winston) must appear in `older`.
+ */
+function replacesOlderSubject(older: string, newer: string): boolean {
+  const olderWords = new Set(subjectWords(older));
+  return REPLACED_OBJECT_CUES.some((rx) => {
+    const replaced = rx.exec(newer)?.[1];
+    if (!replaced) return false;
+    const phrase = replaced.split(/[.!?,;\n]|\b(?:with|by|for|to|in|on|from|because|since|so)\b/i)[0];
+    const words = subjectWords(phrase).slice(0, REPLACED_OBJECT_WORDS);
+    return words.length > 0 && words.filter((word) => olderWords.has(word)).length * 2 >= words.length;
+  });
 }
 
 function hasNegationNearKeyword(content: string, keyword: string): boolean {
@@ -70,34 +156,86 @@ function conclusionFragment(content: string): string {
   return content.split(/[.!?\n]/)[0].trim().toLowerCase();
 }
 
-export function contradicts(oldMessage: string, recentMessages: string[]): boolean {
-  if (!oldMessage.trim()) return false;
-  const oldIsDecision = decisionLike(oldMessage);
-  if (!oldIsDecision) return false;
+/** Words of `content` keyed by their lowercase form; short words are kept when they carry a digit ("v2") */
+function slotWords(content: string): Map<string, string> {
+  const words = new Map<string, string>();
+  for (const raw of content.split(/\s+/g)) {
+    const word = raw.replace(/^[^\w]+|[^\w]+$/g, '');
+    const key = word.toLowerCase();
+    if (!key || STOPWORDS.has(key) || CUE_WORDS.has(key)) continue;
+    if (key.length <= 2 && !/\d/.test(key)) continue;
+    if (!words.has(key)) words.set(key, word);
+  }
+  return words;
+}
 
-  for (const recent of recentMessages) {
-    if (!recent || !decisionLike(recent)) continue;
+/** Numbers, versions and identifiers: `8080`, `v2.1`, `redis-02`, `max_conns`, `SQLite`, `camelCase` */
+function isValueLike(word: string): boolean {
+  if (/\d/.test(word) || /\w[-_./:]\w/.test(word) || /[a-z][A-Z]/.test(word)) return true;
+  return /[a-z]/.test(word) && (word.match(/[A-Z]/g) ?? []).length >= 2;
+}
 
-    const overlap = sharedKeywords(oldMessage, recent);
-    if (overlap.length === 0) continue;
+/**
+ * The same statement with one or two words swapped. A swapped plain word is
+ * not enough ("the billing service" vs "the analytics service" are separate
+ * decisions): the newer text must read as a change, or the swapped words
+ * must be values.
+ */
+function differsOnlyInValue(older: string, newer: string): boolean {
+  const a = slotWords(older);
+  const b = slotWords(newer);
+  const onlyOlder = [...a.keys()].filter((key) => !b.has(key));
+  const onlyNewer = [...b.keys()].filter((key) => !a.has(key));
+  const shared = a.size - onlyOlder.length;
+  if (shared === 0 || onlyOlder.length === 0 || onlyNewer.length === 0) return false;
+  if (onlyOlder.length > 2 || onlyNewer.length > 2 || shared / Math.min(a.size, b.size) < 0.5) return false;
 
-    if (EXPLICIT_SUPERSEDE.some((rx) => rx.test(recent))) {
-      return true;
-    }
+  if (CHANGE_CUES.some((rx) => rx.test(newer) && !rx.test(older))) return true;
+  return [...onlyOlder.map((key) => a.get(key)!), ...onlyNewer.map((key) => b.get(key)!)].some(isValueLike);
+}
 
-    if (overlap.some((keyword) => hasNegationNearKeyword(recent, keyword))) {
-      return true;
-    }
+/**
+ * Whether `newer` contradicts `older`. Both must read as decisions (cue
+ * phrases, or `assumeDecision`) and share at least two content words, or one
+ * that `newer` names as what it replaces; the first matching reason wins.
+ */
+export function detectContradiction(older: string, newer: string, options: ContradictionOptions = {}): Contradiction | null {
+  if (!older.trim() || !newer.trim()) return null;
+  if (!options.assumeDecision && (!isDecisionLike(older) || !isDecisionLike(newer))) return null;
+
+  const overlap = [...new Set(sharedKeywords(older, newer))];
+  if (overlap.length === 0) return null;
+
+  // One shared word ("billing") is not enough to be about the same thing,
+  // unless the newer text names it as what it replaces
+  if (overlap.length < MIN_SUBJECT_OVERLAP) {
+    return replacesOlderSubject(older, newer) ? { reason: 'explicit', overlap } : null;
+  }
+
+  if (EXPLICIT_SUPERSEDE.some((rx) => rx.test(newer))) {
+    return { reason: 'explicit', overlap };
+  }
 
-    const oldConclusion = conclusionFragment(oldMessage);
-    const newConclusion = conclusionFragment(recent);
-    if (oldConclusion && newConclusion && oldConclusion !== newConclusion) {
-      const contradictoryTone = /\b(instead|changed|no longer|not)\b/.test(newConclusion);
-      if (contradictoryTone) {
-        return true;
-      }
+  if (overlap.some((keyword) => hasNegationNearKeyword(newer, keyword) && !hasNegationNearKeyword(older, keyword))) {
+    return { reason: 'negation', overlap };
+  }
+
+  const oldConclusion = conclusionFragment(older);
+  const newConclusion = conclusionFragment(newer);
+  if (oldConclusion && newConclusion && oldConclusion !== newConclusion) {
+    const tone = /\b(instead|changed|no longer|not)\b/;
+    if (tone.test(newConclusion) && !tone.test(oldConclusion)) {
+      return { reason: 'conclusion', overlap };
     }
   }
 
-  return false;
+  if (differsOnlyInValue(older, newer)) {
+    return { reason: 'value', overlap };
+  }
+
+  return null;
+}
+
+export function contradicts(oldMessage: string, recentMessages: string[]): boolean {
+  return recentMessages.some((recent) => Boolean(recent) && detectContradiction(oldMessage, recent) !== null);
 }
@@ -5,11 +5,24 @@
  * Logs when an agent's retrieval returns memories authored by a different agent.
  * Tracks frequency. Alerts when threshold exceeded.
  *
- * Output: state/clawtext/prod/decoherence/events.jsonl
+ * `recordDecoherenceEvent` also reacts to what it logs, within a sliding
+ * window (config.json, see DEFAULT_DECOHERENCE_CONFIG):
+ *   - an agent pair reaching `alertThreshold` events raises one alert per
+ *     window (alerts.jsonl, and a console warning)
+ *   - a memory reaching `quarantineThreshold` events is quarantined: forced
+ *     to `private` and held there, even in cluster copies, until a reviewer
+ *     releases or confirms it (quarantine.json)
+ *
+ * Output: state/clawtext/prod/decoherence/
+ *   events.jsonl, alerts.jsonl, quarantine.json, config.json
  */
 
 import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
 import { join } from 'path';
+import { randomBytes } from 'crypto';
+import HotMemoryCache from './hot-cache.js';
+import { getClawTextProdStateRoot } from './runtime-paths.js';
+import { writeFileAtomic } from './atomic-write.js';
 
 export interface DecoherenceEvent {
   timestamp: string;
@@ -29,12 +42,87 @@ export interface DecoherenceStats {
   since: string;
 }
 
-function getEventsPath(stateRoot?: string): string {
+export interface DecoherenceConfig {
+  /** Sliding window the thresholds count over */
+  windowHours: number;
+  /** Events between one agent pair that raise an alert */
+  alertThreshold: number;
+  /** Events on one memory that quarantine it */
+  quarantineThreshold: number;
+  autoQuarantine: boolean;
+}
+
+export const DEFAULT_DECOHERENCE_CONFIG: DecoherenceConfig = {
+  windowHours: 24,
+  alertThreshold: 5,
+  quarantineThreshold: 3,
+  autoQuarantine: true,
+};
+
+export interface DecoherenceAlert {
+  id: string;
+  raisedAt: string;
+  currentAgentId: string;
+  leakedAgentId: string;
+  count: number;
+  windowHours: number;
+  threshold: number;
+  memoryIds: string[];
+  queries: string[];
+}
+
+export type QuarantineStatus = 'quarantined' | 'released' | 'confirmed';
+
+export interface QuarantineEntry {
+  memoryId: string;
+  status: QuarantineStatus;
+  quarantinedAt: string;
+  /** Author of the memory */
+  leakedAgentId: string;
+  /** Agents whose retrieval it reached */
+  agents: string[];
+  events: number;
+  /** Visibility before quarantine, restored on release (null when unknown) */
+  previousVisibility: string | null;
+  reviewedAt?: string;
+  reviewedBy?: string;
+}
+
+export interface DecoherenceReaction {
+  alert: DecoherenceAlert | null;
+  quarantined: QuarantineEntry | null;
+}
+
+export interface DecoherencePairTrend {
+  currentAgentId: string;
+  leakedAgentId: string;
+  total: number;
+  filtered: number;
+  leaked: number;
+  /** Events per day (YYYY-MM-DD) */
+  byDay: Record<string, number>;
+  topQueries: Array<{ query: string; count: number }>;
+}
+
+export interface DecoherenceReport {
+  since: string;
+  stats: DecoherenceStats;
+  pairs: DecoherencePairTrend[];
+  memories: Array<{ memoryId: string; events: number; agents: string[]; quarantine: QuarantineStatus | null }>;
+  alerts: DecoherenceAlert[];
+  quarantine: QuarantineEntry[];
+}
+
+function decoherenceDir(stateRoot?: string): string {
   const base = stateRoot ||
     join(process.env.HOME || '', '.openclaw', 'workspace', 'state', 'clawtext', 'prod');
   const dir = join(base, 'decoherence');
   if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
-  return join(dir, 'events.jsonl');
+  return dir;
+}
+
+function getEventsPath(stateRoot?: string): string {
+  return join(decoherenceDir(stateRoot), 'events.jsonl');
 }
 
 /**
@@ -85,3 +173,285 @@ export function getDecoherenceStats(options?: {
     since: options?.since || '',
   };
 }
+
+/**
+ * Read logged events, oldest first, optionally from `since` on.
+ */
+export function readDecoherenceEvents(options?: { since?: string; stateRoot?: string }): DecoherenceEvent[] {
+  const eventsPath = getEventsPath(options?.stateRoot);
+  if (!existsSync(eventsPath)) return [];
+  const sinceDate = options?.since ? new Date(options.since).getTime() : 0;
+
+  const events: DecoherenceEvent[] = [];
+  for (const line of readFileSync(eventsPath, 'utf-8').split('\n').filter(Boolean)) {
+    try {
+      const event = JSON.parse(line) as DecoherenceEvent;
+      if (sinceDate && new Date(event.timestamp).getTime() < sinceDate) continue;
+      events.push(event);
+    } catch {
+      // skip malformed lines
+    }
+  }
+  return events;
+}
+
+// ──────────────────────────────────────────────
+// Config, alerts and quarantine state
+// ──────────────────────────────────────────────
+
+export function loadDecoherenceConfig(workspacePath: string): DecoherenceConfig {
+  const configPath = join(decoherenceDir(getClawTextProdStateRoot(workspacePath)), 'config.json');
+  if (!existsSync(configPath)) return { ...DEFAULT_DECOHERENCE_CONFIG };
+  try {
+    return { ...DEFAULT_DECOHERENCE_CONFIG, ...JSON.parse(readFileSync(configPath, 'utf-8')) };
+  } catch {
+    return { ...DEFAULT_DECOHERENCE_CONFIG };
+  }
+}
+
+export function loadDecoherenceAlerts(workspacePath: string): DecoherenceAlert[] {
+  const alertsPath = join(decoherenceDir(getClawTextProdStateRoot(workspacePath)), 'alerts.jsonl');
+  if (!existsSync(alertsPath)) return [];
+  const alerts: DecoherenceAlert[] = [];
+  for (const line of readFileSync(alertsPath, 'utf-8').split('\n').filter(Boolean)) {
+    try {
+      alerts.push(JSON.parse(line));
+    } catch {
+      // skip malformed lines
+    }
+  }
+  return alerts;
+}
+
+function quarantinePath(workspacePath: string): string {
+  return join(decoherenceDir(getClawTextProdStateRoot(workspacePath)), 'quarantine.json');
+}
+
+export function loadQuarantine(workspacePath: string, status?: QuarantineStatus): QuarantineEntry[] {
+  const target = quarantinePath(workspacePath);
+  if (!existsSync(target)) return [];
+  try {
+    const entries: QuarantineEntry[] = JSON.parse(readFileSync(target, 'utf-8')).entries ?? [];
+    return status ? entries.filter((e) => e.status === status) : entries;
+  } catch {
+    return [];
+  }
+}
+
+function saveQuarantine(workspacePath: string, entries: QuarantineEntry[]): void {
+  const target = quarantinePath(workspacePath);
+  writeFileAtomic(target, JSON.stringify({ version: 1, entries }, null, 2));
+}
+
+/** Memories held private: quarantined and awaiting review, or confirmed. */
+export function getQuarantinedMemoryIds(workspacePath: string): Set<string> {
+  return new Set(loadQuarantine(workspacePath)
+    .filter((e) => e.status !== 'released')
+    .map((e) => e.memoryId));
+}
+
+function apiMemoryPath(workspacePath: string, memoryId: string): string | null {
+  if (!/^[\w-]+$/.test(memoryId)) return null;
+  const target = join(workspacePath, 'memory', 'api-memories', `${memoryId}.json`);
+  return existsSync(target) ? target : null;
+}
+
+function rewriteApiMemory(target: string, update: (memory: Record<string, any>) => Record<string, any>): void {
+  const memory = JSON.parse(readFileSync(target, 'utf-8'));
+  writeFileAtomic(target, JSON.stringify(update(memory), null, 2));
+}
+
+/**
+ * Force a memory to `private` pending review. The API memory file (when
+ * there is one) is rewritten; cluster copies are held private at retrieval
+ * through getQuarantinedMemoryIds.
+ */
+export function quarantineMemory(
+  workspacePath: string,
+  memoryId: string,
+  details: { leakedAgentId: string; agents: string[]; events: number },
+): QuarantineEntry {
+  const entries = loadQuarantine(workspacePath);
+  const current = entries.find((e) => e.memoryId === memoryId && e.status !== 'released');
+  if (current) return current;
+
+  const now = new Date().toISOString();
+  const target = apiMemoryPath(workspacePath, memoryId);
+  let previousVisibility: string | null = null;
+  if (target) {
+    rewriteApiMemory(target, (memory) => {
+      previousVisibility = memory.visibility ?? 'shared';
+      return { ...memory, visibility: 'private', quarantinedAt: now };
+    });
+  }
+
+  const entry: QuarantineEntry = {
+    memoryId,
+    status: 'quarantined',
+    quarantinedAt: now,
+    leakedAgentId: details.leakedAgentId,
+    agents: details.agents,
+    events: details.events,
+    previousVisibility,
+  };
+  saveQuarantine(workspacePath, [...entries, entry]);
+  try {
+    new HotMemoryCache(workspacePath).evictMemory(memoryId);
+  } catch {
+    // The cache copy carries no visibility; it expires on its own
+  }
+  return entry;
+}
+
+/**
+ * Settle a quarantine: `release` restores the previous visibility,
+ * `confirm` keeps the memory private for good.
+ */
+export function reviewQuarantine(
+  workspacePath: string,
+  memoryId: string,
+  decision: 'release' | 'confirm',
+  reviewedBy?: string,
+): QuarantineEntry {
+  const entries = loadQuarantine(workspacePath);
+  const entry = entries.find((e) => e.memoryId === memoryId && e.status === 'quarantined');
+  if (!entry) throw new Error(`No open quarantine for memory ${memoryId}`);
+
+  const target = apiMemoryPath(workspacePath, memoryId);
+  if (target) {
+    rewriteApiMemory(target, ({ quarantinedAt: _quarantinedAt, ...memory }) => (
+      decision === 'release' && entry.previousVisibility
+        ? { ...memory, visibility: entry.previousVisibility }
+        : memory
+    ));
+  }
+
+  entry.status = decision === 'release' ? 'released' : 'confirmed';
+  entry.reviewedAt = new Date().toISOString();
+  if (reviewedBy) entry.reviewedBy = reviewedBy;
+  saveQuarantine(workspacePath, entries);
+  return entry;
+}
+
+// ──────────────────────────────────────────────
+// Reacting to events
+// ──────────────────────────────────────────────
+
+/**
+ * Log an event to the workspace's state root and react to it: raise an
+ * alert for the agent pair and quarantine the memory when their thresholds
+ * are reached within the window.
+ */
+export function recordDecoherenceEvent(workspacePath: string, event: DecoherenceEvent): DecoherenceReaction {
+  const stateRoot = getClawTextProdStateRoot(workspacePath);
+  logDecoherenceEvent(event, stateRoot);
+
+  const config = loadDecoherenceConfig(workspacePath);
+  const windowStart = new Date(new Date(event.timestamp).getTime() - config.windowHours * 3600_000).toISOString();
+  const recent = readDecoherenceEvents({ since: windowStart, stateRoot });
+  const reaction: DecoherenceReaction = { alert: null, quarantined: null };
+
+  const pairEvents = recent.filter((e) => (
+    e.currentAgentId === event.currentAgentId && e.leakedAgentId === event.leakedAgentId
+  ));
+  const alreadyAlerted = loadDecoherenceAlerts(workspacePath).some((a) => (
+    a.currentAgentId === event.currentAgentId && a.leakedAgentId === event.leakedAgentId && a.raisedAt >= windowStart
+  ));
+  if (pairEvents.length >= config.alertThreshold && !alreadyAlerted) {
+    const alert: DecoherenceAlert = {
+      id: `alert_${randomBytes(4).toString('hex')}`,
+      raisedAt: event.timestamp,
+      currentAgentId: event.currentAgentId,
+      leakedAgentId: event.leakedAgentId,
+      count: pairEvents.length,
+      windowHours: config.windowHours,
+      threshold: config.alertThreshold,
+      memoryIds: Array.from(new Set(pairEvents.map((e) => e.memoryId))),
+      queries: Array.from(new Set(pairEvents.map((e) => e.query).filter(Boolean))).slice(0, 10),
+    };
+    appendFileSync(join(decoherenceDir(stateRoot), 'alerts.jsonl'), JSON.stringify(alert) + '\n');
+    console.warn(`[ClawText Decoherence] ${alert.count} cross-agent events from ${alert.leakedAgentId} to ${alert.currentAgentId} in ${alert.windowHours}h`);
+    reaction.alert = alert;
+  }
+
+  if (config.autoQuarantine && event.memoryId && event.memoryId !== 'unknown') {
+    const history = loadQuarantine(workspacePath).filter((e) => e.memoryId === event.memoryId);
+    const held = history.some((e) => e.status !== 'released');
+    // A release clears the slate: only events after the latest review count
+    const lastReview = history.map((e) => e.reviewedAt ?? '').sort().pop() ?? '';
+    const memoryEvents = recent.filter((e) => e.memoryId === event.memoryId && e.timestamp >= lastReview);
+    if (!held && memoryEvents.length >= config.quarantineThreshold) {
+      reaction.quarantined = quarantineMemory(workspacePath, event.memoryId, {
+        leakedAgentId: event.leakedAgentId,
+        agents: Array.from(new Set(memoryEvents.map((e) => e.currentAgentId))),
+        events: memoryEvents.length,
+      });
+    }
+  }
+
+  return reaction;
+}
+
+// ──────────────────────────────────────────────
+// Report
+// ──────────────────────────────────────────────
+
+export function buildDecoherenceReport(workspacePath: string, options?: { since?: string }): DecoherenceReport {
+  const stateRoot = getClawTextProdStateRoot(workspacePath);
+  const since = options?.since ?? '';
+  const events = readDecoherenceEvents({ since, stateRoot });
+  const quarantine = loadQuarantine(workspacePath);
+
+  const pairs = new Map<string, DecoherencePairTrend & { queryCounts: Map<string, number> }>();
+  const memories = new Map<string, { events: number; agents: Set<string> }>();
+  for (const event of events) {
+    const key = `${event.leakedAgentId}\u0000${event.currentAgentId}`;
+    const pair = pairs.get(key) ?? {
+      currentAgentId: event.currentAgentId,
+      leakedAgentId: event.leakedAgentId,
+      total: 0,
+      filtered: 0,
+      leaked: 0,
+      byDay: {},
+      topQueries: [],
+      queryCounts: new Map<string, number>(),
+    };
+    pair.total += 1;
+    if (event.action === 'filtered') pair.filtered += 1;
+    if (event.action === 'leaked') pair.leaked += 1;
+    const day = event.timestamp.slice(0, 10);
+    pair.byDay[day] = (pair.byDay[day] ?? 0) + 1;
+    if (event.query) pair.queryCounts.set(event.query, (pair.queryCounts.get(event.query) ?? 0) + 1);
+    pairs.set(key, pair);
+
+    const memory = memories.get(event.memoryId) ?? { events: 0, agents: new Set<string>() };
+    memory.events += 1;
+    memory.agents.add(event.currentAgentId);
+    memories.set(event.memoryId, memory);
+  }
+
+  const statusOf = (memoryId: string): QuarantineStatus | null => (
+    quarantine.filter((e) => e.memoryId === memoryId).pop()?.status ?? null
+  );
+
+  return {
+    since,
+    stats: getDecoherenceStats({ since: since || undefined, stateRoot }),
+    pairs: Array.from(pairs.values())
+      .map(({ queryCounts, ...pair }) => ({
+        ...pair,
+        topQueries: Array.from(queryCounts, ([query, count]) => ({ query, count }))
+          .sort((a, b) => b.count - a.count || a.query.localeCompare(b.query))
+          .slice(0, 5),
+      }))
+      .sort((a, b) => b.total - a.total),
+    memories: Array.from(memories, ([memoryId, m]) => ({
+      memoryId,
+      events: m.events,
+      agents: Array.from(m.agents).sort(),
+      quarantine: statusOf(memoryId),
+    })).sort((a, b) => b.events - a.events),
+    alerts: loadDecoherenceAlerts(workspacePath).filter((a) => !since || a.raisedAt >= since),
+    quarantine,
+  };
+}
@@ -0,0 +1,123 @@
+/**
+ * Embedding providers for hybrid retrieval.
+ *
+ * Providers are synchronous so `ClawTextRAG.findRelevantMemories` stays
+ * synchronous. The built-in `hashing` provider is a deterministic feature-
+ * hashing vectorizer over words and character trigrams: it needs no model
+ * files or network and catches inflection and spelling variants
+ * (deploy / deployment / deploys). Register a local model provider with
+ * `registerEmbeddingProvider` for true synonym matching, and select it with
+ * `CLAWTEXT_EMBEDDING_PROVIDER`.
+ */
+
+export interface EmbeddingProvider {
+  /** Stable id; persisted vectors are only reused for the same id */
+  readonly id: string;
+  readonly dimensions: number;
+  /** Cosine floor below which a vector-only match is treated as noise */
+  readonly minSimilarity?: number;
+  /** One L2-normalized vector per input text */
+  embed(texts: string[]): number[][];
+}
+
+export type EmbeddingProviderFactory = () => EmbeddingProvider;
+
+export const DEFAULT_EMBEDDING_PROVIDER = 'hashing';
+const HASHING_DIMENSIONS = 2048;
+const WORD_WEIGHT = 1.0;
+const TRIGRAM_WEIGHT = 0.5;
+
+const PROVIDERS = new Map<string, EmbeddingProviderFactory>();
+
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function normalizeVector(vector: number[]): number[] {
+  let norm = 0;
+  for (const value of vector) norm += value * value;
+  if (norm === 0) return vector;
+  const scale = 1 / Math.sqrt(norm);
+  return vector.map((value) => value * scale);
+}
+
+/**
+ * Cosine similarity of two L2-normalized vectors.
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  const length = Math.min(a.length, b.length);
+  let dot = 0;
+  for (let i = 0; i < length; i++) dot += a[i] * b[i];
+  return dot;
+}
+
+/**
+ * Signed feature hashing over lowercase words and their `#`-padded
+ * character trigrams, with sublinear term frequency.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  readonly dimensions: number;
+  /** A single shared word against a sentence-length memory scores ~0.08 */
+  readonly minSimilarity = 0.05;
+
+  constructor(dimensions: number = HASHING_DIMENSIONS) {
+    this.dimensions = dimensions;
+    this.id = `hashing-v1-${dimensions}`;
+  }
+
+  embed(texts: string[]): number[][] {
+    return texts.map((text) => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const features = new Map<string, number>();
+    const words = text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter((word) => word.length > 1);
+
+    for (const word of words) {
+      features.set(`w:${word}`, (features.get(`w:${word}`) ?? 0) + WORD_WEIGHT);
+      const padded = `#${word}#`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        const key = `t:${padded.slice(i, i + 3)}`;
+        features.set(key, (features.get(key) ?? 0) + TRIGRAM_WEIGHT);
+      }
+    }
+
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const [feature, weight] of features) {
+      const hash = fnv1a(feature);
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % this.dimensions] += sign * (1 + Math.log(weight));
+    }
+    return normalizeVector(vector);
+  }
+}
+
+export function registerEmbeddingProvider(name: string, factory: EmbeddingProviderFactory): void {
+  PROVIDERS.set(name, factory);
+}
+
+export function listEmbeddingProviders(): string[] {
+  return [...PROVIDERS.keys()];
+}
+
+/**
+ * Resolve a provider by name (default: `CLAWTEXT_EMBEDDING_PROVIDER`, then
+ * `hashing`). Unknown names fall back to `hashing` with a warning so
+ * retrieval keeps working offline.
+ */
+export function resolveEmbeddingProvider(name?: string): EmbeddingProvider {
+  const requested = name || process.env.CLAWTEXT_EMBEDDING_PROVIDER || DEFAULT_EMBEDDING_PROVIDER;
+  const factory = PROVIDERS.get(requested);
+  if (factory) return factory();
+
+  console.warn(`[ClawText embeddings] Unknown provider "${requested}", using ${DEFAULT_EMBEDDING_PROVIDER}`);
+  return PROVIDERS.get(DEFAULT_EMBEDDING_PROVIDER)!();
+}
+
+registerEmbeddingProvider(DEFAULT_EMBEDDING_PROVIDER, () => new HashingEmbeddingProvider());
@@ -0,0 +1,299 @@
+/**
+ * ClawText Eval — Retrieval Evaluation Harness
+ *
+ * Runs a labelled query set (query → relevant ids) through each retrieval
+ * lane, scores the rankings with recall@k, MRR and nDCG@k, and diffs the
+ * report against a stored baseline so ranking changes can be judged.
+ *
+ *   state/clawtext/dev/evals/baselines/<set>.json
+ *
+ * Spec: docs/RETRIEVAL_EVAL.md
+ */
+
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { join, dirname } from 'path';
+import { getClawTextEvalDevDir } from '../runtime-paths.js';
+import { createEvalLane, EVAL_LANES, type EvalLane, type EvalLaneId } from './lanes.js';
+import { recallAtK, reciprocalRank, ndcgAtK, mean, type RelevanceGrades } from './metrics.js';
+
+export * from './lanes.js';
+export * from './metrics.js';
+
+// ──────────────────────────────────────────────
+// Types
+// ──────────────────────────────────────────────
+
+export interface EvalQuery {
+  id: string;
+  query: string;
+  /** Relevant ids, or id → grade (> 0) for graded nDCG */
+  relevant: string[] | Record<string, number>;
+  /** Lanes this query is labelled for (default: the set's lanes) */
+  lanes?: EvalLaneId[];
+  projectKeywords?: string[];
+  agentId?: string;
+}
+
+export interface EvalQuerySet {
+  name: string;
+  description?: string;
+  /** Cutoff for recall@k and nDCG@k (default 5) */
+  k?: number;
+  /** Lanes to run (default: all) */
+  lanes?: EvalLaneId[];
+  queries: EvalQuery[];
+}
+
+export interface EvalQueryResult {
+  id: string;
+  retrieved: string[];
+  recall: number;
+  reciprocalRank: number;
+  ndcg: number;
+}
+
+export interface EvalLaneMetrics {
+  queries: number;
+  recallAtK: number;
+  mrr: number;
+  ndcg: number;
+}
+
+export interface EvalLaneReport {
+  lane: EvalLaneId;
+  metrics: EvalLaneMetrics;
+  queries: EvalQueryResult[];
+}
+
+export interface EvalReport {
+  set: string;
+  k: number;
+  generatedAt: string;
+  lanes: Partial<Record<EvalLaneId, EvalLaneReport>>;
+}
+
+export interface MetricDelta {
+  baseline: number;
+  current: number;
+  delta: number;
+}
+
+export interface QueryDelta {
+  id: string;
+  baseline: number;
+  current: number;
+}
+
+export interface EvalLaneComparison {
+  lane: EvalLaneId;
+  recallAtK: MetricDelta;
+  mrr: MetricDelta;
+  ndcg: MetricDelta;
+  /** Queries whose nDCG dropped / rose */
+  regressions: QueryDelta[];
+  improvements: QueryDelta[];
+}
+
+export interface EvalComparison {
+  set: string;
+  baselineGeneratedAt: string;
+  /** Set when the baseline was scored at a different k */
+  kMismatch?: { baseline: number; current: number };
+  lanes: EvalLaneComparison[];
+  /** Lanes present in only one of the two reports */
+  missingLanes: EvalLaneId[];
+}
+
+export interface RunEvalOptions {
+  workspacePath: string;
+  lanes?: EvalLaneId[];
+  k?: number;
+  /** Override lane construction (tests, custom retrievers) */
+  createLane?: (id: EvalLaneId, workspacePath: string) => EvalLane;
+}
+
+export const DEFAULT_EVAL_K = 5;
+const METRIC_EPSILON = 1e-9;
+
+// ──────────────────────────────────────────────
+// Path helpers
+// ──────────────────────────────────────────────
+
+export function getEvalBaselinesDir(workspacePath: string): string {
+  return join(getClawTextEvalDevDir(workspacePath), 'baselines');
+}
+
+export function getEvalBaselinePath(workspacePath: string, setName: string): string {
+  return join(getEvalBaselinesDir(workspacePath), `${setName.replace(/[^a-zA-Z0-9._-]/g, '_')}.json`);
+}
+
+// ──────────────────────────────────────────────
+// Query sets
+// ──────────────────────────────────────────────
+
+function isLaneId(value: unknown): value is EvalLaneId {
+  return typeof value === 'string' && (EVAL_LANES as string[]).includes(value);
+}
+
+/**
+ * Validate a parsed query set, throwing on the first structural problem.
+ */
+export function validateQuerySet(raw: unknown): EvalQuerySet {
+  const set = raw as EvalQuerySet;
+  if (!set || typeof set !== 'object') throw new Error('Query set must be a JSON object');
+  if (typeof set.name !== 'string' || !set.name) throw new Error('Query set is missing "name"');
+  if (!Array.isArray(set.queries) || set.queries.length === 0) {
+    throw new Error(`Query set "${set.name}" has no queries`);
+  }
+  if (set.k !== undefined && (!Number.isInteger(set.k) || set.k <= 0)) {
+    throw new Error(`Query set "${set.name}" has invalid k ${set.k}`);
+  }
+  for (const lane of set.lanes ?? []) {
+    if (!isLaneId(lane)) throw new Error(`Query set "${set.name}" names unknown lane "${lane}"`);
+  }
+
+  const seen = new Set<string>();
+  for (const q of set.queries) {
+    if (!q || typeof q.id !== 'string' || typeof q.query !== 'string') {
+      throw new Error(`Query set "${set.name}" has a query without string "id" and "query"`);
+    }
+    if (seen.has(q.id)) throw new Error(`Query set "${set.name}" repeats query id "${q.id}"`);
+    seen.add(q.id);
+    if (relevanceGrades(q).size === 0) throw new Error(`Query "${q.id}" has no relevant ids`);
+    for (const lane of q.lanes ?? []) {
+      if (!isLaneId(lane)) throw new Error(`Query "${q.id}" names unknown lane "${lane}"`);
+    }
+  }
+  return set;
+}
+
+export function loadQuerySet(filePath: string): EvalQuerySet {
+  return validateQuerySet(JSON.parse(readFileSync(filePath, 'utf-8')));
+}
+
+function relevanceGrades(query: EvalQuery): RelevanceGrades {
+  const grades: RelevanceGrades = new Map();
+  if (Array.isArray(query.relevant)) {
+    for (const id of query.relevant) grades.set(id, 1);
+  } else if (query.relevant && typeof query.relevant === 'object') {
+    for (const [id, grade] of Object.entries(query.relevant)) {
+      if (typeof grade === 'number' && grade > 0) grades.set(id, grade);
+    }
+  }
+  return grades;
+}
+
+// ──────────────────────────────────────────────
+// Running
+// ──────────────────────────────────────────────
+
+/**
+ * Run every query through each lane it is labelled for and score it.
+ */
+export function runEval(set: EvalQuerySet, options: RunEvalOptions): EvalReport {
+  const k = options.k ?? set.k ?? DEFAULT_EVAL_K;
+  const laneIds = options.lanes ?? set.lanes ?? EVAL_LANES;
+  const createLane = options.createLane ?? createEvalLane;
+  const report: EvalReport = { set: set.name, k, generatedAt: new Date().toISOString(), lanes: {} };
+
+  for (const laneId of laneIds) {
+    const queries = set.queries.filter((q) => !q.lanes || q.lanes.includes(laneId));
+    if (queries.length === 0) continue;
+
+    const lane = createLane(laneId, options.workspacePath);
+    const results: EvalQueryResult[] = queries.map((q) => {
+      const relevant = relevanceGrades(q);
+      const retrieved = lane.retrieve(
+        { query: q.query, projectKeywords: q.projectKeywords, agentId: q.agentId },
+        k,
+      ).slice(0, k);
+      return {
+        id: q.id,
+        retrieved,
+        recall: recallAtK(retrieved, relevant, k),
+        reciprocalRank: reciprocalRank(retrieved, relevant),
+        ndcg: ndcgAtK(retrieved, relevant, k),
+      };
+    });
+
+    report.lanes[laneId] = {
+      lane: laneId,
+      metrics: {
+        queries: results.length,
+        recallAtK: mean(results.map((r) => r.recall)),
+        mrr: mean(results.map((r) => r.reciprocalRank)),
+        ndcg: mean(results.map((r) => r.ndcg)),
+      },
+      queries: results,
+    };
+  }
+
+  return report;
+}
+
+// ──────────────────────────────────────────────
+// Baselines
+// ──────────────────────────────────────────────
+
+export function saveBaseline(report: EvalReport, workspacePath: string, filePath?: string): string {
+  const target = filePath ?? getEvalBaselinePath(workspacePath, report.set);
+  const dir = dirname(target);
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+  writeFileSync(target, JSON.stringify(report, null, 2));
+  return target;
+}
+
+export function loadBaseline(workspacePath: string, setName: string, filePath?: string): EvalReport | null {
+  const target = filePath ?? getEvalBaselinePath(workspacePath, setName);
+  if (!existsSync(target)) return null;
+  return JSON.parse(readFileSync(target, 'utf-8')) as EvalReport;
+}
+
+function metricDelta(baseline: number, current: number): MetricDelta {
+  return { baseline, current, delta: current - baseline };
+}
+
+/**
+ * Diff a report against a baseline lane by lane, listing the queries whose
+ * nDCG moved.
+ */
+export function compareReports(current: EvalReport, baseline: EvalReport): EvalComparison {
+  const comparison: EvalComparison = {
+    set: current.set,
+    baselineGeneratedAt: baseline.generatedAt,
+    lanes: [],
+    missingLanes: [],
+  };
+  if (current.k !== baseline.k) comparison.kMismatch = { baseline: baseline.k, current: current.k };
+
+  const laneIds = new Set([...Object.keys(current.lanes), ...Object.keys(baseline.lanes)] as EvalLaneId[]);
+  for (const laneId of laneIds) {
+    const now = current.lanes[laneId];
+    const before = baseline.lanes[laneId];
+    if (!now || !before) {
+      comparison.missingLanes.push(laneId);
+      continue;
+    }
+
+    const beforeById = new Map(before.queries.map((q) => [q.id, q.ndcg]));
+    const regressions: QueryDelta[] = [];
+    const improvements: QueryDelta[] = [];
+    for (const q of now.queries) {
+      const previous = beforeById.get(q.id);
+      if (previous === undefined) continue;
+      if (q.ndcg < previous - METRIC_EPSILON) regressions.push({ id: q.id, baseline: previous, current: q.ndcg });
+      else if (q.ndcg > previous + METRIC_EPSILON) improvements.push({ id: q.id, baseline: previous, current: q.ndcg });
+    }
+
+    comparison.lanes.push({
+      lane: laneId,
+      recallAtK: metricDelta(before.metrics.recallAtK, now.metrics.recallAtK),
+      mrr: metricDelta(before.metrics.mrr, now.metrics.mrr),
+      ndcg: metricDelta(before.metrics.ndcg, now.metrics.ndcg),
+      regressions,
+      improvements,
+    });
+  }
+
+  return comparison;
+}
@@ -0,0 +1,95 @@
+/**
+ * ClawText Eval — Retrieval Lanes
+ *
+ * Adapters that run one query through a retrieval path and return ranked
+ * ids in the form the labels use:
+ *
+ *   rag          ClawTextRAG.findRelevantMemories   memory id (library: record id)
+ *   hot-cache    HotMemoryCache.query               memory id
+ *   operational  OperationalRetrievalManager        patternKey
+ *
+ * Spec: docs/RETRIEVAL_EVAL.md
+ */
+
+import { ClawTextRAG } from '../rag.js';
+import { HotMemoryCache } from '../hot-cache.js';
+import { OperationalRetrievalManager } from '../operational-retrieval.js';
+
+// ──────────────────────────────────────────────
+// Types
+// ──────────────────────────────────────────────
+
+export type EvalLaneId = 'rag' | 'hot-cache' | 'operational';
+
+export const EVAL_LANES: EvalLaneId[] = ['rag', 'hot-cache', 'operational'];
+
+export interface LaneQuery {
+  query: string;
+  projectKeywords?: string[];
+  agentId?: string;
+}
+
+export interface EvalLane {
+  id: EvalLaneId;
+  retrieve(query: LaneQuery, k: number): string[];
+}
+
+// ──────────────────────────────────────────────
+// Lanes
+// ──────────────────────────────────────────────
+
+function ragLane(workspacePath: string): EvalLane {
+  ClawTextRAG.invalidateCache(workspacePath);
+  const rag = new ClawTextRAG(workspacePath);
+  return {
+    id: 'rag',
+    retrieve(query, k) {
+      rag.setConfig({ maxMemories: k });
+      return rag
+        .findRelevantMemories(query.query, query.projectKeywords ?? [], query.agentId)
+        .map((memory) => memory.id)
+        .filter((id): id is string => typeof id === 'string');
+    },
+  };
+}
+
+/**
+ * A fresh, non-persisting cache per query: `query()` bumps hit counts,
+ * which would otherwise make later queries depend on earlier ones and
+ * write eval traffic into hot.json.
+ */
+function hotCacheLane(workspacePath: string): EvalLane {
+  return {
+    id: 'hot-cache',
+    retrieve(query, k) {
+      const cache = new HotMemoryCache(workspacePath, { persistEveryHits: Number.POSITIVE_INFINITY });
+      return cache
+        .query(query.query, query.projectKeywords ?? [], k)
+        .map((memory) => memory.id)
+        .filter((id): id is string => typeof id === 'string');
+    },
+  };
+}
+
+function operationalLane(workspacePath: string): EvalLane {
+  const manager = new OperationalRetrievalManager(workspacePath);
+  return {
+    id: 'operational',
+    retrieve(query, k) {
+      return manager.rankRetrievable(query.query).slice(0, k).map((pattern) => pattern.patternKey);
+    },
+  };
+}
+
+export function createEvalLane(id: EvalLaneId, workspacePath: string): EvalLane {
+  switch (id) {
+    case 'rag':
+      return ragLane(workspacePath);
+    case 'hot-cache':
+      return hotCacheLane(workspacePath);
+    case 'operational':
+      return operationalLane(workspacePath);
+    default:
+      throw new Error(`Unknown eval lane "${id as string}" (expected one of: ${EVAL_LANES.join(', ')})`);
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * ClawText Eval — Ranking Metrics
+ *
+ * Standard IR metrics over one ranked list of ids against labelled
+ * relevance grades (binary labels use grade 1).
+ *
+ * Spec: docs/RETRIEVAL_EVAL.md
+ */
+
+/** Relevant id → grade (> 0) */
+export type RelevanceGrades = Map<string, number>;
+
+/**
+ * Fraction of relevant ids that appear in the top k.
+ */
+export function recallAtK(ranked: string[], relevant: RelevanceGrades, k: number): number {
+  if (relevant.size === 0) return 0;
+  const top = new Set(ranked.slice(0, k));
+  let found = 0;
+  for (const id of relevant.keys()) {
+    if (top.has(id)) found++;
+  }
+  return found / relevant.size;
+}
+
+/**
+ * 1 / rank of the first relevant id (0 when none is retrieved).
+ * Averaged over queries this is MRR.
+ */
+export function reciprocalRank(ranked: string[], relevant: RelevanceGrades): number {
+  const index = ranked.findIndex((id) => relevant.has(id));
+  return index >= 0 ? 1 / (index + 1) : 0;
+}
+
+function dcg(grades: number[]): number {
+  return grades.reduce((sum, grade, i) => sum + (2 ** grade - 1) / Math.log2(i + 2), 0);
+}
+
+/**
+ * Normalized discounted cumulative gain at k with exponential gain
+ * (2^grade - 1), so graded labels reward putting the best hit first.
+ */
+export function ndcgAtK(ranked: string[], relevant: RelevanceGrades, k: number): number {
+  const ideal = dcg([...relevant.values()].sort((a, b) => b - a).slice(0, k));
+  if (ideal === 0) return 0;
+  const actual = dcg(ranked.slice(0, k).map((id) => relevant.get(id) ?? 0));
+  return actual / ideal;
+}
+
+export function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
@@ -1,6 +1,7 @@
 import fs from 'fs';
 import path from 'path';
 import { getClawTextProdStateRoot } from '../runtime-paths.js';
+import { writeFileAtomic } from '../atomic-write.js';
 
 export type ExtractionMode = 'full' | 'lightweight' | 'recall' | 'disabled';
 export type ExtractionDepth = 'verbose' | 'concise' | 'minimal';
@@ -124,15 +125,11 @@ export function saveExtractionState(workspacePath: string, state: ExtractionStat
 
   // Save strategies as JSON array
   const strategiesArray = Object.values(state.strategies);
-  fs.writeFileSync(
-    getStrategiesPath(workspacePath),
-    JSON.stringify(strategiesArray, null, 2) + '\n',
-    'utf8',
-  );
+  writeFileAtomic(getStrategiesPath(workspacePath), JSON.stringify(strategiesArray, null, 2) + '\n');
 
   // Save mappings as JSON5
   const mappingsContent = JSON.stringify(state.mappings, null, 2);
-  fs.writeFileSync(getMappingsPath(workspacePath), mappingsContent + '\n', 'utf8');
+  writeFileAtomic(getMappingsPath(workspacePath), mappingsContent + '\n');
 
   return state;
 }
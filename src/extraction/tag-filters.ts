@@ -1,6 +1,7 @@
 import fs from 'fs';
 import path from 'path';
 import { getClawTextProdStateRoot } from '../runtime-paths.js';
+import { writeFileAtomic } from '../atomic-write.js';
 
 export interface TagFilterRule {
   include?: string[];
@@ -50,7 +51,8 @@ export function saveTagFilters(workspacePath: string, state: TagFilterState): Ta
   if (!fs.existsSync(dir)) {
     fs.mkdirSync(dir, { recursive: true });
   }
-  fs.writeFileSync(getFiltersPath(workspacePath), JSON.stringify(state, null, 2) + '\n', 'utf8');
+  const target = getFiltersPath(workspacePath);
+  writeFileAtomic(target, JSON.stringify(state, null, 2) + '\n');
   return state;
 }
 
@@ -9,6 +9,7 @@
 
 import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
 import { join } from 'path';
+import { writeFileAtomic } from '../atomic-write.js';
 
 // ──────────────────────────────────────────────
 // Types
@@ -36,6 +37,16 @@ export interface NodeConfig {
     pullOnConnect: boolean;
     heartbeatIntervalMs: number;
   };
+  security?: {
+    /** Reject unsigned or unknown-signer transactions and peer requests (default: on once a node key exists) */
+    requireSignatures?: boolean;
+    /** Max accepted clock skew for signed peer requests (default: 5 minutes) */
+    maxClockSkewMs?: number;
+  };
+  journal?: {
+    /** Seal the active Record segment (and snapshot) after this many entries (default: 10,000) */
+    maxSegmentEntries?: number;
+  };
   roles: NodeRole[];
 }
 
@@ -96,6 +107,12 @@ export function loadNodeConfig(stateRoot?: string): NodeConfig | null {
   return loadJSON<NodeConfig | null>(getNodeConfigPath(root), null);
 }
 
+export function saveNodeConfig(config: NodeConfig, stateRoot?: string): void {
+  const root = getFleetRoot(stateRoot);
+  if (!existsSync(root)) mkdirSync(root, { recursive: true });
+  writeFileSync(getNodeConfigPath(root), JSON.stringify(config, null, 2));
+}
+
 export function loadNodeRegistry(stateRoot?: string): NodeRegistry {
   const root = getFleetRoot(stateRoot);
   return loadJSON<NodeRegistry>(getNodesPath(root), { nodes: {}, updatedAt: new Date().toISOString() });
@@ -104,7 +121,8 @@ export function loadNodeRegistry(stateRoot?: string): NodeRegistry {
 function saveNodeRegistry(registry: NodeRegistry, stateRoot?: string): void {
   const root = getFleetRoot(stateRoot);
   if (!existsSync(root)) mkdirSync(root, { recursive: true });
-  writeFileSync(getNodesPath(root), JSON.stringify(registry, null, 2));
+  const target = getNodesPath(root);
+  writeFileAtomic(target, JSON.stringify(registry, null, 2));
 }
 
 // ──────────────────────────────────────────────
@@ -0,0 +1,643 @@
+/**
+ * ClawText Knowledge Graph
+ *
+ * A temporal entity/relation store built from memories. Each memory (API
+ * memories as they are added, cluster memories on `syncKnowledgeGraph`) is
+ * scanned for entities — people, projects, services, files, decisions and
+ * the free-form `entities` it carries — and for relations between them
+ * ("alice owns the billing service", "the billing service depends on the
+ * ledger database"). Relations become facts with a validity interval:
+ *
+ *   - `validFrom` is when the source memory was observed
+ *   - `validTo` is set when a later fact replaces it (one owner per thing at
+ *     a time) or when every memory asserting it is superseded or deleted
+ *
+ * so questions can be asked "as of" a date. Extraction is pattern based and
+ * offline; it favours missing a relation over inventing one.
+ *
+ * Stored at <stateRoot>/graph/knowledge-graph.json.
+ * Spec: docs/KNOWLEDGE_GRAPH.md
+ */
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { isDecisionLike } from '../contradiction-detector.js';
+import { getClawTextProdStateRoot } from '../runtime-paths.js';
+import { writeJsonAtomic } from '../atomic-write.js';
+
+// ──────────────────────────────────────────────
+// Types
+// ──────────────────────────────────────────────
+
+export type GraphEntityKind = 'person' | 'project' | 'service' | 'file' | 'decision' | 'topic';
+
+export const GRAPH_ENTITY_KINDS: GraphEntityKind[] = ['person', 'project', 'service', 'file', 'decision', 'topic'];
+
+export type GraphPredicate = 'owns' | 'depends-on' | 'replaces' | 'part-of' | 'about';
+
+export interface GraphEntity {
+  /** `<kind>:<slug>` */
+  id: string;
+  kind: GraphEntityKind;
+  name: string;
+  aliases: string[];
+  firstSeen: string;
+  lastSeen: string;
+  mentions: number;
+  /** Source ids that mention the entity, most recent last (capped) */
+  sources: string[];
+}
+
+export interface GraphFact {
+  id: string;
+  subject: string;
+  predicate: GraphPredicate;
+  object: string;
+  validFrom: string;
+  /** null while the fact still holds */
+  validTo: string | null;
+  /** Source ids asserting the fact */
+  sources: string[];
+  /** Sentence the fact was read from */
+  text: string;
+  recordedAt: string;
+  lastConfirmedAt: string;
+}
+
+export interface KnowledgeGraph {
+  version: 1;
+  updatedAt: string;
+  entities: Record<string, GraphEntity>;
+  facts: GraphFact[];
+  /** Source id → content signature, so syncs only re-read changed sources */
+  ingested: Record<string, string>;
+  /** Who may see facts from sources that are not shared; absent means shared */
+  scopes: Record<string, GraphSourceScope>;
+}
+
+/** A private memory is seen by its author, a cross-agent one also by its target */
+export interface GraphSourceScope {
+  visibility: 'private' | 'cross-agent';
+  agentId: string | null;
+  targetAgent: string | null;
+}
+
+/** One memory (or other text) to read into the graph */
+export interface GraphSource {
+  id: string;
+  text: string;
+  project?: string;
+  type?: string;
+  /** Explicit entities, plain names or `entity://<kind>/<name>` URIs */
+  entities?: string[];
+  observedAt: string;
+  /** Superseded sources retire their facts instead of adding them */
+  status?: string;
+  /** Memory visibility; private and cross-agent facts are scoped to these agents */
+  visibility?: 'shared' | 'private' | 'cross-agent';
+  agentId?: string | null;
+  targetAgent?: string | null;
+}
+
+export interface GraphObservation {
+  entities: Array<Pick<GraphEntity, 'id' | 'kind' | 'name'>>;
+  facts: Array<{ subject: string; predicate: GraphPredicate; object: string; text: string }>;
+}
+
+export interface GraphIngestResult {
+  sources: number;
+  entitiesAdded: number;
+  factsAdded: number;
+  factsEnded: number;
+}
+
+export interface GraphFactFilter {
+  subject?: string;
+  predicate?: GraphPredicate;
+  object?: string;
+  /** ISO timestamp or YYYY-MM-DD (end of that day); defaults to now. */
+  asOf?: string;
+  /** Include facts that are no longer valid at `asOf` */
+  includeEnded?: boolean;
+}
+
+export interface GraphEntityDescription {
+  entity: GraphEntity;
+  asOf: string;
+  /** Facts valid at `asOf` with the entity as subject */
+  outgoing: GraphFact[];
+  /** Facts valid at `asOf` with the entity as object */
+  incoming: GraphFact[];
+  /** Facts about the entity that ended before `asOf` */
+  ended: GraphFact[];
+}
+
+// ──────────────────────────────────────────────
+// Storage
+// ──────────────────────────────────────────────
+
+const MAX_ENTITY_SOURCES = 20;
+/** Predicates where an object has one subject at a time (a new owner ends the previous one) */
+const FUNCTIONAL_ON_OBJECT: GraphPredicate[] = ['owns'];
+
+export function getKnowledgeGraphPath(workspacePath: string): string {
+  return path.join(getClawTextProdStateRoot(workspacePath), 'graph', 'knowledge-graph.json');
+}
+
+function emptyGraph(): KnowledgeGraph {
+  return { version: 1, updatedAt: new Date(0).toISOString(), entities: {}, facts: [], ingested: {}, scopes: {} };
+}
+
+export function loadKnowledgeGraph(workspacePath: string): KnowledgeGraph {
+  const target = getKnowledgeGraphPath(workspacePath);
+  if (!fs.existsSync(target)) return emptyGraph();
+  try {
+    const parsed = JSON.parse(fs.readFileSync(target, 'utf8')) as Partial<KnowledgeGraph>;
+    return {
+      ...emptyGraph(),
+      ...parsed,
+      entities: parsed.entities ?? {},
+      facts: Array.isArray(parsed.facts) ? parsed.facts : [],
+      ingested: parsed.ingested ?? {},
+      scopes: parsed.scopes ?? {},
+    };
+  } catch {
+    return emptyGraph();
+  }
+}
+
+export function saveKnowledgeGraph(workspacePath: string, graph: KnowledgeGraph): void {
+  const target = getKnowledgeGraphPath(workspacePath);
+  graph.updatedAt = new Date().toISOString();
+  writeJsonAtomic(target, graph);
+}
+
+// ──────────────────────────────────────────────
+// Extraction
+// ──────────────────────────────────────────────
+
+const FILE_NAME = String.raw`(?:[\w.-]+\/)*[\w-]+\.(?:ts|tsx|js|mjs|cjs|json|md|ya?ml|py|go|rs|sh|sql|toml)`;
+const FILE_RX = new RegExp(String.raw`(?:^|[\s(\x60'"])(${FILE_NAME})\b`, 'g');
+const SERVICE_RX = /\b([a-z][\w-]{1,40})[\s-](service|server|gateway|api|database|db|queue|worker|cluster)\b/gi;
+const HANDLE_RX = /(?:^|[\s(])@([a-z][\w.-]{1,38})/gi;
+const NAME = '([A-Z][a-z]+(?: [A-Z][a-z]+)?)';
+/** Capitalised names only count as people next to an ownership verb */
+const PERSON_RX = [
+  new RegExp(`\\b${NAME}\\s+(?:now\\s+)?(?:owns|maintains|leads|took over|is responsible for|is the owner of)\\b`, 'g'),
+  new RegExp(`\\b(?:owned|maintained|led) by\\s+${NAME}\\b`, 'g'),
+];
+const NOT_A_NAME = new Set(['The', 'This', 'That', 'It', 'We', 'Our', 'Who', 'Nobody', 'Everyone', 'Team']);
+const SERVICE_QUALIFIER_STOPWORDS = new Set(['the', 'a', 'an', 'our', 'this', 'that', 'its', 'their', 'your', 'my', 'new', 'old', 'main', 'each', 'every', 'which', 'same']);
+
+const RELATION_VERBS: Array<{ predicate: GraphPredicate; rx: RegExp; reversed?: boolean }> = [
+  { predicate: 'owns', rx: /\b(?:is owned by|is maintained by|is led by|belongs to)\b/i, reversed: true },
+  { predicate: 'owns', rx: /\b(?:now owns|owns|maintains|leads|took over|is responsible for|is the owner of)\b/i },
+  { predicate: 'depends-on', rx: /\b(?:depends on|uses|calls|talks to|reads from|writes to|runs on)\b/i },
+  { predicate: 'replaces', rx: /\b(?:replaces|replaced|supersedes)\b/i },
+];
+
+const URI_KINDS: Record<string, GraphEntityKind> = {
+  person: 'person',
+  user: 'person',
+  project: 'project',
+  repo: 'project',
+  service: 'service',
+  file: 'file',
+  decision: 'decision',
+  topic: 'topic',
+  thread: 'topic',
+};
+
+function slug(value: string): string {
+  return value.trim().toLowerCase().replace(/[^a-z0-9_./-]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+function entityRef(kind: GraphEntityKind, name: string): Pick<GraphEntity, 'id' | 'kind' | 'name'> {
+  const clean = name.trim().replace(/^@/, '');
+  return { id: `${kind}:${slug(clean)}`, kind, name: clean };
+}
+
+function classifyEntity(raw: string): Pick<GraphEntity, 'id' | 'kind' | 'name'> | null {
+  const value = raw.trim();
+  if (!value) return null;
+  const uri = value.match(/^entity:\/\/([a-z]+)\/(.+)$/i);
+  if (uri) return entityRef(URI_KINDS[uri[1].toLowerCase()] ?? 'topic', decodeURIComponent(uri[2]));
+  if (value.startsWith('@')) return entityRef('person', value);
+  if (new RegExp(`^${FILE_NAME}$`).test(value)) return entityRef('file', value);
+  return entityRef('topic', value);
+}
+
+interface Mention {
+  entity: Pick<GraphEntity, 'id' | 'kind' | 'name'>;
+  start: number;
+  end: number;
+}
+
+function findMentions(sentence: string): Mention[] {
+  const mentions: Mention[] = [];
+  const add = (kind: GraphEntityKind, name: string, start: number, end: number) => {
+    if (mentions.some((m) => start < m.end && end > m.start)) return;
+    mentions.push({ entity: entityRef(kind, name), start, end });
+  };
+
+  for (const match of sentence.matchAll(FILE_RX)) {
+    const start = match.index! + match[0].indexOf(match[1]);
+    add('file', match[1], start, start + match[1].length);
+  }
+  for (const match of sentence.matchAll(HANDLE_RX)) {
+    const start = match.index! + match[0].indexOf('@');
+    add('person', match[1], start, start + match[1].length + 1);
+  }
+  for (const rx of PERSON_RX) {
+    for (const match of sentence.matchAll(rx)) {
+      if (NOT_A_NAME.has(match[1].split(' ')[0])) continue;
+      const start = match.index! + match[0].indexOf(match[1]);
+      add('person', match[1], start, start + match[1].length);
+    }
+  }
+  for (const match of sentence.matchAll(SERVICE_RX)) {
+    if (SERVICE_QUALIFIER_STOPWORDS.has(match[1].toLowerCase())) continue;
+    add('service', `${match[1].toLowerCase()} ${match[2].toLowerCase()}`, match.index!, match.index! + match[0].length);
+  }
+  return mentions.sort((a, b) => a.start - b.start);
+}
+
+function sentences(text: string): string[] {
+  return text.split(/(?<=[.!?;])\s+|\n+/).map((s) => s.trim()).filter(Boolean);
+}
+
+/**
+ * Read the entities and relations out of one source without touching the
+ * store. Relations need an entity on each side of the verb in the same
+ * sentence; everything a source mentions is also `part-of` its project.
+ */
+export function extractGraphObservation(source: GraphSource): GraphObservation {
+  const entities = new Map<string, Pick<GraphEntity, 'id' | 'kind' | 'name'>>();
+  const facts: GraphObservation['facts'] = [];
+  const keep = (entity: Pick<GraphEntity, 'id' | 'kind' | 'name'> | null) => {
+    if (entity && entity.id.split(':')[1] && !entities.has(entity.id)) entities.set(entity.id, entity);
+    return entity;
+  };
+
+  for (const raw of source.entities ?? []) keep(classifyEntity(raw));
+
+  for (const sentence of sentences(source.text)) {
+    const mentions = findMentions(sentence);
+    mentions.forEach((m) => keep(m.entity));
+
+    for (const verb of RELATION_VERBS) {
+      const match = verb.rx.exec(sentence);
+      if (!match) continue;
+      const before = mentions.filter((m) => m.end <= match.index).pop();
+      const after = mentions.find((m) => m.start >= match.index + match[0].length);
+      if (!before || !after || before.entity.id === after.entity.id) continue;
+      const [subject, object] = verb.reversed ? [after, before] : [before, after];
+      if (verb.predicate === 'owns' && subject.entity.kind !== 'person') continue;
+      facts.push({ subject: subject.entity.id, predicate: verb.predicate, object: object.entity.id, text: sentence });
+      break;
+    }
+  }
+
+  const project = source.project && !['general', 'ingestion'].includes(source.project)
+    ? keep(entityRef('project', source.project))
+    : null;
+
+  if (source.type === 'decision' || isDecisionLike(source.text)) {
+    const decision = keep({ id: `decision:${slug(source.id)}`, kind: 'decision', name: source.text.replace(/\s+/g, ' ').trim().slice(0, 80) })!;
+    for (const entity of entities.values()) {
+      if (entity.kind === 'decision' || entity.kind === 'project') continue;
+      facts.push({ subject: decision.id, predicate: 'about', object: entity.id, text: decision.name });
+    }
+  }
+
+  if (project) {
+    for (const entity of entities.values()) {
+      if (entity.id === project.id || entity.kind === 'person') continue;
+      facts.push({ subject: entity.id, predicate: 'part-of', object: project.id, text: `${entity.name} in project ${project.name}` });
+    }
+  }
+
+  return { entities: [...entities.values()], facts };
+}
+
+// ──────────────────────────────────────────────
+// Ingest
+// ──────────────────────────────────────────────
+
+function scopeOf(source: GraphSource): GraphSourceScope | null {
+  if (source.visibility !== 'private' && source.visibility !== 'cross-agent') return null;
+  return { visibility: source.visibility, agentId: source.agentId ?? null, targetAgent: source.targetAgent ?? null };
+}
+
+function signatureOf(source: GraphSource): string {
+  const scope = scopeOf(source);
+  // Shared sources keep the signature they had before scopes were recorded
+  const scoped = scope ? `\n${scope.visibility}:${scope.agentId ?? ''}:${scope.targetAgent ?? ''}` : '';
+  return crypto.createHash('sha1').update(`${source.status ?? ''}\n${source.text}\n${(source.entities ?? []).join(',')}${scoped}`).digest('hex').slice(0, 16);
+}
+
+function factId(subject: string, predicate: string, object: string, validFrom: string): string {
+  return `fact_${crypto.createHash('sha1').update(`${subject}|${predicate}|${object}|${validFrom}`).digest('hex').slice(0, 12)}`;
+}
+
+/**
+ * Recompute validTo along one object's timeline of a functional predicate:
+ * each fact ends where the next fact with a different subject begins.
+ * Returns how many facts were newly ended.
+ */
+function settleTimeline(graph: KnowledgeGraph, predicate: GraphPredicate, object: string): number {
+  const timeline = graph.facts
+    .filter((f) => f.predicate === predicate && f.object === object && f.sources.length > 0)
+    .sort((a, b) => a.validFrom.localeCompare(b.validFrom));
+  let ended = 0;
+  timeline.forEach((fact, index) => {
+    const next = timeline.slice(index + 1).find((f) => f.subject !== fact.subject);
+    const validTo = next?.validFrom ?? null;
+    if (validTo !== fact.validTo) {
+      if (fact.validTo === null) ended++;
+      fact.validTo = validTo;
+    }
+  });
+  return ended;
+}
+
+function retireSource(graph: KnowledgeGraph, sourceId: string, at: string): number {
+  let ended = 0;
+  for (const fact of graph.facts) {
+    if (!fact.sources.includes(sourceId)) continue;
+    fact.sources = fact.sources.filter((s) => s !== sourceId);
+    if (fact.sources.length === 0 && fact.validTo === null) {
+      fact.validTo = at;
+      ended++;
+    }
+  }
+  return ended;
+}
+
+function applySource(graph: KnowledgeGraph, source: GraphSource, result: GraphIngestResult): void {
+  const now = new Date().toISOString();
+  const observation = extractGraphObservation(source);
+
+  for (const ref of observation.entities) {
+    const existing = graph.entities[ref.id];
+    if (!existing) {
+      graph.entities[ref.id] = {
+        ...ref, aliases: [], firstSeen: source.observedAt, lastSeen: source.observedAt, mentions: 1, sources: [source.id],
+      };
+      result.entitiesAdded++;
+      continue;
+    }
+    if (existing.name !== ref.name && !existing.aliases.includes(ref.name) && existing.kind !== 'decision') {
+      existing.aliases.push(ref.name);
+    }
+    if (source.observedAt < existing.firstSeen) existing.firstSeen = source.observedAt;
+    if (source.observedAt > existing.lastSeen) existing.lastSeen = source.observedAt;
+    if (!existing.sources.includes(source.id)) {
+      existing.mentions++;
+      existing.sources = [...existing.sources, source.id].slice(-MAX_ENTITY_SOURCES);
+    }
+  }
+
+  const touched = new Set<string>();
+  for (const draft of observation.facts) {
+    const open = graph.facts.find((f) => (
+      f.subject === draft.subject && f.predicate === draft.predicate && f.object === draft.object &&
+      f.sources.length > 0 && f.validFrom <= source.observedAt && (f.validTo === null || source.observedAt < f.validTo)
+    ));
+    if (open) {
+      if (!open.sources.includes(source.id)) open.sources.push(source.id);
+      open.lastConfirmedAt = now;
+      continue;
+    }
+    graph.facts.push({
+      id: factId(draft.subject, draft.predicate, draft.object, source.observedAt),
+      subject: draft.subject,
+      predicate: draft.predicate,
+      object: draft.object,
+      validFrom: source.observedAt,
+      validTo: null,
+      sources: [source.id],
+      text: draft.text,
+      recordedAt: now,
+      lastConfirmedAt: now,
+    });
+    result.factsAdded++;
+    if (FUNCTIONAL_ON_OBJECT.includes(draft.predicate)) touched.add(`${draft.predicate}\n${draft.object}`);
+  }
+
+  for (const key of touched) {
+    const [predicate, object] = key.split('\n');
+    result.factsEnded += settleTimeline(graph, predicate as GraphPredicate, object);
+  }
+}
+
+/**
+ * Read sources into the graph, oldest first. A source already read with
+ * the same content is skipped; a changed one has its old facts retired
+ * first; a superseded one only retires its facts.
+ */
+export function ingestIntoKnowledgeGraph(workspacePath: string, sources: GraphSource[]): GraphIngestResult {
+  const graph = loadKnowledgeGraph(workspacePath);
+  const result: GraphIngestResult = { sources: 0, entitiesAdded: 0, factsAdded: 0, factsEnded: 0 };
+
+  let changed = false;
+  for (const source of [...sources].sort((a, b) => a.observedAt.localeCompare(b.observedAt))) {
+    const signature = signatureOf(source);
+    if (graph.ingested[source.id] === signature) continue;
+    if (source.status === 'superseded' && !graph.ingested[source.id]) {
+      // Never read, or already retired by retireGraphSource: nothing to end
+      graph.ingested[source.id] = signature;
+      changed = true;
+      continue;
+    }
+    if (graph.ingested[source.id]) result.factsEnded += retireSource(graph, source.id, new Date().toISOString());
+    const scope = scopeOf(source);
+    if (scope && source.status !== 'superseded') graph.scopes[source.id] = scope;
+    else delete graph.scopes[source.id];
+    if (source.status !== 'superseded') applySource(graph, source, result);
+    graph.ingested[source.id] = signature;
+    result.sources++;
+    changed = true;
+  }
+
+  if (changed) saveKnowledgeGraph(workspacePath, graph);
+  return result;
+}
+
+/**
+ * End the facts that only `sourceId` asserted (the memory was superseded,
+ * deleted or archived). Returns how many facts ended.
+ */
+export function retireGraphSource(workspacePath: string, sourceId: string, at = new Date().toISOString()): number {
+  return retireGraphSources(workspacePath, [sourceId], at);
+}
+
+/** retireGraphSource for many sources, loading and saving the graph once */
+export function retireGraphSources(workspacePath: string, sourceIds: Iterable<string>, at = new Date().toISOString()): number {
+  const graph = loadKnowledgeGraph(workspacePath);
+  let ended = 0;
+  let changed = false;
+  for (const sourceId of sourceIds) {
+    if (!graph.ingested[sourceId]) continue;
+    ended += retireSource(graph, sourceId, at);
+    delete graph.ingested[sourceId];
+    delete graph.scopes[sourceId];
+    changed = true;
+  }
+  if (changed) saveKnowledgeGraph(workspacePath, graph);
+  return ended;
+}
+
+function readJsonFiles(dir: string, filter: (file: string) => boolean): any[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir).filter(filter).flatMap((file) => {
+    try {
+      return [JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8'))];
+    } catch {
+      return [];
+    }
+  });
+}
+
+/** Shape an API or cluster memory as a graph source */
+export function memoryToGraphSource(memory: Record<string, any>): GraphSource | null {
+  const text = String(memory.body ?? memory.content ?? '').trim();
+  if (!memory.id || !text) return null;
+  return {
+    id: String(memory.id),
+    text,
+    project: memory.project,
+    type: memory.type,
+    entities: Array.isArray(memory.entities) ? memory.entities.map(String) : [],
+    // The current content was observed when it was last written
+    observedAt: memory.updatedAt || memory.observedAt || memory.createdAt || new Date().toISOString(),
+    status: memory.status,
+    visibility: memory.visibility,
+    agentId: memory.agentId ?? null,
+    targetAgent: memory.targetAgent ?? null,
+  };
+}
+
+/**
+ * Bring the graph up to date with every API memory and every memory in the
+ * built clusters (which is where ingested files end up). Sources already
+ * read with the same content are skipped, so this is cheap to re-run.
+ */
+export function syncKnowledgeGraph(workspacePath: string): GraphIngestResult {
+  const memoryDir = path.join(workspacePath, 'memory');
+  const apiMemories = readJsonFiles(path.join(memoryDir, 'api-memories'), (f) => f.endsWith('.json'));
+  const clustered = readJsonFiles(path.join(memoryDir, 'clusters'), (f) => f.startsWith('cluster-') && f.endsWith('.json'))
+    .flatMap((cluster) => (Array.isArray(cluster?.memories) ? cluster.memories : []))
+    .map((memory: Record<string, any>) => ({ project: memory.project, ...memory }));
+
+  const byId = new Map<string, GraphSource>();
+  for (const memory of [...clustered, ...apiMemories]) {
+    const source = memoryToGraphSource(memory);
+    if (source) byId.set(source.id, source);
+  }
+  return ingestIntoKnowledgeGraph(workspacePath, [...byId.values()]);
+}
+
+// ──────────────────────────────────────────────
+// Queries
+// ──────────────────────────────────────────────
+
+/** Normalise an as-of date; a bare YYYY-MM-DD means the end of that day. */
+export function normalizeAsOf(asOf?: string): string {
+  if (!asOf) return new Date().toISOString();
+  const value = /^\d{4}-\d{2}-\d{2}$/.test(asOf) ? `${asOf}T23:59:59.999Z` : asOf;
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) throw new Error(`invalid date "${asOf}"`);
+  return parsed.toISOString();
+}
+
+/**
+ * Whether `agentId` may see a fact: some source asserting it is shared, or
+ * scoped to that agent. Without an agent only shared sources count.
+ */
+export function isGraphFactVisibleTo(graph: KnowledgeGraph, fact: GraphFact, agentId: string | null): boolean {
+  return fact.sources.length === 0 || fact.sources.some((sourceId) => {
+    const scope = graph.scopes[sourceId];
+    if (!scope) return true;
+    if (!agentId) return false;
+    return scope.agentId === agentId || (scope.visibility === 'cross-agent' && scope.targetAgent === agentId);
+  });
+}
+
+function validAt(fact: GraphFact, asOf: string): boolean {
+  return fact.validFrom <= asOf && (fact.validTo === null || asOf < fact.validTo);
+}
+
+/**
+ * Find an entity by id (`service:billing-service`), name or alias, then by
+ * a unique partial name match. Returns null when nothing (or more than one
+ * partial match) fits.
+ */
+export function findGraphEntity(graph: KnowledgeGraph, ref: string): GraphEntity | null {
+  const wanted = ref.trim().replace(/^@/, '').toLowerCase();
+  if (!wanted) return null;
+  const entities = Object.values(graph.entities);
+  const exact = graph.entities[ref.trim()]
+    ?? entities.find((e) => e.name.toLowerCase() === wanted || e.aliases.some((a) => a.toLowerCase() === wanted))
+    ?? entities.find((e) => e.id.split(':').slice(1).join(':') === slug(wanted));
+  if (exact) return exact;
+  const partial = entities.filter((e) => e.kind !== 'decision' && e.name.toLowerCase().includes(wanted));
+  return partial.length === 1 ? partial[0] : null;
+}
+
+function resolveRef(graph: KnowledgeGraph, ref: string | undefined): string | undefined {
+  if (!ref) return undefined;
+  const entity = findGraphEntity(graph, ref);
+  if (!entity) throw new Error(`no entity matches "${ref}"`);
+  return entity.id;
+}
+
+export function queryGraphFacts(workspacePath: string, filter: GraphFactFilter = {}): GraphFact[] {
+  const graph = loadKnowledgeGraph(workspacePath);
+  const asOf = normalizeAsOf(filter.asOf);
+  const subject = resolveRef(graph, filter.subject);
+  const object = resolveRef(graph, filter.object);
+  return graph.facts
+    .filter((f) => (
+      (!subject || f.subject === subject) &&
+      (!object || f.object === object) &&
+      (!filter.predicate || f.predicate === filter.predicate) &&
+      f.validFrom <= asOf &&
+      (filter.includeEnded || validAt(f, asOf))
+    ))
+    .sort((a, b) => a.validFrom.localeCompare(b.validFrom));
+}
+
+/** "What do we know about X" — the facts around one entity as of a date */
+export function describeGraphEntity(workspacePath: string, ref: string, options: { asOf?: string } = {}): GraphEntityDescription | null {
+  const graph = loadKnowledgeGraph(workspacePath);
+  const entity = findGraphEntity(graph, ref);
+  if (!entity) return null;
+  const asOf = normalizeAsOf(options.asOf);
+  const around = graph.facts
+    .filter((f) => (f.subject === entity.id || f.object === entity.id) && f.validFrom <= asOf)
+    .sort((a, b) => a.validFrom.localeCompare(b.validFrom));
+  return {
+    entity,
+    asOf,
+    outgoing: around.filter((f) => f.subject === entity.id && validAt(f, asOf)),
+    incoming: around.filter((f) => f.object === entity.id && validAt(f, asOf)),
+    ended: around.filter((f) => !validAt(f, asOf)),
+  };
+}
+
+/** "Who owns Y as of Z" */
+export function findEntityOwners(workspacePath: string, ref: string, asOf?: string): GraphEntity[] {
+  const graph = loadKnowledgeGraph(workspacePath);
+  return queryGraphFacts(workspacePath, { object: ref, predicate: 'owns', asOf })
+    .map((f) => graph.entities[f.subject])
+    .filter((e): e is GraphEntity => Boolean(e));
+}
+
+/** Human-readable line for a fact, naming both ends */
+export function formatGraphFact(graph: KnowledgeGraph, fact: GraphFact): string {
+  const name = (id: string) => graph.entities[id]?.name ?? id;
+  const span = fact.validTo ? `${fact.validFrom.slice(0, 10)} → ${fact.validTo.slice(0, 10)}` : `since ${fact.validFrom.slice(0, 10)}`;
+  return `${name(fact.subject)} ${fact.predicate} ${name(fact.object)} (${span})`;
+}
@@ -2,6 +2,7 @@ import fs from 'fs';
 import path from 'path';
 import { getClawTextCacheDir } from './runtime-paths.js';
 import crypto from 'crypto';
+import { computeSalience, loadSalienceState, type SalienceState } from './salience.js';
 
 export interface HotCacheConfig {
   enabled: boolean;
@@ -166,6 +167,7 @@ export class HotMemoryCache {
 
   private memoryFromCacheItem(item: HotCacheItem): CacheableMemory & { cache: Record<string, any> } {
     return {
+      id: item.memoryId ?? undefined,
       content: item.content || item.summary || item.snippet,
       type: item.type || 'fact',
       source: item.source || 'hot-cache',
@@ -182,7 +184,7 @@ export class HotMemoryCache {
     };
   }
 
-  private scoreItem(query: string, item: HotCacheItem, projectKeywords: string[] = []): number {
+  private scoreItem(query: string, item: HotCacheItem, projectKeywords: string[], salienceState: SalienceState, now: number): number {
     const queryTerms = query.toLowerCase().split(/\s+/).filter(Boolean);
     const haystack = [item.summary || '', item.snippet || '', ...(item.entities || []), ...(item.keywords || []), item.project || '', item.type || '']
       .join(' ')
@@ -196,21 +198,27 @@ export class HotMemoryCache {
       ? 1
       : projectKeywords.some(kw => (item.project || '').includes(kw) || kw.includes(item.project || '')) ? 1 : 0.5;
 
-    const recencyAgeMs = Date.now() - new Date(item.updatedAt || item.createdAt || Date.now()).getTime();
-    const recencyDays = Math.max(0, recencyAgeMs / (24 * 60 * 60 * 1000));
-    const recencyScore = Math.max(0, 1 - (recencyDays / this.config.defaultTtlDays));
-    const hitScore = Math.min(1, (item.hitCount || 0) / 10);
-    const stickyScore = item.sticky ? 0.15 : 0;
-
-    return termScore * 0.45 + (item.confidence || 0) * 0.2 + recencyScore * 0.15 + hitScore * 0.1 + projectMatch * 0.1 + stickyScore;
+    // Same decay/reinforcement/pin model as RAG; sticky items count as pinned
+    const { salience } = computeSalience({
+      content: item.content || item.summary,
+      type: item.type,
+      updatedAt: item.updatedAt || item.createdAt,
+      hitCount: item.hitCount,
+      lastHitAt: item.lastHitAt,
+      pinned: item.sticky || Boolean(item.memoryId && salienceState.pins[item.memoryId]),
+    }, now);
+
+    return termScore * 0.45 + (item.confidence || 0) * 0.2 + salience * 0.4 + projectMatch * 0.1;
   }
 
   query(query: string, projectKeywords: string[] = [], limit = this.config.maxResultsPerQuery): Array<CacheableMemory & { cache: Record<string, any> }> {
     if (!this.config.enabled || !query) return [];
     this.pruneExpired(false);
 
+    const salienceState = loadSalienceState(this.workspacePath);
+    const now = Date.now();
     const results = this.items
-      .map(item => ({ item, score: this.scoreItem(query, item, projectKeywords) }))
+      .map(item => ({ item, score: this.scoreItem(query, item, projectKeywords, salienceState, now) }))
       .filter(entry => entry.score > 0)
       .sort((a, b) => b.score - a.score)
       .slice(0, limit);
@@ -304,6 +312,20 @@ export class HotMemoryCache {
     return false;
   }
 
+  /**
+   * Drop every cached item for a memory (e.g. after it was superseded).
+   */
+  evictMemory(memoryId: string): number {
+    const before = this.items.length;
+    this.items = this.items.filter(item => item.memoryId !== memoryId);
+    const removed = before - this.items.length;
+    if (removed > 0) {
+      this.stats.evictions += removed;
+      this.save();
+    }
+    return removed;
+  }
+
   private enforceLimits(): void {
     if (this.items.length <= this.config.maxItems) return;
     this.items = this.items.sort((a, b) => this.evictionScore(b) - this.evictionScore(a)).slice(0, this.config.maxItems);
@@ -0,0 +1,243 @@
+/**
+ * ClawText IaC — Configuration Bundles
+ *
+ * One portable JSON document holding the configuration spread across the
+ * state root: permissions, extraction strategies and mappings, tag filters,
+ * advisors and routing rules, the session matrix and the reflect config.
+ * `exportConfigBundle` reads it, `restoreConfigBundle` writes it back over a
+ * workspace (store by store, journaled). Apply history and rollback are
+ * built on top of these in ./index.ts.
+ *
+ * Spec: docs/IAC_SPEC.md (Export, Import and Rollback)
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import {
+  deleteRole,
+  deleteUserOverride,
+  deleteVaultOverride,
+  getPermissionsRoot,
+  saveGlobalDefaults,
+  saveRole,
+  saveUserOverride,
+  saveVaultOverride,
+} from '../permissions/index.js';
+import { loadPermissionSnapshot, type PermissionSnapshot } from '../permissions/policy.js';
+import { loadExtractionState, saveExtractionState, type ExtractionState } from '../extraction/extraction-router.js';
+import { loadTagFilters, saveTagFilters, type RecallFilter } from '../extraction/tag-filters.js';
+import {
+  loadAdvisorState,
+  saveAdvisorState,
+  type AdvisorDefinition,
+  type RoutingRule,
+} from '../slots/advisor.js';
+import {
+  loadSessionMatrixState,
+  saveSessionMatrixState,
+  type SessionMatrixRow,
+} from '../slots/sessionMatrix.js';
+import { getReflectConfigPath, type ReflectConfig } from '../reflect/index.js';
+import { emitTransaction, recordConfigApplied } from '../record/index.js';
+import { getClawTextProdStateRoot } from '../runtime-paths.js';
+import { writeJsonAtomic } from '../atomic-write.js';
+
+// ──────────────────────────────────────────────
+// Types
+// ──────────────────────────────────────────────
+
+export const CONFIG_BUNDLE_FORMAT = 'clawtext-config';
+
+export interface ConfigBundle {
+  format: typeof CONFIG_BUNDLE_FORMAT;
+  version: 1;
+  exportedAt: string;
+  permissions: PermissionSnapshot;
+  extraction: ExtractionState;
+  tagFilters: Record<string, RecallFilter>;
+  advisors: { advisors: AdvisorDefinition[]; routingRules: RoutingRule[] };
+  sessionMatrix: SessionMatrixRow[];
+  /** Contents of reflect/config.json; null when it has never been written */
+  reflect: Partial<ReflectConfig> | null;
+}
+
+export type ConfigStore = 'permissions' | 'extraction' | 'tagFilters' | 'advisors' | 'sessionMatrix' | 'reflect';
+
+export const CONFIG_STORES: ConfigStore[] = ['permissions', 'extraction', 'tagFilters', 'advisors', 'sessionMatrix', 'reflect'];
+
+export interface RestoreResult {
+  /** Stores whose contents changed */
+  stores: ConfigStore[];
+  /** Record transactions written */
+  journaled: number;
+}
+
+// ──────────────────────────────────────────────
+// Helpers
+// ──────────────────────────────────────────────
+
+/** Stable JSON: sorted keys, undefined dropped */
+export function canonical(value: unknown): string {
+  return JSON.stringify(value, (_key, v) => (
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? Object.fromEntries(Object.keys(v).sort().filter((k) => v[k] !== undefined).map((k) => [k, v[k]]))
+      : v
+  ));
+}
+
+function readReflectConfig(workspacePath: string): Partial<ReflectConfig> | null {
+  const target = getReflectConfigPath(getClawTextProdStateRoot(workspacePath));
+  if (!existsSync(target)) return null;
+  try {
+    return JSON.parse(readFileSync(target, 'utf-8')) as Partial<ReflectConfig>;
+  } catch {
+    return null;
+  }
+}
+
+function writeReflectConfig(workspacePath: string, config: Partial<ReflectConfig>): void {
+  const target = getReflectConfigPath(getClawTextProdStateRoot(workspacePath));
+  writeJsonAtomic(target, config);
+}
+
+// ──────────────────────────────────────────────
+// Export
+// ──────────────────────────────────────────────
+
+export function exportConfigBundle(workspacePath: string): ConfigBundle {
+  const advisors = loadAdvisorState(workspacePath);
+  return {
+    format: CONFIG_BUNDLE_FORMAT,
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    permissions: loadPermissionSnapshot(getPermissionsRoot(workspacePath)),
+    extraction: loadExtractionState(workspacePath),
+    tagFilters: loadTagFilters(workspacePath).filters ?? {},
+    advisors: { advisors: advisors.advisors, routingRules: advisors.routingRules },
+    sessionMatrix: loadSessionMatrixState(workspacePath).sessions,
+    reflect: readReflectConfig(workspacePath),
+  };
+}
+
+/** Check the shape of a bundle read from disk. Throws on anything else. */
+export function parseConfigBundle(text: string, source = 'bundle'): ConfigBundle {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`${source}: invalid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+  const bundle = raw as Partial<ConfigBundle>;
+  if (!bundle || bundle.format !== CONFIG_BUNDLE_FORMAT) throw new Error(`${source}: not a ${CONFIG_BUNDLE_FORMAT} bundle`);
+  if (bundle.version !== 1) throw new Error(`${source}: unsupported bundle version ${JSON.stringify(bundle.version)}`);
+
+  const p = bundle.permissions;
+  if (!p || typeof p.defaults !== 'object' || ![p.roles, p.vaults, p.users].every(Array.isArray)) {
+    throw new Error(`${source}: permissions must hold defaults, roles, vaults and users`);
+  }
+  if (!bundle.extraction?.strategies || !Array.isArray(bundle.extraction.mappings?.mappings)) {
+    throw new Error(`${source}: extraction must hold strategies and mappings`);
+  }
+  if (!bundle.tagFilters || typeof bundle.tagFilters !== 'object') throw new Error(`${source}: tagFilters must be a mapping`);
+  if (!Array.isArray(bundle.advisors?.advisors) || !Array.isArray(bundle.advisors?.routingRules)) {
+    throw new Error(`${source}: advisors must hold advisors and routingRules`);
+  }
+  if (!Array.isArray(bundle.sessionMatrix)) throw new Error(`${source}: sessionMatrix must be a list`);
+
+  return { ...bundle, reflect: bundle.reflect ?? null } as ConfigBundle;
+}
+
+export function loadConfigBundle(filePath: string): ConfigBundle {
+  if (!existsSync(filePath)) throw new Error(`bundle not found: ${filePath}`);
+  return parseConfigBundle(readFileSync(filePath, 'utf-8'), filePath);
+}
+
+// ──────────────────────────────────────────────
+// Restore
+// ──────────────────────────────────────────────
+
+function changedStores(current: ConfigBundle, bundle: ConfigBundle): ConfigStore[] {
+  return CONFIG_STORES.filter((store) => (
+    // A bundle taken before reflect was configured leaves the file alone
+    (store !== 'reflect' || bundle.reflect !== null) &&
+    canonical(current[store]) !== canonical(bundle[store])
+  ));
+}
+
+/** Stores whose contents differ between the workspace and the bundle */
+export function diffConfigBundle(workspacePath: string, bundle: ConfigBundle): ConfigStore[] {
+  return changedStores(exportConfigBundle(workspacePath), bundle);
+}
+
+function restorePermissions(workspacePath: string, current: PermissionSnapshot, next: PermissionSnapshot): number {
+  const root = getPermissionsRoot(workspacePath);
+  let journaled = saveGlobalDefaults(root, next.defaults);
+
+  for (const role of current.roles) {
+    if (!next.roles.some((r) => r.roleId === role.roleId)) journaled += deleteRole(root, role.roleId);
+  }
+  for (const role of next.roles) journaled += saveRole(root, role);
+
+  for (const vault of current.vaults) {
+    if (!next.vaults.some((v) => v.vaultId === vault.vaultId)) journaled += deleteVaultOverride(root, vault.vaultId);
+  }
+  for (const vault of next.vaults) journaled += saveVaultOverride(root, vault);
+
+  for (const user of current.users) {
+    if (!next.users.some((u) => u.userId === user.userId && u.vaultId === user.vaultId)) {
+      journaled += deleteUserOverride(root, user.userId, user.vaultId);
+    }
+  }
+  for (const user of next.users) journaled += saveUserOverride(root, user);
+
+  return journaled;
+}
+
+/**
+ * Write every store that differs from the bundle. Permissions go through
+ * the journaled save* writers; each other store is saved once (temp file
+ * + rename) and journaled as a single config.applied with resourceId "*".
+ */
+export function restoreConfigBundle(workspacePath: string, bundle: ConfigBundle, source: string): RestoreResult {
+  const current = exportConfigBundle(workspacePath);
+  const stores = changedStores(current, bundle);
+  const stateRoot = getClawTextProdStateRoot(workspacePath);
+  let journaled = 0;
+
+  for (const store of stores) {
+    switch (store) {
+      case 'permissions':
+        journaled += restorePermissions(workspacePath, current.permissions, bundle.permissions);
+        continue;
+      case 'extraction':
+        saveExtractionState(workspacePath, bundle.extraction);
+        break;
+      case 'tagFilters':
+        saveTagFilters(workspacePath, { filters: bundle.tagFilters });
+        break;
+      case 'advisors':
+        saveAdvisorState(workspacePath, { version: 1, updatedAt: new Date().toISOString(), ...bundle.advisors });
+        break;
+      case 'sessionMatrix': {
+        const matrix = loadSessionMatrixState(workspacePath);
+        saveSessionMatrixState(workspacePath, { ...matrix, sessions: bundle.sessionMatrix });
+        break;
+      }
+      case 'reflect':
+        writeReflectConfig(workspacePath, bundle.reflect!);
+        break;
+    }
+
+    const txn = emitTransaction(() => recordConfigApplied(
+      store,
+      '*',
+      'modify',
+      current[store] as unknown as Record<string, unknown> | null,
+      bundle[store] as unknown as Record<string, unknown> | null,
+      { source },
+      { stateRoot }
+    ));
+    if (txn) journaled++;
+  }
+
+  return { stores, journaled };
+}
@@ -0,0 +1,667 @@
+/**
+ * ClawText IaC — Desired State, Plan, Apply, Drift
+ *
+ * A desired-state YAML file declares roles, permission defaults, extraction
+ * strategies, topic mappings, tag filters, advisors, routing rules and fleet
+ * nodes. `planIac` diffs it against what is on disk, `applyIac` writes the
+ * difference (each file replaced by rename) and journals it to the Record,
+ * and `detectDrift` reports edits made since the last apply. Every apply,
+ * import and rollback also saves a configuration bundle (./bundle.ts) to
+ * the history, which `rollbackIac` restores from.
+ *
+ * Only the sections present in the file are managed; a section that is left
+ * out is neither diffed nor touched.
+ *
+ * Spec: docs/IAC_SPEC.md
+ */
+
+import { existsSync, readdirSync, readFileSync, unlinkSync } from 'fs';
+import { join } from 'path';
+import yaml from 'js-yaml';
+import {
+  deleteRole,
+  getPermissionsRoot,
+  loadPermissionLayers,
+  loadRoles,
+  saveGlobalDefaults,
+  saveRole,
+  type GlobalDefaults,
+  type RoleDefinition,
+} from '../permissions/index.js';
+import { isPermissionField, isValidPermissionValue } from '../permissions/policy.js';
+import {
+  loadExtractionState,
+  saveExtractionState,
+  type ExtractionMode,
+  type ExtractionStrategy,
+} from '../extraction/extraction-router.js';
+import { loadTagFilters, saveTagFilters, type RecallFilter } from '../extraction/tag-filters.js';
+import {
+  loadAdvisorState,
+  normalizeAdvisor,
+  normalizeRoutingRule,
+  saveAdvisorState,
+  type AdvisorDefinition,
+  type RoutingRule,
+} from '../slots/advisor.js';
+import { loadNodeRegistry, removeNode, upsertNode, type NodeRegistryEntry } from '../fleet/index.js';
+import { emitTransaction, recordConfigApplied } from '../record/index.js';
+import { getClawTextProdStateRoot } from '../runtime-paths.js';
+import { writeJsonAtomic } from '../atomic-write.js';
+import {
+  canonical,
+  exportConfigBundle,
+  restoreConfigBundle,
+  type ConfigBundle,
+  type ConfigStore,
+} from './bundle.js';
+
+// ──────────────────────────────────────────────
+// Types
+// ──────────────────────────────────────────────
+
+export type ResourceType =
+  | 'defaults'
+  | 'role'
+  | 'strategy'
+  | 'mapping'
+  | 'tag-filter'
+  | 'advisor'
+  | 'routing-rule'
+  | 'node';
+
+export interface Resource {
+  type: ResourceType;
+  id: string;
+  /** Managed fields only; the id and runtime fields are left out */
+  data: Record<string, unknown>;
+}
+
+export interface DesiredState {
+  /** Path (or label) the state was read from */
+  source: string;
+  /** Resource types whose section appears in the file */
+  managed: ResourceType[];
+  resources: Resource[];
+}
+
+export type ChangeAction = 'add' | 'modify' | 'remove';
+
+export interface ResourceChange {
+  action: ChangeAction;
+  type: ResourceType;
+  id: string;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  /** Top-level fields that differ */
+  fields: string[];
+}
+
+export interface DriftEntry {
+  type: ResourceType;
+  id: string;
+  /** How the live resource departs from the last apply */
+  kind: 'added' | 'modified' | 'removed';
+  fields: string[];
+}
+
+export interface IacPlan {
+  source: string;
+  managed: ResourceType[];
+  changes: ResourceChange[];
+  drift: DriftEntry[];
+  /** References that will not resolve after the plan is applied */
+  warnings: string[];
+}
+
+export interface IacApplyResult {
+  plan: IacPlan;
+  applied: number;
+  /** Record transactions written (config.applied + vault.permission_changed) */
+  journaled: number;
+}
+
+/** Written after every apply; the baseline for drift detection */
+export interface AppliedState {
+  appliedAt: string;
+  source: string;
+  managed: ResourceType[];
+  resources: Resource[];
+}
+
+export interface HistoryEntry {
+  id: number;
+  at: string;
+  /** `initial`, `apply:<file>`, `import:<file>` or `rollback:<id>` */
+  source: string;
+  /** Resources (apply) or stores (import, rollback) changed */
+  changes: number;
+  /** Drift baseline in effect after this entry */
+  applied: AppliedState | null;
+  /** Full configuration after this entry */
+  bundle: ConfigBundle;
+}
+
+export interface RestoreReport {
+  entry: HistoryEntry;
+  stores: ConfigStore[];
+  journaled: number;
+}
+
+/** YAML section → resource type */
+const SECTIONS: Record<string, ResourceType> = {
+  defaults: 'defaults',
+  roles: 'role',
+  strategies: 'strategy',
+  topicMappings: 'mapping',
+  tagFilters: 'tag-filter',
+  advisors: 'advisor',
+  routingRules: 'routing-rule',
+  nodes: 'node',
+};
+
+/** Resources that always exist and can be changed but not removed */
+const SINGLETONS = new Set(['defaults:global', 'mapping:*']);
+
+/** `topicMappings` key that sets the fallback strategy */
+export const DEFAULT_MAPPING_ID = '*';
+const FALLBACK_STRATEGY = 'lightweight';
+
+const EXTRACTION_MODES: ExtractionMode[] = ['full', 'lightweight', 'recall', 'disabled'];
+
+// ──────────────────────────────────────────────
+// Helpers
+// ──────────────────────────────────────────────
+
+function keyOf(resource: { type: string; id: string }): string {
+  return `${resource.type}:${resource.id}`;
+}
+
+function changedFields(before: Record<string, unknown>, after: Record<string, unknown>): string[] {
+  return [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    .filter((field) => canonical(before[field]) !== canonical(after[field]))
+    .sort();
+}
+
+function omit(record: object, ...keys: string[]): Record<string, unknown> {
+  const copy = { ...(record as Record<string, unknown>) };
+  for (const key of keys) delete copy[key];
+  return JSON.parse(canonical(copy));
+}
+
+function isMapping(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === 'string');
+}
+
+export function getIacDir(workspacePath: string): string {
+  return join(getClawTextProdStateRoot(workspacePath), 'iac');
+}
+
+export function getAppliedStatePath(workspacePath: string): string {
+  return join(getIacDir(workspacePath), 'applied.json');
+}
+
+export function getHistoryDir(workspacePath: string): string {
+  return join(getIacDir(workspacePath), 'history');
+}
+
+// ──────────────────────────────────────────────
+// Desired state
+// ──────────────────────────────────────────────
+
+function checkPermissionFields(where: string, record: Record<string, unknown>, allowed: string[]): void {
+  for (const [field, value] of Object.entries(record)) {
+    if (allowed.includes(field)) continue;
+    if (!isPermissionField(field)) throw new Error(`${where}: unknown permission field "${field}"`);
+    if (!isValidPermissionValue(field, value)) {
+      throw new Error(`${where}: invalid value for ${field}: ${JSON.stringify(value)}`);
+    }
+  }
+}
+
+function toResource(type: ResourceType, id: string, value: unknown, where: string): Resource {
+  if (type === 'mapping') {
+    if (typeof value !== 'string' || !value) throw new Error(`${where}: expected a strategy id`);
+    return { type, id, data: { strategy: value } };
+  }
+  if (!isMapping(value)) throw new Error(`${where}: expected a mapping`);
+
+  switch (type) {
+    case 'defaults':
+      checkPermissionFields(where, value, []);
+      return { type, id, data: omit(value) };
+    case 'role': {
+      checkPermissionFields(where, value, ['displayName', 'members']);
+      if (value.members !== undefined && !isStringList(value.members)) throw new Error(`${where}: members must be a list of user ids`);
+      return { type, id, data: omit({ displayName: id, members: [], ...value }) };
+    }
+    case 'strategy': {
+      if (!EXTRACTION_MODES.includes(value.mode as ExtractionMode)) {
+        throw new Error(`${where}: mode must be one of ${EXTRACTION_MODES.join(', ')}`);
+      }
+      return { type, id, data: omit({ displayName: id, description: '', ...value }, 'strategyId') };
+    }
+    case 'tag-filter':
+      return { type, id, data: omit(value) };
+    case 'advisor': {
+      const advisor = normalizeAdvisor({ ...value, id });
+      if (!advisor) throw new Error(`${where}: advisor needs a name`);
+      return { type, id, data: omit(advisor, 'id') };
+    }
+    case 'routing-rule': {
+      const rule = normalizeRoutingRule({ ...value, domain: id });
+      if (!rule) throw new Error(`${where}: routing rule needs a seedAdvisorId`);
+      return { type, id, data: omit(rule, 'domain', 'signals', 'updatedAt') };
+    }
+    case 'node': {
+      if (value.capabilities !== undefined && !isStringList(value.capabilities)) throw new Error(`${where}: capabilities must be a list`);
+      if (value.roles !== undefined && !isStringList(value.roles)) throw new Error(`${where}: roles must be a list`);
+      return {
+        type,
+        id,
+        data: omit({ displayName: id, endpoints: { api: '' }, capabilities: [], roles: [], ...value }, 'nodeId', 'status', 'lastSeen', 'seq'),
+      };
+    }
+  }
+}
+
+/**
+ * Parse and validate a desired-state document. Throws on unknown sections,
+ * unknown permission fields, and values of the wrong type.
+ */
+export function parseDesiredState(text: string, source = 'desired-state'): DesiredState {
+  let doc: unknown;
+  try {
+    doc = yaml.load(text);
+  } catch (error) {
+    throw new Error(`${source}: invalid YAML: ${error instanceof Error ? error.message : error}`);
+  }
+  if (doc === undefined || doc === null) doc = {};
+  if (!isMapping(doc)) throw new Error(`${source}: expected a mapping at the top level`);
+
+  const managed: ResourceType[] = [];
+  const resources: Resource[] = [];
+
+  for (const [section, value] of Object.entries(doc)) {
+    if (section === 'version') {
+      if (value !== 1) throw new Error(`${source}: unsupported version ${JSON.stringify(value)} (expected 1)`);
+      continue;
+    }
+    const type = SECTIONS[section];
+    if (!type) throw new Error(`${source}: unknown section "${section}" (expected: ${Object.keys(SECTIONS).join(', ')})`);
+    managed.push(type);
+    if (value === null || value === undefined) continue;
+    if (!isMapping(value)) throw new Error(`${source}: "${section}" must be a mapping`);
+
+    if (type === 'defaults') {
+      resources.push(toResource(type, 'global', value, `${source}: defaults`));
+      continue;
+    }
+    for (const [id, entry] of Object.entries(value)) {
+      resources.push(toResource(type, id, entry, `${source}: ${section}.${id}`));
+    }
+  }
+
+  return { source, managed, resources };
+}
+
+export function loadDesiredState(filePath: string): DesiredState {
+  if (!existsSync(filePath)) throw new Error(`desired-state file not found: ${filePath}`);
+  return parseDesiredState(readFileSync(filePath, 'utf-8'), filePath);
+}
+
+// ──────────────────────────────────────────────
+// Current state
+// ──────────────────────────────────────────────
+
+/** Every managed resource as it is on disk now */
+export function loadCurrentResources(workspacePath: string): Resource[] {
+  const resources: Resource[] = [];
+  const permsRoot = getPermissionsRoot(workspacePath);
+
+  resources.push({ type: 'defaults', id: 'global', data: omit(loadPermissionLayers(permsRoot).defaults) });
+  for (const role of loadRoles(permsRoot)) {
+    resources.push({ type: 'role', id: role.roleId, data: omit(role, 'roleId') });
+  }
+
+  const extraction = loadExtractionState(workspacePath);
+  for (const [id, strategy] of Object.entries(extraction.strategies)) {
+    resources.push({ type: 'strategy', id, data: omit(strategy, 'strategyId') });
+  }
+  for (const mapping of extraction.mappings.mappings) {
+    resources.push({ type: 'mapping', id: mapping.topic, data: { strategy: mapping.strategy } });
+  }
+  resources.push({ type: 'mapping', id: DEFAULT_MAPPING_ID, data: { strategy: extraction.mappings.default } });
+
+  for (const [id, filter] of Object.entries(loadTagFilters(workspacePath).filters ?? {})) {
+    resources.push({ type: 'tag-filter', id, data: omit(filter) });
+  }
+
+  const advisors = loadAdvisorState(workspacePath);
+  for (const advisor of advisors.advisors) {
+    resources.push({ type: 'advisor', id: advisor.id, data: omit(advisor, 'id') });
+  }
+  for (const rule of advisors.routingRules) {
+    resources.push({ type: 'routing-rule', id: rule.domain, data: omit(rule, 'domain', 'signals', 'updatedAt') });
+  }
+
+  for (const node of Object.values(loadNodeRegistry(getClawTextProdStateRoot(workspacePath)).nodes)) {
+    resources.push({ type: 'node', id: node.nodeId, data: omit(node, 'nodeId', 'status', 'lastSeen', 'seq') });
+  }
+
+  return resources;
+}
+
+// ──────────────────────────────────────────────
+// Plan
+// ──────────────────────────────────────────────
+
+/** Changes that turn `current` into `desired`, for the managed types only */
+export function diffResources(current: Resource[], desired: Resource[], managed: ResourceType[]): ResourceChange[] {
+  const inScope = (r: Resource) => managed.includes(r.type);
+  const currentMap = new Map(current.filter(inScope).map((r) => [keyOf(r), r]));
+  const desiredMap = new Map(desired.filter(inScope).map((r) => [keyOf(r), r]));
+  const changes: ResourceChange[] = [];
+
+  for (const [key, want] of desiredMap) {
+    const have = currentMap.get(key);
+    if (!have) {
+      changes.push({ action: 'add', type: want.type, id: want.id, before: null, after: want.data, fields: Object.keys(want.data).sort() });
+      continue;
+    }
+    const fields = changedFields(have.data, want.data);
+    if (fields.length > 0) {
+      changes.push({ action: 'modify', type: want.type, id: want.id, before: have.data, after: want.data, fields });
+    }
+  }
+  for (const [key, have] of currentMap) {
+    if (desiredMap.has(key) || SINGLETONS.has(key)) continue;
+    changes.push({ action: 'remove', type: have.type, id: have.id, before: have.data, after: null, fields: [] });
+  }
+
+  const order = Object.values(SECTIONS);
+  return changes.sort((a, b) => order.indexOf(a.type) - order.indexOf(b.type) || a.id.localeCompare(b.id));
+}
+
+export function loadAppliedState(workspacePath: string): AppliedState | null {
+  const target = getAppliedStatePath(workspacePath);
+  if (!existsSync(target)) return null;
+  try {
+    return JSON.parse(readFileSync(target, 'utf-8')) as AppliedState;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resources that were edited outside `apply` since the last one: compares
+ * the applied baseline with what is on disk now. Empty before the first
+ * apply.
+ */
+export function detectDrift(workspacePath: string, current = loadCurrentResources(workspacePath)): DriftEntry[] {
+  const applied = loadAppliedState(workspacePath);
+  if (!applied) return [];
+
+  return diffResources(applied.resources, current, applied.managed).map((change) => ({
+    type: change.type,
+    id: change.id,
+    kind: change.action === 'add' ? 'added' : change.action === 'remove' ? 'removed' : 'modified',
+    fields: change.fields,
+  }));
+}
+
+function referenceWarnings(current: Resource[], changes: ResourceChange[]): string[] {
+  const after = new Map(current.map((r) => [keyOf(r), r]));
+  for (const change of changes) {
+    if (change.after) after.set(keyOf(change), { type: change.type, id: change.id, data: change.after });
+    else after.delete(keyOf(change));
+  }
+  const has = (type: ResourceType, id: unknown) => after.has(`${type}:${id}`);
+
+  const warnings: string[] = [];
+  for (const resource of after.values()) {
+    if (resource.type === 'mapping' && resource.id !== DEFAULT_MAPPING_ID && !has('strategy', resource.data.strategy)) {
+      warnings.push(`mapping "${resource.id}" points at unknown strategy "${resource.data.strategy}"`);
+    }
+    if (resource.type === 'routing-rule') {
+      for (const field of ['seedAdvisorId', 'currentAdvisorId']) {
+        if (!has('advisor', resource.data[field])) {
+          warnings.push(`routing rule "${resource.id}" ${field} points at unknown advisor "${resource.data[field]}"`);
+        }
+      }
+    }
+  }
+  return warnings;
+}
+
+export function planIac(workspacePath: string, desired: DesiredState): IacPlan {
+  const current = loadCurrentResources(workspacePath);
+  const changes = diffResources(current, desired.resources, desired.managed);
+  return {
+    source: desired.source,
+    managed: desired.managed,
+    changes,
+    drift: detectDrift(workspacePath, current),
+    warnings: referenceWarnings(current, changes),
+  };
+}
+
+// ──────────────────────────────────────────────
+// Apply
+// ──────────────────────────────────────────────
+
+function byType(changes: ResourceChange[], ...types: ResourceType[]): ResourceChange[] {
+  return changes.filter((c) => types.includes(c.type));
+}
+
+/**
+ * Write the plan. Each store is loaded, changed in memory and saved once;
+ * every file is replaced by rename so a reader never sees a partial write.
+ * Roles and defaults journal through the permission writers
+ * (vault.permission_changed); everything else is journaled as one
+ * config.applied per resource. The resulting state is saved as the drift
+ * baseline and, when anything changed, as a new history entry.
+ */
+export function applyIac(workspacePath: string, desired: DesiredState): IacApplyResult {
+  const plan = planIac(workspacePath, desired);
+  if (plan.changes.length > 0) ensureInitialHistory(workspacePath);
+  const stateRoot = getClawTextProdStateRoot(workspacePath);
+  const permsRoot = getPermissionsRoot(workspacePath);
+  let journaled = 0;
+
+  // Permissions
+  for (const change of byType(plan.changes, 'defaults', 'role')) {
+    if (change.type === 'defaults') {
+      journaled += saveGlobalDefaults(permsRoot, change.after as Partial<GlobalDefaults>);
+    } else if (change.after) {
+      journaled += saveRole(permsRoot, { ...change.after, roleId: change.id } as RoleDefinition);
+    } else {
+      journaled += deleteRole(permsRoot, change.id);
+    }
+  }
+
+  // Extraction strategies and topic mappings
+  const extractionChanges = byType(plan.changes, 'strategy', 'mapping');
+  if (extractionChanges.length > 0) {
+    const state = loadExtractionState(workspacePath);
+    const topics = new Map(state.mappings.mappings.map((m) => [m.topic, m.strategy]));
+    for (const change of extractionChanges) {
+      if (change.type === 'strategy') {
+        if (change.after) state.strategies[change.id] = { ...change.after, strategyId: change.id } as unknown as ExtractionStrategy;
+        else delete state.strategies[change.id];
+      } else if (change.id === DEFAULT_MAPPING_ID) {
+        state.mappings.default = String(change.after?.strategy ?? FALLBACK_STRATEGY);
+      } else if (change.after) {
+        topics.set(change.id, String(change.after.strategy));
+      } else {
+        topics.delete(change.id);
+      }
+    }
+    state.mappings.mappings = [...topics].map(([topic, strategy]) => ({ topic, strategy }));
+    saveExtractionState(workspacePath, state);
+  }
+
+  // Tag filters
+  const filterChanges = byType(plan.changes, 'tag-filter');
+  if (filterChanges.length > 0) {
+    const state = loadTagFilters(workspacePath);
+    state.filters = state.filters ?? {};
+    for (const change of filterChanges) {
+      if (change.after) state.filters[change.id] = change.after as RecallFilter;
+      else delete state.filters[change.id];
+    }
+    saveTagFilters(workspacePath, state);
+  }
+
+  // Advisors and routing rules
+  const advisorChanges = byType(plan.changes, 'advisor', 'routing-rule');
+  if (advisorChanges.length > 0) {
+    const state = loadAdvisorState(workspacePath);
+    for (const change of advisorChanges) {
+      if (change.type === 'advisor') {
+        state.advisors = state.advisors.filter((a) => a.id !== change.id);
+        if (change.after) state.advisors.push({ ...change.after, id: change.id } as unknown as AdvisorDefinition);
+      } else {
+        const existing = state.routingRules.find((r) => r.domain === change.id);
+        state.routingRules = state.routingRules.filter((r) => r.domain !== change.id);
+        if (change.after) {
+          state.routingRules.push({
+            ...change.after,
+            domain: change.id,
+            signals: existing?.signals,
+            updatedAt: new Date().toISOString(),
+          } as unknown as RoutingRule);
+        }
+      }
+    }
+    saveAdvisorState(workspacePath, state);
+  }
+
+  // Fleet nodes — status, lastSeen and seq stay with the heartbeat
+  const registry = loadNodeRegistry(stateRoot);
+  for (const change of byType(plan.changes, 'node')) {
+    if (!change.after) {
+      removeNode(change.id, stateRoot);
+      continue;
+    }
+    const existing = registry.nodes[change.id];
+    upsertNode({
+      status: 'offline',
+      lastSeen: new Date(0).toISOString(),
+      seq: 0,
+      ...(existing ? { status: existing.status, lastSeen: existing.lastSeen, seq: existing.seq } : {}),
+      ...change.after,
+      nodeId: change.id,
+    } as NodeRegistryEntry, stateRoot);
+  }
+
+  for (const change of plan.changes) {
+    if (change.type === 'defaults' || change.type === 'role') continue;
+    const txn = emitTransaction(() => recordConfigApplied(
+      change.type,
+      change.id,
+      change.action,
+      change.before,
+      change.after,
+      { source: desired.source },
+      { stateRoot }
+    ));
+    if (txn) journaled++;
+  }
+
+  const baseline: AppliedState = {
+    appliedAt: new Date().toISOString(),
+    source: desired.source,
+    managed: desired.managed,
+    resources: loadCurrentResources(workspacePath).filter((r) => desired.managed.includes(r.type)),
+  };
+  writeJsonAtomic(getAppliedStatePath(workspacePath), baseline);
+  if (plan.changes.length > 0) appendHistory(workspacePath, `apply:${desired.source}`, plan.changes.length);
+
+  return { plan, applied: plan.changes.length, journaled };
+}
+
+// ──────────────────────────────────────────────
+// History, import and rollback
+// ──────────────────────────────────────────────
+
+function historyFile(workspacePath: string, id: number): string {
+  return join(getHistoryDir(workspacePath), `${String(id).padStart(4, '0')}.json`);
+}
+
+function historyIds(workspacePath: string): number[] {
+  const dir = getHistoryDir(workspacePath);
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir)
+    .filter((f) => /^\d+\.json$/.test(f))
+    .map((f) => Number(f.slice(0, -5)))
+    .sort((a, b) => a - b);
+}
+
+function appendHistory(workspacePath: string, source: string, changes: number): HistoryEntry {
+  const ids = historyIds(workspacePath);
+  const entry: HistoryEntry = {
+    id: ids.length > 0 ? ids[ids.length - 1] + 1 : 0,
+    at: new Date().toISOString(),
+    source,
+    changes,
+    applied: loadAppliedState(workspacePath),
+    bundle: exportConfigBundle(workspacePath),
+  };
+  writeJsonAtomic(historyFile(workspacePath, entry.id), entry);
+  return entry;
+}
+
+/**
+ * Entry 0 holds the configuration from before the first apply or import,
+ * so that one can be rolled back too.
+ */
+function ensureInitialHistory(workspacePath: string): void {
+  if (historyIds(workspacePath).length === 0) appendHistory(workspacePath, 'initial', 0);
+}
+
+export function loadHistoryEntry(workspacePath: string, id: number): HistoryEntry | null {
+  const target = historyFile(workspacePath, id);
+  if (!existsSync(target)) return null;
+  return JSON.parse(readFileSync(target, 'utf-8')) as HistoryEntry;
+}
+
+/** History entries, oldest first, without their bundles */
+export function listHistory(workspacePath: string): Array<Omit<HistoryEntry, 'bundle' | 'applied'>> {
+  return historyIds(workspacePath).flatMap((id) => {
+    const entry = loadHistoryEntry(workspacePath, id);
+    return entry ? [{ id: entry.id, at: entry.at, source: entry.source, changes: entry.changes }] : [];
+  });
+}
+
+/** Overwrite the workspace configuration with a bundle (e.g. one exported elsewhere). */
+export function importConfig(workspacePath: string, bundle: ConfigBundle, source: string): RestoreReport {
+  ensureInitialHistory(workspacePath);
+  const { stores, journaled } = restoreConfigBundle(workspacePath, bundle, `import:${source}`);
+  const entry = appendHistory(workspacePath, `import:${source}`, stores.length);
+  return { entry, stores, journaled };
+}
+
+/**
+ * Restore the configuration as it was after history entry `id`, including
+ * its drift baseline. The rollback is itself appended to the history, so
+ * it can be rolled back in turn.
+ */
+export function rollbackIac(workspacePath: string, id: number): RestoreReport {
+  ensureInitialHistory(workspacePath);
+  const target = loadHistoryEntry(workspacePath, id);
+  if (!target) throw new Error(`no history entry ${id} (see: iac history)`);
+
+  const { stores, journaled } = restoreConfigBundle(workspacePath, target.bundle, `rollback:${id}`);
+  if (target.applied) {
+    writeJsonAtomic(getAppliedStatePath(workspacePath), target.applied);
+  } else if (existsSync(getAppliedStatePath(workspacePath))) {
+    unlinkSync(getAppliedStatePath(workspacePath));
+  }
+  const entry = appendHistory(workspacePath, `rollback:${id}`, stores.length);
+  return { entry, stores, journaled };
+}
@@ -11,16 +11,21 @@ import { TopicAnchorProvider } from './providers/topic-anchor-provider';
 import { AdvisorProvider } from './providers/advisor-provider';
 import { SessionMatrixProvider } from './providers/session-matrix-provider';
 import { ExtractionProvider } from './providers/extraction-provider';
+import { KnowledgeGraphProvider } from './providers/knowledge-graph-provider';
 import { stripInjectedContext } from './injected-context';
 import { isMultiAgentMode } from './agent-identity';
 import { extractIdentityAnchorContent } from './slots/identity-anchor-provider';
 import { wrapWithAgentScope } from './providers/agent-scoped-provider';
+import { resolvePrincipal } from './permissions/index';
 import { Type } from '@sinclair/typebox';
-import { registerSessionIntelligenceEngine, getRegisteredSIEngine } from './session-intelligence';
+import { registerSessionIntelligenceEngine, getRegisteredSIEngine, renderSummaryComparison, renderSummaryTree } from './session-intelligence';
 import type { SessionIntelligenceConfig } from './session-intelligence';
 
 export { ClawTextInjectionPlugin, ClawTextRAG };
 export { cleanQueryForSearch } from './rag';
+export * from './embeddings';
+export * from './vector-index';
+export * from './eval/index';
 export * from './library';
 export * from './library-index';
 export * from './library-ingest';
@@ -42,6 +47,10 @@ export * from './decision-tree';
 export * from './providers/decision-tree-provider';
 export * from './content-type-classifier';
 export * from './contradiction-detector';
+export * from './memory-conflicts';
+export * from './graph/index';
+export * from './salience';
+export * from './retention';
 export * from './providers/index';
 export * from './providers/cross-session-provider';
 export * from './providers/situational-awareness-provider';
@@ -52,8 +61,15 @@ export * from './slots/sessionMatrix';
 export * from './integrations/index';
 export * from './permissions/index';
 export * from './record/index';
+export * from './record/signing';
+export * from './record/hlc';
+export * from './record/merge';
+export * from './record/segments';
+export * from './record/snapshot';
+export * from './record/replay';
 export * from './fleet/index';
 export * from './peer/index';
+export * from './peer/server';
 export * from './extraction/index';
 export * from './session-intelligence';
 
@@ -180,6 +196,7 @@ function priorityForSource(source: ContextSlotSource): number {
     'retrieval-warning': 18,
     memory: 20,
     'topic-anchor': 25,
+    'knowledge-graph': 27,
     advisor: 28,
     'session-matrix': 29,
     library: 30,
@@ -348,6 +365,7 @@ function runClawptimization(
   compositor.register(wrapWithAgentScope(new AdvisorProvider({ workspacePath: WORKSPACE }), WORKSPACE));
   compositor.register(wrapWithAgentScope(new SessionMatrixProvider({ workspacePath: WORKSPACE }), WORKSPACE));
   compositor.register(wrapWithAgentScope(new ExtractionProvider({ workspacePath: WORKSPACE }), WORKSPACE));
+  compositor.register(wrapWithAgentScope(new KnowledgeGraphProvider({ workspacePath: WORKSPACE, query: extractUserText(messages), agentId }), WORKSPACE));
 
   // Identity anchor — always-on in multi-agent mode, no-op in single-agent
   if (isMultiAgentMode(WORKSPACE)) {
@@ -630,6 +648,8 @@ function resolveSessionIntelligenceConfig(config: unknown): SessionIntelligenceC
                 maxSummarizationsPerHour?: unknown;
                 freshTailSize?: unknown;
                 leafBatchSize?: unknown;
+                minFidelityScore?: unknown;
+                fidelityRetries?: unknown;
               };
             };
           };
@@ -675,6 +695,18 @@ function resolveSessionIntelligenceConfig(config: unknown): SessionIntelligenceC
           && configuredCompactor.leafBatchSize > 0
           ? configuredCompactor.leafBatchSize
           : base.compactor?.leafBatchSize,
+      minFidelityScore:
+        typeof configuredCompactor?.minFidelityScore === 'number'
+          && configuredCompactor.minFidelityScore >= 0
+          && configuredCompactor.minFidelityScore <= 1
+          ? configuredCompactor.minFidelityScore
+          : base.compactor?.minFidelityScore,
+      fidelityRetries:
+        typeof configuredCompactor?.fidelityRetries === 'number'
+          && Number.isFinite(configuredCompactor.fidelityRetries)
+          && configuredCompactor.fidelityRetries >= 0
+          ? configuredCompactor.fidelityRetries
+          : base.compactor?.fidelityRetries,
     },
   };
 }
@@ -704,6 +736,8 @@ export default {
               maxSummarizationsPerHour: { type: "number" },
               freshTailSize: { type: "number" },
               leafBatchSize: { type: "number" },
+              minFidelityScore: { type: "number" },
+              fidelityRetries: { type: "number" },
             },
           },
           compactionTrigger: {
@@ -765,9 +799,9 @@ export default {
           if (!engine?._recall) return null;
           return {
             name: 'si_search',
-            description: 'Search session history for messages, summaries, state slots, and library entries matching a query. Returns ranked hits with snippets. Use to find prior context beyond the current window.',
+            description: 'Search session history for messages, summaries, state slots, and library entries matching a query. Returns BM25-ranked hits with **highlighted** snippets. Supports "quoted phrases" and prefix* terms; all terms must match. Use to find prior context beyond the current window. Set scope to "workspace" or "sessions" to search other conversations (requires crossSessionVisibility); hits carry their session_key.',
             parameters: Type.Object({
-              query: Type.String({ description: 'Keyword or phrase to search for' }),
+              query: Type.String({ description: 'Keywords, "exact phrase" or prefix* terms to search for' }),
               limit: Type.Optional(Type.Number({ description: 'Max results (default 10)' })),
               types: Type.Optional(Type.Array(
                 Type.Union([
@@ -778,10 +812,22 @@ export default {
                 ]),
                 { description: 'Filter by result type' },
               )),
+              scope: Type.Optional(Type.Union([
+                Type.Literal('conversation'),
+                Type.Literal('workspace'),
+                Type.Literal('sessions'),
+              ], { description: 'Conversations to search (default: conversation)' })),
+              sessions: Type.Optional(Type.Array(Type.String(), {
+                description: 'Session keys to search when scope is "sessions"',
+              })),
             }),
             execute: async (_toolCallId: string, params: any) => {
               const sessionId = ctx.sessionId ?? ctx.sessionKey ?? 'default';
-              const result = engine._recall.search(sessionId, params.query, params.limit, params.types);
+              const result = engine._recall.search(sessionId, params.query, params.limit, params.types, {
+                scope: params.scope,
+                sessionKeys: params.sessions,
+                principal: resolvePrincipal(ctx),
+              });
               return { result };
             },
           };
@@ -798,7 +844,10 @@ export default {
             }),
             execute: async (_toolCallId: string, params: any) => {
               const sessionId = ctx.sessionId ?? ctx.sessionKey ?? 'default';
-              const result = engine._recall.describe(sessionId, params.id);
+              const result = engine._recall.describe(sessionId, params.id, {
+                scope: 'workspace',
+                principal: resolvePrincipal(ctx),
+              });
               return { result };
             },
           };
@@ -809,13 +858,60 @@ export default {
           if (!engine?._recall) return null;
           return {
             name: 'si_expand',
-            description: 'Expand a summary node or payload reference to recover the original messages or file content. Use when si_search returns a summary or payload ref and you need the underlying detail.',
+            description: 'Expand a summary node, payload reference or file version to recover the original messages or file content. Use when si_search returns a summary or payload ref and you need the underlying detail, or when a re-read file was shown as a diff (RESOURCE_DELTA / RESOURCE_UNCHANGED) and you need its full content; file versions list the other versions of the same file.',
             parameters: Type.Object({
-              target_id: Type.String({ description: 'Summary id (e.g. sum-7) or payload ref id to expand' }),
+              target_id: Type.String({ description: 'Summary id (e.g. sum-7), payload ref id, or file version id (e.g. rv-12) to expand' }),
             }),
             execute: async (_toolCallId: string, params: any) => {
               const sessionId = ctx.sessionId ?? ctx.sessionKey ?? 'default';
-              const result = engine._recall.expand(sessionId, params.target_id);
+              const result = engine._recall.expand(sessionId, params.target_id, {
+                scope: 'workspace',
+                principal: resolvePrincipal(ctx),
+              });
+              return { result };
+            },
+          };
+        });
+
+        api.registerTool((ctx: any): any => {
+          const engine = getRegisteredSIEngine() as any;
+          if (!engine?._summaries) return null;
+          return {
+            name: 'si_summaries',
+            description: 'Inspect and repair the summary tree of this conversation. "tree" lists every leaf and condensed summary with the messages it covers; "diff" compares one summary with its source messages (or child summaries) and lists salient terms it dropped; "resummarize" rewrites a summary and everything below it with another model or prompt when a summary turned out to be lossy (the old text is kept as a revision).',
+            parameters: Type.Object({
+              action: Type.Union([
+                Type.Literal('tree'),
+                Type.Literal('diff'),
+                Type.Literal('resummarize'),
+              ]),
+              summary_id: Type.Optional(Type.String({ description: 'Summary id for diff / resummarize (e.g. sum-7)' })),
+              against: Type.Optional(Type.Union([
+                Type.Literal('messages'),
+                Type.Literal('children'),
+              ], { description: 'diff: compare with the original messages or the child summaries (default: children for condensed summaries)' })),
+              model: Type.Optional(Type.String({ description: 'resummarize: model passed to the summarization API (default: the compactor model)' })),
+              instructions: Type.Optional(Type.String({ description: 'resummarize: replaces the default summarization instructions, e.g. "Keep every file path and error message."' })),
+            }),
+            execute: async (_toolCallId: string, params: any) => {
+              const sessionId = ctx.sessionId ?? ctx.sessionKey ?? 'default';
+              if (params.action === 'tree') {
+                const nodes = engine._summaries.tree(sessionId);
+                return { result: { count: nodes.length, tree: renderSummaryTree(nodes).join('\n') } };
+              }
+              if (!params.summary_id) return { result: { error: 'summary_id is required' } };
+
+              if (params.action === 'diff') {
+                const comparison = engine._summaries.compare(sessionId, params.summary_id, { against: params.against });
+                if (!comparison) return { result: { error: `No summary ${params.summary_id} in this conversation` } };
+                return { result: { ...comparison, report: renderSummaryComparison(comparison).join('\n') } };
+              }
+
+              const result = await engine._summaries.resummarize(sessionId, params.summary_id, {
+                model: params.model,
+                instructions: params.instructions,
+                reason: 'agent',
+              });
               return { result };
             },
           };
@@ -852,7 +948,9 @@ export default {
         const ragResult = await plugin.onBeforePromptBuild({
           systemPrompt,
           userMessage,
+          model: typeof ctx?.model === 'string' ? ctx.model : undefined,
           agentId: ctx?.agentId,
+          principal: resolvePrincipal(ctx),
         });
 
         const promptAfterRag = ragResult?.systemPrompt || systemPrompt;
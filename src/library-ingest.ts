@@ -11,7 +11,10 @@ import {
   getClawTextLibraryCollectionsDir,
   getClawTextLibraryIndexesDir,
   getClawTextLibraryManifestsDir,
+  getClawTextProdStateRoot,
 } from './runtime-paths';
+import { emitTransaction, recordLibraryAdded } from './record/index';
+import { ingestIntoKnowledgeGraph, type GraphSource } from './graph/index';
 
 export interface LibraryIngestOptions {
   force?: boolean;
@@ -80,6 +83,7 @@ export class ClawTextLibraryIngest {
     ensureDir(indexesDir);
 
     const importedDocs: LibraryIngestedDocument[] = [];
+    const graphSources: GraphSource[] = [];
     let skipped = 0;
 
     for (const source of manifest.sources) {
@@ -131,6 +135,21 @@ export class ClawTextLibraryIngest {
       };
 
       fs.writeFileSync(targetFile, JSON.stringify(record, null, 2));
+      emitTransaction(() => recordLibraryAdded(
+        record.id,
+        record.title,
+        record.content,
+        record.topics,
+        { collection: record.collection, url: record.url, sha1: record.sha1 },
+        { stateRoot: getClawTextProdStateRoot(this.workspacePath) }
+      ));
+      graphSources.push({
+        id: record.id,
+        text: record.content,
+        type: 'library',
+        entities: record.topics.map((topic) => `entity://topic/${topic}`),
+        observedAt: fetchedAt,
+      });
       importedDocs.push({
         id: record.id,
         url: record.url,
@@ -189,6 +208,14 @@ export class ClawTextLibraryIngest {
     const indexer = new ClawTextLibraryIndex(this.workspacePath);
     indexer.build();
 
+    if (graphSources.length > 0) {
+      try {
+        ingestIntoKnowledgeGraph(this.workspacePath, graphSources);
+      } catch {
+        // Best-effort: the documents are imported either way
+      }
+    }
+
     return {
       collection: manifest.slug,
       title: manifest.title,
@@ -0,0 +1,119 @@
+/**
+ * ClawText Memory Conflicts
+ *
+ * Review queue for contradictions caught at write time. When a new decision
+ * conflicts with a durable memory (ClawTextMemory.add) or with a key decision
+ * on a topic anchor (syncTopicAnchor), the older one is superseded and the
+ * pair is recorded here as an open "memory conflict" so a reviewer can
+ * confirm it or put the older decision back. Only the newer decision is
+ * injected in the meantime.
+ *
+ * Stored at <stateRoot>/memory-conflicts.json.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import type { ContradictionReason } from './contradiction-detector.js';
+import { getClawTextProdStateRoot } from './runtime-paths.js';
+import { writeJsonAtomic } from './atomic-write.js';
+
+export type MemoryConflictSource = 'memory' | 'topic-anchor';
+export type MemoryConflictStatus = 'open' | 'resolved';
+/** keep-newer confirms the supersession; keep-older and keep-both restore the older decision */
+export type MemoryConflictResolution = 'keep-newer' | 'keep-older' | 'keep-both';
+
+export const MEMORY_CONFLICT_RESOLUTIONS: MemoryConflictResolution[] = ['keep-newer', 'keep-older', 'keep-both'];
+
+export interface ConflictSide {
+  /** Memory id (source 'memory' only) */
+  id?: string;
+  text: string;
+  /** Status of the older memory before it was superseded, restored on keep-older/keep-both */
+  status?: string;
+}
+
+export interface MemoryConflict {
+  id: string;
+  source: MemoryConflictSource;
+  detectedAt: string;
+  reason: ContradictionReason;
+  overlap: string[];
+  older: ConflictSide;
+  newer: ConflictSide;
+  project?: string;
+  /** Topic anchor name (source 'topic-anchor' only) */
+  topic?: string;
+  status: MemoryConflictStatus;
+  resolution?: MemoryConflictResolution;
+  resolvedAt?: string;
+  resolvedBy?: string;
+}
+
+export type NewMemoryConflict = Omit<MemoryConflict, 'id' | 'detectedAt' | 'status'>;
+
+export function getMemoryConflictsPath(workspacePath: string): string {
+  return path.join(getClawTextProdStateRoot(workspacePath), 'memory-conflicts.json');
+}
+
+export function loadMemoryConflicts(workspacePath: string, filter: { status?: MemoryConflictStatus; source?: MemoryConflictSource } = {}): MemoryConflict[] {
+  const target = getMemoryConflictsPath(workspacePath);
+  if (!fs.existsSync(target)) return [];
+  let conflicts: MemoryConflict[];
+  try {
+    const parsed = JSON.parse(fs.readFileSync(target, 'utf8'));
+    conflicts = Array.isArray(parsed?.conflicts) ? parsed.conflicts : [];
+  } catch {
+    return [];
+  }
+  return conflicts.filter((c) => (
+    (!filter.status || c.status === filter.status) &&
+    (!filter.source || c.source === filter.source)
+  ));
+}
+
+function saveMemoryConflicts(workspacePath: string, conflicts: MemoryConflict[]): void {
+  const target = getMemoryConflictsPath(workspacePath);
+  writeJsonAtomic(target, { version: 1, conflicts });
+}
+
+export function getMemoryConflict(workspacePath: string, conflictId: string): MemoryConflict | null {
+  return loadMemoryConflicts(workspacePath).find((c) => c.id === conflictId) ?? null;
+}
+
+export function recordMemoryConflict(workspacePath: string, conflict: NewMemoryConflict): MemoryConflict {
+  const entry: MemoryConflict = {
+    id: `conf_${crypto.randomBytes(6).toString('hex')}`,
+    detectedAt: new Date().toISOString(),
+    status: 'open',
+    ...conflict,
+  };
+  saveMemoryConflicts(workspacePath, [...loadMemoryConflicts(workspacePath), entry]);
+  return entry;
+}
+
+/**
+ * Mark a conflict resolved. Only updates the queue; the memory or topic
+ * anchor side of a resolution is applied by ClawTextMemory.resolveConflict
+ * and resolveTopicAnchorConflict.
+ */
+export function markMemoryConflictResolved(
+  workspacePath: string,
+  conflictId: string,
+  resolution: MemoryConflictResolution,
+  resolvedBy?: string,
+): MemoryConflict {
+  const conflicts = loadMemoryConflicts(workspacePath);
+  const conflict = conflicts.find((c) => c.id === conflictId);
+  if (!conflict) throw new Error(`Memory conflict ${conflictId} not found`);
+  if (conflict.status === 'resolved') {
+    throw new Error(`Memory conflict ${conflictId} is already resolved (${conflict.resolution})`);
+  }
+
+  conflict.status = 'resolved';
+  conflict.resolution = resolution;
+  conflict.resolvedAt = new Date().toISOString();
+  if (resolvedBy) conflict.resolvedBy = resolvedBy;
+  saveMemoryConflicts(workspacePath, conflicts);
+  return conflict;
+}
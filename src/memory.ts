@@ -1,6 +1,26 @@
 /**
  * ClawText Memory API - TypeScript
  * Simple programmatic interface for agents to add and retrieve memories
+ *
+ * Memories are versioned: `update` and `supersede` archive the prior state to
+ * memory/api-memories/history/<id>.jsonl before writing. Superseded memories
+ * keep their file (status 'superseded', supersededBy) but are excluded from
+ * search, clusters and RAG injection.
+ *
+ * A new decision that contradicts an active decision in the same project
+ * supersedes it on `add` and is queued for review as a memory conflict
+ * (./memory-conflicts.ts); `resolveConflict` confirms or reverts that.
+ *
+ * Adds, updates, supersessions and deletes also keep the knowledge graph
+ * (./graph/index.ts) in step with the store.
+ *
+ * Search ranks by relevance times salience (./salience.ts): memories fade
+ * by content-type half-life unless mentioned again, retrieved or pinned.
+ * Retention GC (./retention.ts) moves cold memories to an archive tier;
+ * `includeArchived` searches it as well.
+ *
+ * `add` and `delete` are journaled to the Record (memory.extracted,
+ * memory.deleted) so replicas and replay see the same writes.
  */
 
 import fs from 'fs';
@@ -9,6 +29,20 @@ import crypto from 'crypto';
 import { fileURLToPath } from 'url';
 import HotMemoryCache, { type CacheableMemory } from './hot-cache.js';
 import { isMultiAgentMode, getDefaultVisibility, loadMultiAgentConfig, resolveAgentIdentity } from './agent-identity.js';
+import { enforcePermission, type PermissionPrincipal } from './permissions/index.js';
+import { emitTransaction, recordMemoryDeleted, recordMemoryExtracted } from './record/index.js';
+import { detectContradiction, isDecisionLike } from './contradiction-detector.js';
+import {
+  getMemoryConflict,
+  markMemoryConflictResolved,
+  recordMemoryConflict,
+  type MemoryConflict,
+  type MemoryConflictResolution,
+} from './memory-conflicts.js';
+import { ingestIntoKnowledgeGraph, memoryToGraphSource, retireGraphSource } from './graph/index.js';
+import { getClawTextProdStateRoot } from './runtime-paths.js';
+import { searchArchive } from './retention.js';
+import { loadSalienceState, memorySalience, pinMemory, recordSalienceHits, unpinMemory, type SaliencePin } from './salience.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
@@ -29,6 +63,10 @@ export interface MemoryOptions {
   // Session continuity (same agent across sessions)
   sessionId?: string;
   relatesToSession?: string;
+  /** When set, the write requires `retain` for this principal */
+  principal?: PermissionPrincipal;
+  /** Supersede contradicted decisions and queue them as conflicts (default true) */
+  detectConflicts?: boolean;
 }
 
 export interface SearchOptions {
@@ -43,13 +81,53 @@ export interface SearchOptions {
   // Session continuity options
   sessionId?: string;
   includeRelatedSessions?: boolean;
+  /** Include memories replaced via supersede() */
+  includeSuperseded?: boolean;
+  /** Also search the retention archive (results carry `archived`) */
+  includeArchived?: boolean;
+  /** When set, the search requires `recall` for this principal */
+  principal?: PermissionPrincipal;
 }
 
+export interface MemoryPatch {
+  content?: string;
+  summary?: string;
+  type?: string;
+  project?: string;
+  entities?: string[];
+  keywords?: string[];
+  tags?: string[];
+  confidence?: number;
+  importance?: number;
+  metadata?: Record<string, any>;
+  visibility?: 'shared' | 'private' | 'cross-agent';
+  targetAgent?: string;
+}
+
+export interface MemoryVersion {
+  version: number;
+  archivedAt: string;
+  reason: string;
+  memory: Record<string, any>;
+}
+
+export interface MemoryHistory {
+  id: string;
+  current: Record<string, any> | null;
+  /** Prior versions of this memory, oldest first */
+  versions: MemoryVersion[];
+  /** Supersession chain through this memory, oldest first */
+  lineage: string[];
+}
+
+export const SUPERSEDED_STATUS = 'superseded';
+
 export class ClawTextMemory {
   private workspacePath: string;
   private memoriesDir: string;
   private cacheDir: string;
   private clustersDir: string;
+  private historyDir: string;
   private hotCache: HotMemoryCache;
 
   constructor(workspacePath: string = process.env.HOME + '/.openclaw/workspace') {
@@ -57,6 +135,7 @@ export class ClawTextMemory {
     this.memoriesDir = path.join(workspacePath, 'memory', 'api-memories');
     this.cacheDir = path.join(workspacePath, 'memory', 'cache');
     this.clustersDir = path.join(workspacePath, 'memory', 'clusters');
+    this.historyDir = path.join(this.memoriesDir, 'history');
     
     this.hotCache = new HotMemoryCache(workspacePath, {
       enabled: true,
@@ -85,7 +164,67 @@ export class ClawTextMemory {
     return crypto.createHash('sha1').update(content).digest('hex').slice(0, 16);
   }
 
+  private _journalAdded(content: string, memory: Record<string, any>, options: MemoryOptions): void {
+    emitTransaction(() => recordMemoryExtracted(
+      options.sessionId || 'api',
+      [{
+        text: content,
+        confidence: memory.confidence,
+        tags: options.tags || [],
+        memoryId: memory.id,
+        project: memory.project,
+        type: memory.type,
+        ...(memory.relations?.supersedes?.length ? { supersedes: memory.relations.supersedes } : {}),
+      }],
+      { stateRoot: getClawTextProdStateRoot(this.workspacePath) }
+    ));
+  }
+
+  /**
+   * Journal a rewritten memory file as a snapshot of its new version, so
+   * replay reproduces updates, supersessions and conflict resolutions.
+   */
+  private _journalVersion(memory: Record<string, any>): void {
+    const relations = memory.relations || {};
+    emitTransaction(() => recordMemoryExtracted(
+      memory.sessionId || 'api',
+      [{
+        text: String(memory.body || ''),
+        confidence: memory.confidence,
+        tags: memory.tags || [],
+        memoryId: memory.id,
+        project: memory.project,
+        type: memory.type,
+        version: Number.isFinite(memory.version) ? Number(memory.version) : 1,
+        status: memory.status,
+        ...(memory.supersededBy ? { supersededBy: memory.supersededBy, supersedeReason: memory.supersedeReason } : {}),
+        supersedes: relations.supersedes || [],
+        related: relations.related || [],
+      }],
+      { stateRoot: getClawTextProdStateRoot(this.workspacePath) }
+    ));
+  }
+
+  /** Best-effort: a graph failure never fails the memory write */
+  private _syncGraph(memory: Record<string, any>, retire = false): void {
+    try {
+      if (retire) {
+        retireGraphSource(this.workspacePath, memory.id);
+        return;
+      }
+      const source = memoryToGraphSource(memory);
+      if (source) ingestIntoKnowledgeGraph(this.workspacePath, [source]);
+    } catch {
+      // The graph can be rebuilt with syncKnowledgeGraph
+    }
+  }
+
   async add(content: string, options: MemoryOptions = {}): Promise<Record<string, any>> {
+    if (options.principal) {
+      const access = enforcePermission(options.principal, 'retain', 'memory', this.workspacePath);
+      if (!access.allowed) throw new Error(`Permission denied: ${access.reason}`);
+    }
+
     const now = new Date().toISOString();
     const dedupeHash = this._hashContent(content);
     const existing = this._findByDedupeHash(dedupeHash);
@@ -108,13 +247,15 @@ export class ClawTextMemory {
 
       const existingPath = path.join(this.memoriesDir, `${existing.id}.json`);
       fs.writeFileSync(existingPath, JSON.stringify(merged, null, 2));
+      this._journalAdded(content, merged, options);
+      this._syncGraph(merged);
       this.hotCache.admit([merged as unknown as CacheableMemory]);
       await this._refreshClusters();
       return merged;
     }
 
     const id = this._generateId();
-    const memory = {
+    const memory: Record<string, any> = {
       id,
       sourceType: 'api',
       sourceId: null,
@@ -132,6 +273,7 @@ export class ClawTextMemory {
       tags: options.tags || [],
       keywords: options.keywords || this._extractKeywords(content),
       dedupeHash,
+      version: 1,
       mentionCount: 1,
       lastMentionedAt: now,
       summary: content.slice(0, 200),
@@ -148,8 +290,15 @@ export class ClawTextMemory {
       relatesToSession: options.relatesToSession || null,
     };
 
+    if (options.detectConflicts !== false) {
+      const conflicts = this._detectConflicts(memory);
+      memory.relations.supersedes = conflicts.map(c => c.older.id);
+    }
+
     const filepath = path.join(this.memoriesDir, `${id}.json`);
     fs.writeFileSync(filepath, JSON.stringify(memory, null, 2));
+    this._journalAdded(content, memory, options);
+    this._syncGraph(memory);
 
     this.hotCache.admit([memory as unknown as CacheableMemory]);
     await this._refreshClusters();
@@ -158,6 +307,10 @@ export class ClawTextMemory {
   }
 
   async search(query: string, options: SearchOptions = {}): Promise<Record<string, any>[]> {
+    if (options.principal && !enforcePermission(options.principal, 'recall', 'memory', this.workspacePath).allowed) {
+      return [];
+    }
+
     const limit = options.limit || 10;
     
     const cacheResults = this.hotCache.query(query, options.project ? [options.project] : [], limit);
@@ -166,7 +319,11 @@ export class ClawTextMemory {
     // Multi-agent filtering for cache results
     const filteredCache = this._filterByAgentContext(cacheResults, options.agentId, options);
     
-    const combined = [...filteredCache, ...fileResults];
+    const archived = options.includeArchived
+      ? searchArchive(this.workspacePath, query, { limit, project: options.project })
+        .map(({ memory, archive }) => ({ ...memory, archived: { archivedAt: archive.archivedAt, reason: archive.reason } }))
+      : [];
+    const combined = [...filteredCache, ...fileResults, ...this._filterByAgentContext(archived, options.agentId, options)];
     const seen = new Set<string>();
     const unique: Record<string, any>[] = [];
     
@@ -178,7 +335,24 @@ export class ClawTextMemory {
       }
     }
 
-    return unique.slice(0, limit);
+    const returned = unique.slice(0, limit);
+    try {
+      recordSalienceHits(this.workspacePath, returned.map(m => m.id).filter((id): id is string => typeof id === 'string'));
+    } catch {
+      // Hits only slow down decay
+    }
+    return returned;
+  }
+
+  /** Hold a memory at full salience so it never fades from retrieval */
+  pin(id: string, pinnedBy?: string): SaliencePin {
+    if (!fs.existsSync(path.join(this.memoriesDir, `${id}.json`))) throw new Error(`Memory ${id} not found`);
+    return pinMemory(this.workspacePath, id, pinnedBy);
+  }
+
+  /** Returns false when the memory was not pinned */
+  unpin(id: string): boolean {
+    return unpinMemory(this.workspacePath, id);
   }
 
   private _filterByAgentContext(memories: Record<string, any>[], agentId: string | undefined, options: SearchOptions): Record<string, any>[] {
@@ -206,6 +380,8 @@ export class ClawTextMemory {
     const queryLower = query.toLowerCase();
     const queryTerms = queryLower.split(/\s+/).filter(t => t.length > 2);
     const results: Record<string, any>[] = [];
+    const salienceState = loadSalienceState(this.workspacePath);
+    const now = Date.now();
 
     for (const file of fs.readdirSync(this.memoriesDir).filter(f => f.endsWith('.json'))) {
       try {
@@ -214,6 +390,7 @@ export class ClawTextMemory {
         
         if (options.project && memory.project !== options.project) continue;
         if (options.type && memory.type !== options.type) continue;
+        if (memory.status === SUPERSEDED_STATUS && !options.includeSuperseded) continue;
         
         // Multi-agent filtering
         if (options.agentId) {
@@ -242,9 +419,8 @@ export class ClawTextMemory {
         }
         
         if (score > 0) {
-          const mentionCount = Number.isFinite(memory.mentionCount) ? Math.max(1, Number(memory.mentionCount)) : 1;
-          const mentionBoost = 1 + Math.min(1, Math.log2(mentionCount) * 0.2);
-          results.push({ ...memory, score: score * (memory.confidence || 0.8) * mentionBoost });
+          const { salience } = memorySalience(memory, salienceState, now);
+          results.push({ ...memory, score: score * (memory.confidence || 0.8) * salience });
         }
       } catch (e) { /* skip */ }
     }
@@ -261,7 +437,7 @@ export class ClawTextMemory {
       try {
         const filepath = path.join(this.memoriesDir, file);
         const memory = JSON.parse(fs.readFileSync(filepath, 'utf8'));
-        if (memory.dedupeHash === dedupeHash && memory.id) {
+        if (memory.dedupeHash === dedupeHash && memory.id && memory.status !== SUPERSEDED_STATUS) {
           return memory;
         }
       } catch {
@@ -272,6 +448,46 @@ export class ClawTextMemory {
     return null;
   }
 
+  private _isDecision(memory: Record<string, any>): boolean {
+    return memory.type === 'decision' || isDecisionLike(String(memory.body || ''));
+  }
+
+  /**
+   * Supersede every active decision in the memory's project that it
+   * contradicts, queueing each pair as an open memory conflict. Private
+   * memories of other agents are left alone.
+   */
+  private _detectConflicts(memory: Record<string, any>): MemoryConflict[] {
+    if (!this._isDecision(memory) || !fs.existsSync(this.memoriesDir)) return [];
+
+    const conflicts: MemoryConflict[] = [];
+    for (const file of fs.readdirSync(this.memoriesDir).filter(f => f.endsWith('.json'))) {
+      let other: Record<string, any>;
+      try {
+        other = JSON.parse(fs.readFileSync(path.join(this.memoriesDir, file), 'utf8'));
+      } catch {
+        continue;
+      }
+      if (!other.id || other.id === memory.id || other.status === SUPERSEDED_STATUS) continue;
+      if (other.project !== memory.project || !this._isDecision(other)) continue;
+      if (other.visibility === 'private' && other.agentId !== memory.agentId) continue;
+
+      const found = detectContradiction(String(other.body || ''), String(memory.body), { assumeDecision: true });
+      if (!found) continue;
+
+      this._markSuperseded(other, memory.id, `conflicts with ${memory.id} (${found.reason})`);
+      conflicts.push(recordMemoryConflict(this.workspacePath, {
+        source: 'memory',
+        reason: found.reason,
+        overlap: found.overlap,
+        project: memory.project,
+        older: { id: other.id, text: String(other.body || ''), status: other.status },
+        newer: { id: memory.id, text: String(memory.body) },
+      }));
+    }
+    return conflicts;
+  }
+
   private _mergeUnique(existing: string[], incoming: string[]): string[] {
     return [...new Set([...(Array.isArray(existing) ? existing : []), ...(Array.isArray(incoming) ? incoming : [])])];
   }
@@ -346,10 +562,251 @@ export class ClawTextMemory {
     return memories.sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
   }
 
-  async delete(id: string): Promise<boolean> {
+  private _memoryPath(id: string): string | null {
+    if (!/^[\w-]+$/.test(id)) return null;
+    return path.join(this.memoriesDir, `${id}.json`);
+  }
+
+  private _readMemory(id: string): Record<string, any> | null {
+    const filepath = this._memoryPath(id);
+    if (!filepath || !fs.existsSync(filepath)) return null;
+    try {
+      return JSON.parse(fs.readFileSync(filepath, 'utf8'));
+    } catch {
+      return null;
+    }
+  }
+
+  private _writeMemory(memory: Record<string, any>): void {
+    fs.writeFileSync(path.join(this.memoriesDir, `${memory.id}.json`), JSON.stringify(memory, null, 2));
+    this._journalVersion(memory);
+  }
+
+  /**
+   * Append the current state of a memory to its history file before it changes.
+   */
+  private _archiveVersion(memory: Record<string, any>, reason: string): void {
+    this._ensureDir(this.historyDir);
+    const entry: MemoryVersion = {
+      version: Number.isFinite(memory.version) ? Number(memory.version) : 1,
+      archivedAt: new Date().toISOString(),
+      reason,
+      memory,
+    };
+    fs.appendFileSync(path.join(this.historyDir, `${memory.id}.jsonl`), JSON.stringify(entry) + '\n');
+  }
+
+  /**
+   * Patch a memory in place, keeping the prior version in its history.
+   * Changing the content re-derives dedupeHash, and summary/keywords unless
+   * the patch sets them. Returns null when the memory does not exist.
+   */
+  async update(id: string, patch: MemoryPatch, reason = 'update'): Promise<Record<string, any> | null> {
+    const existing = this._readMemory(id);
+    if (!existing) return null;
+    if (existing.status === SUPERSEDED_STATUS) {
+      throw new Error(`Memory ${id} is superseded by ${existing.supersededBy}; update that memory instead`);
+    }
+
+    const now = new Date().toISOString();
+    const { content, ...fields } = patch;
+    const updated: Record<string, any> = { ...existing };
+    for (const [key, value] of Object.entries(fields)) {
+      if (value !== undefined) updated[key] = value;
+    }
+
+    if (content !== undefined && content !== existing.body) {
+      updated.body = content;
+      updated.dedupeHash = this._hashContent(content);
+      if (patch.summary === undefined) updated.summary = content.slice(0, 200);
+      if (patch.keywords === undefined) updated.keywords = this._extractKeywords(content);
+    }
+
+    this._archiveVersion(existing, reason);
+    updated.version = (Number.isFinite(existing.version) ? Number(existing.version) : 1) + 1;
+    updated.updatedAt = now;
+    this._writeMemory(updated);
+    this._syncGraph(updated);
+
+    this.hotCache.evictMemory(id);
+    this.hotCache.admit([updated as unknown as CacheableMemory]);
+    await this._refreshClusters();
+    return updated;
+  }
+
+  /**
+   * Replace a memory with a corrected one. The old memory keeps its file but
+   * is marked superseded (and archived in history) so retrieval stops
+   * returning it; the replacement records it under relations.supersedes and
+   * inherits its project, type, tags, entities and visibility unless
+   * `options` overrides them.
+   */
+  async supersede(
+    oldId: string,
+    newContent: string,
+    reason: string,
+    options: MemoryOptions = {},
+  ): Promise<{ superseded: Record<string, any>; replacement: Record<string, any> }> {
+    const old = this._readMemory(oldId);
+    if (!old) throw new Error(`Memory ${oldId} not found`);
+    if (old.status === SUPERSEDED_STATUS) {
+      throw new Error(`Memory ${oldId} is already superseded by ${old.supersededBy}`);
+    }
+    if (this._hashContent(newContent) === old.dedupeHash) {
+      throw new Error(`Replacement content for ${oldId} is identical to the current content`);
+    }
+
+    const added = await this.add(newContent, {
+      type: old.type,
+      project: old.project,
+      entities: old.entities,
+      tags: old.tags,
+      confidence: old.confidence,
+      importance: old.importance,
+      agentId: old.agentId || undefined,
+      visibility: old.visibility,
+      targetAgent: old.targetAgent || undefined,
+      ...options,
+      // The explicit replacement is the supersession; don't queue it as a conflict too
+      detectConflicts: false,
+    });
+
+    const relations = added.relations || { supersedes: [], related: [], derivedFrom: [] };
+    const replacement: Record<string, any> = {
+      ...added,
+      relations: { ...relations, supersedes: this._mergeUnique(relations.supersedes || [], [oldId]) },
+    };
+    this._writeMemory(replacement);
+
+    const superseded = this._markSuperseded(old, replacement.id, reason);
+    await this._refreshClusters();
+    return { superseded, replacement };
+  }
+
+  private _markSuperseded(old: Record<string, any>, byId: string, reason: string): Record<string, any> {
+    const now = new Date().toISOString();
+    this._archiveVersion(old, `superseded: ${reason}`);
+    const superseded = {
+      ...old,
+      status: SUPERSEDED_STATUS,
+      supersededBy: byId,
+      supersededAt: now,
+      supersedeReason: reason,
+      version: (Number.isFinite(old.version) ? Number(old.version) : 1) + 1,
+      updatedAt: now,
+    };
+    this._writeMemory(superseded);
+    this._syncGraph(superseded, true);
+    this.hotCache.evictMemory(old.id);
+    return superseded;
+  }
+
+  /**
+   * Settle a memory conflict queued by `add`. keep-newer leaves the
+   * supersession in place; keep-older restores the older memory and
+   * supersedes the newer one with it; keep-both restores the older memory
+   * and links the two as related.
+   */
+  async resolveConflict(
+    conflictId: string,
+    resolution: MemoryConflictResolution,
+    resolvedBy?: string,
+  ): Promise<MemoryConflict> {
+    const conflict = getMemoryConflict(this.workspacePath, conflictId);
+    if (!conflict) throw new Error(`Memory conflict ${conflictId} not found`);
+    if (conflict.source !== 'memory') {
+      throw new Error(`Memory conflict ${conflictId} is on topic anchor "${conflict.topic}"; resolve it with resolveTopicAnchorConflict`);
+    }
+    if (conflict.status === 'resolved') {
+      throw new Error(`Memory conflict ${conflictId} is already resolved (${conflict.resolution})`);
+    }
+
+    const older = conflict.older.id ? this._readMemory(conflict.older.id) : null;
+    const newer = conflict.newer.id ? this._readMemory(conflict.newer.id) : null;
+    if (resolution !== 'keep-newer' && older) {
+      const now = new Date().toISOString();
+      const restored: Record<string, any> = { ...older, updatedAt: now };
+      if (older.status === SUPERSEDED_STATUS && older.supersededBy === conflict.newer.id) {
+        this._archiveVersion(older, `restored: ${resolution}`);
+        restored.status = conflict.older.status || 'promoted';
+        delete restored.supersededBy;
+        delete restored.supersededAt;
+        delete restored.supersedeReason;
+        restored.version = (Number.isFinite(older.version) ? Number(older.version) : 1) + 1;
+      }
+
+      if (newer) {
+        const relations = newer.relations || { supersedes: [], related: [], derivedFrom: [] };
+        const unlinked = {
+          ...newer,
+          relations: { ...relations, supersedes: (relations.supersedes || []).filter((id: string) => id !== older.id) },
+        };
+        const restoredRelations = restored.relations || { supersedes: [], related: [], derivedFrom: [] };
+        if (resolution === 'keep-both') {
+          unlinked.relations.related = this._mergeUnique(relations.related || [], [older.id]);
+          restored.relations = { ...restoredRelations, related: this._mergeUnique(restoredRelations.related || [], [newer.id]) };
+          this._writeMemory(unlinked);
+        } else if (newer.status !== SUPERSEDED_STATUS) {
+          restored.relations = { ...restoredRelations, supersedes: this._mergeUnique(restoredRelations.supersedes || [], [newer.id]) };
+          this._markSuperseded(unlinked, older.id, `memory conflict ${conflictId} resolved: keep-older`);
+        }
+      }
+
+      this._writeMemory(restored);
+      this._syncGraph(restored);
+      this.hotCache.admit([restored as unknown as CacheableMemory]);
+      await this._refreshClusters();
+    }
+
+    return markMemoryConflictResolved(this.workspacePath, conflictId, resolution, resolvedBy);
+  }
+
+  /**
+   * Prior versions of a memory plus the supersession chain it belongs to.
+   */
+  async history(id: string): Promise<MemoryHistory | null> {
+    const current = this._readMemory(id);
+    const historyPath = this._memoryPath(id) ? path.join(this.historyDir, `${id}.jsonl`) : null;
+    const versions: MemoryVersion[] = historyPath && fs.existsSync(historyPath)
+      ? fs.readFileSync(historyPath, 'utf8')
+        .split('\n')
+        .filter(Boolean)
+        .flatMap(line => {
+          try {
+            return [JSON.parse(line) as MemoryVersion];
+          } catch {
+            return [];
+          }
+        })
+      : [];
+    if (!current && versions.length === 0) return null;
+
+    const lineage = [id];
+    const visited = new Set(lineage);
+    let cursor = current;
+    while (cursor?.relations?.supersedes?.length) {
+      const previous = cursor.relations.supersedes[cursor.relations.supersedes.length - 1];
+      if (visited.has(previous)) break;
+      visited.add(previous);
+      lineage.unshift(previous);
+      cursor = this._readMemory(previous);
+    }
+    cursor = current;
+    while (cursor?.supersededBy && !visited.has(cursor.supersededBy)) {
+      visited.add(cursor.supersededBy);
+      lineage.push(cursor.supersededBy);
+      cursor = this._readMemory(cursor.supersededBy);
+    }
+
+    return { id, current, versions, lineage };
+  }
+
+  async delete(id: string, reason = 'deleted'): Promise<boolean> {
     const filepath = path.join(this.memoriesDir, `${id}.json`);
     if (fs.existsSync(filepath)) {
       fs.unlinkSync(filepath);
+      this._syncGraph({ id }, true);
+      emitTransaction(() => recordMemoryDeleted(id, reason, { stateRoot: getClawTextProdStateRoot(this.workspacePath) }));
       return true;
     }
     return false;
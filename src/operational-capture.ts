@@ -12,7 +12,8 @@
  */
 
 import { OperationalMemoryManager, OperationalMemory, PatternType, Scope } from './operational.js';
-import { getClawTextOperationalDir } from './runtime-paths.js';
+import { getClawTextOperationalDir, getClawTextProdStateRoot } from './runtime-paths.js';
+import { emitTransaction, recordOperationalFailure } from './record/index.js';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -120,10 +121,24 @@ export class OperationalCaptureManager {
 
   /**
    * Capture an operational event
+   *
+   * Error patterns are journaled as one operational.failure per occurrence;
+   * their raw entries are then created without a separate pattern event.
    */
   capture(event: CapturedEvent): OperationalMemory {
     const signature = this.generateSignature(event);
     const signatureKey = this.signatureToString(signature);
+    const isFailure = event.type === 'error-pattern';
+
+    if (isFailure) {
+      emitTransaction(() => recordOperationalFailure(
+        String(event.metadata?.sessionId ?? 'unknown'),
+        event.trigger,
+        event.symptom,
+        { summary: event.summary, scope: event.scope, evidence: event.evidence },
+        { stateRoot: getClawTextProdStateRoot(this.workspacePath) }
+      ));
+    }
 
     // Check if this signature already has a pattern
     const existingKeys = this.signatureIndex.get(signatureKey) || [];
@@ -147,14 +162,14 @@ export class OperationalCaptureManager {
         }
       } else {
         // Fallback: create new if increment fails
-        memory = this.memoryManager.create(this.eventToMemory(event, 'raw'));
+        memory = this.memoryManager.create(this.eventToMemory(event, 'raw'), { journal: !isFailure });
         existingKeys.push(memory.patternKey);
         this.signatureIndex.set(signatureKey, existingKeys);
         this.saveSignatureIndex();
       }
     } else {
       // Create new raw entry
-      memory = this.memoryManager.create(this.eventToMemory(event, 'raw'));
+      memory = this.memoryManager.create(this.eventToMemory(event, 'raw'), { journal: !isFailure });
       
       // Index the signature
       this.signatureIndex.set(signatureKey, [memory.patternKey]);
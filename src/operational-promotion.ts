@@ -131,7 +131,7 @@ export class OperationalPromotionManager {
       wroteDocument = true;
     }
 
-    const promoted = this.memoryManager.promote(proposal.patternKey, String(target));
+    const promoted = this.memoryManager.promote(proposal.patternKey, String(target), `reviewed by ${reviewer}`);
     if (!promoted) {
       return {
         ok: false,
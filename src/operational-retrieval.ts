@@ -10,6 +10,9 @@
 
 import { OperationalMemoryManager, OperationalMemory, Scope, Status } from './operational.js';
 import { OperationalAggregationManager } from './operational-aggregation.js';
+import { enforcePermission, type PermissionPrincipal } from './permissions/index.js';
+import { CONTENT_TYPE_HALF_LIFE_DAYS } from './content-type-classifier.js';
+import { computeSalience, loadSalienceState, type SalienceState } from './salience.js';
 
 /**
  * Task type classification
@@ -34,6 +37,8 @@ export interface TaskContext {
   recentHistory?: string[];
   toolsAvailable?: string[];
   currentTask?: string;
+  /** When set, retrieval requires `operationalLearningAccess` for this principal */
+  principal?: PermissionPrincipal;
 }
 
 /**
@@ -57,6 +62,8 @@ export interface OperationalRetrievalResult {
   injectionReady: boolean;
   scopeIsolationEnabled?: boolean;
   allowedScopes?: Scope[];
+  /** Why retrieval was skipped for the principal, if it was */
+  accessDenied?: string;
 }
 
 interface RankedOperationalPattern {
@@ -159,18 +166,20 @@ export class OperationalRetrievalManager {
     }, 0);
   }
 
-  private recencyScore(lastSeenAt: string): number {
-    const ts = new Date(lastSeenAt).getTime();
-    if (!Number.isFinite(ts)) return 0;
-
-    const ageDays = (Date.now() - ts) / (1000 * 60 * 60 * 24);
-    if (ageDays <= 1) return 10;
-    if (ageDays <= 7) return 7;
-    if (ageDays <= 30) return 4;
-    return 1;
+  /**
+   * Shared salience model: promoted patterns decay like specs, reviewed ones
+   * like discussion; each recurrence reinforces, pins hold them at 1.
+   */
+  private salience(pattern: OperationalMemory, salienceState: SalienceState, now: number): number {
+    return computeSalience({
+      halfLifeDays: pattern.status === 'promoted' ? CONTENT_TYPE_HALF_LIFE_DAYS.spec : CONTENT_TYPE_HALF_LIFE_DAYS.discussion,
+      updatedAt: pattern.lastSeenAt,
+      mentionCount: pattern.recurrenceCount,
+      pinned: Boolean(salienceState.pins[pattern.id || pattern.patternKey]),
+    }, now).salience;
   }
 
-  private scorePattern(pattern: OperationalMemory, query: string): number {
+  private scorePattern(pattern: OperationalMemory, query: string, salienceState: SalienceState, now: number): number {
     let score = 0;
 
     const queryMatches = this.countQueryMatches(pattern, query);
@@ -179,7 +188,7 @@ export class OperationalRetrievalManager {
 
     score += Math.min(pattern.recurrenceCount, 6) * 4;
     score += Math.round(pattern.confidence * 20);
-    score += this.recencyScore(pattern.lastSeenAt);
+    score += Math.round(this.salience(pattern, salienceState, now) * 10);
     score += pattern.status === 'promoted' ? 8 : 4;
 
     if (pattern.rootCause !== 'TBD') score += 4;
@@ -194,12 +203,26 @@ export class OperationalRetrievalManager {
   }
 
   private rankPatterns(patterns: OperationalMemory[], query: string): OperationalMemory[] {
+    const salienceState = loadSalienceState(this.workspacePath);
+    const now = Date.now();
     return patterns
-      .map((pattern) => ({ pattern, score: this.scorePattern(pattern, query) }))
+      .map((pattern) => ({ pattern, score: this.scorePattern(pattern, query, salienceState, now) }))
       .sort((a, b) => b.score - a.score)
       .map((entry) => entry.pattern);
   }
 
+  /**
+   * Rank every retrievable (reviewed/promoted) pattern against a query,
+   * without task classification or the injection cutoffs. Used by the
+   * retrieval eval harness to score the ranking itself.
+   */
+  rankRetrievable(query: string): OperationalMemory[] {
+    return this.rankPatterns(
+      this.getRetrievalStatuses().flatMap((status) => this.memoryManager.getAllByStatus(status)),
+      query,
+    );
+  }
+
   /**
    * Determine allowed scopes for strict retrieval mode.
    * Default remains broad unless feature flag is enabled.
@@ -329,8 +352,14 @@ export class OperationalRetrievalManager {
 
     // Only query operational memory for relevant task types
     let patterns: OperationalMemory[] = [];
+    let accessDenied: string | undefined;
+
+    if (classification.shouldQueryOperational && context.principal) {
+      const access = enforcePermission(context.principal, 'operationalLearningAccess', 'operational', this.workspacePath);
+      if (!access.allowed) accessDenied = access.reason;
+    }
 
-    if (classification.shouldQueryOperational) {
+    if (classification.shouldQueryOperational && !accessDenied) {
       const retrievalStatuses = this.getRetrievalStatuses();
       let retrievable = retrievalStatuses.flatMap((status) =>
         this.memoryManager.getAllByStatus(status)
@@ -362,6 +391,7 @@ export class OperationalRetrievalManager {
       injectionReady: patterns.length > 0 && classification.shouldQueryOperational,
       scopeIsolationEnabled,
       allowedScopes: scopeIsolationEnabled ? allowedScopes : undefined,
+      ...(accessDenied ? { accessDenied } : {}),
     };
   }
 
@@ -9,7 +9,8 @@ import fs from 'fs';
 import path from 'path';
 import yaml from 'js-yaml';
 import crypto from 'crypto';
-import { getClawTextOperationalDir } from './runtime-paths.js';
+import { getClawTextOperationalDir, getClawTextProdStateRoot } from './runtime-paths.js';
+import { emitTransaction, recordMemoryPromoted, recordOperationalPattern } from './record/index.js';
 
 /**
  * Operational memory entry types
@@ -162,10 +163,27 @@ export class OperationalMemoryManager {
     return `${type}.${scope}.${slug}`;
   }
 
+  /**
+   * Journal an operational.pattern transaction for this entry
+   */
+  private journalPattern(entry: OperationalMemory, extra?: Record<string, unknown>): void {
+    emitTransaction(() => recordOperationalPattern(
+      entry.patternKey,
+      entry.summary,
+      entry.recurrenceCount,
+      entry.fix,
+      { type: entry.type, scope: entry.scope, status: entry.status, ...extra },
+      { stateRoot: getClawTextProdStateRoot(this.workspacePath) }
+    ));
+  }
+
   /**
    * Create new operational memory entry
+   *
+   * Journals an operational.pattern transaction unless `journal` is false
+   * (replay, or callers that journal the event themselves).
    */
-  create(memory: Partial<OperationalMemory>): OperationalMemory {
+  create(memory: Partial<OperationalMemory>, options: { journal?: boolean } = {}): OperationalMemory {
     const now = new Date().toISOString();
     const entry: OperationalMemory = {
       patternKey: memory.patternKey || this.generatePatternKey(
@@ -187,6 +205,8 @@ export class OperationalMemoryManager {
       status: memory.status || 'raw',
       evidence: memory.evidence || [],
       relatedPatterns: memory.relatedPatterns || [],
+      promotedTo: memory.promotedTo,
+      promotedAt: memory.promotedAt,
       tags: memory.tags || [],
       id: this.generateId(),
       createdAt: now,
@@ -196,6 +216,10 @@ export class OperationalMemoryManager {
     this.saveEntry(entry);
     // Index is updated from within saveEntry via updateIndexWithPath
 
+    if (options.journal !== false) {
+      this.journalPattern(entry);
+    }
+
     return entry;
   }
 
@@ -577,21 +601,37 @@ export class OperationalMemoryManager {
     // Archive duplicate
     this.changeStatus(duplicateKey, 'archived');
 
+    if (merged) {
+      this.journalPattern(merged, { mergedFrom: duplicateKey });
+    }
+
     return merged;
   }
 
   /**
    * Promote pattern to workspace guidance
    */
-  promote(patternKey: string, target: string): OperationalMemory | null {
+  promote(patternKey: string, target: string, reason: string = 'operational promotion'): OperationalMemory | null {
     const entry = this.get(patternKey);
     if (!entry) return null;
 
-    return this.update(patternKey, {
+    const promoted = this.update(patternKey, {
       status: 'promoted',
       promotedTo: target,
       promotedAt: new Date().toISOString(),
     });
+
+    if (promoted) {
+      emitTransaction(() => recordMemoryPromoted(
+        patternKey,
+        'operational',
+        target,
+        reason,
+        { stateRoot: getClawTextProdStateRoot(this.workspacePath) }
+      ));
+    }
+
+    return promoted;
   }
 }
 
@@ -7,7 +7,6 @@
  * Spec: docs/FLEET_COMMAND_SPEC.md (Replication Flow section)
  */
 
-import { join } from 'path';
 import {
   loadNodeRegistry,
   loadNodeConfig,
@@ -20,8 +19,19 @@ import {
   appendTransaction,
   getRecordStatus,
   hashPayload,
+  readTransactionsSince,
+  emitTransaction,
+  recordNodeHeartbeat,
+  recordNodeRegistered,
   type Transaction,
+  type SequenceVector,
 } from '../record/index.js';
+import { reconcileJournal } from '../record/merge.js';
+import {
+  checkTransactionSignature,
+  signaturesRequired,
+  signPeerRequest,
+} from '../record/signing.js';
 
 // ──────────────────────────────────────────────
 // Types
@@ -41,6 +51,8 @@ export interface PeerPushResponse {
 export interface PeerPullRequest {
   from: number;
   to?: number;
+  /** Pull everything newer than this per-origin vector instead of a seq range */
+  since?: SequenceVector;
 }
 
 export interface PeerPullResponse {
@@ -53,12 +65,16 @@ export interface PeerStatusResponse {
   seq: number;
   hash: string | null;
   status: 'online';
+  /** Per-origin sequence vector (absent on peers that predate causal merge) */
+  vector?: SequenceVector;
 }
 
 export interface SyncResult {
   peer: string;
   pulled: number;
   pushed: number;
+  /** Concurrent writes resolved by reconcileJournal after this sync */
+  conflicts: number;
   errors: string[];
 }
 
@@ -66,20 +82,30 @@ export interface SyncResult {
 // Outbound: push transactions to a peer
 // ──────────────────────────────────────────────
 
+function localNodeId(stateRoot?: string): string {
+  return process.env.CLAWTEXT_NODE_ID || loadNodeConfig(stateRoot)?.nodeId || 'local';
+}
+
 async function fetchJSON<T>(
   url: string,
   method: 'GET' | 'POST',
   body?: unknown,
+  stateRoot?: string,
   timeoutMs = 10_000
 ): Promise<{ ok: boolean; data?: T; error?: string }> {
   try {
     const controller = new AbortController();
     const timer = setTimeout(() => controller.abort(), timeoutMs);
 
+    // Sign the request with this node's key so the peer can authenticate us
+    const payload = body ? JSON.stringify(body) : '';
+    const { pathname, search } = new URL(url);
+    const auth = signPeerRequest(method, pathname + search, payload, localNodeId(stateRoot), stateRoot);
+
     const resp = await fetch(url, {
       method,
-      headers: { 'Content-Type': 'application/json' },
-      body: body ? JSON.stringify(body) : undefined,
+      headers: { 'Content-Type': 'application/json', ...(auth || {}) },
+      body: body ? payload : undefined,
       signal: controller.signal,
     });
 
@@ -101,15 +127,16 @@ async function fetchJSON<T>(
  */
 export async function pushToPeer(
   peer: NodeRegistryEntry,
-  transactions: Transaction[]
+  transactions: Transaction[],
+  stateRoot?: string
 ): Promise<PeerPushResponse> {
   const url = (peer.endpoints.record || peer.endpoints.api) + '/push';
   const req: PeerPushRequest = {
     transactions,
-    sourceNode: process.env.CLAWTEXT_NODE_ID || 'local',
+    sourceNode: localNodeId(stateRoot),
   };
 
-  const result = await fetchJSON<PeerPushResponse>(url, 'POST', req);
+  const result = await fetchJSON<PeerPushResponse>(url, 'POST', req, stateRoot);
 
   if (!result.ok || !result.data) {
     return { accepted: 0, skipped: 0, errors: [result.error || 'unknown error'] };
@@ -121,9 +148,12 @@ export async function pushToPeer(
 /**
  * Get peer's current record status.
  */
-export async function getPeerStatus(peer: NodeRegistryEntry): Promise<PeerStatusResponse | null> {
+export async function getPeerStatus(
+  peer: NodeRegistryEntry,
+  stateRoot?: string
+): Promise<PeerStatusResponse | null> {
   const url = (peer.endpoints.record || peer.endpoints.api) + '/status';
-  const result = await fetchJSON<PeerStatusResponse>(url, 'GET');
+  const result = await fetchJSON<PeerStatusResponse>(url, 'GET', undefined, stateRoot);
   return result.ok ? result.data || null : null;
 }
 
@@ -133,11 +163,28 @@ export async function getPeerStatus(peer: NodeRegistryEntry): Promise<PeerStatus
 export async function pullFromPeer(
   peer: NodeRegistryEntry,
   fromSeq: number,
-  toSeq?: number
+  toSeq?: number,
+  stateRoot?: string
 ): Promise<Transaction[]> {
   const base = peer.endpoints.record || peer.endpoints.api;
   const url = `${base}/pull?from=${fromSeq}${toSeq ? `&to=${toSeq}` : ''}`;
-  const result = await fetchJSON<PeerPullResponse>(url, 'GET');
+  const result = await fetchJSON<PeerPullResponse>(url, 'GET', undefined, stateRoot);
+
+  if (!result.ok || !result.data) return [];
+  return result.data.transactions;
+}
+
+/**
+ * Pull every transaction the holder of `vector` has not seen from a peer.
+ */
+export async function pullSinceFromPeer(
+  peer: NodeRegistryEntry,
+  vector: SequenceVector,
+  stateRoot?: string
+): Promise<Transaction[]> {
+  const base = peer.endpoints.record || peer.endpoints.api;
+  const url = `${base}/pull?since=${encodeURIComponent(JSON.stringify(vector))}`;
+  const result = await fetchJSON<PeerPullResponse>(url, 'GET', undefined, stateRoot);
 
   if (!result.ok || !result.data) return [];
   return result.data.transactions;
@@ -146,9 +193,13 @@ export async function pullFromPeer(
 /**
  * Send heartbeat to a peer.
  */
-export async function sendHeartbeat(peer: NodeRegistryEntry, hb: Heartbeat): Promise<boolean> {
+export async function sendHeartbeat(
+  peer: NodeRegistryEntry,
+  hb: Heartbeat,
+  stateRoot?: string
+): Promise<boolean> {
   const url = (peer.endpoints.record || peer.endpoints.api) + '/heartbeat';
-  const result = await fetchJSON(url, 'POST', hb);
+  const result = await fetchJSON(url, 'POST', hb, stateRoot);
   return result.ok;
 }
 
@@ -159,14 +210,17 @@ export async function sendHeartbeat(peer: NodeRegistryEntry, hb: Heartbeat): Pro
 /**
  * Handle an inbound push from a peer.
  *
- * Validates each transaction and replays new ones locally.
+ * Validates each transaction's payload hash and signature, and replays new
+ * ones locally. Invalid signatures are always rejected; unsigned or
+ * unknown-signer transactions are rejected when signatures are required.
  * Idempotent — duplicate transactions are skipped silently.
  */
 export async function handleInboundPush(
   req: PeerPushRequest,
-  stateRoot?: string
+  stateRoot?: string,
+  options?: { requireSignatures?: boolean }
 ): Promise<PeerPushResponse> {
-  const status = getRecordStatus(stateRoot);
+  const requireSignatures = options?.requireSignatures ?? signaturesRequired(stateRoot);
   const existing = new Set(
     readTransactions({ stateRoot }).map((t) => t.id)
   );
@@ -188,9 +242,34 @@ export async function handleInboundPush(
       continue;
     }
 
+    // Verify origin signature
+    const sig = checkTransactionSignature(txn, stateRoot);
+    if (sig === 'invalid') {
+      errors.push(`txn ${txn.id}: invalid signature for sourceNode ${txn.sourceNode}`);
+      continue;
+    }
+    if (sig !== 'valid' && requireSignatures) {
+      errors.push(
+        sig === 'unsigned'
+          ? `txn ${txn.id}: unsigned`
+          : `txn ${txn.id}: unknown signer ${txn.sourceNode}`
+      );
+      continue;
+    }
+
     // Replay transaction locally
     try {
-      appendTransaction(txn.type, txn.payload, { stateRoot, sourceNode: txn.sourceNode });
+      appendTransaction(txn.type, txn.payload, {
+        stateRoot,
+        sourceNode: txn.sourceNode,
+        id: txn.id,
+        timestamp: txn.timestamp,
+        signature: txn.signature,
+        hlc: txn.hlc,
+        nodeSeq: txn.nodeSeq,
+        causal: txn.causal,
+      });
+      existing.add(txn.id);
       accepted++;
     } catch (err: unknown) {
       errors.push(`txn ${txn.id}: ${err instanceof Error ? err.message : String(err)}`);
@@ -204,7 +283,16 @@ export async function handleInboundPush(
  * Handle an inbound heartbeat from a peer.
  */
 export function handleInboundHeartbeat(hb: Heartbeat, stateRoot?: string): void {
+  const previous = loadNodeRegistry(stateRoot).nodes[hb.nodeId];
   recordHeartbeat(hb, stateRoot);
+
+  // Journal membership and status transitions, not every beat
+  if (!previous) {
+    emitTransaction(() => recordNodeRegistered(hb.nodeId, { displayName: hb.nodeId, via: 'heartbeat' }, { stateRoot }));
+  }
+  if (previous?.status !== hb.status) {
+    emitTransaction(() => recordNodeHeartbeat(hb.nodeId, hb.seq, hb.status, previous?.status ?? null, { stateRoot }));
+  }
 }
 
 // ──────────────────────────────────────────────
@@ -215,6 +303,11 @@ export function handleInboundHeartbeat(hb: Heartbeat, stateRoot?: string): void
  * Sync with all online peers:
  * 1. Pull any transactions we're missing from each peer
  * 2. Push any transactions peers are missing from us
+ * 3. Reconcile concurrent writes (record/merge-report.json)
+ *
+ * Peers that report a sequence vector are synced by per-origin nodeSeq, so
+ * concurrent primaries exchange exactly what the other lacks. Older peers
+ * fall back to comparing local seq.
  *
  * Returns summary of what was synced.
  */
@@ -222,7 +315,6 @@ export async function syncWithPeers(stateRoot?: string): Promise<SyncResult[]> {
   const registry = loadNodeRegistry(stateRoot);
   const myConfig = loadNodeConfig(stateRoot);
   const myNodeId = myConfig?.nodeId || process.env.CLAWTEXT_NODE_ID || 'local';
-  const myStatus = getRecordStatus(stateRoot);
 
   const results: SyncResult[] = [];
 
@@ -230,19 +322,46 @@ export async function syncWithPeers(stateRoot?: string): Promise<SyncResult[]> {
     if (peer.nodeId === myNodeId) continue;
     if (peer.status !== 'online' && peer.status !== 'degraded') continue;
 
-    const result: SyncResult = { peer: peer.nodeId, pulled: 0, pushed: 0, errors: [] };
+    const result: SyncResult = { peer: peer.nodeId, pulled: 0, pushed: 0, conflicts: 0, errors: [] };
+    const myStatus = getRecordStatus(stateRoot);
 
     // Get peer status
-    const peerStatus = await getPeerStatus(peer);
+    const peerStatus = await getPeerStatus(peer, stateRoot);
     if (!peerStatus) {
       result.errors.push('unreachable');
       results.push(result);
       continue;
     }
 
-    // Pull: if peer has more than us
+    if (peerStatus.vector) {
+      // Pull what our vector lacks, push what theirs lacks
+      const missing = await pullSinceFromPeer(peer, myStatus.vector || {}, stateRoot);
+      if (missing.length > 0) {
+        const pushResp = await handleInboundPush(
+          { transactions: missing, sourceNode: peer.nodeId },
+          stateRoot
+        );
+        result.pulled = pushResp.accepted;
+        result.errors.push(...pushResp.errors);
+      }
+
+      const toSend = readTransactionsSince(peerStatus.vector, stateRoot);
+      if (toSend.length > 0) {
+        const pushResp = await pushToPeer(peer, toSend, stateRoot);
+        result.pushed = pushResp.accepted;
+        result.errors.push(...pushResp.errors);
+      }
+
+      if (result.pulled > 0) {
+        result.conflicts = reconcileJournal(stateRoot).conflicts.length;
+      }
+      results.push(result);
+      continue;
+    }
+
+    // Legacy peer: pull if peer has more than us
     if (peerStatus.seq > myStatus.lastSeq) {
-      const missing = await pullFromPeer(peer, myStatus.lastSeq + 1, peerStatus.seq);
+      const missing = await pullFromPeer(peer, myStatus.lastSeq + 1, peerStatus.seq, stateRoot);
       const pushResp = await handleInboundPush(
         { transactions: missing, sourceNode: peer.nodeId },
         stateRoot
@@ -255,7 +374,7 @@ export async function syncWithPeers(stateRoot?: string): Promise<SyncResult[]> {
     if (myStatus.lastSeq > peerStatus.seq) {
       const toSend = readTransactions({ from: peerStatus.seq + 1, stateRoot });
       if (toSend.length > 0) {
-        const pushResp = await pushToPeer(peer, toSend);
+        const pushResp = await pushToPeer(peer, toSend, stateRoot);
         result.pushed = pushResp.accepted;
         result.errors.push(...pushResp.errors);
       }
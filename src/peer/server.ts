@@ -0,0 +1,289 @@
+/**
+ * ClawText Peer — Embedded HTTP Server
+ *
+ * Serves the peer replication protocol that `pushToPeer`, `pullFromPeer`,
+ * `getPeerStatus` and `sendHeartbeat` call on `peer.endpoints.record`:
+ *
+ *   POST /push             → handleInboundPush
+ *   GET  /pull?from&to     → readTransactions range
+ *   GET  /pull?since=<vec> → transactions newer than a per-origin vector
+ *   GET  /status           → local record status
+ *   POST /heartbeat        → handleInboundHeartbeat
+ *   GET  /health           → liveness probe
+ *
+ * Every route except /health authenticates the caller via the signed
+ * X-Clawtext-* headers when signatures are required (see record/signing.ts).
+ *
+ * Spec: docs/FLEET_COMMAND_SPEC.md (API Endpoints section)
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import { loadNodeConfig, type Heartbeat } from '../fleet/index.js';
+import { readTransactions, readTransactionsSince, getRecordStatus, type SequenceVector } from '../record/index.js';
+import { signaturesRequired, verifyPeerRequest, DEFAULT_MAX_CLOCK_SKEW_MS } from '../record/signing.js';
+import {
+  handleInboundPush,
+  handleInboundHeartbeat,
+  type PeerPushRequest,
+  type PeerPullResponse,
+  type PeerStatusResponse,
+} from './index.js';
+
+// ──────────────────────────────────────────────
+// Types
+// ──────────────────────────────────────────────
+
+export interface PeerServerOptions {
+  /** Port to listen on. 0 picks a free port. Default: 4440 */
+  port?: number;
+  /** Interface to bind. Default: 127.0.0.1 */
+  host?: string;
+  /** State root holding record/ and fleet/. Default: prod state root */
+  stateRoot?: string;
+  /** Path prefix the routes are mounted under, e.g. "/record". Default: "" */
+  basePath?: string;
+  /** Node ID reported by /status. Default: fleet config → CLAWTEXT_NODE_ID → "local" */
+  nodeId?: string;
+  /** Max accepted request body in bytes. Default: 10 MiB */
+  maxBodyBytes?: number;
+  /** Require signed peer requests. Default: fleet config security.requireSignatures → node key present */
+  requireSignatures?: boolean;
+  /** Optional request logger */
+  log?: (line: string) => void;
+}
+
+export interface RunningPeerServer {
+  server: Server;
+  url: string;
+  port: number;
+  close: () => Promise<void>;
+}
+
+const DEFAULT_PORT = 4440;
+const DEFAULT_HOST = '127.0.0.1';
+const DEFAULT_MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+// ──────────────────────────────────────────────
+// Request helpers
+// ──────────────────────────────────────────────
+
+function sendJSON(res: ServerResponse, status: number, body: unknown): void {
+  const data = JSON.stringify(body);
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Content-Length': Buffer.byteLength(data),
+  });
+  res.end(data);
+}
+
+function readBody(req: IncomingMessage, maxBytes: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        reject(new HttpError(413, `request body exceeds ${maxBytes} bytes`));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+
+    req.on('error', reject);
+  });
+}
+
+function parseJSON<T>(body: string): T {
+  try {
+    return JSON.parse(body || '{}') as T;
+  } catch {
+    throw new HttpError(400, 'invalid JSON body');
+  }
+}
+
+function parseSeq(value: string | null, name: string): number | undefined {
+  if (value === null || value === '') return undefined;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 0) {
+    throw new HttpError(400, `invalid "${name}" parameter`);
+  }
+  return n;
+}
+
+function normalizeBasePath(basePath?: string): string {
+  if (!basePath || basePath === '/') return '';
+  return '/' + basePath.replace(/^\/+|\/+$/g, '');
+}
+
+function resolveNodeId(options: PeerServerOptions): string {
+  return options.nodeId ||
+    loadNodeConfig(options.stateRoot)?.nodeId ||
+    process.env.CLAWTEXT_NODE_ID ||
+    'local';
+}
+
+// ──────────────────────────────────────────────
+// Server
+// ──────────────────────────────────────────────
+
+/**
+ * Create (but do not start) an HTTP server for the peer protocol.
+ */
+export function createPeerServer(options: PeerServerOptions = {}): Server {
+  const basePath = normalizeBasePath(options.basePath);
+  const maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+  const stateRoot = options.stateRoot;
+  const nodeId = resolveNodeId(options);
+  const maxClockSkewMs = loadNodeConfig(stateRoot)?.security?.maxClockSkewMs ?? DEFAULT_MAX_CLOCK_SKEW_MS;
+
+  const route = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (basePath && url.pathname !== basePath && !url.pathname.startsWith(basePath + '/')) {
+      throw new HttpError(404, 'not found');
+    }
+    const path = url.pathname.slice(basePath.length) || '/';
+    const method = req.method || 'GET';
+
+    if (path === '/health' && method === 'GET') {
+      const status = getRecordStatus(stateRoot);
+      sendJSON(res, 200, { status: 'online', nodeId, seq: status.lastSeq });
+      return;
+    }
+
+    const body = method === 'POST' ? await readBody(req, maxBodyBytes) : '';
+
+    // Authenticate the calling node
+    let caller: string | null = null;
+    const requireSignatures = options.requireSignatures ?? signaturesRequired(stateRoot);
+    if (requireSignatures || req.headers['x-clawtext-signature']) {
+      const auth = verifyPeerRequest(
+        method,
+        url.pathname + url.search,
+        body,
+        req.headers,
+        stateRoot,
+        maxClockSkewMs
+      );
+      if (!auth.ok) throw new HttpError(401, auth.reason);
+      caller = auth.nodeId;
+    }
+
+    if (path === '/status' && method === 'GET') {
+      const status = getRecordStatus(stateRoot);
+      const response: PeerStatusResponse = {
+        nodeId,
+        seq: status.lastSeq,
+        hash: status.lastHash,
+        status: 'online',
+        vector: status.vector || {},
+      };
+      sendJSON(res, 200, response);
+      return;
+    }
+
+    if (path === '/pull' && method === 'GET' && url.searchParams.has('since')) {
+      const since = parseJSON<SequenceVector>(url.searchParams.get('since') || '{}');
+      if (typeof since !== 'object' || since === null || Array.isArray(since)) {
+        throw new HttpError(400, 'invalid "since" vector');
+      }
+      const response: PeerPullResponse = {
+        transactions: readTransactionsSince(since, stateRoot),
+        nodeSeq: getRecordStatus(stateRoot).lastSeq,
+      };
+      sendJSON(res, 200, response);
+      return;
+    }
+
+    if (path === '/pull' && method === 'GET') {
+      const from = parseSeq(url.searchParams.get('from'), 'from') ?? 1;
+      const to = parseSeq(url.searchParams.get('to'), 'to');
+      if (to !== undefined && to < from) {
+        throw new HttpError(400, '"to" must be >= "from"');
+      }
+      const response: PeerPullResponse = {
+        transactions: readTransactions({ from, to, stateRoot }),
+        nodeSeq: getRecordStatus(stateRoot).lastSeq,
+      };
+      sendJSON(res, 200, response);
+      return;
+    }
+
+    if (path === '/push' && method === 'POST') {
+      const push = parseJSON<PeerPushRequest>(body);
+      if (!Array.isArray(push.transactions)) {
+        throw new HttpError(400, '"transactions" must be an array');
+      }
+      const result = await handleInboundPush(
+        { transactions: push.transactions, sourceNode: caller || push.sourceNode || 'unknown' },
+        stateRoot,
+        { requireSignatures }
+      );
+      sendJSON(res, 200, result);
+      return;
+    }
+
+    if (path === '/heartbeat' && method === 'POST') {
+      const hb = parseJSON<Heartbeat>(body);
+      if (hb.type !== 'heartbeat' || !hb.nodeId || typeof hb.seq !== 'number') {
+        throw new HttpError(400, 'invalid heartbeat');
+      }
+      if (caller && caller !== hb.nodeId) {
+        throw new HttpError(403, `node "${caller}" cannot send heartbeats for "${hb.nodeId}"`);
+      }
+      handleInboundHeartbeat(hb, stateRoot);
+      sendJSON(res, 200, { ok: true });
+      return;
+    }
+
+    if (['/health', '/status', '/pull', '/push', '/heartbeat'].includes(path)) {
+      throw new HttpError(405, `method ${method} not allowed`);
+    }
+    throw new HttpError(404, 'not found');
+  };
+
+  return createServer((req, res) => {
+    route(req, res)
+      .then(() => options.log?.(`${req.method} ${req.url} → ${res.statusCode}`))
+      .catch((err: unknown) => {
+        const status = err instanceof HttpError ? err.status : 500;
+        const message = err instanceof Error ? err.message : String(err);
+        if (!res.headersSent) sendJSON(res, status, { error: message });
+        else res.end();
+        options.log?.(`${req.method} ${req.url} → ${status} ${message}`);
+      });
+  });
+}
+
+/**
+ * Start the peer server and resolve once it is listening.
+ */
+export function startPeerServer(options: PeerServerOptions = {}): Promise<RunningPeerServer> {
+  const server = createPeerServer(options);
+  const host = options.host || DEFAULT_HOST;
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? DEFAULT_PORT, host, () => {
+      server.off('error', reject);
+      const address = server.address();
+      const port = typeof address === 'object' && address ? address.port : options.port ?? DEFAULT_PORT;
+      const hostForUrl = host.includes(':') ? `[${host}]` : host;
+      resolve({
+        server,
+        port,
+        url: `http://${hostForUrl}:${port}${normalizeBasePath(options.basePath)}`,
+        close: () => new Promise<void>((done, fail) => server.close((e) => (e ? fail(e) : done()))),
+      });
+    });
+  });
+}
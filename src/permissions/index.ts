@@ -5,10 +5,15 @@
  *   Global Defaults → Role → Vault Override → User Override
  *
  * More specific wins. Spec: docs/PERMISSION_MODEL.md
+ *
+ * Writes go through the save* helpers, which journal every changed field
+ * as a vault.permission_changed Record transaction.
  */
 
-import { readFileSync, existsSync, readdirSync } from 'fs';
-import { join } from 'path';
+import { readFileSync, existsSync, readdirSync, appendFileSync, mkdirSync, unlinkSync } from 'fs';
+import { join, dirname } from 'path';
+import { emitTransaction, recordPermissionChanged } from '../record/index.js';
+import { writeJsonAtomic } from '../atomic-write.js';
 
 // ──────────────────────────────────────────────
 // Types
@@ -63,6 +68,30 @@ export interface PermissionContext {
   operation?: 'recall' | 'retain' | 'both';
 }
 
+export type PermissionPrincipal = Pick<PermissionContext, 'userId' | 'vaultId'>;
+
+/** A gated capability checked by `enforcePermission` */
+export type GatedOperation = 'recall' | 'retain' | 'crossSessionVisibility' | 'operationalLearningAccess';
+
+/** Where a check happened — recorded on denials */
+export type PermissionSurface = 'injection' | 'memory' | 'si-recall' | 'extract' | 'ingest' | 'operational';
+
+export interface PermissionDecision {
+  allowed: boolean;
+  permissions: ResolvedPermissions;
+  reason?: string;
+}
+
+export interface PermissionDenial {
+  ts: string;
+  surface: PermissionSurface;
+  operation: GatedOperation | 'excludeProviders';
+  userId: string;
+  vaultId: string;
+  source: PermissionSource;
+  reason: string;
+}
+
 // ──────────────────────────────────────────────
 // Default values
 // ──────────────────────────────────────────────
@@ -112,6 +141,10 @@ function getUsersDir(root: string): string {
   return join(root, 'users');
 }
 
+export function getPermissionDenialsPath(workspacePath?: string): string {
+  return join(getPermissionsRoot(workspacePath), 'denials.jsonl');
+}
+
 // ──────────────────────────────────────────────
 // Loaders
 // ──────────────────────────────────────────────
@@ -152,6 +185,136 @@ export function loadUserOverride(root: string, userId: string, vaultId: string):
   );
 }
 
+export function listVaultOverrides(root: string): VaultOverride[] {
+  const dir = getVaultsDir(root);
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir)
+    .filter((f) => f.endsWith('.json'))
+    .map((f) => loadJSON<VaultOverride | null>(join(dir, f), null))
+    .filter((v): v is VaultOverride => v !== null);
+}
+
+export function listUserOverrides(root: string): UserOverride[] {
+  const dir = getUsersDir(root);
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .flatMap((entry) => readdirSync(join(dir, entry.name))
+      .filter((f) => f.endsWith('.json'))
+      .map((f) => loadJSON<UserOverride | null>(join(dir, entry.name, f), null)))
+    .filter((u): u is UserOverride => u !== null);
+}
+
+// ──────────────────────────────────────────────
+// Writers
+// ──────────────────────────────────────────────
+
+/** vaultId journaled for defaults and role changes, which apply to every vault */
+export const ALL_VAULTS_ID = '*';
+
+/**
+ * Journal one vault.permission_changed per field that differs between the
+ * stored and written record. `root` is a permissions root, so the Record
+ * lives in its parent state root. Returns the number of changed fields.
+ */
+function journalChanges(
+  root: string,
+  vaultId: string,
+  userId: string | null,
+  prefix: string,
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): number {
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+  let changed = 0;
+  for (const field of fields) {
+    const oldValue = before[field];
+    const newValue = after[field];
+    if (JSON.stringify(oldValue) === JSON.stringify(newValue)) continue;
+    emitTransaction(() => recordPermissionChanged(
+      vaultId,
+      userId,
+      `${prefix}${field}`,
+      oldValue,
+      newValue ?? null,
+      { stateRoot: dirname(root) }
+    ));
+    changed++;
+  }
+  return changed;
+}
+
+export function saveGlobalDefaults(root: string, defaults: Partial<GlobalDefaults>): number {
+  const before = loadJSON<Partial<GlobalDefaults>>(getDefaultsPath(root), {});
+  writeJsonAtomic(getDefaultsPath(root), defaults);
+  return journalChanges(root, ALL_VAULTS_ID, null, 'defaults.', before, defaults);
+}
+
+export function saveRole(root: string, role: RoleDefinition): number {
+  const target = join(getRolesDir(root), `${role.roleId}.json`);
+  const { roleId: _roleId, ...before } = loadJSON<Partial<RoleDefinition>>(target, {});
+  const { roleId, ...after } = role;
+  writeJsonAtomic(target, role);
+  return journalChanges(root, ALL_VAULTS_ID, null, `roles.${roleId}.`, before, after);
+}
+
+/** Remove a role file; each of its fields is journaled as unset. */
+export function deleteRole(root: string, roleId: string): number {
+  const target = join(getRolesDir(root), `${roleId}.json`);
+  if (!existsSync(target)) return 0;
+  const { roleId: _roleId, ...before } = loadJSON<Partial<RoleDefinition>>(target, {});
+  unlinkSync(target);
+  return journalChanges(root, ALL_VAULTS_ID, null, `roles.${roleId}.`, before, {});
+}
+
+export function saveVaultOverride(root: string, override: VaultOverride): number {
+  const target = join(getVaultsDir(root), `${override.vaultId}.json`);
+  const before = loadJSON<VaultOverride | null>(target, null);
+  writeJsonAtomic(target, override);
+
+  let changed = journalChanges(
+    root, override.vaultId, null, '',
+    { ...before?.globalOverride }, { ...override.globalOverride }
+  );
+  const roleIds = new Set([
+    ...Object.keys(before?.roleOverrides ?? {}),
+    ...Object.keys(override.roleOverrides ?? {}),
+  ]);
+  for (const roleId of roleIds) {
+    changed += journalChanges(
+      root, override.vaultId, null, `roleOverrides.${roleId}.`,
+      { ...before?.roleOverrides?.[roleId] }, { ...override.roleOverrides?.[roleId] }
+    );
+  }
+  return changed;
+}
+
+export function saveUserOverride(root: string, override: UserOverride): number {
+  const target = join(getUsersDir(root), override.userId, `${override.vaultId}.json`);
+  const { userId: _userId, vaultId: _vaultId, ...before } = loadJSON<Partial<UserOverride>>(target, {});
+  const { userId, vaultId, ...after } = override;
+  writeJsonAtomic(target, override);
+  return journalChanges(root, vaultId, userId, '', before, after);
+}
+
+/** Remove a vault override file; each of its fields is journaled as unset. */
+export function deleteVaultOverride(root: string, vaultId: string): number {
+  const target = join(getVaultsDir(root), `${vaultId}.json`);
+  if (!existsSync(target)) return 0;
+  const changed = saveVaultOverride(root, { vaultId });
+  unlinkSync(target);
+  return changed;
+}
+
+/** Remove a user override file; each of its fields is journaled as unset. */
+export function deleteUserOverride(root: string, userId: string, vaultId: string): number {
+  const target = join(getUsersDir(root), userId, `${vaultId}.json`);
+  if (!existsSync(target)) return 0;
+  const changed = saveUserOverride(root, { userId, vaultId });
+  unlinkSync(target);
+  return changed;
+}
+
 // ──────────────────────────────────────────────
 // Resolver
 // ──────────────────────────────────────────────
@@ -172,8 +335,37 @@ function merge(...layers: (Partial<PermissionRecord> | undefined)[]): Partial<Pe
   return result;
 }
 
+/** Which layer — and which file within it — last set a resolved field */
+export interface FieldOrigin {
+  layer: PermissionSource;
+  /** `built-in`, `defaults`, `role:<id>`, `vault:<id>/role:<id>`, `vault:<id>`, `user:<id>/<vault>` */
+  ref: string;
+}
+
+/**
+ * The four layers as the resolver reads them. `loadPermissionLayers` reads
+ * them from disk on demand; the policy tools build them in memory.
+ */
+export interface PermissionLayers {
+  /** Contents of defaults.json (not merged with DEFAULT_PERMISSIONS) */
+  defaults: Partial<GlobalDefaults>;
+  roles: RoleDefinition[];
+  vault(vaultId: string): VaultOverride | null;
+  user(userId: string, vaultId: string): UserOverride | null;
+}
+
+export function loadPermissionLayers(root: string): PermissionLayers {
+  return {
+    defaults: loadJSON<Partial<GlobalDefaults>>(getDefaultsPath(root), {}),
+    roles: loadRoles(root),
+    vault: (vaultId) => loadVaultOverride(root, vaultId),
+    user: (userId, vaultId) => loadUserOverride(root, userId, vaultId),
+  };
+}
+
 /**
- * Resolve permissions for a user+vault combination.
+ * Resolve permissions for a user+vault combination from a set of layers,
+ * recording which layer set each field.
  *
  * Resolution order:
  * 1. Global defaults
@@ -181,65 +373,87 @@ function merge(...layers: (Partial<PermissionRecord> | undefined)[]): Partial<Pe
  * 3. Vault override for that role
  * 4. User override for that vault
  */
-export function resolvePermissions(
-  ctx: PermissionContext,
-  workspacePath?: string
-): ResolvedPermissions {
-  const root = getPermissionsRoot(workspacePath);
+export function resolveLayers(
+  layers: PermissionLayers,
+  ctx: PermissionPrincipal
+): { permissions: ResolvedPermissions; origins: Record<keyof PermissionRecord, FieldOrigin>; roles: string[] } {
   let source: PermissionSource = 'defaults';
-
-  // Layer 1: Global defaults
-  const defaults = loadGlobalDefaults(root);
+  const defaults: GlobalDefaults = { ...DEFAULT_PERMISSIONS, ...layers.defaults };
   let resolved: Partial<PermissionRecord> = { ...defaults };
+  const origins = Object.fromEntries(
+    Object.keys(DEFAULT_PERMISSIONS).map((field) => [
+      field,
+      { layer: 'defaults', ref: field in layers.defaults ? 'defaults' : 'built-in' },
+    ])
+  ) as Record<keyof PermissionRecord, FieldOrigin>;
+
+  const apply = (layer: Partial<PermissionRecord>, origin: FieldOrigin) => {
+    resolved = merge(resolved, layer);
+    for (const [field, value] of Object.entries(layer)) {
+      if (value !== undefined && field in origins) {
+        origins[field as keyof PermissionRecord] = origin;
+      }
+    }
+  };
 
   // Layer 2: Roles
-  const roles = loadRoles(root);
-  const userRoles = roles.filter((r) => r.members.includes(ctx.userId));
+  const userRoles = layers.roles.filter((r) => r.members.includes(ctx.userId));
 
   if (userRoles.length > 0) {
     source = 'role';
     // Apply all matching roles in order (last wins for conflicts — can refine later)
     for (const role of userRoles) {
       const { roleId: _roleId, displayName: _dn, members: _m, ...perms } = role;
-      resolved = merge(resolved, perms);
+      apply(perms, { layer: 'role', ref: `role:${role.roleId}` });
     }
 
     // Layer 3: Vault override (for each matching role)
-    const vaultOverride = loadVaultOverride(root, ctx.vaultId);
+    const vaultOverride = layers.vault(ctx.vaultId);
     if (vaultOverride) {
       for (const role of userRoles) {
         const roleOverride = vaultOverride.roleOverrides?.[role.roleId];
         if (roleOverride) {
           source = 'vault';
-          resolved = merge(resolved, roleOverride);
+          apply(roleOverride, { layer: 'vault', ref: `vault:${ctx.vaultId}/role:${role.roleId}` });
         }
       }
       // Also apply global vault override if present
       if (vaultOverride.globalOverride) {
         source = 'vault';
-        resolved = merge(resolved, vaultOverride.globalOverride);
+        apply(vaultOverride.globalOverride, { layer: 'vault', ref: `vault:${ctx.vaultId}` });
       }
     }
   }
 
   // Layer 4: User override
-  const userOverride = loadUserOverride(root, ctx.userId, ctx.vaultId);
+  const userOverride = layers.user(ctx.userId, ctx.vaultId);
   if (userOverride) {
     const { userId: _u, vaultId: _v, ...perms } = userOverride;
     source = 'user';
-    resolved = merge(resolved, perms);
+    apply(perms, { layer: 'user', ref: `user:${ctx.userId}/${ctx.vaultId}` });
   }
 
   // Merge back with defaults to ensure all fields are present
   const final = merge(defaults, resolved) as GlobalDefaults;
 
   return {
-    ...final,
-    source,
-    resolvedAt: new Date().toISOString(),
+    permissions: { ...final, source, resolvedAt: new Date().toISOString() },
+    origins,
+    roles: userRoles.map((r) => r.roleId),
   };
 }
 
+/**
+ * Resolve permissions for a user+vault combination from the files under
+ * the permissions root (see resolveLayers for the order).
+ */
+export function resolvePermissions(
+  ctx: PermissionContext,
+  workspacePath?: string
+): ResolvedPermissions {
+  return resolveLayers(loadPermissionLayers(getPermissionsRoot(workspacePath)), ctx).permissions;
+}
+
 /**
  * Check if a user can perform an operation.
  */
@@ -257,3 +471,112 @@ export function canAccess(
 
   return { allowed, permissions };
 }
+
+// ──────────────────────────────────────────────
+// Enforcement
+// ──────────────────────────────────────────────
+
+export const UNKNOWN_USER_ID = 'unknown';
+export const DEFAULT_VAULT_ID = 'default';
+
+/**
+ * Derive the principal for a plugin/hook context. The requesting sender is
+ * the user; the agent's workspace is the vault.
+ */
+export function resolvePrincipal(ctx: Record<string, unknown> | null | undefined): PermissionPrincipal {
+  const userId = [ctx?.requesterSenderId, ctx?.senderId, ctx?.agentId]
+    .find((value): value is string => typeof value === 'string' && value.trim().length > 0);
+  const agentId = ctx?.agentId;
+  return {
+    userId: userId ?? UNKNOWN_USER_ID,
+    vaultId: typeof agentId === 'string' && agentId ? agentId : DEFAULT_VAULT_ID,
+  };
+}
+
+/**
+ * Append a denial to permissions/denials.jsonl. Logging never throws.
+ */
+export function recordPermissionDenial(denial: Omit<PermissionDenial, 'ts'>, workspacePath?: string): void {
+  try {
+    const root = getPermissionsRoot(workspacePath);
+    if (!existsSync(root)) mkdirSync(root, { recursive: true });
+    appendFileSync(
+      getPermissionDenialsPath(workspacePath),
+      JSON.stringify({ ts: new Date().toISOString(), ...denial }) + '\n',
+    );
+  } catch {
+    // ignore — a failed log must not turn a denial into an error
+  }
+}
+
+export function readPermissionDenials(workspacePath?: string, limit?: number): PermissionDenial[] {
+  const path = getPermissionDenialsPath(workspacePath);
+  if (!existsSync(path)) return [];
+  const denials = readFileSync(path, 'utf-8')
+    .split('\n')
+    .filter(Boolean)
+    .flatMap((line) => {
+      try {
+        return [JSON.parse(line) as PermissionDenial];
+      } catch {
+        return [];
+      }
+    });
+  return limit !== undefined ? denials.slice(-limit) : denials;
+}
+
+function isGranted(permissions: ResolvedPermissions, operation: GatedOperation): boolean {
+  switch (operation) {
+    case 'recall':
+      return permissions.recall;
+    case 'retain':
+      return permissions.retain;
+    // Both widen what the principal can read, so both also need recall
+    case 'crossSessionVisibility':
+      return permissions.recall && permissions.crossSessionVisibility;
+    case 'operationalLearningAccess':
+      return permissions.recall && permissions.operationalLearningAccess;
+  }
+}
+
+/**
+ * Resolve the principal's permissions and check one gated operation,
+ * recording a denial when it is not granted.
+ */
+export function enforcePermission(
+  principal: PermissionPrincipal,
+  operation: GatedOperation,
+  surface: PermissionSurface,
+  workspacePath?: string,
+): PermissionDecision {
+  const permissions = resolvePermissions(principal, workspacePath);
+  if (isGranted(permissions, operation)) return { allowed: true, permissions };
+
+  const missing = operation === 'crossSessionVisibility' || operation === 'operationalLearningAccess'
+    ? (permissions.recall ? operation : 'recall')
+    : operation;
+  const reason = `${missing} not granted to ${principal.userId} in vault ${principal.vaultId}`;
+  recordPermissionDenial({
+    surface,
+    operation,
+    userId: principal.userId,
+    vaultId: principal.vaultId,
+    source: permissions.source,
+    reason,
+  }, workspacePath);
+  return { allowed: false, permissions, reason };
+}
+
+/**
+ * True when the model's provider (the part before '/') or the model id
+ * itself is listed in `excludeProviders`.
+ */
+export function isProviderExcluded(permissions: ResolvedPermissions, model?: string): boolean {
+  if (!model || permissions.excludeProviders.length === 0) return false;
+  const normalized = model.trim().toLowerCase();
+  const provider = normalized.includes('/') ? normalized.split('/')[0] : normalized;
+  return permissions.excludeProviders.some((entry) => {
+    const excluded = entry.trim().toLowerCase();
+    return excluded === provider || excluded === normalized;
+  });
+}
@@ -0,0 +1,332 @@
+/**
+ * ClawText Permission Model — Policy Tools
+ *
+ * In-memory view of the permission files behind `clawtext perms`: explain
+ * which layer set each resolved field, apply a proposed change without
+ * writing it, and simulate what that change would alter for every known
+ * user × vault. Committed changes go through the journaled save* writers.
+ *
+ * Spec: docs/PERMISSION_MODEL.md (Managing Permissions section)
+ */
+
+import {
+  DEFAULT_VAULT_ID,
+  getPermissionsRoot,
+  listUserOverrides,
+  listVaultOverrides,
+  loadPermissionLayers,
+  loadRoles,
+  resolveLayers,
+  saveGlobalDefaults,
+  saveRole,
+  saveUserOverride,
+  saveVaultOverride,
+  type FieldOrigin,
+  type GlobalDefaults,
+  type PermissionLayers,
+  type PermissionPrincipal,
+  type PermissionRecord,
+  type PermissionSource,
+  type RoleDefinition,
+  type UserOverride,
+  type VaultOverride,
+} from './index.js';
+
+// ──────────────────────────────────────────────
+// Types
+// ──────────────────────────────────────────────
+
+export type PermissionField = keyof PermissionRecord;
+export type PermissionValue = PermissionRecord[PermissionField];
+
+/** Every permission file, loaded at once */
+export interface PermissionSnapshot {
+  defaults: Partial<GlobalDefaults>;
+  roles: RoleDefinition[];
+  vaults: VaultOverride[];
+  users: UserOverride[];
+}
+
+/** A single edit to one permission file. `value: undefined` unsets the field. */
+export type PermissionChange =
+  | { kind: 'defaults'; field: PermissionField; value?: PermissionValue }
+  | { kind: 'role-create'; roleId: string; displayName?: string }
+  | { kind: 'role'; roleId: string; field: PermissionField; value?: PermissionValue }
+  | { kind: 'role-member'; roleId: string; userId: string; action: 'add' | 'remove' }
+  | { kind: 'vault'; vaultId: string; roleId?: string; field: PermissionField; value?: PermissionValue }
+  | { kind: 'user'; userId: string; vaultId: string; field: PermissionField; value?: PermissionValue };
+
+export interface PermissionExplanation {
+  userId: string;
+  vaultId: string;
+  roles: string[];
+  source: PermissionSource;
+  fields: Array<{ field: PermissionField; value: PermissionValue; origin: FieldOrigin }>;
+}
+
+export interface PermissionFieldDelta {
+  field: PermissionField;
+  before: PermissionValue;
+  after: PermissionValue;
+  beforeOrigin: FieldOrigin;
+  afterOrigin: FieldOrigin;
+}
+
+export interface PermissionSimulation {
+  change: PermissionChange;
+  /** User × vault pairs evaluated */
+  principals: number;
+  /** Pairs whose resolved permissions would change */
+  affected: Array<PermissionPrincipal & { changes: PermissionFieldDelta[] }>;
+}
+
+// ──────────────────────────────────────────────
+// Field values
+// ──────────────────────────────────────────────
+
+const FIELD_KINDS: Record<PermissionField, 'boolean' | 'number' | 'list' | 'budget' | 'string'> = {
+  recall: 'boolean',
+  retain: 'boolean',
+  recallBudget: 'budget',
+  recallMaxTokens: 'number',
+  retainEveryNTurns: 'number',
+  retainRoles: 'list',
+  retainTags: 'list',
+  llmModel: 'string',
+  excludeProviders: 'list',
+  crossSessionVisibility: 'boolean',
+  operationalLearningAccess: 'boolean',
+};
+
+export const PERMISSION_FIELDS = Object.keys(FIELD_KINDS) as PermissionField[];
+
+export function isPermissionField(field: string): field is PermissionField {
+  return Object.prototype.hasOwnProperty.call(FIELD_KINDS, field);
+}
+
+/** Whether an already-typed value (e.g. from YAML) fits the field. */
+export function isValidPermissionValue(field: PermissionField, value: unknown): boolean {
+  switch (FIELD_KINDS[field]) {
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'number':
+      return Number.isInteger(value) && (value as number) >= 0;
+    case 'list':
+      return Array.isArray(value) && value.every((v) => typeof v === 'string');
+    case 'budget':
+      return value === 'low' || value === 'medium' || value === 'high';
+    default:
+      return typeof value === 'string';
+  }
+}
+
+/**
+ * Parse a CLI value for a field. `unset` returns undefined (remove the
+ * field from the layer); lists are comma-separated.
+ */
+export function parsePermissionValue(field: string, raw: string): PermissionValue {
+  if (!isPermissionField(field)) {
+    throw new Error(`unknown permission field "${field}" (expected: ${PERMISSION_FIELDS.join(', ')})`);
+  }
+  if (raw === 'unset') return undefined;
+
+  switch (FIELD_KINDS[field]) {
+    case 'boolean':
+      if (raw !== 'true' && raw !== 'false') throw new Error(`${field} must be true or false, got "${raw}"`);
+      return raw === 'true';
+    case 'number': {
+      const n = Number(raw);
+      if (!Number.isInteger(n) || n < 0) throw new Error(`${field} must be a non-negative integer, got "${raw}"`);
+      return n;
+    }
+    case 'list':
+      return raw.split(',').map((v) => v.trim()).filter(Boolean);
+    case 'budget':
+      if (!['low', 'medium', 'high'].includes(raw)) throw new Error(`${field} must be low, medium or high, got "${raw}"`);
+      return raw as GlobalDefaults['recallBudget'];
+    default:
+      return raw;
+  }
+}
+
+// ──────────────────────────────────────────────
+// Snapshot
+// ──────────────────────────────────────────────
+
+export function loadPermissionSnapshot(root: string): PermissionSnapshot {
+  return {
+    defaults: loadPermissionLayers(root).defaults,
+    roles: loadRoles(root),
+    vaults: listVaultOverrides(root),
+    users: listUserOverrides(root),
+  };
+}
+
+export function snapshotLayers(snapshot: PermissionSnapshot): PermissionLayers {
+  return {
+    defaults: snapshot.defaults,
+    roles: snapshot.roles,
+    vault: (vaultId) => snapshot.vaults.find((v) => v.vaultId === vaultId) ?? null,
+    user: (userId, vaultId) => snapshot.users.find((u) => u.userId === userId && u.vaultId === vaultId) ?? null,
+  };
+}
+
+/**
+ * Every user named in a role or user override, paired with every vault
+ * that has an override (plus the default vault).
+ */
+export function knownPrincipals(...snapshots: PermissionSnapshot[]): PermissionPrincipal[] {
+  const users = new Set<string>();
+  const vaults = new Set<string>([DEFAULT_VAULT_ID]);
+  for (const snapshot of snapshots) {
+    for (const role of snapshot.roles) role.members.forEach((m) => users.add(m));
+    for (const override of snapshot.users) {
+      users.add(override.userId);
+      vaults.add(override.vaultId);
+    }
+    for (const override of snapshot.vaults) vaults.add(override.vaultId);
+  }
+  return [...users].sort().flatMap((userId) => [...vaults].sort().map((vaultId) => ({ userId, vaultId })));
+}
+
+function setField(record: PermissionRecord, field: PermissionField, value: PermissionValue): void {
+  if (value === undefined) {
+    delete record[field];
+  } else {
+    (record as Record<string, unknown>)[field] = value;
+  }
+}
+
+function requireRole(snapshot: PermissionSnapshot, roleId: string): RoleDefinition {
+  const role = snapshot.roles.find((r) => r.roleId === roleId);
+  if (!role) throw new Error(`role "${roleId}" does not exist`);
+  return role;
+}
+
+/**
+ * Apply a change to a copy of the snapshot. Throws on changes that refer
+ * to a missing role or would recreate an existing one.
+ */
+export function applyPermissionChange(snapshot: PermissionSnapshot, change: PermissionChange): PermissionSnapshot {
+  const next: PermissionSnapshot = structuredClone(snapshot);
+
+  switch (change.kind) {
+    case 'defaults':
+      setField(next.defaults, change.field, change.value);
+      break;
+    case 'role-create':
+      if (next.roles.some((r) => r.roleId === change.roleId)) {
+        throw new Error(`role "${change.roleId}" already exists`);
+      }
+      next.roles.push({ roleId: change.roleId, displayName: change.displayName || change.roleId, members: [] });
+      break;
+    case 'role':
+      setField(requireRole(next, change.roleId), change.field, change.value);
+      break;
+    case 'role-member': {
+      const role = requireRole(next, change.roleId);
+      role.members = change.action === 'add'
+        ? [...new Set([...role.members, change.userId])]
+        : role.members.filter((m) => m !== change.userId);
+      break;
+    }
+    case 'vault': {
+      if (change.roleId) requireRole(next, change.roleId);
+      let vault = next.vaults.find((v) => v.vaultId === change.vaultId);
+      if (!vault) {
+        vault = { vaultId: change.vaultId };
+        next.vaults.push(vault);
+      }
+      if (change.roleId) {
+        vault.roleOverrides = vault.roleOverrides ?? {};
+        const record = vault.roleOverrides[change.roleId] ?? {};
+        setField(record, change.field, change.value);
+        vault.roleOverrides[change.roleId] = record;
+      } else {
+        vault.globalOverride = vault.globalOverride ?? {};
+        setField(vault.globalOverride, change.field, change.value);
+      }
+      break;
+    }
+    case 'user': {
+      let user = next.users.find((u) => u.userId === change.userId && u.vaultId === change.vaultId);
+      if (!user) {
+        user = { userId: change.userId, vaultId: change.vaultId };
+        next.users.push(user);
+      }
+      setField(user, change.field, change.value);
+      break;
+    }
+  }
+
+  return next;
+}
+
+// ──────────────────────────────────────────────
+// Explain / simulate / commit
+// ──────────────────────────────────────────────
+
+export function explainFromSnapshot(snapshot: PermissionSnapshot, principal: PermissionPrincipal): PermissionExplanation {
+  const { permissions, origins, roles } = resolveLayers(snapshotLayers(snapshot), principal);
+  return {
+    userId: principal.userId,
+    vaultId: principal.vaultId,
+    roles,
+    source: permissions.source,
+    fields: PERMISSION_FIELDS.map((field) => ({ field, value: permissions[field], origin: origins[field] })),
+  };
+}
+
+/**
+ * Resolved permissions for a user in a vault, with the layer that set
+ * each field.
+ */
+export function explainPermissions(principal: PermissionPrincipal, workspacePath?: string): PermissionExplanation {
+  return explainFromSnapshot(loadPermissionSnapshot(getPermissionsRoot(workspacePath)), principal);
+}
+
+/**
+ * Resolve every known user × vault before and after the change (nothing
+ * is written) and report the fields that would differ.
+ */
+export function simulatePermissionChange(change: PermissionChange, workspacePath?: string): PermissionSimulation {
+  const before = loadPermissionSnapshot(getPermissionsRoot(workspacePath));
+  const after = applyPermissionChange(before, change);
+  const principals = knownPrincipals(before, after);
+
+  const affected = principals.flatMap((principal) => {
+    const was = explainFromSnapshot(before, principal);
+    const now = explainFromSnapshot(after, principal);
+    const changes = was.fields.flatMap((entry, i) => {
+      const next = now.fields[i];
+      return JSON.stringify(entry.value) === JSON.stringify(next.value)
+        ? []
+        : [{ field: entry.field, before: entry.value, after: next.value, beforeOrigin: entry.origin, afterOrigin: next.origin }];
+    });
+    return changes.length > 0 ? [{ ...principal, changes }] : [];
+  });
+
+  return { change, principals: principals.length, affected };
+}
+
+/**
+ * Apply the change and write the one file it touches. Returns the number
+ * of fields journaled as vault.permission_changed.
+ */
+export function commitPermissionChange(change: PermissionChange, workspacePath?: string): number {
+  const root = getPermissionsRoot(workspacePath);
+  const next = applyPermissionChange(loadPermissionSnapshot(root), change);
+
+  switch (change.kind) {
+    case 'defaults':
+      return saveGlobalDefaults(root, next.defaults);
+    case 'role-create':
+    case 'role':
+    case 'role-member':
+      return saveRole(root, requireRole(next, change.roleId));
+    case 'vault':
+      return saveVaultOverride(root, next.vaults.find((v) => v.vaultId === change.vaultId)!);
+    case 'user':
+      return saveUserOverride(root, next.users.find((u) => u.userId === change.userId && u.vaultId === change.vaultId)!);
+  }
+}
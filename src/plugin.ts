@@ -1,6 +1,13 @@
 import fs from 'fs';
 import path from 'path';
 import ClawTextRAG from './rag.js';
+import {
+  enforcePermission,
+  isProviderExcluded,
+  recordPermissionDenial,
+  resolvePrincipal,
+  type PermissionPrincipal,
+} from './permissions/index.js';
 
 /**
  * Plugin hook for automatic context injection
@@ -61,6 +68,11 @@ export class ClawTextInjectionPlugin {
   /**
    * Hook: before_prompt_build
    * Called before each prompt is built, allows modification of system prompt
+   *
+   * Injection is gated by the principal's permissions: `recall` must be
+   * granted, the model's provider must not be in `excludeProviders`, and
+   * the injected block is capped at `recallMaxTokens`. Without an explicit
+   * principal the agent's default principal is used.
    */
   async onBeforePromptBuild(context: {
     systemPrompt: string;
@@ -68,8 +80,27 @@ export class ClawTextInjectionPlugin {
     sessionId?: string;
     model?: string;
     agentId?: string;
+    principal?: PermissionPrincipal;
   }): Promise<{ systemPrompt: string; injectionStats?: any }> {
     try {
+      const principal = context.principal ?? resolvePrincipal({ agentId: context.agentId });
+      const access = enforcePermission(principal, 'recall', 'injection');
+      if (!access.allowed) {
+        return { systemPrompt: context.systemPrompt, injectionStats: { memoriesInjected: 0, denied: access.reason } };
+      }
+      if (isProviderExcluded(access.permissions, context.model)) {
+        const reason = `provider of ${context.model} is excluded for ${principal.userId} in vault ${principal.vaultId}`;
+        recordPermissionDenial({
+          surface: 'injection',
+          operation: 'excludeProviders',
+          userId: principal.userId,
+          vaultId: principal.vaultId,
+          source: access.permissions.source,
+          reason,
+        });
+        return { systemPrompt: context.systemPrompt, injectionStats: { memoriesInjected: 0, denied: reason } };
+      }
+
       // Auto-detect projects from message + system prompt
       const combinedText = context.userMessage + ' ' + context.systemPrompt;
       const projectKeywords = this.detectProjectKeywords(combinedText);
@@ -80,6 +111,7 @@ export class ClawTextInjectionPlugin {
         context.userMessage,
         projectKeywords,
         context.agentId,
+        access.permissions.recallMaxTokens,
       );
 
       if (injected > 0) {
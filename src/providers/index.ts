@@ -5,3 +5,4 @@ export * from './topic-anchor-provider.js';
 export * from './advisor-provider.js';
 export * from './session-matrix-provider.js';
 export * from './extraction-provider.js';
+export * from './knowledge-graph-provider.js';
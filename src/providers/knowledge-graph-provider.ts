@@ -0,0 +1,131 @@
+import path from 'path';
+import type { ContextSlot, SlotContext, SlotProvider } from '../slot-provider.js';
+import { isMultiAgentMode, loadMultiAgentConfig, resolveAgentIdentity } from '../agent-identity.js';
+import {
+  formatGraphFact,
+  isGraphFactVisibleTo,
+  loadKnowledgeGraph,
+  type GraphEntity,
+  type KnowledgeGraph,
+} from '../graph/index.js';
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function mentionedEntities(graph: KnowledgeGraph, text: string): GraphEntity[] {
+  const lower = text.toLowerCase();
+  return Object.values(graph.entities)
+    .filter((entity) => entity.kind !== 'decision')
+    .filter((entity) => [entity.name, ...entity.aliases].some((name) => (
+      name.length >= 3 && new RegExp(`(^|[^\\w])@?${escapeRegExp(name.toLowerCase())}($|[^\\w])`).test(lower)
+    )))
+    .sort((a, b) => b.mentions - a.mentions || b.lastSeen.localeCompare(a.lastSeen));
+}
+
+function formatEntityBlock(graph: KnowledgeGraph, entity: GraphEntity, maxFacts: number, agentId: string | null): string | null {
+  const facts = graph.facts
+    .filter((f) => f.validTo === null && (f.subject === entity.id || f.object === entity.id))
+    .filter((f) => isGraphFactVisibleTo(graph, f, agentId))
+    .filter((f) => f.predicate !== 'about')
+    .sort((a, b) => b.validFrom.localeCompare(a.validFrom))
+    .slice(0, maxFacts);
+  if (facts.length === 0) return null;
+  return [
+    `## Known: ${entity.name} (${entity.kind})`,
+    ...facts.map((fact) => `- ${formatGraphFact(graph, fact)}`),
+  ].join('\n');
+}
+
+/**
+ * Current facts about the entities the conversation mentions, from the
+ * knowledge graph. Matches entity names and aliases against the query text
+ * (the latest user message when given, otherwise ctx.recentTopics).
+ * Facts read only from private or cross-agent memories are shown to the
+ * agents they are scoped to; `agentId` defaults to the workspace identity
+ * in multi-agent mode, and without one only shared facts are shown.
+ */
+export class KnowledgeGraphProvider implements SlotProvider {
+  readonly id = 'knowledge-graph';
+  readonly source = 'knowledge-graph' as const;
+  readonly priority = 27;
+  readonly prunable = true;
+
+  private readonly workspacePath: string;
+  private readonly query: string | undefined;
+  private readonly maxEntities: number;
+  private readonly maxFacts: number;
+  private readonly agentId: string | null | undefined;
+
+  constructor(options?: { workspacePath?: string; query?: string; maxEntities?: number; maxFacts?: number; agentId?: string | null }) {
+    this.workspacePath = options?.workspacePath ?? path.join(process.env.HOME || '', '.openclaw', 'workspace');
+    this.query = options?.query;
+    this.maxEntities = Math.max(1, options?.maxEntities ?? 3);
+    this.maxFacts = Math.max(1, options?.maxFacts ?? 6);
+    this.agentId = options?.agentId;
+  }
+
+  private callerAgentId(): string | null {
+    if (this.agentId !== undefined) return this.agentId;
+    if (!isMultiAgentMode(this.workspacePath)) return null;
+    const identity = resolveAgentIdentity(this.workspacePath, loadMultiAgentConfig(this.workspacePath));
+    return identity.agentId !== 'default' ? identity.agentId : null;
+  }
+
+  private queryText(ctx: SlotContext): string {
+    return (this.query ?? (ctx.recentTopics ?? []).join(' ')).trim();
+  }
+
+  available(ctx: SlotContext): boolean {
+    if (!this.queryText(ctx)) return false;
+    return Object.keys(loadKnowledgeGraph(this.workspacePath).entities).length > 0;
+  }
+
+  fill(ctx: SlotContext, budgetBytes: number): ContextSlot[] {
+    if (budgetBytes <= 0) return [];
+    const text = this.queryText(ctx);
+    if (!text) return [];
+
+    const graph = loadKnowledgeGraph(this.workspacePath);
+    const agentId = this.callerAgentId();
+    const slots: ContextSlot[] = [];
+    let usedBytes = 0;
+
+    for (const entity of mentionedEntities(graph, text)) {
+      if (slots.length >= this.maxEntities) break;
+      const content = formatEntityBlock(graph, entity, this.maxFacts, agentId);
+      if (!content) continue;
+      const bytes = Buffer.byteLength(content, 'utf8');
+      if (usedBytes + bytes > budgetBytes) continue;
+
+      usedBytes += bytes;
+      slots.push({
+        id: `knowledge-graph:${entity.id}`,
+        source: this.source,
+        content,
+        score: Math.min(1, 0.5 + entity.mentions / 20),
+        bytes,
+        included: true,
+        reason: `entity:${entity.id} mentions:${entity.mentions}`,
+      });
+    }
+
+    return slots;
+  }
+
+  prune(slots: ContextSlot[], targetFreeBytes: number, _aggressiveness: number): ContextSlot[] {
+    if (targetFreeBytes <= 0 || slots.length === 0) return slots;
+
+    const sorted = [...slots].sort((a, b) => a.score - b.score || b.bytes - a.bytes);
+    let freed = 0;
+    const removeIds = new Set<string>();
+
+    for (const slot of sorted) {
+      if (freed >= targetFreeBytes) break;
+      removeIds.add(slot.id);
+      freed += slot.bytes;
+    }
+
+    return slots.filter((slot) => !removeIds.has(slot.id));
+  }
+}
@@ -1,9 +1,13 @@
 import fs from 'fs';
 import path from 'path';
+import crypto from 'crypto';
 import { fileURLToPath } from 'url';
 import { getClawTextLibraryIndexesDir } from './runtime-paths';
 import { stripInjectedContext } from './injected-context';
-import { logDecoherenceEvent } from './decoherence';
+import { getQuarantinedMemoryIds, recordDecoherenceEvent } from './decoherence';
+import { resolveEmbeddingProvider } from './embeddings';
+import { VectorIndex, reciprocalRankFusion, type VectorDocument } from './vector-index';
+import { loadSalienceState, memorySalience, recordSalienceHits } from './salience';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
@@ -26,6 +30,7 @@ interface Memory {
   provenanceLabel?: string;
   trustLevel?: string;
   retrievalScore?: number;
+  status?: string;
 }
 
 interface Cluster {
@@ -60,6 +65,7 @@ interface RagCacheEntry {
   documentFrequency: Map<string, number>;
   totalDocuments: number;
   avgDocLength: number;
+  vectorIndex: VectorIndex | null;
 }
 
 const RAG_CACHE_TTL_MS = 60_000;
@@ -135,6 +141,7 @@ export class ClawTextRAG {
   private documentFrequency: Map<string, number> = new Map();
   private totalDocuments: number = 0;
   private avgDocLength: number = 100;
+  private vectorIndex: VectorIndex | null = null;
   private config: {
     enabled: boolean;
     maxMemories: number;
@@ -144,6 +151,12 @@ export class ClawTextRAG {
     contextLibrarianEnabled: boolean;
     contextLibrarianMaxSelect: number;
     contextLibrarianAlwaysIncludeRecent: number;
+    /** 'hybrid' fuses BM25 and vector rankings with reciprocal-rank fusion */
+    retrievalMode: 'lexical' | 'hybrid';
+    /** Vector hits below this cosine similarity are dropped (default: provider's floor) */
+    vectorMinSimilarity?: number;
+    /** Depth of the vector ranking fed into fusion */
+    vectorCandidates: number;
   };
 
   constructor(workspacePath: string = process.env.HOME + '/.openclaw/workspace') {
@@ -159,6 +172,8 @@ export class ClawTextRAG {
       contextLibrarianEnabled: process.env.CLAWTEXT_CONTEXT_LIBRARIAN_ENABLED === 'true',
       contextLibrarianMaxSelect: 4,
       contextLibrarianAlwaysIncludeRecent: 1,
+      retrievalMode: process.env.CLAWTEXT_RETRIEVAL_MODE === 'lexical' ? 'lexical' : 'hybrid',
+      vectorCandidates: 20,
     };
 
     if (this.restoreFromCache()) {
@@ -167,6 +182,7 @@ export class ClawTextRAG {
 
     this.loadClusters();
     this.loadLibraryIndex();
+    if (this.config.retrievalMode === 'hybrid') this.loadVectorIndex();
     this.saveToCache();
   }
 
@@ -191,6 +207,7 @@ export class ClawTextRAG {
     this.documentFrequency = new Map(cached.documentFrequency);
     this.totalDocuments = cached.totalDocuments;
     this.avgDocLength = cached.avgDocLength;
+    this.vectorIndex = cached.vectorIndex;
     return true;
   }
 
@@ -202,6 +219,7 @@ export class ClawTextRAG {
       documentFrequency: new Map(this.documentFrequency),
       totalDocuments: this.totalDocuments,
       avgDocLength: this.avgDocLength,
+      vectorIndex: this.vectorIndex,
     });
   }
 
@@ -265,6 +283,46 @@ export class ClawTextRAG {
     }
   }
 
+  /**
+   * Load the persisted vector index (memory/vectors/) and embed any cluster
+   * memories or library records that are new or changed since it was built.
+   */
+  private loadVectorIndex(): void {
+    try {
+      const index = new VectorIndex(this.workspacePath, resolveEmbeddingProvider());
+      const documents: VectorDocument[] = [];
+      this.clusters.forEach(cluster => {
+        for (const mem of cluster.memories) {
+          documents.push({ id: this.memoryDocId(mem), text: `${mem.content} ${mem.keywords.join(' ')}` });
+        }
+      });
+      for (const record of this.libraryIndex) {
+        documents.push({
+          id: this.libraryDocId(record.id),
+          text: `${record.title} ${record.topic || ''} ${record.snippet || record.content}`,
+        });
+      }
+
+      const result = index.sync(documents);
+      this.vectorIndex = index;
+      if (result.embedded > 0 || result.removed > 0) {
+        console.log(`[ClawText RAG] Vector index ${index.providerId}: embedded=${result.embedded} reused=${result.reused} removed=${result.removed}`);
+      }
+    } catch (error) {
+      console.warn('[ClawText RAG] Vector index unavailable, using lexical retrieval:', error);
+      this.vectorIndex = null;
+    }
+  }
+
+  private memoryDocId(memory: Memory): string {
+    if (memory.id) return memory.id;
+    return `mem-${crypto.createHash('sha1').update(memory.content).digest('hex').slice(0, 16)}`;
+  }
+
+  private libraryDocId(recordId: string): string {
+    return `lib:${recordId}`;
+  }
+
   /**
    * Search memories by keywords using BM25 scoring with TF-IDF weighting.
    * k1 controls term frequency saturation; b controls document length normalization.
@@ -394,21 +452,77 @@ export class ClawTextRAG {
       .filter(item => item.score > 0)
       .sort((a, b) => b.score - a.score)
       .slice(0, this.config.maxMemories)
-      .map(({ record, score }) => ({
-        id: record.id,
-        content: record.snippet || record.content,
-        type: 'reference',
-        source: record.source || record.file || 'library',
-        project: record.project || record.collection || 'library',
-        confidence: record.trust_level === 'official' ? 0.96 : record.trust_level === 'internal' ? 0.92 : 0.85,
-        keywords: record.keywords || [],
-        updatedAt: record.updatedAt || new Date().toISOString(),
-        sourceType: 'library',
-        provenanceKind: record.kind,
-        provenanceLabel: record.collection || record.title,
-        trustLevel: record.trust_level,
-        retrievalScore: score,
-      }));
+      .map(({ record, score }) => this.libraryRecordToMemory(record, score));
+  }
+
+  private libraryRecordToMemory(record: LibraryIndexRecord, score: number): Memory {
+    return {
+      id: record.id,
+      content: record.snippet || record.content,
+      type: 'reference',
+      source: record.source || record.file || 'library',
+      project: record.project || record.collection || 'library',
+      confidence: record.trust_level === 'official' ? 0.96 : record.trust_level === 'internal' ? 0.92 : 0.85,
+      keywords: record.keywords || [],
+      updatedAt: record.updatedAt || new Date().toISOString(),
+      sourceType: 'library',
+      provenanceKind: record.kind,
+      provenanceLabel: record.collection || record.title,
+      trustLevel: record.trust_level,
+      retrievalScore: score,
+    };
+  }
+
+  /**
+   * Fuse the lexical ranking with a vector ranking over the same candidate
+   * pool using reciprocal-rank fusion. Vector-only hits (no shared terms,
+   * e.g. a paraphrase) enter when their similarity clears the provider's
+   * floor or `vectorMinSimilarity`. `retrievalScore` becomes the fused score.
+   */
+  private fuseWithVectorRanking(
+    query: string,
+    lexical: Memory[],
+    candidates: Memory[],
+    libraryCandidates: LibraryIndexRecord[],
+  ): Memory[] {
+    const index = this.vectorIndex;
+    if (!index) return lexical;
+
+    const docId = (memory: Memory) =>
+      memory.sourceType === 'library' && memory.id ? this.libraryDocId(memory.id) : this.memoryDocId(memory);
+
+    const pool = new Map<string, Memory>();
+    const lexicalRanking = [...lexical]
+      .sort((a, b) => (b.retrievalScore || 0) - (a.retrievalScore || 0))
+      .map(memory => {
+        const id = docId(memory);
+        pool.set(id, memory);
+        return id;
+      });
+
+    const minSimilarity = this.config.vectorMinSimilarity ?? index.minSimilarity;
+    const queryVector = index.embedQuery(query);
+    const vectorHits: Array<{ id: string; memory: Memory; similarity: number }> = [];
+    for (const memory of candidates) {
+      const id = this.memoryDocId(memory);
+      vectorHits.push({ id, memory, similarity: index.similarity(queryVector, id) });
+    }
+    for (const record of libraryCandidates) {
+      const id = this.libraryDocId(record.id);
+      vectorHits.push({ id, memory: this.libraryRecordToMemory(record, 0), similarity: index.similarity(queryVector, id) });
+    }
+
+    const vectorRanking = vectorHits
+      .filter(hit => hit.similarity >= minSimilarity)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, this.config.vectorCandidates)
+      .map(hit => {
+        if (!pool.has(hit.id)) pool.set(hit.id, hit.memory);
+        return hit.id;
+      });
+
+    const fused = reciprocalRankFusion([lexicalRanking, vectorRanking]);
+    return [...fused.entries()].map(([id, score]) => ({ ...pool.get(id)!, retrievalScore: score }));
   }
 
   /**
@@ -511,6 +625,8 @@ export class ClawTextRAG {
     }
 
     let candidates: Memory[] = [];
+    // Quarantined memories stay private even where a copy says otherwise
+    const quarantined = agentId ? getQuarantinedMemoryIds(this.workspacePath) : new Set<string>();
 
     // Collect all candidate memories from target clusters
     targetProjects.forEach(project => {
@@ -518,15 +634,17 @@ export class ClawTextRAG {
       if (!cluster) return;
 
       cluster.memories.forEach(memory => {
+        // Superseded memories stay in clusters built before the correction
+        if (memory.status === 'superseded') return;
         if (memory.confidence >= this.config.minConfidence) {
           // Agent identity filtering (Phase 1: Decoherence Hardening)
           if (agentId) {
-            const vis = (memory as any).visibility ?? 'shared';
+            const vis = memory.id && quarantined.has(memory.id) ? 'private' : (memory as any).visibility ?? 'shared';
             const memAgentId = (memory as any).agentId;
             if (vis === 'private' && memAgentId && memAgentId !== agentId) {
               // Phase 5: Log filtered cross-agent access
               try {
-                logDecoherenceEvent({
+                recordDecoherenceEvent(this.workspacePath, {
                   timestamp: new Date().toISOString(),
                   currentAgentId: agentId,
                   leakedAgentId: memAgentId,
@@ -564,9 +682,27 @@ export class ClawTextRAG {
         retrievalScore: (memory.retrievalScore || 0) * (isReference ? 3.5 : 1.0),
       }));
 
-    const combined = isReference && libraryMemories.length > 0
-      ? [...libraryMemories]
-      : [...scoredMemory, ...libraryMemories];
+    let combined: Memory[] = [...scoredMemory, ...libraryMemories];
+    if (this.config.retrievalMode === 'hybrid') {
+      combined = this.fuseWithVectorRanking(
+        cleanedQuery,
+        combined,
+        candidates,
+        isReference ? this.libraryIndex : [],
+      );
+    }
+
+    // Durable memories fade unless mentioned, retrieved or pinned (./salience.ts)
+    const salienceState = loadSalienceState(this.workspacePath);
+    const now = Date.now();
+    combined = combined.map(memory => memory.provenanceKind === 'memory'
+      ? { ...memory, retrievalScore: (memory.retrievalScore || 0) * memorySalience(memory, salienceState, now).salience }
+      : memory);
+
+    const libraryHits = combined.filter(memory => memory.sourceType === 'library');
+    if (isReference && libraryHits.length > 0) {
+      combined = libraryHits;
+    }
 
     const scored = combined
       .sort((a, b) => (b.retrievalScore || 0) - (a.retrievalScore || 0))
@@ -694,12 +830,16 @@ export class ClawTextRAG {
 
   /**
    * Inject memories into system prompt or context
+   *
+   * `maxTokens` (a principal's recallMaxTokens) caps the injected block by
+   * dropping the lowest-ranked memories until it fits.
    */
   injectMemories(
     systemPrompt: string,
     query: string,
     projectKeywords: string[] = [],
     agentId?: string,
+    maxTokens?: number,
   ): { prompt: string; injected: number; tokens: number } {
     if (this.config.injectMode === 'off') {
       return { prompt: systemPrompt, injected: 0, tokens: 0 };
@@ -711,9 +851,20 @@ export class ClawTextRAG {
       return { prompt: systemPrompt, injected: 0, tokens: 0 };
     }
 
-    const curated = this.curateMemoriesWithLibrarian(memories, cleanedQuery);
-    const formatted = this.formatMemories(curated);
-    const injectedTokens = this.estimateTokens(formatted);
+    let curated = this.curateMemoriesWithLibrarian(memories, cleanedQuery);
+    let formatted = this.formatMemories(curated);
+    let injectedTokens = this.estimateTokens(formatted);
+
+    if (maxTokens !== undefined) {
+      while (injectedTokens > maxTokens && curated.length > 0) {
+        curated = curated.slice(0, -1);
+        formatted = this.formatMemories(curated);
+        injectedTokens = this.estimateTokens(formatted);
+      }
+      if (curated.length === 0) {
+        return { prompt: systemPrompt, injected: 0, tokens: 0 };
+      }
+    }
 
     // Respect token budget
     if (injectedTokens > this.config.tokenBudget) {
@@ -733,6 +884,15 @@ export class ClawTextRAG {
       injectedPrompt = systemPrompt + '\n## Context Snippets\n' + snippets + '\n';
     }
 
+    try {
+      recordSalienceHits(
+        this.workspacePath,
+        curated.filter(m => m.provenanceKind === 'memory' && m.id).map(m => m.id as string),
+      );
+    } catch {
+      // Hits only slow down decay; never fail the injection over them
+    }
+
     return {
       prompt: injectedPrompt,
       injected: curated.length,
@@ -759,6 +919,7 @@ export class ClawTextRAG {
     return {
       clustersLoaded: this.clusters.size,
       libraryRecordsLoaded: this.libraryIndex.length,
+      vectorsIndexed: this.vectorIndex?.size ?? 0,
       totalMemories,
       config: this.config,
     };
@@ -0,0 +1,50 @@
+/**
+ * ClawText Record — Hybrid Logical Clock
+ *
+ * HLC timestamps give every transaction a total order that is consistent
+ * with causality across nodes, even with skewed wall clocks.
+ *
+ * Format: `<wallMs:15>.<counter:5>.<nodeId>` — zero-padded so plain string
+ * comparison matches (wall, counter, nodeId) ordering.
+ */
+
+export interface HlcParts {
+  wall: number;
+  counter: number;
+  nodeId: string;
+}
+
+export function formatHlc(parts: HlcParts): string {
+  return `${String(parts.wall).padStart(15, '0')}.${String(parts.counter).padStart(5, '0')}.${parts.nodeId}`;
+}
+
+export function parseHlc(hlc: string): HlcParts | null {
+  const match = /^(\d{15})\.(\d{5})\.(.+)$/.exec(hlc);
+  if (!match) return null;
+  return { wall: Number(match[1]), counter: Number(match[2]), nodeId: match[3] };
+}
+
+export function compareHlc(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+export function maxHlc(a: string | undefined, b: string | undefined): string | undefined {
+  if (!a) return b;
+  if (!b) return a;
+  return compareHlc(a, b) >= 0 ? a : b;
+}
+
+/**
+ * Advance the clock for a local event.
+ *
+ * `last` is the highest HLC this node has seen (local or received), so
+ * calling this after replaying peer transactions also covers the HLC
+ * "receive" step.
+ */
+export function tickHlc(last: string | undefined, nodeId: string, now = Date.now()): string {
+  const prev = last ? parseHlc(last) : null;
+  if (!prev || now > prev.wall) {
+    return formatHlc({ wall: now, counter: 0, nodeId });
+  }
+  return formatHlc({ wall: prev.wall, counter: prev.counter + 1, nodeId });
+}
@@ -11,6 +11,25 @@ import { readFileSync, writeFileSync, appendFileSync, existsSync, mkdirSync } fr
 import { join } from 'path';
 import { createHash } from 'crypto';
 import { randomUUID } from 'crypto';
+import { loadNodeConfig } from '../fleet/index.js';
+import {
+  loadNodePrivateKey,
+  signTransaction,
+  checkTransactionSignature,
+  checkSnapshotSignature,
+} from './signing.js';
+import { tickHlc, maxHlc } from './hlc.js';
+import {
+  DEFAULT_MAX_SEGMENT_ENTRIES,
+  archiveSegment,
+  readSegmentLines,
+  sealSegment,
+  segmentHasUnseen,
+  segmentOverlaps,
+  type ActiveSegment,
+  type SegmentInfo,
+} from './segments.js';
+import { writeSnapshot, loadLatestSnapshot, type RecordSnapshot } from './snapshot.js';
 
 // ──────────────────────────────────────────────
 // Types
@@ -24,6 +43,7 @@ export type TransactionType =
   // Memory events
   | 'memory.extracted'
   | 'memory.promoted'
+  | 'memory.deleted'
   | 'library.added'
   // Operational learning
   | 'operational.failure'
@@ -32,7 +52,9 @@ export type TransactionType =
   | 'vault.permission_changed'
   // Infrastructure
   | 'node.registered'
-  | 'node.heartbeat';
+  | 'node.heartbeat'
+  // Configuration
+  | 'config.applied';
 
 export interface Transaction {
   id: string;
@@ -42,14 +64,40 @@ export interface Transaction {
   sourceNode: string;
   payload: Record<string, unknown>;
   hash: string;
+  /** Base64 Ed25519 signature by sourceNode (see ./signing.ts) */
+  signature?: string;
   previousHash: string | null;
+  /** Hybrid logical clock timestamp assigned by sourceNode (see ./hlc.ts) */
+  hlc?: string;
+  /** Per-origin sequence: the Nth transaction written by sourceNode */
+  nodeSeq?: number;
+  /** Sequence vector sourceNode had seen when it wrote this transaction */
+  causal?: SequenceVector;
 }
 
+/** Per-origin nodeSeq high-water mark, keyed by node ID: every nodeSeq up to it is held. */
+export type SequenceVector = Record<string, number>;
+
 export interface RecordIndex {
   lastSeq: number;
   lastHash: string | null;
   count: number;
   updatedAt: string;
+  /** Highest HLC seen by this node */
+  hlc?: string;
+  /** Per-origin sequence vector of transactions held locally (contiguous) */
+  vector?: SequenceVector;
+  /**
+   * nodeSeqs held above the vector's mark, per origin. The gap below them
+   * stays in the vector's range, so the next pull asks for it again.
+   */
+  ahead?: Record<string, number[]>;
+  /** Sealed segments, oldest first (see ./segments.ts) */
+  segments?: SegmentInfo[];
+  /** The segment currently being appended to (transactions.jsonl) */
+  active?: ActiveSegment;
+  /** Seq of the latest snapshot */
+  snapshotSeq?: number;
 }
 
 // ──────────────────────────────────────────────
@@ -99,6 +147,46 @@ function saveIndex(root: string, index: RecordIndex): void {
   writeFileSync(getIndexPath(root), JSON.stringify(index, null, 2));
 }
 
+/**
+ * Active segment bookkeeping. Journals written before segmentation have
+ * none, so it is derived — with the global vector, which over-approximates
+ * and keeps vector reads correct.
+ */
+function activeSegmentOf(index: RecordIndex): ActiveSegment {
+  if (index.active) return index.active;
+  const sealed = index.segments ?? [];
+  const firstSeq = (sealed[sealed.length - 1]?.lastSeq ?? 0) + 1;
+  return { firstSeq, count: index.lastSeq - firstSeq + 1, vector: { ...(index.vector || {}) } };
+}
+
+/**
+ * Record `nodeSeq` from `origin` as held. The vector only advances while the
+ * sequence is contiguous; a seq past a gap (an earlier one rejected or not
+ * yet pulled) waits in `ahead` until the gap is filled.
+ */
+function markHeld(
+  vector: SequenceVector,
+  ahead: Record<string, number[]>,
+  origin: string,
+  nodeSeq: number
+): void {
+  let mark = vector[origin] ?? 0;
+  if (nodeSeq <= mark) return;
+  const held = new Set(ahead[origin] ?? []);
+  held.add(nodeSeq);
+  while (held.has(mark + 1)) {
+    mark += 1;
+    held.delete(mark);
+  }
+  vector[origin] = mark;
+  if (held.size > 0) ahead[origin] = [...held].sort((a, b) => a - b);
+  else delete ahead[origin];
+}
+
+function localNodeId(stateRoot?: string): string {
+  return process.env.CLAWTEXT_NODE_ID || loadNodeConfig(stateRoot)?.nodeId || 'local';
+}
+
 // ──────────────────────────────────────────────
 // Core operations
 // ──────────────────────────────────────────────
@@ -106,6 +194,11 @@ function saveIndex(root: string, index: RecordIndex): void {
 /**
  * Append a transaction to the journal.
  *
+ * New local transactions get the next per-origin nodeSeq, an HLC timestamp
+ * and the causal vector, and are signed with this node's key when one
+ * exists. Replayed peer transactions keep their original id, clock,
+ * causal vector and signature.
+ *
  * Returns the written transaction (with seq + hash assigned).
  */
 export function appendTransaction(
@@ -114,6 +207,18 @@ export function appendTransaction(
   options?: {
     sourceNode?: string;
     stateRoot?: string;
+    /** Preserve the original id when replaying a transaction from a peer */
+    id?: string;
+    /** Preserve the original timestamp when replaying a transaction from a peer */
+    timestamp?: string;
+    /** Preserve the original signature when replaying a transaction from a peer */
+    signature?: string;
+    /** Preserve the original HLC / nodeSeq / causal vector when replaying */
+    hlc?: string;
+    nodeSeq?: number;
+    causal?: SequenceVector;
+    /** Seal the active segment once it holds this many entries (default: fleet config, then 10,000) */
+    maxSegmentEntries?: number;
   }
 ): Transaction {
   const root = getRecordRoot(options?.stateRoot);
@@ -124,28 +229,71 @@ export function appendTransaction(
   const index = loadIndex(root);
   const seq = index.lastSeq + 1;
   const hash = hashPayload(payload);
+  const sourceNode = options?.sourceNode ||
+    process.env.CLAWTEXT_NODE_ID ||
+    loadNodeConfig(options?.stateRoot)?.nodeId ||
+    'local';
+  const vector: SequenceVector = { ...(index.vector || {}) };
+  const ahead: Record<string, number[]> = { ...(index.ahead || {}) };
+  const replay = Boolean(options?.id);
 
   const txn: Transaction = {
-    id: randomUUID(),
+    id: options?.id || randomUUID(),
     seq,
     type,
-    timestamp: new Date().toISOString(),
-    sourceNode: options?.sourceNode || process.env.CLAWTEXT_NODE_ID || 'local',
+    timestamp: options?.timestamp || new Date().toISOString(),
+    sourceNode,
     payload,
     hash,
     previousHash: index.lastHash,
   };
 
+  // Causal metadata — replays keep whatever the origin assigned (legacy entries have none)
+  const nodeSeq = options?.nodeSeq ??
+    (replay ? undefined : Math.max(vector[sourceNode] ?? 0, ...(ahead[sourceNode] ?? [])) + 1);
+  const hlc = options?.hlc ?? (replay ? undefined : tickHlc(index.hlc, sourceNode));
+  const causal = options?.causal ?? (replay ? undefined : { ...vector });
+  if (hlc !== undefined) txn.hlc = hlc;
+  if (nodeSeq !== undefined) txn.nodeSeq = nodeSeq;
+  if (causal !== undefined) txn.causal = causal;
+
+  if (options?.signature) {
+    txn.signature = options.signature;
+  } else if (!options?.id) {
+    const privateKey = loadNodePrivateKey(options?.stateRoot);
+    if (privateKey) txn.signature = signTransaction(txn, privateKey);
+  }
+
   // Append to JSONL
   appendFileSync(getTransactionsPath(root), JSON.stringify(txn) + '\n');
 
   // Update index
-  const newIndex: RecordIndex = {
+  const active = activeSegmentOf(index);
+  active.count += 1;
+  if (nodeSeq !== undefined) {
+    markHeld(vector, ahead, sourceNode, nodeSeq);
+    active.vector[sourceNode] = Math.max(active.vector[sourceNode] ?? 0, nodeSeq);
+  }
+  let newIndex: RecordIndex = {
+    ...index,
     lastSeq: seq,
     lastHash: hash,
     count: index.count + 1,
     updatedAt: new Date().toISOString(),
+    hlc: maxHlc(index.hlc, hlc),
+    vector,
+    ahead: Object.keys(ahead).length > 0 ? ahead : undefined,
+    active,
   };
+
+  const maxEntries = options?.maxSegmentEntries ??
+    loadNodeConfig(options?.stateRoot)?.journal?.maxSegmentEntries ??
+    DEFAULT_MAX_SEGMENT_ENTRIES;
+  if (active.count >= maxEntries) {
+    // Periodic snapshot at every segment boundary
+    newIndex = sealActiveSegment(root, newIndex);
+    newIndex = snapshotHead(root, newIndex, options?.stateRoot).index;
+  }
   saveIndex(root, newIndex);
 
   return txn;
@@ -162,13 +310,30 @@ export function readTransactions(
     from?: number;
     to?: number;
     stateRoot?: string;
+    /** Read an explicit transactions.jsonl instead of the state root's journal */
+    path?: string;
   }
 ): Transaction[] {
-  const root = getRecordRoot(options?.stateRoot);
-  const txnsPath = getTransactionsPath(root);
-  if (!existsSync(txnsPath)) return [];
+  const lines: string[] = [];
+  if (options?.path) {
+    if (!existsSync(options.path)) return [];
+    lines.push(...readFileSync(options.path, 'utf-8').split('\n').filter(Boolean));
+  } else {
+    // Only open the segments that overlap the requested range
+    const root = getRecordRoot(options?.stateRoot);
+    const index = loadIndex(root);
+    for (const segment of index.segments ?? []) {
+      if (segmentOverlaps(segment, options?.from, options?.to)) {
+        lines.push(...readSegmentLines(root, segment));
+      }
+    }
+    const active = activeSegmentOf(index);
+    const activePath = getTransactionsPath(root);
+    if (existsSync(activePath) && (options?.to === undefined || active.firstSeq <= options.to)) {
+      lines.push(...readFileSync(activePath, 'utf-8').split('\n').filter(Boolean));
+    }
+  }
 
-  const lines = readFileSync(txnsPath, 'utf-8').split('\n').filter(Boolean);
   const txns: Transaction[] = [];
 
   for (const line of lines) {
@@ -186,29 +351,105 @@ export function readTransactions(
 }
 
 /**
- * Verify the hash chain integrity.
+ * Transactions the holder of `vector` has not seen yet.
+ *
+ * Only entries carrying a nodeSeq take part; legacy entries replicate via
+ * seq ranges instead.
+ */
+export function transactionsSince(txns: Transaction[], vector: SequenceVector): Transaction[] {
+  return txns.filter(
+    (t) => t.nodeSeq !== undefined && t.nodeSeq > (vector[t.sourceNode] ?? 0)
+  );
+}
+
+/**
+ * Read the transactions the holder of `vector` has not seen, skipping
+ * sealed segments that contain nothing newer than it.
+ */
+export function readTransactionsSince(vector: SequenceVector, stateRoot?: string): Transaction[] {
+  const root = getRecordRoot(stateRoot);
+  const index = loadIndex(root);
+  const txns: Transaction[] = [];
+
+  const parse = (lines: string[]) => {
+    for (const line of lines) {
+      try {
+        txns.push(JSON.parse(line) as Transaction);
+      } catch {
+        // malformed line, skip
+      }
+    }
+  };
+
+  for (const segment of index.segments ?? []) {
+    if (segmentHasUnseen(segment, vector)) parse(readSegmentLines(root, segment));
+  }
+  const activePath = getTransactionsPath(root);
+  if (existsSync(activePath)) {
+    parse(readFileSync(activePath, 'utf-8').split('\n').filter(Boolean));
+  }
+
+  return transactionsSince(txns, vector);
+}
+
+/**
+ * Verify the hash chain integrity and transaction signatures.
+ *
+ * Signed transactions are always checked against the sourceNode's key.
+ * Unsigned or unknown-signer transactions only fail when requireSignatures is set.
+ * With fromSnapshot, verification starts after the latest snapshot, whose
+ * signature must check out under the same rules.
  *
  * Returns { valid: true } or { valid: false, firstBadSeq: number, reason: string }.
  */
-export function verifyChain(stateRoot?: string): {
+export function verifyChain(
+  stateRoot?: string,
+  options?: { requireSignatures?: boolean; fromSnapshot?: boolean }
+): {
   valid: boolean;
   checked: number;
   firstBadSeq?: number;
   reason?: string;
+  snapshotSeq?: number;
+  signatures: { valid: number; unsigned: number; unknownSigner: number };
 } {
-  const root = getRecordRoot(stateRoot);
-  const txns = readTransactions({ stateRoot });
+  const signatures = { valid: 0, unsigned: 0, unknownSigner: 0 };
 
   let prevHash: string | null = null;
+  let from: number | undefined;
+  let snapshotSeq: number | undefined;
+  let checked = 0;
+
+  if (options?.fromSnapshot) {
+    const snapshot = loadLatestSnapshot(getRecordRoot(stateRoot));
+    if (snapshot) {
+      const sig = checkSnapshotSignature(snapshot, stateRoot);
+      if (sig === 'invalid' || (sig !== 'valid' && options.requireSignatures)) {
+        return {
+          valid: false,
+          checked,
+          firstBadSeq: snapshot.seq,
+          reason: `untrusted snapshot at seq ${snapshot.seq} (${sig})`,
+          signatures,
+        };
+      }
+      prevHash = snapshot.hash;
+      from = snapshot.seq + 1;
+      snapshotSeq = snapshot.seq;
+    }
+  }
+
+  const txns = readTransactions({ stateRoot, from });
 
   for (const txn of txns) {
     // Check previous hash linkage
     if (txn.previousHash !== prevHash) {
       return {
         valid: false,
-        checked: txn.seq - 1,
+        checked,
         firstBadSeq: txn.seq,
         reason: `hash chain break at seq ${txn.seq}: expected previousHash=${prevHash}, got ${txn.previousHash}`,
+        signatures,
       };
     }
 
@@ -217,16 +458,44 @@ export function verifyChain(stateRoot?: string): {
     if (txn.hash !== expected) {
       return {
         valid: false,
-        checked: txn.seq - 1,
+        checked,
         firstBadSeq: txn.seq,
         reason: `payload hash mismatch at seq ${txn.seq}`,
+        signatures,
+      };
+    }
+
+    // Check signature
+    const sig = checkTransactionSignature(txn, stateRoot);
+    if (sig === 'invalid') {
+      return {
+        valid: false,
+        checked,
+        firstBadSeq: txn.seq,
+        reason: `invalid signature at seq ${txn.seq} (sourceNode ${txn.sourceNode})`,
+        signatures,
       };
     }
+    if (sig !== 'valid' && options?.requireSignatures) {
+      return {
+        valid: false,
+        checked,
+        firstBadSeq: txn.seq,
+        reason: sig === 'unsigned'
+          ? `unsigned transaction at seq ${txn.seq}`
+          : `unknown signer "${txn.sourceNode}" at seq ${txn.seq}`,
+        signatures,
+      };
+    }
+    if (sig === 'valid') signatures.valid++;
+    else if (sig === 'unsigned') signatures.unsigned++;
+    else signatures.unknownSigner++;
 
     prevHash = txn.hash;
+    checked++;
   }
 
-  return { valid: true, checked: txns.length };
+  return { valid: true, checked, snapshotSeq, signatures };
 }
 
 /**
@@ -238,13 +507,109 @@ export function getRecordStatus(stateRoot?: string): RecordIndex & { path: strin
   return { ...index, path: root };
 }
 
+// ──────────────────────────────────────────────
+// Segments, snapshots and compaction
+// ──────────────────────────────────────────────
+
+function sealActiveSegment(root: string, index: RecordIndex): RecordIndex {
+  const active = activeSegmentOf(index);
+  const activePath = getTransactionsPath(root);
+  if (active.count === 0 || !existsSync(activePath)) return index;
+
+  const segment = sealSegment(root, activePath, active, index.lastHash);
+  return {
+    ...index,
+    segments: [...(index.segments ?? []), segment],
+    active: { firstSeq: segment.lastSeq + 1, count: 0, vector: {} },
+  };
+}
+
+function snapshotHead(
+  root: string,
+  index: RecordIndex,
+  stateRoot?: string
+): { index: RecordIndex; snapshot: RecordSnapshot } {
+  const snapshot = writeSnapshot(
+    root,
+    {
+      seq: index.lastSeq,
+      hash: index.lastHash,
+      count: index.count,
+      sourceNode: localNodeId(stateRoot),
+      hlc: index.hlc,
+      vector: { ...(index.vector || {}) },
+    },
+    stateRoot
+  );
+  return { index: { ...index, snapshotSeq: snapshot.seq }, snapshot };
+}
+
+/**
+ * Snapshot the current chain head (signed with the node key when present).
+ */
+export function createSnapshot(stateRoot?: string): RecordSnapshot {
+  const root = getRecordRoot(stateRoot);
+  if (!existsSync(root)) mkdirSync(root, { recursive: true });
+  const { index, snapshot } = snapshotHead(root, loadIndex(root), stateRoot);
+  saveIndex(root, index);
+  return snapshot;
+}
+
+/**
+ * Seal the active segment, snapshot the head, and archive sealed segments
+ * into compacted/ — all but the newest `keepSegments`, which stay
+ * uncompressed for cheap peer pulls.
+ */
+export function compactJournal(
+  stateRoot?: string,
+  options?: { keepSegments?: number }
+): { snapshot: RecordSnapshot; archived: SegmentInfo[]; segments: number } {
+  const root = getRecordRoot(stateRoot);
+  if (!existsSync(root)) mkdirSync(root, { recursive: true });
+  const keep = Math.max(0, options?.keepSegments ?? 1);
+
+  const sealed = sealActiveSegment(root, loadIndex(root));
+  const { index, snapshot } = snapshotHead(root, sealed, stateRoot);
+
+  const segments = index.segments ?? [];
+  const archived: SegmentInfo[] = [];
+  const next = segments.map((segment, i) => {
+    if (segment.archived || i >= segments.length - keep || segment.lastSeq > snapshot.seq) {
+      return segment;
+    }
+    const result = archiveSegment(root, segment);
+    archived.push(result);
+    return result;
+  });
+
+  saveIndex(root, { ...index, segments: next });
+  return { snapshot, archived, segments: next.length };
+}
+
 // ──────────────────────────────────────────────
 // Typed transaction helpers
 // ──────────────────────────────────────────────
 
+export interface ExtractedMemory {
+  text: string;
+  confidence: number;
+  tags: string[];
+  /** Id of the memory file the text was written to (replay reuses it) */
+  memoryId?: string;
+  project?: string;
+  type?: string;
+  /** Set when the item is a rewrite of `memoryId`; replay applies it as that version */
+  version?: number;
+  status?: string;
+  supersededBy?: string;
+  supersedeReason?: string;
+  supersedes?: string[];
+  related?: string[];
+}
+
 export function recordMemoryExtracted(
   sessionId: string,
-  memories: Array<{ text: string; confidence: number; tags: string[] }>,
+  memories: ExtractedMemory[],
   options?: { stateRoot?: string; sourceNode?: string }
 ): Transaction {
   return appendTransaction('memory.extracted', { sessionId, memories }, options);
@@ -260,6 +625,27 @@ export function recordMemoryPromoted(
   return appendTransaction('memory.promoted', { memoryId, fromLane, toLane, reason }, options);
 }
 
+export function recordMemoryDeleted(
+  memoryId: string,
+  reason: string,
+  options?: { stateRoot?: string; sourceNode?: string }
+): Transaction {
+  return appendTransaction('memory.deleted', { memoryId, reason }, options);
+}
+
+export function recordSessionMessage(
+  sessionId: string,
+  role: 'user' | 'assistant',
+  content: string,
+  options?: { stateRoot?: string; sourceNode?: string }
+): Transaction {
+  return appendTransaction(
+    role === 'assistant' ? 'session.assistant' : 'session.message',
+    { sessionId, role, content },
+    options
+  );
+}
+
 export function recordSessionCheckpoint(
   sessionId: string,
   summary: string,
@@ -287,3 +673,96 @@ export function recordOperationalFailure(
     options
   );
 }
+
+export function recordOperationalPattern(
+  patternId: string,
+  signature: string,
+  frequency: number,
+  recovery: string,
+  extra?: Record<string, unknown>,
+  options?: { stateRoot?: string; sourceNode?: string }
+): Transaction {
+  return appendTransaction(
+    'operational.pattern',
+    { ...extra, patternId, signature, frequency, recovery },
+    options
+  );
+}
+
+export function recordLibraryAdded(
+  entryId: string,
+  title: string,
+  content: string,
+  tags: string[],
+  extra?: Record<string, unknown>,
+  options?: { stateRoot?: string; sourceNode?: string }
+): Transaction {
+  return appendTransaction('library.added', { ...extra, entryId, title, content, tags }, options);
+}
+
+export function recordPermissionChanged(
+  vaultId: string,
+  userId: string | null,
+  field: string,
+  oldValue: unknown,
+  newValue: unknown,
+  options?: { stateRoot?: string; sourceNode?: string }
+): Transaction {
+  const payload: Record<string, unknown> = { vaultId, field, oldValue: oldValue ?? null, newValue };
+  if (userId) payload.userId = userId;
+  return appendTransaction('vault.permission_changed', payload, options);
+}
+
+export function recordNodeRegistered(
+  nodeId: string,
+  details: Record<string, unknown>,
+  options?: { stateRoot?: string; sourceNode?: string }
+): Transaction {
+  return appendTransaction('node.registered', { ...details, nodeId }, options);
+}
+
+export function recordNodeHeartbeat(
+  nodeId: string,
+  seq: number,
+  status: string,
+  previousStatus: string | null,
+  options?: { stateRoot?: string; sourceNode?: string }
+): Transaction {
+  return appendTransaction('node.heartbeat', { nodeId, seq, status, previousStatus }, options);
+}
+
+export function recordConfigApplied(
+  resourceType: string,
+  resourceId: string,
+  action: 'add' | 'modify' | 'remove',
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null,
+  extra?: Record<string, unknown>,
+  options?: { stateRoot?: string; sourceNode?: string }
+): Transaction {
+  return appendTransaction(
+    'config.applied',
+    { ...extra, resourceType, resourceId, action, before, after },
+    options
+  );
+}
+
+// ──────────────────────────────────────────────
+// Subsystem emission
+// ──────────────────────────────────────────────
+
+/**
+ * Journal a write made by memory, operational, library, checkpoint or
+ * permission code. The journal is an audit trail of those writes, so a
+ * journal failure is logged and swallowed rather than failing the write.
+ * Set CLAWTEXT_RECORD_ENABLED=false to stop emitting.
+ */
+export function emitTransaction(write: () => Transaction): Transaction | null {
+  if (process.env.CLAWTEXT_RECORD_ENABLED === 'false') return null;
+  try {
+    return write();
+  } catch (error) {
+    console.warn('[ClawText Record] Failed to journal transaction:', error instanceof Error ? error.message : error);
+    return null;
+  }
+}
@@ -0,0 +1,328 @@
+/**
+ * ClawText Record — Causal Merge
+ *
+ * With multiple primaries, each node appends its own and replicated
+ * transactions in whatever order they arrive, so local `seq` differs per
+ * node. This module derives one deterministic view every node agrees on:
+ *
+ * 1. Total order — HLC, then sourceNode, then id (legacy entries without
+ *    an HLC fall back to their wall-clock timestamp).
+ * 2. Causality — `nodeSeq` + `causal` vectors tell whether one write had
+ *    seen another. Writes to the same key that had not seen each other
+ *    are concurrent and resolved by a per-type rule:
+ *
+ *    memory.promoted           last-writer-wins (HLC order)
+ *    vault.permission_changed  deny-wins for booleans, else last-writer-wins
+ *    operational.pattern       merge: max frequency, other fields last-writer-wins
+ *
+ * Spec: docs/RECORD_SPEC.md (Conflict Resolution section)
+ */
+
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import { getRecordRoot, readTransactions, type Transaction } from './index.js';
+import { compareHlc } from './hlc.js';
+
+// ──────────────────────────────────────────────
+// Types
+// ──────────────────────────────────────────────
+
+export type ConflictRule = 'last-writer-wins' | 'deny-wins' | 'merge-max-frequency';
+
+export interface MergeConflict {
+  type: Transaction['type'];
+  key: string;
+  rule: ConflictRule;
+  /** Transaction whose value (or merged value) is in effect */
+  winner: string;
+  /** Concurrent transactions that lost or were folded in */
+  losers: string[];
+  nodes: string[];
+  resolvedValue: unknown;
+}
+
+export interface PromotionState {
+  memoryId: string;
+  fromLane: string;
+  toLane: string;
+  reason: string;
+  txnId: string;
+}
+
+export interface PermissionState {
+  vaultId: string;
+  userId: string | null;
+  field: string;
+  value: unknown;
+  txnId: string;
+}
+
+export interface PatternState {
+  patternId: string;
+  signature?: string;
+  frequency: number;
+  recovery?: string;
+  txnId: string;
+}
+
+export interface MergedState {
+  promotions: Record<string, PromotionState>;
+  permissions: Record<string, PermissionState>;
+  patterns: Record<string, PatternState>;
+}
+
+export interface MergeReport {
+  generatedAt: string;
+  transactions: number;
+  nodes: string[];
+  conflicts: MergeConflict[];
+  state: MergedState;
+}
+
+// ──────────────────────────────────────────────
+// Ordering and causality
+// ──────────────────────────────────────────────
+
+function orderKey(txn: Transaction): string {
+  return txn.hlc ?? String(new Date(txn.timestamp).getTime()).padStart(15, '0');
+}
+
+/**
+ * Deterministic total order shared by every node.
+ */
+export function compareTransactions(a: Transaction, b: Transaction): number {
+  return compareHlc(orderKey(a), orderKey(b)) ||
+    (a.sourceNode < b.sourceNode ? -1 : a.sourceNode > b.sourceNode ? 1 : 0) ||
+    (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+}
+
+export function orderTransactions(txns: Transaction[]): Transaction[] {
+  return [...txns].sort(compareTransactions);
+}
+
+/**
+ * True when `b` was written by a node that had already seen `a`.
+ */
+export function happenedBefore(a: Transaction, b: Transaction): boolean {
+  if (a.nodeSeq === undefined) return false;
+  if (a.sourceNode === b.sourceNode && b.nodeSeq !== undefined) {
+    return a.nodeSeq < b.nodeSeq;
+  }
+  return (b.causal?.[a.sourceNode] ?? 0) >= a.nodeSeq;
+}
+
+/**
+ * True when neither write had seen the other. Entries without causal
+ * metadata are never reported as concurrent.
+ */
+export function isConcurrent(a: Transaction, b: Transaction): boolean {
+  if (a.nodeSeq === undefined || b.nodeSeq === undefined) return false;
+  if (!a.causal || !b.causal) return false;
+  return !happenedBefore(a, b) && !happenedBefore(b, a);
+}
+
+// ──────────────────────────────────────────────
+// Conflict resolution
+// ──────────────────────────────────────────────
+
+interface Slot<T> {
+  value: T;
+  txn: Transaction;
+  /** Every transaction that has held or contested this key */
+  history: Transaction[];
+}
+
+function conflictKey(txn: Transaction): string | null {
+  const p = txn.payload;
+  switch (txn.type) {
+    case 'memory.promoted':
+      return typeof p.memoryId === 'string' ? p.memoryId : null;
+    case 'vault.permission_changed':
+      return typeof p.vaultId === 'string' && typeof p.field === 'string'
+        ? `${p.vaultId}|${typeof p.userId === 'string' ? p.userId : '*'}|${p.field}`
+        : null;
+    case 'operational.pattern':
+      return typeof p.patternId === 'string' ? p.patternId : null;
+    default:
+      return null;
+  }
+}
+
+function recordConflict(
+  conflicts: Map<string, MergeConflict>,
+  txn: Transaction,
+  key: string,
+  rule: ConflictRule,
+  winner: Transaction,
+  loser: Transaction,
+  resolvedValue: unknown
+): void {
+  const id = `${txn.type}:${key}`;
+  const existing = conflicts.get(id);
+  const losers = new Set(existing?.losers ?? []);
+  if (existing && existing.winner !== winner.id) losers.add(existing.winner);
+  losers.add(loser.id);
+  losers.delete(winner.id);
+
+  const nodes = new Set(existing?.nodes ?? []);
+  nodes.add(winner.sourceNode);
+  nodes.add(loser.sourceNode);
+
+  conflicts.set(id, {
+    type: txn.type,
+    key,
+    rule,
+    winner: winner.id,
+    losers: [...losers],
+    nodes: [...nodes].sort(),
+    resolvedValue,
+  });
+}
+
+/**
+ * Apply promotion, permission and pattern transactions in causal order,
+ * resolving concurrent writes to the same key deterministically.
+ */
+export function resolveConflicts(txns: Transaction[]): { state: MergedState; conflicts: MergeConflict[] } {
+  const promotions = new Map<string, Slot<PromotionState>>();
+  const permissions = new Map<string, Slot<PermissionState>>();
+  const patterns = new Map<string, Slot<PatternState>>();
+  const conflicts = new Map<string, MergeConflict>();
+
+  const concurrentWith = (slot: Slot<unknown>, txn: Transaction) =>
+    slot.history.filter((h) => isConcurrent(h, txn));
+
+  for (const txn of orderTransactions(txns)) {
+    const key = conflictKey(txn);
+    if (!key) continue;
+    const p = txn.payload;
+
+    if (txn.type === 'memory.promoted') {
+      const value: PromotionState = {
+        memoryId: key,
+        fromLane: String(p.fromLane ?? ''),
+        toLane: String(p.toLane ?? ''),
+        reason: String(p.reason ?? ''),
+        txnId: txn.id,
+      };
+      const slot = promotions.get(key);
+      // Later in HLC order wins whether or not the writes were concurrent
+      if (slot) {
+        for (const other of concurrentWith(slot, txn)) {
+          recordConflict(conflicts, txn, key, 'last-writer-wins', txn, other, value.toLane);
+        }
+      }
+      promotions.set(key, { value, txn, history: [...(slot?.history ?? []), txn] });
+      continue;
+    }
+
+    if (txn.type === 'vault.permission_changed') {
+      const [vaultId, userId, field] = key.split('|');
+      const value: PermissionState = {
+        vaultId,
+        userId: userId === '*' ? null : userId,
+        field,
+        value: p.newValue,
+        txnId: txn.id,
+      };
+      const slot = permissions.get(key);
+      const rivals = slot ? concurrentWith(slot, txn) : [];
+
+      if (slot && rivals.includes(slot.txn)) {
+        const current = slot.value.value;
+        const incoming = p.newValue;
+        const denyWins = typeof current === 'boolean' && typeof incoming === 'boolean' && current !== incoming;
+        const keepCurrent = denyWins && current === false;
+        const winner = keepCurrent ? slot.txn : txn;
+        const rule: ConflictRule = denyWins ? 'deny-wins' : 'last-writer-wins';
+        const resolved = keepCurrent ? slot.value : value;
+
+        for (const other of rivals) {
+          recordConflict(conflicts, txn, key, rule, winner, other === winner ? txn : other, resolved.value);
+        }
+        permissions.set(key, { value: resolved, txn: winner, history: [...slot.history, txn] });
+      } else {
+        for (const other of rivals) {
+          recordConflict(conflicts, txn, key, 'last-writer-wins', txn, other, value.value);
+        }
+        permissions.set(key, { value, txn, history: [...(slot?.history ?? []), txn] });
+      }
+      continue;
+    }
+
+    if (txn.type === 'operational.pattern') {
+      const frequency = typeof p.frequency === 'number' ? p.frequency : 0;
+      const value: PatternState = {
+        patternId: key,
+        signature: typeof p.signature === 'string' ? p.signature : undefined,
+        frequency,
+        recovery: typeof p.recovery === 'string' ? p.recovery : undefined,
+        txnId: txn.id,
+      };
+      const slot = patterns.get(key);
+      const rivals = slot ? concurrentWith(slot, txn) : [];
+
+      if (slot && rivals.length > 0) {
+        // Concurrent observations of the same pattern: keep the highest count
+        value.frequency = Math.max(slot.value.frequency, frequency);
+        value.signature = value.signature ?? slot.value.signature;
+        value.recovery = value.recovery ?? slot.value.recovery;
+        for (const other of rivals) {
+          recordConflict(conflicts, txn, key, 'merge-max-frequency', txn, other, value.frequency);
+        }
+      }
+      patterns.set(key, { value, txn, history: [...(slot?.history ?? []), txn] });
+    }
+  }
+
+  const flatten = <T>(m: Map<string, Slot<T>>): Record<string, T> =>
+    Object.fromEntries([...m.entries()].map(([k, s]) => [k, s.value]));
+
+  return {
+    state: {
+      promotions: flatten(promotions),
+      permissions: flatten(permissions),
+      patterns: flatten(patterns),
+    },
+    conflicts: [...conflicts.values()],
+  };
+}
+
+// ──────────────────────────────────────────────
+// Journal reconciliation
+// ──────────────────────────────────────────────
+
+function getMergeReportPath(stateRoot?: string): string {
+  return join(getRecordRoot(stateRoot), 'merge-report.json');
+}
+
+/**
+ * Resolve the local journal and persist `record/merge-report.json`.
+ */
+export function reconcileJournal(stateRoot?: string): MergeReport {
+  const txns = readTransactions({ stateRoot });
+  const { state, conflicts } = resolveConflicts(txns);
+
+  const report: MergeReport = {
+    generatedAt: new Date().toISOString(),
+    transactions: txns.length,
+    nodes: [...new Set(txns.map((t) => t.sourceNode))].sort(),
+    conflicts,
+    state,
+  };
+
+  const root = getRecordRoot(stateRoot);
+  if (!existsSync(root)) mkdirSync(root, { recursive: true });
+  writeFileSync(getMergeReportPath(stateRoot), JSON.stringify(report, null, 2));
+  return report;
+}
+
+export function loadMergeReport(stateRoot?: string): MergeReport | null {
+  const path = getMergeReportPath(stateRoot);
+  if (!existsSync(path)) return null;
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8')) as MergeReport;
+  } catch {
+    return null;
+  }
+}
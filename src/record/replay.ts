@@ -0,0 +1,515 @@
+/**
+ * ClawText Record — Journal Replay
+ *
+ * Materializes workspace state from `transactions.jsonl` into a fresh
+ * workspace, optionally stopping at a seq or timestamp. Used to restore a
+ * wiped node or to inspect what memory looked like at a point in time.
+ *
+ * Rebuilt from the journal:
+ *   memory.extracted          memory/api-memories/<id>.json (versioned items rewrite it)
+ *   memory.deleted            drops the replayed memory
+ *   memory.promoted           lane of the replayed memory (merged, see ./merge.ts),
+ *                             or promotedTo of an operational pattern
+ *   operational.pattern       operational/ candidates (merged frequency)
+ *   operational.failure       operational/ raw error patterns, grouped by tool + error
+ *   library.added             library/entries/<entryId>.md
+ *   vault.permission_changed  permissions/defaults, roles, vaults + users overrides
+ *
+ * The replayed prefix is also re-appended to the target's own journal, so
+ * the restored node continues the same hash chain.
+ *
+ * Spec: docs/RECORD_SPEC.md (Replay section)
+ */
+
+import { existsSync, readdirSync, writeFileSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import { createHash } from 'crypto';
+import yaml from 'js-yaml';
+import {
+  appendTransaction,
+  getRecordRoot,
+  readTransactions,
+  type Transaction,
+  type TransactionType,
+} from './index.js';
+import { orderTransactions, resolveConflicts, type MergeConflict } from './merge.js';
+import { OperationalMemoryManager } from '../operational.js';
+import { ALL_VAULTS_ID } from '../permissions/index.js';
+import {
+  getClawTextProdStateRoot,
+  getClawTextLibraryEntriesDir,
+} from '../runtime-paths.js';
+
+// ──────────────────────────────────────────────
+// Types
+// ──────────────────────────────────────────────
+
+export interface ReplayOptions {
+  /** Workspace to rebuild into; must not already hold memories or a journal */
+  targetWorkspace: string;
+  /** State root whose journal is replayed */
+  stateRoot?: string;
+  /** Explicit transactions.jsonl (overrides stateRoot) */
+  journalPath?: string;
+  /** Stop after this seq (inclusive) */
+  toSeq?: number;
+  /** Stop after this ISO timestamp (inclusive) */
+  until?: string;
+}
+
+export interface ReplayReport {
+  generatedAt: string;
+  source: string;
+  targetWorkspace: string;
+  toSeq: number | null;
+  until: string | null;
+  transactions: number;
+  lastSeq: number;
+  lastTimestamp: string | null;
+  memories: number;
+  promotions: { applied: number; unmatched: string[] };
+  patterns: number;
+  failures: number;
+  libraryEntries: number;
+  permissions: number;
+  conflicts: MergeConflict[];
+  /** Transaction types with nothing to materialize, by count */
+  skipped: Partial<Record<TransactionType, number>>;
+}
+
+const NOT_MATERIALIZED = new Set<TransactionType>([
+  'session.message',
+  'session.assistant',
+  'session.checkpoint',
+  'node.registered',
+  'node.heartbeat',
+  'config.applied',
+]);
+
+// ──────────────────────────────────────────────
+// Helpers
+// ──────────────────────────────────────────────
+
+function sha1(content: string): string {
+  return createHash('sha1').update(content).digest('hex');
+}
+
+function ensureDir(dir: string): void {
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+}
+
+function isNonEmptyDir(dir: string): boolean {
+  return existsSync(dir) && readdirSync(dir).length > 0;
+}
+
+function asStringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+}
+
+function sanitizeFilePart(value: string): string {
+  return value.replace(/[^a-z0-9._-]+/gi, '-').replace(/-+/g, '-').replace(/^-|-$/g, '').toLowerCase();
+}
+
+function getMemoriesDir(workspace: string): string {
+  return join(workspace, 'memory', 'api-memories');
+}
+
+/**
+ * Select the journal prefix to replay: seq order, cut at toSeq and at the
+ * first transaction stamped after `until`. Peer transactions keep their
+ * origin timestamps, so a later one stamped before `until` is still cut —
+ * the result is always a prefix of the local journal.
+ */
+export function selectReplayTransactions(
+  txns: Transaction[],
+  options: { toSeq?: number; until?: string }
+): Transaction[] {
+  const untilMs = options.until !== undefined ? new Date(options.until).getTime() : undefined;
+  if (untilMs !== undefined && !Number.isFinite(untilMs)) {
+    throw new Error(`invalid --until timestamp "${options.until}"`);
+  }
+  const ordered = [...txns]
+    .sort((a, b) => a.seq - b.seq)
+    .filter((t) => options.toSeq === undefined || t.seq <= options.toSeq);
+  if (untilMs === undefined) return ordered;
+
+  const cut = ordered.findIndex((t) => new Date(t.timestamp).getTime() > untilMs);
+  return cut < 0 ? ordered : ordered.slice(0, cut);
+}
+
+// ──────────────────────────────────────────────
+// Materializers
+// ──────────────────────────────────────────────
+
+type ReplayedMemory = Record<string, any>;
+
+/**
+ * Build api-memory records from memory.extracted events, dropping those
+ * removed by a later memory.deleted. An item carrying a `version` rewrites
+ * the memory it names instead of adding one.
+ *
+ * Ids are derived from the transaction id so repeated replays produce the
+ * same files; identical text is merged like ClawTextMemory.add does.
+ */
+function materializeMemories(txns: Transaction[]): Map<string, ReplayedMemory> {
+  const byId = new Map<string, ReplayedMemory>();
+  const byHash = new Map<string, ReplayedMemory>();
+
+  for (const txn of txns) {
+    if (txn.type === 'memory.deleted') {
+      const deleted = typeof txn.payload.memoryId === 'string' ? byId.get(txn.payload.memoryId) : undefined;
+      if (deleted) {
+        byId.delete(deleted.id);
+        if (byHash.get(deleted.dedupeHash) === deleted) byHash.delete(deleted.dedupeHash);
+      }
+      continue;
+    }
+    if (txn.type !== 'memory.extracted') continue;
+    const items = Array.isArray(txn.payload.memories) ? txn.payload.memories : [];
+    const sessionId = typeof txn.payload.sessionId === 'string' ? txn.payload.sessionId : null;
+
+    items.forEach((raw, i) => {
+      const item = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+      const text = typeof item.text === 'string' ? item.text : '';
+      if (!text) return;
+
+      const dedupeHash = sha1(text).slice(0, 16);
+      const explicitId = typeof item.memoryId === 'string' ? item.memoryId : typeof item.id === 'string' ? item.id : null;
+      const rewritten = explicitId && typeof item.version === 'number' ? byId.get(explicitId) : undefined;
+      if (rewritten) {
+        if (byHash.get(rewritten.dedupeHash) === rewritten) byHash.delete(rewritten.dedupeHash);
+        applyMemoryVersion(rewritten, item, text, dedupeHash, txn);
+        if (rewritten.status !== 'superseded') byHash.set(dedupeHash, rewritten);
+        return;
+      }
+
+      const existing = byHash.get(dedupeHash);
+      if (existing) {
+        existing.mentionCount += 1;
+        existing.lastMentionedAt = txn.timestamp;
+        existing.updatedAt = txn.timestamp;
+        existing.tags = [...new Set([...existing.tags, ...asStringArray(item.tags)])];
+        return;
+      }
+
+      const id = explicitId || 'mem_' + sha1(`${txn.id}:${i}`).slice(0, 16);
+      const memory: ReplayedMemory = {
+        id,
+        sourceType: 'record',
+        sourceId: txn.id,
+        sourceRef: `record:${txn.sourceNode}:${txn.seq}`,
+        project: typeof item.project === 'string' ? item.project : 'general',
+        type: typeof item.type === 'string' ? item.type : 'note',
+        lane: 'curated',
+        status: 'promoted',
+        confidence: typeof item.confidence === 'number' ? item.confidence : 0.85,
+        importance: 0.7,
+        createdAt: txn.timestamp,
+        observedAt: txn.timestamp,
+        updatedAt: txn.timestamp,
+        entities: [],
+        tags: asStringArray(item.tags),
+        keywords: [],
+        dedupeHash,
+        mentionCount: 1,
+        lastMentionedAt: txn.timestamp,
+        summary: text.slice(0, 200),
+        body: text,
+        relations: { supersedes: asStringArray(item.supersedes), related: [], derivedFrom: [] },
+        metadata: { replayedFrom: txn.id },
+        agentId: null,
+        agentName: null,
+        visibility: 'shared',
+        targetAgent: null,
+        sessionId,
+        relatesToSession: null,
+      };
+      if (typeof item.version === 'number') applyMemoryVersion(memory, item, text, dedupeHash, txn);
+      byId.set(id, memory);
+      if (memory.status !== 'superseded') byHash.set(dedupeHash, memory);
+    });
+  }
+
+  return byId;
+}
+
+/**
+ * Apply a version snapshot journaled by ClawTextMemory when it rewrites a
+ * memory file (update, supersede, conflict resolution).
+ */
+function applyMemoryVersion(
+  memory: ReplayedMemory,
+  item: Record<string, unknown>,
+  text: string,
+  dedupeHash: string,
+  txn: Transaction,
+): void {
+  if (memory.body !== text) {
+    memory.body = text;
+    memory.summary = text.slice(0, 200);
+  }
+  memory.dedupeHash = dedupeHash;
+  memory.version = item.version;
+  memory.updatedAt = txn.timestamp;
+  memory.tags = asStringArray(item.tags);
+  if (typeof item.project === 'string') memory.project = item.project;
+  if (typeof item.type === 'string') memory.type = item.type;
+  if (typeof item.confidence === 'number') memory.confidence = item.confidence;
+  memory.status = typeof item.status === 'string' ? item.status : 'promoted';
+  if (typeof item.supersededBy === 'string') {
+    if (memory.supersededBy !== item.supersededBy) memory.supersededAt = txn.timestamp;
+    memory.supersededBy = item.supersededBy;
+    memory.supersedeReason = typeof item.supersedeReason === 'string' ? item.supersedeReason : null;
+  } else {
+    delete memory.supersededBy;
+    delete memory.supersededAt;
+    delete memory.supersedeReason;
+  }
+  memory.relations = {
+    ...memory.relations,
+    supersedes: asStringArray(item.supersedes),
+    related: asStringArray(item.related),
+  };
+}
+
+function writeLibraryEntry(entriesDir: string, txn: Transaction): boolean {
+  const p = txn.payload;
+  const entryId = typeof p.entryId === 'string' ? p.entryId : null;
+  if (!entryId) return false;
+
+  const metadata = {
+    kind: 'library-entry',
+    project: typeof p.project === 'string' ? p.project : 'general',
+    topic: entryId,
+    status: 'active',
+    curation: 'replayed',
+    visibility: 'shared',
+    last_reviewed: txn.timestamp.slice(0, 10),
+    source_docs: [`record:${txn.id}`],
+    tags: asStringArray(p.tags),
+  };
+  const title = typeof p.title === 'string' ? p.title : entryId;
+  const content = typeof p.content === 'string' ? p.content : '';
+
+  writeFileSync(
+    join(entriesDir, `${sanitizeFilePart(entryId)}.md`),
+    `---\n${yaml.dump(metadata, { lineWidth: -1 })}---\n\n# ${title}\n\n${content}\n`
+  );
+  return true;
+}
+
+// ──────────────────────────────────────────────
+// Replay
+// ──────────────────────────────────────────────
+
+/**
+ * Rebuild a workspace from the Record journal.
+ *
+ * Throws if the target already holds api-memories or a journal.
+ */
+export function replayJournal(options: ReplayOptions): ReplayReport {
+  const targetWorkspace = options.targetWorkspace;
+  const targetStateRoot = getClawTextProdStateRoot(targetWorkspace);
+  const memoriesDir = getMemoriesDir(targetWorkspace);
+
+  if (isNonEmptyDir(memoriesDir) || existsSync(join(getRecordRoot(targetStateRoot), 'transactions.jsonl'))) {
+    throw new Error(`replay target ${targetWorkspace} is not empty`);
+  }
+
+  const source = options.journalPath || join(getRecordRoot(options.stateRoot), 'transactions.jsonl');
+  const selected = selectReplayTransactions(
+    readTransactions({ stateRoot: options.stateRoot, path: options.journalPath }),
+    { toSeq: options.toSeq, until: options.until }
+  );
+  const ordered = orderTransactions(selected);
+  const { state, conflicts } = resolveConflicts(selected);
+  const skipped: Partial<Record<TransactionType, number>> = {};
+
+  // Journal — same order and ids, so the chain hashes match the source prefix
+  for (const txn of selected) {
+    appendTransaction(txn.type, txn.payload, {
+      stateRoot: targetStateRoot,
+      sourceNode: txn.sourceNode,
+      id: txn.id,
+      timestamp: txn.timestamp,
+      signature: txn.signature,
+      hlc: txn.hlc,
+      nodeSeq: txn.nodeSeq,
+      causal: txn.causal,
+    });
+  }
+
+  // Memories + promotions (operational promotions are applied to their pattern below)
+  const memories = materializeMemories(ordered);
+  const unmatched: string[] = [];
+  let applied = 0;
+  for (const promotion of Object.values(state.promotions)) {
+    const memory = memories.get(promotion.memoryId);
+    if (!memory) {
+      if (!(promotion.fromLane === 'operational' && state.patterns[promotion.memoryId])) {
+        unmatched.push(promotion.memoryId);
+      }
+      continue;
+    }
+    memory.lane = promotion.toLane;
+    memory.metadata.promotedBy = promotion.txnId;
+    applied++;
+  }
+  ensureDir(memoriesDir);
+  for (const memory of memories.values()) {
+    writeFileSync(join(memoriesDir, `${memory.id}.json`), JSON.stringify(memory, null, 2));
+  }
+
+  // Operational lane
+  const operational = new OperationalMemoryManager(targetWorkspace);
+  const seen = new Map<string, { first: string; last: string }>();
+  for (const txn of ordered) {
+    if (txn.type !== 'operational.pattern' || typeof txn.payload.patternId !== 'string') continue;
+    const span = seen.get(txn.payload.patternId);
+    seen.set(txn.payload.patternId, { first: span?.first ?? txn.timestamp, last: txn.timestamp });
+  }
+  for (const pattern of Object.values(state.patterns)) {
+    const span = seen.get(pattern.patternId);
+    const promotion = state.promotions[pattern.patternId];
+    const promoted = promotion?.fromLane === 'operational';
+    if (promoted) applied++;
+    operational.create({
+      patternKey: pattern.patternId,
+      type: 'error-pattern',
+      summary: pattern.signature || pattern.patternId,
+      symptom: pattern.signature || '',
+      fix: pattern.recovery || '',
+      recurrenceCount: Math.max(1, pattern.frequency),
+      firstSeenAt: span?.first,
+      lastSeenAt: span?.last,
+      status: promoted ? 'promoted' : 'candidate',
+      promotedTo: promoted ? promotion.toLane : undefined,
+      promotedAt: promoted ? ordered.find((t) => t.id === promotion.txnId)?.timestamp : undefined,
+      evidence: [`record:${pattern.txnId}`],
+    }, { journal: false });
+  }
+
+  const failures = new Map<string, { tool: string; error: string; txns: Transaction[] }>();
+  for (const txn of ordered) {
+    if (txn.type !== 'operational.failure') continue;
+    const tool = String(txn.payload.tool ?? 'unknown');
+    const error = String(txn.payload.error ?? '');
+    const key = operational.generatePatternKey('error-pattern', 'tool', `${tool} ${error}`);
+    const group = failures.get(key) ?? { tool, error, txns: [] };
+    group.txns.push(txn);
+    failures.set(key, group);
+  }
+  for (const [patternKey, group] of failures) {
+    operational.create({
+      patternKey,
+      type: 'error-pattern',
+      summary: `${group.tool}: ${group.error}`,
+      symptom: group.error,
+      trigger: group.tool,
+      scope: 'tool',
+      recurrenceCount: group.txns.length,
+      firstSeenAt: group.txns[0].timestamp,
+      lastSeenAt: group.txns[group.txns.length - 1].timestamp,
+      status: 'raw',
+      evidence: group.txns.map((t) => `record:${t.id}`),
+    }, { journal: false });
+  }
+
+  // Library additions — later additions of the same entry overwrite earlier ones
+  const entriesDir = getClawTextLibraryEntriesDir(targetWorkspace);
+  ensureDir(entriesDir);
+  const libraryEntries = new Set<string>();
+  for (const txn of ordered) {
+    if (txn.type === 'library.added' && writeLibraryEntry(entriesDir, txn)) {
+      libraryEntries.add(String(txn.payload.entryId));
+    }
+  }
+
+  // Permission overrides — written to the target directly, never via
+  // getPermissionsRoot, which honours CLAWTEXT_STATE_ROOT
+  const permissionsRoot = join(targetStateRoot, 'permissions');
+  const defaults: Record<string, unknown> = {};
+  const roles = new Map<string, Record<string, unknown>>();
+  const vaults = new Map<string, Record<string, unknown>>();
+  const users = new Map<string, Record<string, unknown>>();
+  const assign = (record: Record<string, unknown>, field: string, value: unknown) => {
+    if (value === null) delete record[field];
+    else record[field] = value;
+  };
+  for (const perm of Object.values(state.permissions)) {
+    const roleField = /^(roles|roleOverrides)\.(.+)\.([^.]+)$/.exec(perm.field);
+    if (perm.vaultId === ALL_VAULTS_ID) {
+      if (perm.field.startsWith('defaults.')) {
+        assign(defaults, perm.field.slice('defaults.'.length), perm.value);
+      } else if (roleField?.[1] === 'roles') {
+        const roleId = roleField[2];
+        const record = roles.get(roleId) ?? { roleId };
+        assign(record, roleField[3], perm.value);
+        roles.set(roleId, record);
+      }
+    } else if (perm.userId) {
+      const key = `${perm.userId}/${perm.vaultId}`;
+      const record = users.get(key) ?? { userId: perm.userId, vaultId: perm.vaultId };
+      assign(record, perm.field, perm.value);
+      users.set(key, record);
+    } else {
+      const record = vaults.get(perm.vaultId) ?? { vaultId: perm.vaultId, globalOverride: {} };
+      if (roleField?.[1] === 'roleOverrides') {
+        const overrides = (record.roleOverrides ?? {}) as Record<string, Record<string, unknown>>;
+        overrides[roleField[2]] = overrides[roleField[2]] ?? {};
+        assign(overrides[roleField[2]], roleField[3], perm.value);
+        record.roleOverrides = overrides;
+      } else {
+        assign(record.globalOverride as Record<string, unknown>, perm.field, perm.value);
+      }
+      vaults.set(perm.vaultId, record);
+    }
+  }
+  if (Object.keys(defaults).length > 0) {
+    ensureDir(permissionsRoot);
+    writeFileSync(join(permissionsRoot, 'defaults.json'), JSON.stringify(defaults, null, 2));
+  }
+  for (const [roleId, record] of roles) {
+    ensureDir(join(permissionsRoot, 'roles'));
+    writeFileSync(join(permissionsRoot, 'roles', `${roleId}.json`), JSON.stringify(record, null, 2));
+  }
+  for (const [vaultId, record] of vaults) {
+    ensureDir(join(permissionsRoot, 'vaults'));
+    writeFileSync(join(permissionsRoot, 'vaults', `${vaultId}.json`), JSON.stringify(record, null, 2));
+  }
+  for (const [key, record] of users) {
+    const [userId, vaultId] = key.split('/');
+    ensureDir(join(permissionsRoot, 'users', userId));
+    writeFileSync(join(permissionsRoot, 'users', userId, `${vaultId}.json`), JSON.stringify(record, null, 2));
+  }
+
+  for (const txn of selected) {
+    if (NOT_MATERIALIZED.has(txn.type)) {
+      skipped[txn.type] = (skipped[txn.type] ?? 0) + 1;
+    }
+  }
+
+  const last = selected[selected.length - 1];
+  const report: ReplayReport = {
+    generatedAt: new Date().toISOString(),
+    source,
+    targetWorkspace,
+    toSeq: options.toSeq ?? null,
+    until: options.until ?? null,
+    transactions: selected.length,
+    lastSeq: last?.seq ?? 0,
+    lastTimestamp: last?.timestamp ?? null,
+    memories: memories.size,
+    promotions: { applied, unmatched },
+    patterns: Object.keys(state.patterns).length,
+    failures: failures.size,
+    libraryEntries: libraryEntries.size,
+    permissions: Object.keys(state.permissions).length,
+    conflicts,
+    skipped,
+  };
+
+  ensureDir(getRecordRoot(targetStateRoot));
+  writeFileSync(join(getRecordRoot(targetStateRoot), 'replay-report.json'), JSON.stringify(report, null, 2));
+  return report;
+}
@@ -0,0 +1,136 @@
+/**
+ * ClawText Record — Journal Segments
+ *
+ * The journal is split into sealed segments plus the active head:
+ *
+ *   record/transactions.jsonl                       active segment (appends go here)
+ *   record/segments/<firstSeq>-<lastSeq>.jsonl      sealed segments
+ *   record/compacted/<firstSeq>-<lastSeq>.jsonl.gz  archived segments
+ *
+ * Sealed segments are listed in `index.json` with their seq range and the
+ * highest nodeSeq per origin they contain, so range and vector reads only
+ * open the segments they need.
+ *
+ * Spec: docs/RECORD_SPEC.md (Segments and Snapshots section)
+ */
+
+import { readFileSync, writeFileSync, existsSync, mkdirSync, renameSync, unlinkSync } from 'fs';
+import { join } from 'path';
+import { gzipSync, gunzipSync } from 'zlib';
+import type { SequenceVector } from './index.js';
+
+// ──────────────────────────────────────────────
+// Types
+// ──────────────────────────────────────────────
+
+export interface SegmentInfo {
+  file: string;
+  firstSeq: number;
+  lastSeq: number;
+  count: number;
+  lastHash: string | null;
+  /** Highest nodeSeq per origin in this segment */
+  vector: SequenceVector;
+  /** Moved to compacted/ as gzip */
+  archived?: boolean;
+}
+
+/** Bookkeeping for the active segment, kept in index.json */
+export interface ActiveSegment {
+  firstSeq: number;
+  count: number;
+  vector: SequenceVector;
+}
+
+export const DEFAULT_MAX_SEGMENT_ENTRIES = 10_000;
+
+// ──────────────────────────────────────────────
+// Path helpers
+// ──────────────────────────────────────────────
+
+export function getSegmentsDir(root: string): string {
+  return join(root, 'segments');
+}
+
+export function getCompactedDir(root: string): string {
+  return join(root, 'compacted');
+}
+
+export function segmentFileName(firstSeq: number, lastSeq: number): string {
+  return `${String(firstSeq).padStart(12, '0')}-${String(lastSeq).padStart(12, '0')}.jsonl`;
+}
+
+export function getSegmentPath(root: string, segment: SegmentInfo): string {
+  return segment.archived
+    ? join(getCompactedDir(root), `${segment.file}.gz`)
+    : join(getSegmentsDir(root), segment.file);
+}
+
+// ──────────────────────────────────────────────
+// Selection
+// ──────────────────────────────────────────────
+
+export function segmentOverlaps(segment: { firstSeq: number; lastSeq: number }, from?: number, to?: number): boolean {
+  return (from === undefined || segment.lastSeq >= from) && (to === undefined || segment.firstSeq <= to);
+}
+
+/**
+ * Whether a segment may hold transactions the holder of `vector` has not
+ * seen. Conservative: any origin ahead of the vector counts.
+ */
+export function segmentHasUnseen(segment: { vector: SequenceVector }, vector: SequenceVector): boolean {
+  return Object.entries(segment.vector).some(([node, seq]) => seq > (vector[node] ?? 0));
+}
+
+// ──────────────────────────────────────────────
+// File operations
+// ──────────────────────────────────────────────
+
+export function readSegmentLines(root: string, segment: SegmentInfo): string[] {
+  const path = getSegmentPath(root, segment);
+  if (!existsSync(path)) return [];
+  const raw = readFileSync(path);
+  const text = segment.archived ? gunzipSync(raw).toString('utf-8') : raw.toString('utf-8');
+  return text.split('\n').filter(Boolean);
+}
+
+/**
+ * Seal the active segment: move it into segments/ under its seq range.
+ */
+export function sealSegment(
+  root: string,
+  activePath: string,
+  active: ActiveSegment,
+  lastHash: string | null
+): SegmentInfo {
+  const lastSeq = active.firstSeq + active.count - 1;
+  const segment: SegmentInfo = {
+    file: segmentFileName(active.firstSeq, lastSeq),
+    firstSeq: active.firstSeq,
+    lastSeq,
+    count: active.count,
+    lastHash,
+    vector: { ...active.vector },
+  };
+
+  const dir = getSegmentsDir(root);
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+  renameSync(activePath, getSegmentPath(root, segment));
+  return segment;
+}
+
+/**
+ * Gzip a sealed segment into compacted/ and remove the original.
+ */
+export function archiveSegment(root: string, segment: SegmentInfo): SegmentInfo {
+  if (segment.archived) return segment;
+
+  const source = getSegmentPath(root, segment);
+  const archived: SegmentInfo = { ...segment, archived: true };
+  const dir = getCompactedDir(root);
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+
+  writeFileSync(getSegmentPath(root, archived), gzipSync(readFileSync(source)));
+  unlinkSync(source);
+  return archived;
+}
@@ -0,0 +1,381 @@
+/**
+ * ClawText Record — Node Signing
+ *
+ * Per-node Ed25519 keys for signing Record transactions and authenticating
+ * peer requests. The private key never leaves `fleet/keys/`; the public key
+ * is published in `fleet/config.json` and copied into peers' `nodes.json`.
+ *
+ * Spec: docs/RECORD_SPEC.md (Signing section)
+ */
+
+import { readFileSync, writeFileSync, existsSync, mkdirSync, chmodSync } from 'fs';
+import { join } from 'path';
+import {
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  sign,
+  verify,
+  type KeyObject,
+} from 'crypto';
+import {
+  getFleetRoot,
+  loadNodeConfig,
+  saveNodeConfig,
+  loadNodeRegistry,
+  upsertNode,
+} from '../fleet/index.js';
+
+// ──────────────────────────────────────────────
+// Types
+// ──────────────────────────────────────────────
+
+/** Fields of a transaction covered by its signature. */
+export interface SignableTransaction {
+  id: string;
+  type: string;
+  timestamp: string;
+  sourceNode: string;
+  payload: Record<string, unknown>;
+  hlc?: string;
+  nodeSeq?: number;
+  causal?: Record<string, number>;
+}
+
+/** Fields of a journal snapshot covered by its signature. */
+export interface SignableSnapshot {
+  seq: number;
+  hash: string | null;
+  count: number;
+  timestamp: string;
+  sourceNode: string;
+  hlc?: string;
+  vector: Record<string, number>;
+}
+
+export interface NodeKeyInfo {
+  publicKey: string;
+  fingerprint: string;
+  privateKeyPath: string;
+}
+
+export type SignatureCheck = 'valid' | 'invalid' | 'unsigned' | 'unknown_signer';
+
+export interface SignedRequestHeaders {
+  'X-Clawtext-Node': string;
+  'X-Clawtext-Timestamp': string;
+  'X-Clawtext-Signature': string;
+}
+
+export const DEFAULT_MAX_CLOCK_SKEW_MS = 5 * 60_000;
+
+// ──────────────────────────────────────────────
+// Path helpers
+// ──────────────────────────────────────────────
+
+export function getKeysRoot(stateRoot?: string): string {
+  return join(getFleetRoot(stateRoot), 'keys');
+}
+
+function getPrivateKeyPath(stateRoot?: string): string {
+  return join(getKeysRoot(stateRoot), 'node-ed25519.pem');
+}
+
+function getPublicKeyPath(stateRoot?: string): string {
+  return join(getKeysRoot(stateRoot), 'node-ed25519.pub.pem');
+}
+
+// ──────────────────────────────────────────────
+// Canonical encoding
+// ──────────────────────────────────────────────
+
+/**
+ * Deterministic JSON: object keys sorted at every depth.
+ *
+ * Unlike `hashPayload`, nested fields are included, so a signature covers
+ * the full payload content.
+ */
+export function canonicalJSON(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+  if (Array.isArray(value)) {
+    return '[' + value.map((v) => canonicalJSON(v === undefined ? null : v)).join(',') + ']';
+  }
+  const obj = value as Record<string, unknown>;
+  const keys = Object.keys(obj).filter((k) => obj[k] !== undefined).sort();
+  return '{' + keys.map((k) => JSON.stringify(k) + ':' + canonicalJSON(obj[k])).join(',') + '}';
+}
+
+/**
+ * Bytes signed for a transaction. `seq` and `previousHash` are excluded
+ * because they are reassigned when a peer replays the transaction; the
+ * origin's causal metadata is included when present.
+ */
+function transactionSigningInput(txn: SignableTransaction): Buffer {
+  const parts = ['clawtext-txn-v1', txn.id, txn.type, txn.timestamp, txn.sourceNode, canonicalJSON(txn.payload)];
+  if (txn.hlc !== undefined || txn.nodeSeq !== undefined || txn.causal !== undefined) {
+    parts.push(canonicalJSON({ hlc: txn.hlc, nodeSeq: txn.nodeSeq, causal: txn.causal }));
+  }
+  return Buffer.from(parts.join('\n'), 'utf-8');
+}
+
+function snapshotSigningInput(snapshot: SignableSnapshot): Buffer {
+  const { seq, hash, count, timestamp, sourceNode, hlc, vector } = snapshot;
+  return Buffer.from(
+    ['clawtext-snapshot-v1', canonicalJSON({ seq, hash, count, timestamp, sourceNode, hlc, vector })].join('\n'),
+    'utf-8'
+  );
+}
+
+function requestSigningInput(method: string, path: string, timestamp: string, body: string): Buffer {
+  const bodyHash = createHash('sha256').update(body).digest('hex');
+  return Buffer.from(['clawtext-req-v1', method.toUpperCase(), path, timestamp, bodyHash].join('\n'), 'utf-8');
+}
+
+// ──────────────────────────────────────────────
+// Key management
+// ──────────────────────────────────────────────
+
+export function keyFingerprint(publicKeyPem: string): string {
+  const der = createPublicKey(publicKeyPem).export({ type: 'spki', format: 'der' });
+  return 'ed25519:' + createHash('sha256').update(der).digest('hex').slice(0, 16);
+}
+
+/**
+ * Generate this node's Ed25519 key pair.
+ *
+ * Writes the private key with mode 0600 and publishes the public key into
+ * `fleet/config.json` when a node config exists. Refuses to overwrite an
+ * existing key unless `force` is set.
+ */
+export function generateNodeKeyPair(stateRoot?: string, options?: { force?: boolean }): NodeKeyInfo {
+  const privPath = getPrivateKeyPath(stateRoot);
+  if (existsSync(privPath) && !options?.force) {
+    throw new Error(`signing key already exists at ${privPath} (use force to rotate)`);
+  }
+
+  const root = getKeysRoot(stateRoot);
+  if (!existsSync(root)) mkdirSync(root, { recursive: true, mode: 0o700 });
+
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+  const publicPem = publicKey.export({ type: 'spki', format: 'pem' }).toString();
+  const privatePem = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+
+  writeFileSync(privPath, privatePem, { mode: 0o600 });
+  chmodSync(privPath, 0o600);
+  writeFileSync(getPublicKeyPath(stateRoot), publicPem);
+
+  const config = loadNodeConfig(stateRoot);
+  if (config) {
+    saveNodeConfig({ ...config, publicKey: publicPem }, stateRoot);
+  }
+
+  return { publicKey: publicPem, fingerprint: keyFingerprint(publicPem), privateKeyPath: privPath };
+}
+
+export function hasNodeKey(stateRoot?: string): boolean {
+  return existsSync(getPrivateKeyPath(stateRoot));
+}
+
+export function loadNodePrivateKey(stateRoot?: string): KeyObject | null {
+  const privPath = getPrivateKeyPath(stateRoot);
+  if (!existsSync(privPath)) return null;
+  return createPrivateKey(readFileSync(privPath, 'utf-8'));
+}
+
+export function loadNodePublicKey(stateRoot?: string): string | null {
+  const pubPath = getPublicKeyPath(stateRoot);
+  if (existsSync(pubPath)) return readFileSync(pubPath, 'utf-8');
+  return loadNodeConfig(stateRoot)?.publicKey || null;
+}
+
+/**
+ * Record a peer's public key in `fleet/nodes.json`.
+ *
+ * Creates a minimal registry entry (status offline) if the node is unknown.
+ */
+export function trustPeerKey(nodeId: string, publicKeyPem: string, stateRoot?: string): string {
+  const fingerprint = keyFingerprint(publicKeyPem);
+  const registry = loadNodeRegistry(stateRoot);
+  const existing = registry.nodes[nodeId];
+
+  upsertNode(
+    existing
+      ? { ...existing, publicKey: publicKeyPem }
+      : {
+          nodeId,
+          displayName: nodeId,
+          publicKey: publicKeyPem,
+          endpoints: { api: '' },
+          capabilities: [],
+          roles: [],
+          status: 'offline',
+          lastSeen: new Date(0).toISOString(),
+          seq: 0,
+        },
+    stateRoot
+  );
+
+  return fingerprint;
+}
+
+/**
+ * Look up the public key for a node: this node's own key first,
+ * then the `publicKey` of its entry in the fleet registry.
+ */
+export function resolveNodePublicKey(nodeId: string, stateRoot?: string): string | null {
+  const config = loadNodeConfig(stateRoot);
+  if (config?.nodeId === nodeId) {
+    return loadNodePublicKey(stateRoot);
+  }
+  return loadNodeRegistry(stateRoot).nodes[nodeId]?.publicKey || null;
+}
+
+/**
+ * Whether unsigned or unknown-signer input must be rejected.
+ *
+ * Explicit `security.requireSignatures` in the node config wins; otherwise
+ * enforcement switches on once this node has a signing key of its own.
+ */
+export function signaturesRequired(stateRoot?: string): boolean {
+  const configured = loadNodeConfig(stateRoot)?.security?.requireSignatures;
+  return configured ?? hasNodeKey(stateRoot);
+}
+
+// ──────────────────────────────────────────────
+// Transaction signatures
+// ──────────────────────────────────────────────
+
+export function signTransaction(txn: SignableTransaction, privateKey: KeyObject): string {
+  return sign(null, transactionSigningInput(txn), privateKey).toString('base64');
+}
+
+export function verifyTransactionSignature(
+  txn: SignableTransaction & { signature?: string },
+  publicKeyPem: string
+): boolean {
+  if (!txn.signature) return false;
+  try {
+    return verify(null, transactionSigningInput(txn), publicKeyPem, Buffer.from(txn.signature, 'base64'));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check a transaction's signature against the key registered for its sourceNode.
+ */
+export function checkTransactionSignature(
+  txn: SignableTransaction & { signature?: string },
+  stateRoot?: string
+): SignatureCheck {
+  if (!txn.signature) return 'unsigned';
+  const publicKey = resolveNodePublicKey(txn.sourceNode, stateRoot);
+  if (!publicKey) return 'unknown_signer';
+  return verifyTransactionSignature(txn, publicKey) ? 'valid' : 'invalid';
+}
+
+// ──────────────────────────────────────────────
+// Snapshot signatures
+// ──────────────────────────────────────────────
+
+export function signSnapshot(snapshot: SignableSnapshot, privateKey: KeyObject): string {
+  return sign(null, snapshotSigningInput(snapshot), privateKey).toString('base64');
+}
+
+/**
+ * Check a snapshot's signature against the key registered for the node that wrote it.
+ */
+export function checkSnapshotSignature(
+  snapshot: SignableSnapshot & { signature?: string },
+  stateRoot?: string
+): SignatureCheck {
+  if (!snapshot.signature) return 'unsigned';
+  const publicKey = resolveNodePublicKey(snapshot.sourceNode, stateRoot);
+  if (!publicKey) return 'unknown_signer';
+  try {
+    return verify(null, snapshotSigningInput(snapshot), publicKey, Buffer.from(snapshot.signature, 'base64'))
+      ? 'valid'
+      : 'invalid';
+  } catch {
+    return 'invalid';
+  }
+}
+
+// ──────────────────────────────────────────────
+// Peer request authentication
+// ──────────────────────────────────────────────
+
+/**
+ * Build auth headers for an outbound peer request.
+ *
+ * Returns null when this node has no signing key.
+ */
+export function signPeerRequest(
+  method: string,
+  path: string,
+  body: string,
+  nodeId: string,
+  stateRoot?: string
+): SignedRequestHeaders | null {
+  const privateKey = loadNodePrivateKey(stateRoot);
+  if (!privateKey) return null;
+
+  const timestamp = new Date().toISOString();
+  const signature = sign(null, requestSigningInput(method, path, timestamp, body), privateKey);
+  return {
+    'X-Clawtext-Node': nodeId,
+    'X-Clawtext-Timestamp': timestamp,
+    'X-Clawtext-Signature': signature.toString('base64'),
+  };
+}
+
+/**
+ * Verify auth headers on an inbound peer request.
+ *
+ * Returns the authenticated node ID, or an error reason.
+ */
+export function verifyPeerRequest(
+  method: string,
+  path: string,
+  body: string,
+  headers: Record<string, string | string[] | undefined>,
+  stateRoot?: string,
+  maxClockSkewMs = DEFAULT_MAX_CLOCK_SKEW_MS
+): { ok: true; nodeId: string } | { ok: false; reason: string } {
+  const header = (name: string) => {
+    const v = headers[name.toLowerCase()];
+    return Array.isArray(v) ? v[0] : v;
+  };
+  const nodeId = header('X-Clawtext-Node');
+  const timestamp = header('X-Clawtext-Timestamp');
+  const signature = header('X-Clawtext-Signature');
+
+  if (!nodeId || !timestamp || !signature) {
+    return { ok: false, reason: 'missing signature headers' };
+  }
+
+  const skew = Math.abs(Date.now() - new Date(timestamp).getTime());
+  if (!Number.isFinite(skew) || skew > maxClockSkewMs) {
+    return { ok: false, reason: 'request timestamp outside allowed clock skew' };
+  }
+
+  const publicKey = resolveNodePublicKey(nodeId, stateRoot);
+  if (!publicKey) {
+    return { ok: false, reason: `unknown node "${nodeId}"` };
+  }
+
+  try {
+    const valid = verify(
+      null,
+      requestSigningInput(method, path, timestamp, body),
+      publicKey,
+      Buffer.from(signature, 'base64')
+    );
+    return valid ? { ok: true, nodeId } : { ok: false, reason: 'invalid request signature' };
+  } catch {
+    return { ok: false, reason: 'invalid request signature' };
+  }
+}
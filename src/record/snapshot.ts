@@ -0,0 +1,85 @@
+/**
+ * ClawText Record — Journal Snapshots
+ *
+ * A snapshot pins the chain head (seq, hash, count, HLC, sequence vector) at
+ * a point in the journal and is signed with the node key. `verifyChain` can
+ * start from the latest trusted snapshot instead of genesis, which is what
+ * lets segments before it be archived.
+ *
+ *   record/snapshots/<seq>.json
+ *
+ * Spec: docs/RECORD_SPEC.md (Segments and Snapshots section)
+ */
+
+import { readFileSync, writeFileSync, existsSync, mkdirSync, readdirSync } from 'fs';
+import { join } from 'path';
+import type { SequenceVector } from './index.js';
+import { loadNodePrivateKey, signSnapshot, type SignableSnapshot } from './signing.js';
+
+// ──────────────────────────────────────────────
+// Types
+// ──────────────────────────────────────────────
+
+export interface RecordSnapshot extends SignableSnapshot {
+  vector: SequenceVector;
+  /** Base64 Ed25519 signature by sourceNode (see ./signing.ts) */
+  signature?: string;
+}
+
+// ──────────────────────────────────────────────
+// Path helpers
+// ──────────────────────────────────────────────
+
+export function getSnapshotsDir(root: string): string {
+  return join(root, 'snapshots');
+}
+
+function getSnapshotPath(root: string, seq: number): string {
+  return join(getSnapshotsDir(root), `${String(seq).padStart(12, '0')}.json`);
+}
+
+// ──────────────────────────────────────────────
+// Read / write
+// ──────────────────────────────────────────────
+
+/**
+ * Write a snapshot of the chain head, signed when the node has a key.
+ */
+export function writeSnapshot(
+  root: string,
+  head: Omit<RecordSnapshot, 'timestamp' | 'signature'>,
+  stateRoot?: string
+): RecordSnapshot {
+  const snapshot: RecordSnapshot = { ...head, timestamp: new Date().toISOString() };
+  const privateKey = loadNodePrivateKey(stateRoot);
+  if (privateKey) snapshot.signature = signSnapshot(snapshot, privateKey);
+
+  const dir = getSnapshotsDir(root);
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+  writeFileSync(getSnapshotPath(root, snapshot.seq), JSON.stringify(snapshot, null, 2));
+  return snapshot;
+}
+
+/**
+ * All snapshots, oldest first.
+ */
+export function listSnapshots(root: string): RecordSnapshot[] {
+  const dir = getSnapshotsDir(root);
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir)
+    .filter((f) => f.endsWith('.json'))
+    .sort()
+    .map((f) => {
+      try {
+        return JSON.parse(readFileSync(join(dir, f), 'utf-8')) as RecordSnapshot;
+      } catch {
+        return null;
+      }
+    })
+    .filter((s): s is RecordSnapshot => s !== null);
+}
+
+export function loadLatestSnapshot(root: string): RecordSnapshot | null {
+  const snapshots = listSnapshots(root);
+  return snapshots[snapshots.length - 1] ?? null;
+}
@@ -106,9 +106,13 @@ Focus on:
 Respond in {{sentences}} sentences.`;
 
 // Config path
+export function getReflectConfigPath(stateRoot?: string): string {
+  const root = stateRoot || process.env.CLAWTEXT_STATE_ROOT || join(process.env.HOME || '', '.openclaw/workspace/state/clawtext/prod');
+  return join(root, 'reflect', 'config.json');
+}
+
 function getConfigPath(): string {
-  const stateRoot = process.env.CLAWTEXT_STATE_ROOT || join(process.env.HOME || '', '.openclaw/workspace/state/clawtext/prod');
-  return join(stateRoot, 'reflect', 'config.json');
+  return getReflectConfigPath();
 }
 
 // Memory cache path
@@ -0,0 +1,532 @@
+/**
+ * ClawText Retention
+ *
+ * Garbage collection for durable memory. Each API memory and cluster entry
+ * belongs to a topic (`metadata.topic`, else `topic`, else its project),
+ * and the topic's extraction strategy carries a RetentionConfig:
+ *
+ *   - `maxAge`      entries idle longer than this are archived
+ *   - `maxEntries`  beyond this many active entries, the least recently
+ *                   active are archived
+ *
+ * Idle time counts from the latest write, mention or retrieval hit
+ * (./salience.ts). Pinned memories are never archived; topics whose strategy
+ * has no retention keep everything. Workspace journal files
+ * (journal/YYYY-MM-DD.jsonl[.gz]) older than `journalMaxAge` are archived too.
+ *
+ * The archive tier is cold but searchable: archived entries are written
+ * gzipped to <stateRoot>/archive/memories/<runId>.jsonl.gz and listed in
+ * <stateRoot>/archive/index.json, which `searchArchive` scans before
+ * opening only the bundles it needs. `restoreArchivedMemory` brings one back.
+ * Archiving an API memory journals memory.deleted (reason `archived`) and
+ * retires it from the knowledge graph; restoring journals and ingests it again.
+ *
+ * Every run (dry runs included) writes a report to <stateRoot>/gc/reports/.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import crypto from 'crypto';
+import { getRetentionConfig, type RetentionConfig } from './extraction/extraction-router.js';
+import { loadSalienceState } from './salience.js';
+import HotMemoryCache from './hot-cache.js';
+import { ClawTextRAG } from './rag.js';
+import { getClawTextProdStateRoot } from './runtime-paths.js';
+import { writeJsonAtomic } from './atomic-write.js';
+import { ingestIntoKnowledgeGraph, memoryToGraphSource, retireGraphSources } from './graph/index.js';
+import { emitTransaction, recordMemoryDeleted, recordMemoryExtracted } from './record/index.js';
+
+// ──────────────────────────────────────────────
+// Types
+// ──────────────────────────────────────────────
+
+export type ArchivedKind = 'api-memory' | 'cluster-entry';
+export type GcReason = 'max-age' | 'max-entries';
+
+export interface GcOptions {
+  /** Report what would be archived without moving anything */
+  dryRun?: boolean;
+  /** Age after which journal files are archived (default 90d) */
+  journalMaxAge?: string;
+  now?: number;
+}
+
+export interface GcAction {
+  kind: ArchivedKind | 'journal';
+  /** Memory id, or the journal file name */
+  id: string;
+  topic?: string;
+  reason: GcReason;
+  lastActiveAt?: string;
+}
+
+export interface GcTopicSummary {
+  retention: Pick<RetentionConfig, 'maxAge' | 'maxEntries'> | null;
+  scanned: number;
+  archived: number;
+}
+
+export interface GcReport {
+  id: string;
+  runAt: string;
+  dryRun: boolean;
+  scanned: { apiMemories: number; clusterEntries: number; journalFiles: number };
+  archived: GcAction[];
+  /** Entries kept only because they are pinned */
+  pinnedKept: number;
+  topics: Record<string, GcTopicSummary>;
+  /** Archive bundle written by this run (null on dry runs or when nothing moved) */
+  archiveFile: string | null;
+}
+
+export interface ArchiveIndexEntry {
+  id: string;
+  kind: ArchivedKind;
+  file: string;
+  topic: string;
+  project: string;
+  archivedAt: string;
+  reason: GcReason;
+  summary: string;
+  keywords: string[];
+}
+
+export interface ArchivedMemory {
+  memory: Record<string, any>;
+  archive: ArchiveIndexEntry;
+}
+
+interface ArchiveRecord {
+  id: string;
+  kind: ArchivedKind;
+  archivedAt: string;
+  reason: GcReason;
+  topic: string;
+  memory: Record<string, any>;
+}
+
+interface RetentionCandidate {
+  kind: ArchivedKind;
+  id: string;
+  topic: string;
+  memory: Record<string, any>;
+  lastActive: number;
+  pinned: boolean;
+  /** Superseded API memories age out but do not count towards maxEntries */
+  superseded: boolean;
+}
+
+// ──────────────────────────────────────────────
+// Helpers
+// ──────────────────────────────────────────────
+
+const DEFAULT_JOURNAL_MAX_AGE = '90d';
+const AGE_UNITS_MS: Record<string, number> = {
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+  y: 365 * 24 * 60 * 60 * 1000,
+};
+
+/** Parse a retention age such as `12h`, `30d`, `6w` or `1y`. */
+export function parseRetentionAge(value: string): number {
+  const match = /^\s*(\d+)\s*([hdwy])\s*$/i.exec(value);
+  if (!match) throw new Error(`Invalid retention age "${value}" (expected e.g. 12h, 30d, 6w, 1y)`);
+  return Number(match[1]) * AGE_UNITS_MS[match[2].toLowerCase()];
+}
+
+export function getArchiveDir(workspacePath: string): string {
+  return path.join(getClawTextProdStateRoot(workspacePath), 'archive');
+}
+
+export function getArchiveIndexPath(workspacePath: string): string {
+  return path.join(getArchiveDir(workspacePath), 'index.json');
+}
+
+export function getGcReportsDir(workspacePath: string): string {
+  return path.join(getClawTextProdStateRoot(workspacePath), 'gc', 'reports');
+}
+
+export function memoryTopic(memory: Record<string, any>): string {
+  return String(memory.metadata?.topic || memory.topic || memory.project || 'general');
+}
+
+function latest(...values: Array<string | null | undefined>): number {
+  const times = values
+    .map((v) => (v ? new Date(v).getTime() : NaN))
+    .filter((t) => Number.isFinite(t));
+  return times.length > 0 ? Math.max(...times) : 0;
+}
+
+function readJson(file: string): any {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch {
+    return null;
+  }
+}
+
+export function loadArchiveIndex(workspacePath: string): Record<string, ArchiveIndexEntry> {
+  const parsed = readJson(getArchiveIndexPath(workspacePath));
+  return parsed?.entries && typeof parsed.entries === 'object' ? parsed.entries : {};
+}
+
+function saveArchiveIndex(workspacePath: string, entries: Record<string, ArchiveIndexEntry>): void {
+  writeJsonAtomic(getArchiveIndexPath(workspacePath), { version: 1, entries });
+}
+
+function readArchiveBundle(workspacePath: string, file: string): ArchiveRecord[] {
+  const target = path.join(getArchiveDir(workspacePath), file);
+  if (!fs.existsSync(target)) return [];
+  return zlib.gunzipSync(fs.readFileSync(target)).toString('utf8')
+    .split('\n')
+    .filter(Boolean)
+    .map((line) => JSON.parse(line) as ArchiveRecord);
+}
+
+// ──────────────────────────────────────────────
+// Collection
+// ──────────────────────────────────────────────
+
+function collectCandidates(workspacePath: string): { candidates: RetentionCandidate[]; clusterEntries: number } {
+  const salience = loadSalienceState(workspacePath);
+  const memoryDir = path.join(workspacePath, 'memory');
+  const apiDir = path.join(memoryDir, 'api-memories');
+  const clustersDir = path.join(memoryDir, 'clusters');
+  const candidates: RetentionCandidate[] = [];
+  const apiIds = new Set<string>();
+
+  if (fs.existsSync(apiDir)) {
+    for (const file of fs.readdirSync(apiDir).filter((f) => f.endsWith('.json'))) {
+      const memory = readJson(path.join(apiDir, file));
+      if (!memory?.id) continue;
+      apiIds.add(memory.id);
+      candidates.push({
+        kind: 'api-memory',
+        id: memory.id,
+        topic: memoryTopic(memory),
+        memory,
+        lastActive: latest(
+          memory.updatedAt, memory.observedAt, memory.createdAt, memory.lastMentionedAt,
+          memory.supersededAt, memory.restoredAt, salience.hits[memory.id]?.lastHitAt,
+        ),
+        pinned: Boolean(salience.pins[memory.id]),
+        superseded: memory.status === 'superseded',
+      });
+    }
+  }
+
+  // Cluster copies of API memories follow their source; the rest (ingested
+  // entries) are judged on their own. A cluster's updatedAt is its build
+  // time, so only mentions and hits count as activity.
+  let clusterEntries = 0;
+  if (fs.existsSync(clustersDir)) {
+    for (const file of fs.readdirSync(clustersDir).filter((f) => f.startsWith('cluster-') && f.endsWith('.json'))) {
+      const cluster = readJson(path.join(clustersDir, file));
+      const memories: Record<string, any>[] = Array.isArray(cluster?.memories) ? cluster.memories : [];
+      for (const memory of memories) {
+        clusterEntries += 1;
+        if (!memory?.id || apiIds.has(memory.id)) continue;
+        const withProject = { project: cluster.projectId, ...memory };
+        candidates.push({
+          kind: 'cluster-entry',
+          id: memory.id,
+          topic: memoryTopic(withProject),
+          memory: withProject,
+          lastActive: latest(memory.lastMentionedAt, memory.createdAt, memory.restoredAt, salience.hits[memory.id]?.lastHitAt)
+            || latest(memory.updatedAt),
+          pinned: Boolean(salience.pins[memory.id]),
+          superseded: false,
+        });
+      }
+    }
+  }
+
+  return { candidates, clusterEntries };
+}
+
+function selectForArchive(
+  candidates: RetentionCandidate[],
+  retentionFor: (topic: string) => RetentionConfig | null,
+  now: number,
+  topics: Record<string, GcTopicSummary>,
+): { selected: Map<RetentionCandidate, GcReason>; pinnedKept: number } {
+  const selected = new Map<RetentionCandidate, GcReason>();
+  let pinnedKept = 0;
+
+  const byTopic = new Map<string, RetentionCandidate[]>();
+  for (const candidate of candidates) {
+    byTopic.set(candidate.topic, [...(byTopic.get(candidate.topic) ?? []), candidate]);
+  }
+
+  for (const [topic, group] of byTopic) {
+    const retention = retentionFor(topic);
+    const summary: GcTopicSummary = {
+      retention: retention ? { maxAge: retention.maxAge, maxEntries: retention.maxEntries } : null,
+      scanned: group.length,
+      archived: 0,
+    };
+    topics[topic] = summary;
+    if (!retention || (!retention.maxAge && retention.maxEntries === undefined)) continue;
+
+    const maxAgeMs = retention.maxAge ? parseRetentionAge(retention.maxAge) : Number.POSITIVE_INFINITY;
+    for (const candidate of group) {
+      if (now - candidate.lastActive <= maxAgeMs) continue;
+      if (candidate.pinned) pinnedKept += 1;
+      else selected.set(candidate, 'max-age');
+    }
+
+    if (retention.maxEntries !== undefined) {
+      // Pinned entries take their place in the quota but are never dropped
+      const active = group
+        .filter((c) => !c.superseded && !selected.has(c))
+        .sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.lastActive - a.lastActive);
+      for (const candidate of active.slice(Math.max(0, retention.maxEntries))) {
+        if (candidate.pinned) pinnedKept += 1;
+        else selected.set(candidate, 'max-entries');
+      }
+    }
+
+    summary.archived = group.filter((c) => selected.has(c)).length;
+  }
+
+  return { selected, pinnedKept };
+}
+
+function listJournalFiles(workspacePath: string): string[] {
+  const journalDir = path.join(workspacePath, 'journal');
+  if (!fs.existsSync(journalDir)) return [];
+  return fs.readdirSync(journalDir).filter((f) => /^\d{4}-\d{2}-\d{2}\.jsonl(\.gz)?$/.test(f)).sort();
+}
+
+// ──────────────────────────────────────────────
+// GC
+// ──────────────────────────────────────────────
+
+/**
+ * Archive memories, cluster entries and journal files past their topic's
+ * retention. With `dryRun` nothing moves, but the report is still written.
+ */
+export function runRetentionGc(workspacePath: string, options: GcOptions = {}): GcReport {
+  const now = options.now ?? Date.now();
+  const runAt = new Date(now).toISOString();
+  const dryRun = Boolean(options.dryRun);
+  const journalMaxAgeMs = parseRetentionAge(options.journalMaxAge ?? DEFAULT_JOURNAL_MAX_AGE);
+  const id = `gc_${runAt.replace(/[-:.]/g, '').slice(0, 15)}_${crypto.randomBytes(3).toString('hex')}`;
+
+  const retentionCache = new Map<string, RetentionConfig | null>();
+  const retentionFor = (topic: string) => {
+    if (!retentionCache.has(topic)) retentionCache.set(topic, getRetentionConfig(workspacePath, topic));
+    return retentionCache.get(topic) ?? null;
+  };
+
+  const { candidates, clusterEntries } = collectCandidates(workspacePath);
+  const topics: Record<string, GcTopicSummary> = {};
+  const { selected, pinnedKept } = selectForArchive(candidates, retentionFor, now, topics);
+
+  const journalFiles = listJournalFiles(workspacePath);
+  const staleJournals = journalFiles.filter((f) => now - new Date(`${f.slice(0, 10)}T23:59:59.999Z`).getTime() > journalMaxAgeMs);
+
+  const archived: GcAction[] = [
+    ...Array.from(selected, ([candidate, reason]) => ({
+      kind: candidate.kind,
+      id: candidate.id,
+      topic: candidate.topic,
+      reason,
+      lastActiveAt: candidate.lastActive ? new Date(candidate.lastActive).toISOString() : undefined,
+    })),
+    ...staleJournals.map((file): GcAction => ({ kind: 'journal', id: file, reason: 'max-age' })),
+  ];
+
+  let archiveFile: string | null = null;
+  if (!dryRun && selected.size > 0) {
+    archiveFile = archiveCandidates(workspacePath, id, runAt, selected);
+  }
+  if (!dryRun) {
+    for (const file of staleJournals) archiveJournalFile(workspacePath, file);
+  }
+
+  const report: GcReport = {
+    id,
+    runAt,
+    dryRun,
+    scanned: {
+      apiMemories: candidates.filter((c) => c.kind === 'api-memory').length,
+      clusterEntries,
+      journalFiles: journalFiles.length,
+    },
+    archived,
+    pinnedKept,
+    topics,
+    archiveFile,
+  };
+  writeJsonAtomic(path.join(getGcReportsDir(workspacePath), `${id}.json`), report);
+  return report;
+}
+
+function archiveCandidates(
+  workspacePath: string,
+  runId: string,
+  archivedAt: string,
+  selected: Map<RetentionCandidate, GcReason>,
+): string {
+  const file = path.join('memories', `${runId}.jsonl.gz`);
+  const records: ArchiveRecord[] = Array.from(selected, ([c, reason]) => ({
+    id: c.id, kind: c.kind, archivedAt, reason, topic: c.topic, memory: c.memory,
+  }));
+
+  // Bundle and index first, so a crash part-way leaves copies, never losses
+  const target = path.join(getArchiveDir(workspacePath), file);
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  fs.writeFileSync(target, zlib.gzipSync(records.map((r) => JSON.stringify(r)).join('\n') + '\n'));
+
+  const index = loadArchiveIndex(workspacePath);
+  for (const record of records) {
+    index[record.id] = {
+      id: record.id,
+      kind: record.kind,
+      file,
+      topic: record.topic,
+      project: String(record.memory.project || 'general'),
+      archivedAt,
+      reason: record.reason,
+      summary: String(record.memory.summary || record.memory.content || record.memory.body || '').replace(/\s+/g, ' ').slice(0, 240),
+      keywords: Array.isArray(record.memory.keywords) ? record.memory.keywords : [],
+    };
+  }
+  saveArchiveIndex(workspacePath, index);
+
+  const memoryDir = path.join(workspacePath, 'memory');
+  const archivedIds = new Set(records.map((r) => r.id));
+  const stateRoot = getClawTextProdStateRoot(workspacePath);
+  for (const record of records) {
+    if (record.kind !== 'api-memory') continue;
+    fs.rmSync(path.join(memoryDir, 'api-memories', `${record.id}.json`), { force: true });
+    emitTransaction(() => recordMemoryDeleted(record.id, 'archived', { stateRoot }));
+  }
+  try {
+    retireGraphSources(workspacePath, archivedIds, archivedAt);
+  } catch {
+    // The graph can be rebuilt with syncKnowledgeGraph
+  }
+
+  const clustersDir = path.join(memoryDir, 'clusters');
+  if (fs.existsSync(clustersDir)) {
+    for (const name of fs.readdirSync(clustersDir).filter((f) => f.startsWith('cluster-') && f.endsWith('.json'))) {
+      const clusterPath = path.join(clustersDir, name);
+      const cluster = readJson(clusterPath);
+      if (!Array.isArray(cluster?.memories)) continue;
+      const kept = cluster.memories.filter((m: Record<string, any>) => !archivedIds.has(m?.id));
+      if (kept.length !== cluster.memories.length) writeJsonAtomic(clusterPath, { ...cluster, memories: kept });
+    }
+  }
+
+  const cache = new HotMemoryCache(workspacePath);
+  for (const memoryId of archivedIds) cache.evictMemory(memoryId);
+  ClawTextRAG.invalidateCache(workspacePath);
+  return file;
+}
+
+function archiveJournalFile(workspacePath: string, file: string): void {
+  const source = path.join(workspacePath, 'journal', file);
+  const target = path.join(getArchiveDir(workspacePath), 'journal', file.endsWith('.gz') ? file : `${file}.gz`);
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  if (file.endsWith('.gz')) {
+    fs.copyFileSync(source, target);
+  } else {
+    fs.writeFileSync(target, zlib.gzipSync(fs.readFileSync(source), { level: 9 }));
+  }
+  fs.rmSync(source);
+}
+
+export function loadGcReports(workspacePath: string): GcReport[] {
+  const dir = getGcReportsDir(workspacePath);
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir)
+    .filter((f) => f.endsWith('.json'))
+    .map((f) => readJson(path.join(dir, f)) as GcReport | null)
+    .filter((r): r is GcReport => Boolean(r))
+    .sort((a, b) => a.runAt.localeCompare(b.runAt));
+}
+
+// ──────────────────────────────────────────────
+// Archive search and restore
+// ──────────────────────────────────────────────
+
+/**
+ * Search archived memories. Matches query terms against the index summary
+ * and keywords, then reads the full records from the matching bundles.
+ */
+export function searchArchive(
+  workspacePath: string,
+  query: string,
+  options: { limit?: number; project?: string } = {},
+): ArchivedMemory[] {
+  const terms = query.toLowerCase().split(/\s+/).filter((t) => t.length > 2);
+  if (terms.length === 0) return [];
+
+  const hits = Object.values(loadArchiveIndex(workspacePath))
+    .filter((entry) => !options.project || entry.project === options.project)
+    .map((entry) => {
+      const text = `${entry.summary} ${entry.keywords.join(' ')}`.toLowerCase();
+      return { entry, score: terms.filter((t) => text.includes(t)).length };
+    })
+    .filter((hit) => hit.score > 0)
+    .sort((a, b) => b.score - a.score || b.entry.archivedAt.localeCompare(a.entry.archivedAt))
+    .slice(0, options.limit ?? 10);
+
+  const bundles = new Map<string, Map<string, ArchiveRecord>>();
+  const results: ArchivedMemory[] = [];
+  for (const { entry } of hits) {
+    if (!bundles.has(entry.file)) {
+      bundles.set(entry.file, new Map(readArchiveBundle(workspacePath, entry.file).map((r) => [r.id, r])));
+    }
+    const record = bundles.get(entry.file)!.get(entry.id);
+    if (record) results.push({ memory: record.memory, archive: entry });
+  }
+  return results;
+}
+
+/**
+ * Move an archived memory back: API memories to api-memories/, cluster
+ * entries into their project's cluster. The bundle keeps its copy.
+ */
+export function restoreArchivedMemory(workspacePath: string, memoryId: string): Record<string, any> {
+  const index = loadArchiveIndex(workspacePath);
+  const entry = index[memoryId];
+  if (!entry) throw new Error(`Archived memory ${memoryId} not found`);
+  const record = readArchiveBundle(workspacePath, entry.file).find((r) => r.id === memoryId);
+  if (!record) throw new Error(`Archive bundle ${entry.file} has no record for ${memoryId}`);
+
+  // restoredAt counts as activity, so the next run does not archive it again
+  const memory: Record<string, any> = { ...record.memory, restoredAt: new Date().toISOString() };
+  const memoryDir = path.join(workspacePath, 'memory');
+  if (record.kind === 'api-memory') {
+    writeJsonAtomic(path.join(memoryDir, 'api-memories', `${memoryId}.json`), memory);
+    emitTransaction(() => recordMemoryExtracted(memory.sessionId || 'api', [{
+      text: String(memory.body || ''),
+      confidence: memory.confidence,
+      tags: Array.isArray(memory.tags) ? memory.tags : [],
+      memoryId,
+      project: memory.project,
+      type: memory.type,
+    }], { stateRoot: getClawTextProdStateRoot(workspacePath) }));
+  } else {
+    const clusterPath = path.join(memoryDir, 'clusters', `cluster-${entry.project}.json`);
+    const cluster = readJson(clusterPath) ?? { projectId: entry.project, memories: [], builtAt: new Date().toISOString() };
+    const memories = (Array.isArray(cluster.memories) ? cluster.memories : []).filter((m: Record<string, any>) => m?.id !== memoryId);
+    writeJsonAtomic(clusterPath, { ...cluster, memories: [...memories, memory] });
+  }
+
+  delete index[memoryId];
+  saveArchiveIndex(workspacePath, index);
+  try {
+    const source = memoryToGraphSource(memory);
+    if (source) ingestIntoKnowledgeGraph(workspacePath, [source]);
+  } catch {
+    // The graph can be rebuilt with syncKnowledgeGraph
+  }
+  ClawTextRAG.invalidateCache(workspacePath);
+  return memory;
+}
@@ -0,0 +1,289 @@
+/**
+ * ClawText Salience
+ *
+ * One model for how much a memory still matters, shared by ClawTextRAG,
+ * HotMemoryCache, ClawTextMemory.search and operational retrieval:
+ *
+ *   - decay      half-life by content type (CONTENT_TYPE_HALF_LIFE_DAYS),
+ *                counted from the last time the memory was reinforced
+ *   - mentions   every repeat mention (mentionCount) and retrieval hit
+ *                stretches the half-life, so memories that keep coming up
+ *                fade more slowly
+ *   - hits       retrieval hits reset the decay clock (lastHitAt)
+ *   - pins       pinned memories never fade
+ *
+ * Salience runs from SALIENCE_FLOOR (long forgotten) to 1 (fresh or pinned).
+ * Retrieval multiplies relevance by it, so a faded memory still surfaces when
+ * it is the only good match.
+ *
+ * Pins and durable retrieval hits are stored at <stateRoot>/salience.json.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import {
+  classifyContentType,
+  CONTENT_TYPE_HALF_LIFE_DAYS,
+  type ContentType,
+} from './content-type-classifier.js';
+import { getClawTextProdStateRoot } from './runtime-paths.js';
+import { writeJsonAtomic } from './atomic-write.js';
+
+// ──────────────────────────────────────────────
+// Types
+// ──────────────────────────────────────────────
+
+export interface SalienceSignals {
+  content?: string;
+  /** Memory type; decides the half-life when it names a content type */
+  type?: string;
+  /** Overrides the half-life derived from type/content */
+  halfLifeDays?: number;
+  createdAt?: string | null;
+  updatedAt?: string | null;
+  observedAt?: string | null;
+  lastMentionedAt?: string | null;
+  mentionCount?: number;
+  hitCount?: number;
+  lastHitAt?: string | null;
+  pinned?: boolean;
+}
+
+export interface Salience {
+  /** SALIENCE_FLOOR..1 */
+  salience: number;
+  /** Raw half-life decay 0..1 */
+  decay: number;
+  halfLifeDays: number;
+  /** Half-life after mention and hit reinforcement */
+  effectiveHalfLifeDays: number;
+  reinforcements: number;
+  lastReinforcedAt: string | null;
+  ageDays: number;
+  pinned: boolean;
+}
+
+export interface SalienceHit {
+  count: number;
+  lastHitAt: string;
+}
+
+export interface SaliencePin {
+  pinnedAt: string;
+  pinnedBy?: string;
+}
+
+export interface SalienceState {
+  version: 1;
+  pins: Record<string, SaliencePin>;
+  hits: Record<string, SalienceHit>;
+}
+
+export interface SalienceReportEntry extends Salience {
+  id: string;
+  project: string;
+  type: string;
+  summary: string;
+  fading: boolean;
+}
+
+export interface SalienceReport {
+  generatedAt: string;
+  threshold: number;
+  total: number;
+  pinned: number;
+  fading: number;
+  /** Lowest salience first */
+  entries: SalienceReportEntry[];
+}
+
+// ──────────────────────────────────────────────
+// Model
+// ──────────────────────────────────────────────
+
+export const SALIENCE_FLOOR = 0.25;
+/** Memories below this salience are reported as fading */
+export const DEFAULT_FADING_THRESHOLD = 0.5;
+/** Durable memories classified as ack/noise still get this long */
+export const MIN_DURABLE_HALF_LIFE_DAYS = 7;
+const REINFORCEMENT_GAIN = 0.5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MEMORY_TYPE_CONTENT: Record<string, ContentType> = {
+  decision: 'decision',
+  spec: 'spec',
+  reference: 'spec',
+  protocol: 'spec',
+  preference: 'preference',
+  skill: 'skill',
+  attribute: 'attribute',
+};
+
+function parseTime(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const ts = new Date(value).getTime();
+  return Number.isFinite(ts) ? ts : null;
+}
+
+export function resolveHalfLifeDays(signals: Pick<SalienceSignals, 'content' | 'type' | 'halfLifeDays'>): number {
+  if (signals.halfLifeDays !== undefined) return signals.halfLifeDays;
+  const mapped = signals.type ? MEMORY_TYPE_CONTENT[signals.type] : undefined;
+  const halfLife = mapped
+    ? CONTENT_TYPE_HALF_LIFE_DAYS[mapped]
+    : classifyContentType(signals.content ?? '').halfLifeDays;
+  return Math.max(MIN_DURABLE_HALF_LIFE_DAYS, halfLife);
+}
+
+export function computeSalience(signals: SalienceSignals, now: number = Date.now()): Salience {
+  const halfLifeDays = resolveHalfLifeDays(signals);
+  const mentions = Number.isFinite(signals.mentionCount) ? Math.max(1, Number(signals.mentionCount)) : 1;
+  const reinforcements = (mentions - 1) + Math.max(0, signals.hitCount ?? 0);
+  const effectiveHalfLifeDays = halfLifeDays * (1 + REINFORCEMENT_GAIN * Math.log2(1 + reinforcements));
+
+  const times = [signals.updatedAt, signals.observedAt, signals.createdAt, signals.lastMentionedAt, signals.lastHitAt]
+    .map(parseTime)
+    .filter((ts): ts is number => ts !== null);
+  const lastReinforced = times.length > 0 ? Math.max(...times) : null;
+  const ageDays = lastReinforced === null ? 0 : Math.max(0, now - lastReinforced) / DAY_MS;
+
+  const decay = Number.isFinite(effectiveHalfLifeDays) ? Math.pow(0.5, ageDays / effectiveHalfLifeDays) : 1;
+  const pinned = Boolean(signals.pinned);
+  return {
+    salience: pinned ? 1 : SALIENCE_FLOOR + (1 - SALIENCE_FLOOR) * decay,
+    decay,
+    halfLifeDays,
+    effectiveHalfLifeDays,
+    reinforcements,
+    lastReinforcedAt: lastReinforced === null ? null : new Date(lastReinforced).toISOString(),
+    ageDays,
+    pinned,
+  };
+}
+
+/**
+ * Salience of a stored memory (API or cluster record), folding in the pins
+ * and retrieval hits kept in the salience state.
+ */
+export function memorySalience(memory: Record<string, any>, state: SalienceState, now: number = Date.now()): Salience {
+  const id = typeof memory.id === 'string' ? memory.id : '';
+  const hit = id ? state.hits[id] : undefined;
+  return computeSalience({
+    content: String(memory.content ?? memory.body ?? memory.summary ?? ''),
+    type: memory.type,
+    createdAt: memory.createdAt,
+    updatedAt: memory.updatedAt,
+    observedAt: memory.observedAt,
+    lastMentionedAt: memory.lastMentionedAt,
+    mentionCount: memory.mentionCount,
+    hitCount: hit?.count,
+    lastHitAt: hit?.lastHitAt,
+    pinned: Boolean(memory.pinned) || Boolean(id && state.pins[id]),
+  }, now);
+}
+
+// ──────────────────────────────────────────────
+// State (pins and retrieval hits)
+// ──────────────────────────────────────────────
+
+export function getSalienceStatePath(workspacePath: string): string {
+  return path.join(getClawTextProdStateRoot(workspacePath), 'salience.json');
+}
+
+export function loadSalienceState(workspacePath: string): SalienceState {
+  const empty: SalienceState = { version: 1, pins: {}, hits: {} };
+  const target = getSalienceStatePath(workspacePath);
+  if (!fs.existsSync(target)) return empty;
+  try {
+    const parsed = JSON.parse(fs.readFileSync(target, 'utf8'));
+    return {
+      version: 1,
+      pins: parsed?.pins && typeof parsed.pins === 'object' ? parsed.pins : {},
+      hits: parsed?.hits && typeof parsed.hits === 'object' ? parsed.hits : {},
+    };
+  } catch {
+    return empty;
+  }
+}
+
+function saveSalienceState(workspacePath: string, state: SalienceState): void {
+  const target = getSalienceStatePath(workspacePath);
+  writeJsonAtomic(target, state);
+}
+
+export function pinMemory(workspacePath: string, memoryId: string, pinnedBy?: string): SaliencePin {
+  const state = loadSalienceState(workspacePath);
+  const pin: SaliencePin = { pinnedAt: new Date().toISOString(), ...(pinnedBy ? { pinnedBy } : {}) };
+  state.pins[memoryId] = pin;
+  saveSalienceState(workspacePath, state);
+  return pin;
+}
+
+/** Returns false when the memory was not pinned */
+export function unpinMemory(workspacePath: string, memoryId: string): boolean {
+  const state = loadSalienceState(workspacePath);
+  if (!state.pins[memoryId]) return false;
+  delete state.pins[memoryId];
+  saveSalienceState(workspacePath, state);
+  return true;
+}
+
+/** Count a retrieval hit for each id: it was injected or returned by search. */
+export function recordSalienceHits(workspacePath: string, memoryIds: string[], at: string = new Date().toISOString()): void {
+  const ids = Array.from(new Set(memoryIds.filter(Boolean)));
+  if (ids.length === 0) return;
+  const state = loadSalienceState(workspacePath);
+  for (const id of ids) {
+    state.hits[id] = { count: (state.hits[id]?.count ?? 0) + 1, lastHitAt: at };
+  }
+  saveSalienceState(workspacePath, state);
+}
+
+// ──────────────────────────────────────────────
+// Report
+// ──────────────────────────────────────────────
+
+/**
+ * Salience of every active API memory, lowest first. Superseded memories
+ * are left out; they are never retrieved anyway.
+ */
+export function buildSalienceReport(
+  workspacePath: string,
+  options: { threshold?: number; now?: number } = {},
+): SalienceReport {
+  const threshold = options.threshold ?? DEFAULT_FADING_THRESHOLD;
+  const now = options.now ?? Date.now();
+  const state = loadSalienceState(workspacePath);
+  const memoriesDir = path.join(workspacePath, 'memory', 'api-memories');
+  const entries: SalienceReportEntry[] = [];
+
+  if (fs.existsSync(memoriesDir)) {
+    for (const file of fs.readdirSync(memoriesDir).filter((f) => f.endsWith('.json'))) {
+      let memory: Record<string, any>;
+      try {
+        memory = JSON.parse(fs.readFileSync(path.join(memoriesDir, file), 'utf8'));
+      } catch {
+        continue;
+      }
+      if (!memory.id || memory.status === 'superseded') continue;
+      const salience = memorySalience(memory, state, now);
+      entries.push({
+        id: memory.id,
+        project: memory.project || 'general',
+        type: memory.type || 'note',
+        summary: String(memory.summary || memory.body || '').replace(/\s+/g, ' ').slice(0, 120),
+        ...salience,
+        fading: !salience.pinned && salience.salience < threshold,
+      });
+    }
+  }
+
+  entries.sort((a, b) => a.salience - b.salience || a.id.localeCompare(b.id));
+  return {
+    generatedAt: new Date(now).toISOString(),
+    threshold,
+    total: entries.length,
+    pinned: entries.filter((e) => e.pinned).length,
+    fading: entries.filter((e) => e.fading).length,
+    entries,
+  };
+}
@@ -3,18 +3,35 @@ import type { CompactResult } from 'openclaw/plugin-sdk/context-engine';
 import {
   createCondensedSummary,
   createLeafSummary,
+  getSummaryLineage,
   getLeafSummaries,
   getSummarizableMessages,
   markMessagesAsSummarized,
   type SummarizableMessageRow,
 } from './dag';
 import { withTransaction } from './db';
+import {
+  buildFidelityRetryLines,
+  collectFidelityRequirements,
+  narrowFidelityRequirements,
+  scoreSummaryFidelity,
+  type FidelityRequirements,
+  type FidelitySource,
+} from './fidelity';
+import { formatFilesTouched, getFilesTouched, type FileTouchSummary } from './resource-versions.js';
 
 const DEFAULT_SUMMARIZATION_MODEL = 'anthropic/claude-haiku-4-5';
 const DEFAULT_MAX_SUMMARIZATIONS_PER_HOUR = 10;
 const DEFAULT_FRESH_TAIL_SIZE = 20;
 const DEFAULT_LEAF_BATCH_SIZE = 30;
 const DEFAULT_TOKEN_BUDGET = 128_000;
+const DEFAULT_MIN_FIDELITY_SCORE = 0.5;
+const DEFAULT_FIDELITY_RETRIES = 1;
+
+const DEFAULT_SUMMARY_INSTRUCTIONS = [
+  'Summarize the following conversation segment compactly.',
+  'Preserve: key decisions, active tasks, blockers, and unresolved questions.',
+];
 
 type CondensableSummary = {
   id: number;
@@ -34,9 +51,10 @@ type SummarizationApi = {
 
 type SummarizationFailure =
   | { ok: false; reason: 'summarization_cap_reached' }
-  | { ok: false; reason: 'model_error'; error: unknown };
+  | { ok: false; reason: 'model_error'; error: unknown }
+  | { ok: false; reason: 'low_fidelity'; score: number };
 
-type SummarizationSuccess = { ok: true; summary: string };
+type SummarizationSuccess = { ok: true; summary: string; fidelity?: number };
 
 type SummarizationResult = SummarizationFailure | SummarizationSuccess;
 
@@ -45,18 +63,41 @@ export type CompactorConfig = {
   maxSummarizationsPerHour: number;
   freshTailSize: number;
   leafBatchSize: number;
+  /** Summaries scoring below this after retries are rejected; 0 accepts every summary */
+  minFidelityScore: number;
+  /** Extra model calls for a summary that failed the fidelity check */
+  fidelityRetries: number;
+};
+
+export type FidelityStats = {
+  accepted: number;
+  retried: number;
+  rejected: number;
+  /** Lowest score among accepted summaries */
+  lowestScore: number | null;
 };
 
 export type LeafPassResult = {
   summarizedCount: number;
   skipped: boolean;
   reason?: string;
+  fidelity?: FidelityStats;
+};
+
+export type ResummarizeResult = {
+  /** Summaries rewritten, children before parents */
+  updatedIds: number[];
+  /** Leaves whose messages are gone (truncated); left as they were */
+  skippedIds: number[];
+  calls: number;
+  reason?: string;
 };
 
 export type CondensationPassResult = {
   condensedCount: number;
   skipped: boolean;
   reason?: string;
+  fidelity?: FidelityStats;
 };
 
 type CompactionParams = {
@@ -121,23 +162,105 @@ export function resolveCompactorConfig(partial?: Partial<CompactorConfig> | null
       typeof partial?.leafBatchSize === 'number' && Number.isFinite(partial.leafBatchSize) && partial.leafBatchSize > 0
         ? Math.floor(partial.leafBatchSize)
         : DEFAULT_LEAF_BATCH_SIZE,
+    minFidelityScore:
+      typeof partial?.minFidelityScore === 'number' && partial.minFidelityScore >= 0 && partial.minFidelityScore <= 1
+        ? partial.minFidelityScore
+        : DEFAULT_MIN_FIDELITY_SCORE,
+    fidelityRetries:
+      typeof partial?.fidelityRetries === 'number' && Number.isFinite(partial.fidelityRetries) && partial.fidelityRetries >= 0
+        ? Math.floor(partial.fidelityRetries)
+        : DEFAULT_FIDELITY_RETRIES,
   };
 }
 
-export function buildLeafSummaryPrompt(messages: PromptMessage[]): string {
+/**
+ * `instructions` replace the default summarize/preserve lines, for
+ * re-summarizing with a different prompt.
+ */
+export function buildLeafSummaryPrompt(messages: PromptMessage[], filesTouched: string[] = [], instructions?: string): string {
   const lines = messages.map((message) => {
     const compactContent = message.content.replace(/\s+/g, ' ').trim();
     return `[${message.message_index}] ${message.role}: ${compactContent}`;
   });
 
+  const filesBlock = filesTouched.length > 0
+    ? [
+      'Keep a "Files touched" line in the summary naming these files and what happened to them.',
+      'Files touched in this segment:',
+      ...filesTouched.map((line) => `- ${line}`),
+    ]
+    : [];
+
+  const instructionLines = instructions && instructions.trim().length > 0
+    ? [instructions.trim()]
+    : DEFAULT_SUMMARY_INSTRUCTIONS;
+
   return [
-    'Summarize the following conversation segment compactly.',
-    'Preserve: key decisions, active tasks, blockers, and unresolved questions.',
+    ...instructionLines,
     'Output plain text only.',
+    ...filesBlock,
     ...lines,
   ].join('\n');
 }
 
+/** Files read, written or edited between two turns of a conversation. */
+function filesForTurns(db: DatabaseSync, conversationId: number, turns: number[]): FileTouchSummary[] {
+  if (turns.length === 0) return [];
+
+  // resource_versions are keyed by the session key, not the numeric conversation id
+  const row = db
+    .prepare('SELECT session_key FROM conversations WHERE id = ? LIMIT 1')
+    .get(conversationId) as { session_key: string | null } | undefined;
+  if (!row || typeof row.session_key !== 'string') return [];
+
+  return getFilesTouched(db, row.session_key, {
+    fromTurn: Math.min(...turns),
+    toTurn: Math.max(...turns),
+  }).files;
+}
+
+/** Files read, written or edited in a batch's turn range, one line each. */
+function filesTouchedForBatch(db: DatabaseSync, conversationId: number, batch: SummarizableMessageRow[]): string[] {
+  return formatFilesTouched(filesForTurns(db, conversationId, batch.map((message) => message.message_index)), { limit: 15 });
+}
+
+function leafRequirements(db: DatabaseSync, conversationId: number, batch: SummarizableMessageRow[]): FidelityRequirements {
+  const files = filesForTurns(db, conversationId, batch.map((message) => message.message_index));
+  return collectFidelityRequirements(batch, files.map((file) => file.path));
+}
+
+/**
+ * A condensed summary answers for what its children still carry: the
+ * decisions and files of the messages below them that the children kept,
+ * and the children's own salient terms.
+ */
+function condensationRequirements(db: DatabaseSync, conversationId: number, group: CondensableSummary[]): FidelityRequirements {
+  const messageIds = [...new Set(group.flatMap((summary) => getSummaryLineage(db, summary.id).messageIds))];
+  const messages = messageIds.length === 0
+    ? []
+    : db
+      .prepare(
+        `SELECT role, content, message_index
+           FROM messages
+          WHERE id IN (${messageIds.map(() => '?').join(', ')})
+          ORDER BY message_index ASC`,
+      )
+      .all(...messageIds) as Array<FidelitySource & { message_index: number }>;
+
+  const files = filesForTurns(db, conversationId, messages.map((message) => message.message_index));
+  const childText = group.map((summary) => summary.content).join('\n');
+  const fromMessages = narrowFidelityRequirements(
+    collectFidelityRequirements(messages, files.map((file) => file.path)),
+    childText,
+  );
+  const fromChildren = collectFidelityRequirements(group.map((summary) => ({ role: 'summary', content: summary.content })));
+  return { decisions: fromMessages.decisions, files: fromMessages.files, terms: fromChildren.terms };
+}
+
+function emptyFidelityStats(): FidelityStats {
+  return { accepted: 0, retried: 0, rejected: 0, lowestScore: null };
+}
+
 function chunkMessages<T>(items: T[], chunkSize: number): T[][] {
   const result: T[][] = [];
   for (let i = 0; i < items.length; i += chunkSize) {
@@ -339,12 +462,14 @@ export async function summarizeMessages(
   messages: PromptMessage[],
   config: CompactorConfig,
   tracker: SummarizationTracker,
+  filesTouched?: string[],
+  instructions?: string,
 ): Promise<SummarizationResult> {
   if (!tracker.canSummarize()) {
     return { ok: false, reason: 'summarization_cap_reached' };
   }
 
-  const prompt = buildLeafSummaryPrompt(messages);
+  const prompt = buildLeafSummaryPrompt(messages, filesTouched, instructions);
   const estimatedInputTokens = estimatePromptTokens(prompt);
 
   try {
@@ -364,6 +489,50 @@ export async function summarizeMessages(
   }
 }
 
+/**
+ * summarizeMessages followed by the fidelity check. A summary below
+ * `minFidelityScore` is retried with the missing items named in the
+ * prompt, up to `fidelityRetries` times, then rejected.
+ */
+async function summarizeWithFidelity(
+  api: SummarizationApi,
+  messages: PromptMessage[],
+  requirements: FidelityRequirements,
+  config: CompactorConfig,
+  tracker: SummarizationTracker,
+  stats: FidelityStats,
+  filesTouched?: string[],
+): Promise<SummarizationResult> {
+  let instructions: string | undefined;
+
+  for (let attempt = 0; ; attempt += 1) {
+    const summarized = await summarizeMessages(api, messages, config, tracker, filesTouched, instructions);
+    if (!summarized.ok) return summarized;
+
+    const report = scoreSummaryFidelity(summarized.summary, requirements);
+    if (report.score >= config.minFidelityScore) {
+      stats.accepted += 1;
+      stats.lowestScore = stats.lowestScore === null ? report.score : Math.min(stats.lowestScore, report.score);
+      return { ...summarized, fidelity: report.score };
+    }
+
+    const missing = report.decisions.missing.length + report.files.missing.length + report.terms.missing.length;
+    if (attempt >= config.fidelityRetries) {
+      stats.rejected += 1;
+      console.warn(
+        `[clawtext-session-intelligence] summary rejected: fidelity=${report.score.toFixed(2)} below ${config.minFidelityScore} after ${attempt + 1} attempt(s), ${missing} item(s) missing`,
+      );
+      return { ok: false, reason: 'low_fidelity', score: report.score };
+    }
+
+    stats.retried += 1;
+    console.warn(
+      `[clawtext-session-intelligence] summary retry: fidelity=${report.score.toFixed(2)} below ${config.minFidelityScore}, ${missing} item(s) missing`,
+    );
+    instructions = [...DEFAULT_SUMMARY_INSTRUCTIONS, ...buildFidelityRetryLines(report)].join('\n');
+  }
+}
+
 export async function runLeafPass(
   db: DatabaseSync,
   api: SummarizationApi,
@@ -382,10 +551,19 @@ export async function runLeafPass(
   }
 
   const batches = chunkMessages(candidates, config.leafBatchSize);
+  const fidelity = emptyFidelityStats();
   let summarizedCount = 0;
 
   for (const batch of batches) {
-    const summarized = await summarizeMessages(api, toPromptMessages(batch), config, tracker);
+    const summarized = await summarizeWithFidelity(
+      api,
+      toPromptMessages(batch),
+      leafRequirements(db, conversationId, batch),
+      config,
+      tracker,
+      fidelity,
+      filesTouchedForBatch(db, conversationId, batch),
+    );
     if (!summarized.ok) {
       if (summarized.reason === 'summarization_cap_reached') {
         console.warn('[clawtext-session-intelligence] leaf pass stopped: summarization cap reached');
@@ -393,10 +571,12 @@ export async function runLeafPass(
           summarizedCount,
           skipped: summarizedCount === 0,
           reason: 'summarization_cap_reached',
+          fidelity,
         };
       }
 
-      console.warn('[clawtext-session-intelligence] leaf pass skipping batch due to model error');
+      // Rejected batches stay as raw messages for a later pass
+      console.warn(`[clawtext-session-intelligence] leaf pass skipping batch due to ${summarized.reason === 'low_fidelity' ? 'low fidelity' : 'model error'}`);
       continue;
     }
 
@@ -410,12 +590,14 @@ export async function runLeafPass(
   }
 
   console.log(
-    `[clawtext-session-intelligence] leaf pass end: conversation=${conversationId} summarized_messages=${summarizedCount}`,
+    `[clawtext-session-intelligence] leaf pass end: conversation=${conversationId} summarized_messages=${summarizedCount} rejected_batches=${fidelity.rejected}`,
   );
 
   return {
     summarizedCount,
     skipped: summarizedCount === 0,
+    reason: summarizedCount === 0 && fidelity.rejected > 0 ? 'low_fidelity' : undefined,
+    fidelity,
   };
 }
 
@@ -432,10 +614,18 @@ export async function runCondensationPass(
   }
 
   const groups = chunkMessages(leaves, 5).filter((group) => group.length >= 2);
+  const fidelity = emptyFidelityStats();
   let condensedCount = 0;
 
   for (const group of groups) {
-    const summarized = await summarizeMessages(api, summariesToPromptMessages(group), config, tracker);
+    const summarized = await summarizeWithFidelity(
+      api,
+      summariesToPromptMessages(group),
+      condensationRequirements(db, conversationId, group),
+      config,
+      tracker,
+      fidelity,
+    );
 
     if (!summarized.ok) {
       if (summarized.reason === 'summarization_cap_reached') {
@@ -444,9 +634,10 @@ export async function runCondensationPass(
           condensedCount,
           skipped: condensedCount === 0,
           reason: 'summarization_cap_reached',
+          fidelity,
         };
       }
-      console.warn('[clawtext-session-intelligence] condensation pass skipping group due to model error');
+      console.warn(`[clawtext-session-intelligence] condensation pass skipping group due to ${summarized.reason === 'low_fidelity' ? 'low fidelity' : 'model error'}`);
       continue;
     }
 
@@ -462,9 +653,25 @@ export async function runCondensationPass(
   return {
     condensedCount,
     skipped: condensedCount === 0,
+    reason: condensedCount === 0 && fidelity.rejected > 0 ? 'low_fidelity' : undefined,
+    fidelity,
   };
 }
 
+function mergeFidelityStats(...all: Array<FidelityStats | undefined>): FidelityStats {
+  const merged = emptyFidelityStats();
+  for (const stats of all) {
+    if (!stats) continue;
+    merged.accepted += stats.accepted;
+    merged.retried += stats.retried;
+    merged.rejected += stats.rejected;
+    if (stats.lowestScore !== null) {
+      merged.lowestScore = merged.lowestScore === null ? stats.lowestScore : Math.min(merged.lowestScore, stats.lowestScore);
+    }
+  }
+  return merged;
+}
+
 export async function runCompaction(
   db: DatabaseSync,
   api: SummarizationApi,
@@ -511,6 +718,8 @@ export async function runCompaction(
     tokensAfter = truncationResult.estimatedTokensAfter;
   }
 
+  const fidelity = mergeFidelityStats(leafResult.fidelity, condensationResult.fidelity);
+
   const compacted =
     leafResult.summarizedCount > 0
     || condensationResult.condensedCount > 0
@@ -527,7 +736,122 @@ export async function runCompaction(
         leaf: leafResult,
         condensation: condensationResult,
         truncationRemovedCount,
+        fidelity,
       },
     },
   };
 }
+
+// ──────────────────────────────────────────────────────────────
+// Re-summarization
+// ──────────────────────────────────────────────────────────────
+
+function childSummariesOf(db: DatabaseSync, summaryId: number): CondensableSummary[] {
+  return db
+    .prepare(
+      `SELECT s.id, s.content, s.source_content_types
+         FROM summary_parents sp
+         JOIN summaries s ON s.id = sp.child_summary_id
+        WHERE sp.parent_summary_id = ?
+        ORDER BY s.id ASC`,
+    )
+    .all(summaryId) as CondensableSummary[];
+}
+
+function leafMessagesOf(db: DatabaseSync, summaryId: number): SummarizableMessageRow[] {
+  return db
+    .prepare(
+      `SELECT m.*
+         FROM summary_messages sm
+         JOIN messages m ON m.id = sm.message_id
+        WHERE sm.summary_id = ?
+        ORDER BY m.message_index ASC`,
+    )
+    .all(summaryId) as SummarizableMessageRow[];
+}
+
+/**
+ * Rewrite a summary and everything below it with another model or prompt.
+ * Children are redone first so each condensed summary is rebuilt from the
+ * new text of its children. The previous content of every rewritten node
+ * is kept in summary_revisions. Stops at the first model error or when the
+ * call cap is reached; nodes already rewritten stay rewritten.
+ */
+export async function resummarizeSubtree(
+  db: DatabaseSync,
+  api: SummarizationApi,
+  summaryId: number,
+  config: CompactorConfig,
+  tracker: SummarizationTracker,
+  options?: { instructions?: string; reason?: string },
+): Promise<ResummarizeResult> {
+  const root = db
+    .prepare('SELECT conversation_id FROM summaries WHERE id = ? LIMIT 1')
+    .get(summaryId) as { conversation_id: number } | undefined;
+  if (!root) {
+    return { updatedIds: [], skippedIds: [], calls: 0, reason: 'no_summary' };
+  }
+
+  // Post-order: children before the summaries that condense them
+  const order: number[] = [];
+  const visit = (id: number, path: Set<number>) => {
+    if (path.has(id) || order.includes(id)) return;
+    const nextPath = new Set(path).add(id);
+    for (const child of childSummariesOf(db, id)) visit(child.id, nextPath);
+    order.push(id);
+  };
+  visit(summaryId, new Set());
+
+  const lineage = getSummaryLineage(db, summaryId);
+  console.log(
+    `[clawtext-session-intelligence] resummarize start: summary=${summaryId} nodes=${order.length} messages=${lineage.messageIds.length} model=${config.summarizationModel}`,
+  );
+
+  const result: ResummarizeResult = { updatedIds: [], skippedIds: [], calls: 0 };
+  const instructions = options?.instructions;
+
+  for (const id of order) {
+    const children = childSummariesOf(db, id);
+    let prompt: PromptMessage[];
+    let filesTouched: string[] = [];
+
+    if (children.length > 0) {
+      prompt = summariesToPromptMessages(children);
+    } else {
+      const messages = leafMessagesOf(db, id);
+      if (messages.length === 0) {
+        result.skippedIds.push(id);
+        continue;
+      }
+      prompt = toPromptMessages(messages);
+      filesTouched = filesTouchedForBatch(db, root.conversation_id, messages);
+    }
+
+    const summarized = await summarizeMessages(api, prompt, config, tracker, filesTouched, instructions);
+    if (!summarized.ok) {
+      result.reason = summarized.reason;
+      console.warn(`[clawtext-session-intelligence] resummarize stopped at summary ${id}: ${summarized.reason}`);
+      break;
+    }
+    result.calls += 1;
+
+    withTransaction(db, () => {
+      db.prepare(
+        `INSERT INTO summary_revisions (summary_id, content, model, prompt, reason, created_at)
+         SELECT id, content, ?, ?, ?, ? FROM summaries WHERE id = ?`,
+      ).run(
+        config.summarizationModel,
+        instructions ?? null,
+        options?.reason ?? null,
+        new Date().toISOString(),
+        id,
+      );
+      db.prepare(
+        'UPDATE summaries SET content = ?, token_count = ?, updated_at = ? WHERE id = ?',
+      ).run(summarized.summary, estimatePromptTokens(summarized.summary), new Date().toISOString(), id);
+    });
+    result.updatedIds.push(id);
+  }
+
+  return result;
+}
@@ -71,7 +71,7 @@ function collectTextFromPart(part: unknown): string {
   return stringifyUnknown(part);
 }
 
-function readContent(message: unknown): string {
+export function readContent(message: unknown): string {
   if (!isRecord(message)) return stringifyUnknown(message);
 
   if (typeof message.content === 'string') return message.content;
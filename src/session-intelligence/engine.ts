@@ -19,19 +19,36 @@ import {
   buildOverlayContent,
   loadAcaFiles,
 } from './aca';
-import { runCompaction, resolveCompactorConfig, SummarizationTracker } from './compactor';
+import {
+  resummarizeSubtree,
+  runCompaction,
+  resolveCompactorConfig,
+  SummarizationTracker,
+  type FidelityStats,
+  type ResummarizeResult,
+} from './compactor';
 import { classifyMessage, type ContentType } from './content-type';
 import { openDatabase, withTransaction } from './db';
 import { estimateTokens, persistMessage, persistMessageParts } from './ingest';
 import { buildPressureReading, computePressureSignals } from './pressure';
 import { runNoiseSweep, runToolDecay } from './proactive-pass';
-import { extractFilePath, processFileRead } from './resource-versions.js';
+import { extractFilePath, processFileRead, processFileWrite, renderResourceReads } from './resource-versions.js';
 import { associateResourceWithSlots } from './slot-associations.js';
-import { DECAY_WINDOWS, detectCallType, detectConsumption, insertToolCallMeta } from './tool-tracker';
-import { extractStateFromMessage } from './state-extraction';
+import { DECAY_WINDOWS, detectCallType, detectConsumption, extractFileOperations, insertToolCallMeta } from './tool-tracker';
+import { extractStateFromMessage, extractStateWithModel } from './state-extraction';
+import { DEFAULT_SLOT_SCHEMA, hasLlmExtractors, loadSlotSchema, type SlotSchema } from './slot-schema';
+import { enforcePermission, type PermissionPrincipal } from '../permissions/index.js';
 import { search, describe, expand } from './recall';
-import type { RecallHitType } from './recall';
+import type { RecallHitType, RecallScope, RecallScopeInfo } from './recall';
 import { getStateSlot, kernelSlotsPresent, upsertStateSlot } from './state-slots';
+import {
+  compareSummaryToSources,
+  getSummaryRow,
+  getSummaryTree,
+  parseSummaryId,
+  type SummaryComparison,
+  type SummaryTreeNode,
+} from './summary-tree';
 import {
   evaluateTrigger,
   getMessageCount,
@@ -45,11 +62,24 @@ const ENGINE_ID = 'clawtext-session-intelligence';
 const DEFAULT_TOKEN_BUDGET = 128_000;
 const MAX_SAFE_TOKEN_BUDGET = 120_000;
 const EMERGENCY_FILL_RATIO = 0.85;
+const DEFAULT_SLOT_LLM_CALLS_PER_HOUR = 20;
 
 type ConversationLookup = {
   id: number;
 };
 
+/**
+ * Cross-conversation recall options. When a principal is supplied it must
+ * hold `recall`; anything wider than the caller's own conversation also
+ * requires `crossSessionVisibility`.
+ */
+export type RecallOptions = {
+  scope?: RecallScope;
+  /** Session keys searched when scope is 'sessions' */
+  sessionKeys?: string[];
+  principal?: PermissionPrincipal;
+};
+
 type BootstrapResult = {
   bootstrapped: boolean;
   importedMessages?: number;
@@ -115,6 +145,24 @@ function messageToText(message: unknown): string {
   return JSON.stringify(candidate.content ?? message);
 }
 
+/**
+ * Swap a stored message's text for `text`, keeping every other field
+ * (toolCallId, toolName, ...). Returns null when the message cannot be parsed.
+ */
+function replaceRawMessageText(rawMessage: string, text: string): string | null {
+  try {
+    const message = JSON.parse(rawMessage) as unknown;
+    if (!message || typeof message !== 'object' || Array.isArray(message)) return null;
+    const content = (message as { content?: unknown }).content;
+    return JSON.stringify({
+      ...message,
+      content: Array.isArray(content) ? [{ type: 'text', text }] : text,
+    });
+  } catch {
+    return null;
+  }
+}
+
 function getMessageContentTypes(db: DatabaseSync, conversationId: number): Map<number, ContentType> {
   const rows = db.prepare(
     `SELECT message_index, content_type FROM messages WHERE conversation_id = ? ORDER BY message_index`,
@@ -139,6 +187,15 @@ export function createSessionIntelligenceEngine(config: SessionIntelligenceConfi
   const compactorConfig = resolveCompactorConfig(config.compactor);
   const triggerConfig = resolveTriggerConfig(config.compactionTrigger);
   const summarizationTracker = new SummarizationTracker(compactorConfig.maxSummarizationsPerHour);
+  let slotSchema: SlotSchema;
+  try {
+    slotSchema = loadSlotSchema(workspacePath, config.slotSchema);
+  } catch (error) {
+    console.warn(`[${ENGINE_ID}] ${error instanceof Error ? error.message : String(error)} — using the default slot schema`);
+    slotSchema = DEFAULT_SLOT_SCHEMA;
+  }
+  // Separate from the summarization cap so slot extraction never starves compaction
+  const slotExtractionTracker = new SummarizationTracker(slotSchema.llmMaxCallsPerHour ?? DEFAULT_SLOT_LLM_CALLS_PER_HOUR);
   let _disposed = false;
 
   /**
@@ -270,7 +327,8 @@ export function createSessionIntelligenceEngine(config: SessionIntelligenceConfi
         await bootstrap({ sessionId: params.sessionId, sessionFile: '' });
       }
 
-      withTransaction(db, () => {
+      // Content type of the stored message; null when it was skipped
+      const persistedContentType = withTransaction(db, (): ContentType | null => {
         const index = nextMessageIndex(conversationId);
         const classifiedContentType = classifyMessage(params.message);
         const contentType: ContentType = params.isHeartbeat === true ? 'noise' : classifiedContentType;
@@ -287,7 +345,7 @@ export function createSessionIntelligenceEngine(config: SessionIntelligenceConfi
         } catch (skipErr) {
           // Error-stub message (stopReason=error, empty content) — skip silently.
           console.log(`[${ENGINE_ID}] Skipped error-stub message: ${skipErr instanceof Error ? skipErr.message : String(skipErr)}`);
-          return;
+          return null;
         }
         persistMessageParts(db, messageId, params.message);
         extractStateFromMessage({
@@ -295,6 +353,7 @@ export function createSessionIntelligenceEngine(config: SessionIntelligenceConfi
           conversationId,
           message: params.message,
           contentType,
+          schema: slotSchema,
         });
 
         if (contentType === 'tool_result') {
@@ -353,8 +412,32 @@ export function createSessionIntelligenceEngine(config: SessionIntelligenceConfi
             detectConsumption(db, params.sessionId, scanAfterTurn, consumptionWindow);
           }
         }
+
+        // Writes and edits the agent issues extend the same version chain,
+        // so a later read of the file can be recognised as its own change
+        for (const operation of extractFileOperations(params.message)) {
+          const resourceVersion = processFileWrite(db, params.sessionId, operation, index, { workspacePath });
+          associateResourceWithSlots(db, params.sessionId, resourceVersion.id, index);
+        }
+
+        return contentType;
       });
 
+      if (persistedContentType !== null && config.summarizationApi && hasLlmExtractors(slotSchema)) {
+        void extractStateWithModel({
+          db,
+          conversationId,
+          message: params.message,
+          contentType: persistedContentType,
+          schema: slotSchema,
+          api: config.summarizationApi,
+          model: slotSchema.llmModel ?? compactorConfig.summarizationModel,
+          budget: slotExtractionTracker,
+        }).catch((err) => {
+          console.warn(`[${ENGINE_ID}] LLM slot extraction failed: ${err instanceof Error ? err.message : String(err)}`);
+        });
+      }
+
       const triggerResult = evaluateTrigger({
         db,
         conversationId,
@@ -458,6 +541,7 @@ export function createSessionIntelligenceEngine(config: SessionIntelligenceConfi
             conversationId,
             message,
             contentType,
+            schema: slotSchema,
           });
           index += 1;
           count += 1;
@@ -509,14 +593,35 @@ export function createSessionIntelligenceEngine(config: SessionIntelligenceConfi
           raw_message: string | null;
         }>;
 
-      const storedMessages: StoredMessage[] = rows.map((row) => ({
-        message_index: row.message_index,
-        role: row.role,
-        content: row.content,
-        content_type: (row.content_type as ContentType) ?? 'active',
-        token_count: row.token_count,
-        raw_message: row.raw_message ?? null,
-      }));
+      // Re-reads of a file already read this session go in as a diff or an
+      // unchanged marker instead of the full content again
+      const compactReads = renderResourceReads(db, params.sessionId);
+
+      const storedMessages: StoredMessage[] = rows.map((row) => {
+        const compact = compactReads.get(row.message_index);
+        const rawCompact = compact !== undefined && row.raw_message
+          ? replaceRawMessageText(row.raw_message, compact)
+          : null;
+        if (compact !== undefined && rawCompact !== null) {
+          return {
+            message_index: row.message_index,
+            role: row.role,
+            content: compact,
+            content_type: (row.content_type as ContentType) ?? 'active',
+            token_count: null,
+            raw_message: rawCompact,
+          };
+        }
+
+        return {
+          message_index: row.message_index,
+          role: row.role,
+          content: row.content,
+          content_type: (row.content_type as ContentType) ?? 'active',
+          token_count: row.token_count,
+          raw_message: row.raw_message ?? null,
+        };
+      });
 
       const selectedByIndex = new Map<number, StoredMessage>();
       let historyTokens = 0;
@@ -745,14 +850,17 @@ export function createSessionIntelligenceEngine(config: SessionIntelligenceConfi
         },
       );
 
-      if (result.ok && result.compacted) {
+      const fidelity = (result.result?.details as { fidelity?: FidelityStats } | undefined)?.fidelity;
+      if (result.ok && (result.compacted || (fidelity?.rejected ?? 0) > 0)) {
         recordCompactionEvent({
           db,
           conversationId,
           triggerReason: params.force ? 'forced' : (params.compactionTarget ?? 'threshold'),
           pressureBefore: tokenBudget > 0 ? pressureBeforeTokens / tokenBudget : 0,
           messagesBefore,
-          outcome: 'success',
+          outcome: result.compacted ? 'success' : 'skipped',
+          fidelityScore: fidelity?.lowestScore,
+          fidelityRejections: fidelity?.rejected,
         });
       }
 
@@ -839,6 +947,73 @@ export function createSessionIntelligenceEngine(config: SessionIntelligenceConfi
     // Walk 1a stub.
   }
 
+  /**
+   * Resolve a recall scope to conversation ids. Unknown session keys are
+   * skipped rather than created; a principal without crossSessionVisibility
+   * is narrowed to its own conversation.
+   */
+  function resolveRecallScope(
+    sessionId: string,
+    conversationId: number,
+    options?: RecallOptions,
+  ): { conversationIds: number[]; scope: RecallScopeInfo } {
+    const requested: RecallScope = options?.scope ?? 'conversation';
+    const own = { conversationIds: [conversationId], sessions: [sessionId] };
+    const narrowed = (reason: string) => ({
+      conversationIds: own.conversationIds,
+      scope: { requested, applied: 'conversation' as const, sessions: own.sessions, reason },
+    });
+
+    const principal = options?.principal;
+    if (principal) {
+      const recall = enforcePermission(principal, 'recall', 'si-recall', config.workspacePath);
+      if (!recall.allowed) {
+        return {
+          conversationIds: [],
+          scope: { requested, applied: 'conversation' as const, sessions: [], reason: recall.reason },
+        };
+      }
+    }
+
+    if (requested === 'conversation') {
+      return { conversationIds: own.conversationIds, scope: { requested, applied: requested, sessions: own.sessions } };
+    }
+
+    if (!principal) return narrowed('no principal supplied for cross-session recall');
+
+    const crossSession = enforcePermission(principal, 'crossSessionVisibility', 'si-recall', config.workspacePath);
+    if (!crossSession.allowed) return narrowed(crossSession.reason ?? 'crossSessionVisibility not granted');
+
+    let rows: Array<{ id: number; session_key: string }>;
+    if (requested === 'workspace') {
+      rows = db
+        .prepare('SELECT id, session_key FROM conversations ORDER BY id')
+        .all() as Array<{ id: number; session_key: string }>;
+    } else {
+      const keys = [...new Set(options?.sessionKeys ?? [])];
+      rows = db
+        .prepare(
+          `SELECT id, session_key FROM conversations
+            WHERE session_key IN (${keys.map(() => '?').join(', ')})
+            ORDER BY id`,
+        )
+        .all(...keys) as Array<{ id: number; session_key: string }>;
+    }
+
+    return {
+      conversationIds: rows.map((row) => row.id),
+      scope: { requested, applied: requested, sessions: rows.map((row) => row.session_key) },
+    };
+  }
+
+  /** A summary id of this session's conversation, or null. */
+  function ownSummaryId(sessionId: string, summaryId: string): number | null {
+    const id = parseSummaryId(summaryId);
+    if (id === null) return null;
+    const row = getSummaryRow(db, id);
+    return row && row.conversation_id === getOrCreateConversationId(sessionId) ? id : null;
+  }
+
   async function dispose(): Promise<void> {
     if (_disposed) return;
     _disposed = true;
@@ -876,28 +1051,44 @@ export function createSessionIntelligenceEngine(config: SessionIntelligenceConfi
         query: string,
         limit?: number,
         types?: RecallHitType[],
+        options?: RecallOptions,
       ): import('./recall').SearchResult {
         try {
           const conversationId = getOrCreateConversationId(sessionId);
-          return search({ db, conversationId, query, limit, types, libraryEntriesDir: config.libraryEntriesDir });
+          const { conversationIds, scope } = resolveRecallScope(sessionId, conversationId, options);
+          return {
+            ...search({
+              db,
+              conversationId,
+              conversationIds,
+              query,
+              limit,
+              types,
+              libraryEntriesDir: config.libraryEntriesDir,
+            }),
+            scope,
+          };
         } catch {
           return { hits: [], totalFound: 0, queryMs: 0 };
         }
       },
-      describe(sessionId: string, id: string): import('./recall').DescribeResult | null {
+      describe(sessionId: string, id: string, options?: RecallOptions): import('./recall').DescribeResult | null {
         try {
           const conversationId = getOrCreateConversationId(sessionId);
-          return describe({ db, conversationId, id, libraryEntriesDir: config.libraryEntriesDir });
+          const { conversationIds } = resolveRecallScope(sessionId, conversationId, options);
+          return describe({ db, conversationId, conversationIds, id, libraryEntriesDir: config.libraryEntriesDir });
         } catch {
           return null;
         }
       },
-      expand(sessionId: string, targetId: string): import('./recall').ExpandResult | null {
+      expand(sessionId: string, targetId: string, options?: RecallOptions): import('./recall').ExpandResult | null {
         try {
           const conversationId = getOrCreateConversationId(sessionId);
+          const { conversationIds } = resolveRecallScope(sessionId, conversationId, options);
           return expand({
             db,
             conversationId,
+            conversationIds,
             targetId,
             workspacePath: config.workspacePath,
             libraryEntriesDir: config.libraryEntriesDir,
@@ -907,5 +1098,42 @@ export function createSessionIntelligenceEngine(config: SessionIntelligenceConfi
         }
       },
     },
+    _summaries: {
+      tree(sessionId: string): SummaryTreeNode[] {
+        assertNotDisposed('_summaries.tree');
+        return getSummaryTree(db, getOrCreateConversationId(sessionId));
+      },
+      compare(sessionId: string, summaryId: string, options?: { against?: 'messages' | 'children' }): SummaryComparison | null {
+        assertNotDisposed('_summaries.compare');
+        const id = ownSummaryId(sessionId, summaryId);
+        return id === null ? null : compareSummaryToSources(db, id, options);
+      },
+      /**
+       * Rewrite a summary subtree through the configured summarizationApi.
+       * The model defaults to the compactor's; calls count against the same
+       * hourly cap as compaction.
+       */
+      async resummarize(
+        sessionId: string,
+        summaryId: string,
+        options?: { model?: string; instructions?: string; reason?: string },
+      ): Promise<ResummarizeResult> {
+        assertNotDisposed('_summaries.resummarize');
+        const id = ownSummaryId(sessionId, summaryId);
+        if (id === null) return { updatedIds: [], skippedIds: [], calls: 0, reason: 'no_summary' };
+        if (!config.summarizationApi) {
+          return { updatedIds: [], skippedIds: [], calls: 0, reason: 'no_summarization_api_configured' };
+        }
+
+        return resummarizeSubtree(
+          db,
+          config.summarizationApi,
+          id,
+          { ...compactorConfig, summarizationModel: options?.model?.trim() || compactorConfig.summarizationModel },
+          summarizationTracker,
+          { instructions: options?.instructions, reason: options?.reason },
+        );
+      },
+    },
   };
 }
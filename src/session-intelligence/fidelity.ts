@@ -0,0 +1,140 @@
+/**
+ * Summary fidelity: does a summary still carry the decisions, file paths,
+ * identifiers and numbers of what it summarizes?
+ *
+ * The check is lexical. It cannot tell a faithful paraphrase from a loss,
+ * so decisions are matched on their content words and the score is meant
+ * as a floor for obviously lossy summaries, not as a quality measure.
+ */
+
+import path from 'path';
+import { extractDecisionText } from './content-type';
+import { extractSalientTerms } from './summary-tree';
+
+export type FidelitySource = {
+  role: string;
+  content: string;
+};
+
+export type FidelityRequirements = {
+  decisions: string[];
+  files: string[];
+  terms: string[];
+};
+
+export type FidelityCheck = {
+  total: number;
+  kept: number;
+  missing: string[];
+};
+
+export type FidelityReport = {
+  /** 0–1, weighted over the categories the sources have */
+  score: number;
+  decisions: FidelityCheck;
+  files: FidelityCheck;
+  terms: FidelityCheck;
+};
+
+const MAX_REQUIRED_TERMS = 20;
+// A decision counts as kept when this share of its content words survives
+const DECISION_WORD_SHARE = 0.6;
+const WEIGHTS = { decisions: 0.4, files: 0.3, terms: 0.3 } as const;
+
+const DECISION_STOPWORDS = new Set([
+  'that', 'this', 'with', 'from', 'will', 'would', 'should', 'have', 'been', 'into', 'then', 'than', 'them',
+  'they', 'there', 'their', 'which', 'while', 'when', 'where', 'what', 'also', 'just', 'instead', 'going',
+  "we'll", "let's", 'decided', 'decision', 'chose', 'choose', 'use', 'using',
+]);
+
+function contentWords(text: string): string[] {
+  return [...new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9_./'-]+/)
+      .map((word) => word.replace(/^[^a-z0-9]+|[^a-z0-9]+$/g, ''))
+      .filter((word) => word.length >= 4 && !DECISION_STOPWORDS.has(word)),
+  )];
+}
+
+/**
+ * What a summary of these sources must keep: decisions stated by the
+ * assistant, the files touched in their range, and the most frequent
+ * salient terms.
+ */
+export function collectFidelityRequirements(sources: FidelitySource[], files: string[] = []): FidelityRequirements {
+  const decisions: string[] = [];
+  const termCounts = new Map<string, number>();
+
+  for (const source of sources) {
+    const decision = extractDecisionText(source);
+    if (decision !== null && !decisions.includes(decision)) decisions.push(decision);
+    for (const term of extractSalientTerms(source.content)) termCounts.set(term, (termCounts.get(term) ?? 0) + 1);
+  }
+
+  // Insertion order breaks ties, so earlier terms win
+  const terms = [...termCounts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_REQUIRED_TERMS)
+    .map(([term]) => term);
+
+  return { decisions, files: [...new Set(files)], terms };
+}
+
+function check(items: string[], kept: (item: string) => boolean): FidelityCheck {
+  const missing = items.filter((item) => !kept(item));
+  return { total: items.length, kept: items.length - missing.length, missing };
+}
+
+export function scoreSummaryFidelity(summary: string, requirements: FidelityRequirements): FidelityReport {
+  const text = summary.toLowerCase();
+  const words = new Set(contentWords(summary));
+
+  const decisions = check(requirements.decisions, (decision) => {
+    const needed = contentWords(decision);
+    if (needed.length === 0) return true;
+    return needed.filter((word) => words.has(word) || text.includes(word)).length / needed.length >= DECISION_WORD_SHARE;
+  });
+  const files = check(requirements.files, (file) => {
+    const lower = file.toLowerCase();
+    return text.includes(lower) || text.includes(path.basename(lower));
+  });
+  const terms = check(requirements.terms, (term) => text.includes(term));
+
+  let weighted = 0;
+  let weight = 0;
+  for (const [name, result] of [['decisions', decisions], ['files', files], ['terms', terms]] as const) {
+    if (result.total === 0) continue;
+    weighted += WEIGHTS[name] * (result.kept / result.total);
+    weight += WEIGHTS[name];
+  }
+
+  return {
+    score: weight === 0 ? 1 : weighted / weight,
+    decisions,
+    files,
+    terms,
+  };
+}
+
+/** Only the requirements `text` already meets. */
+export function narrowFidelityRequirements(requirements: FidelityRequirements, text: string): FidelityRequirements {
+  const report = scoreSummaryFidelity(text, requirements);
+  const keep = (items: string[], missing: string[]) => items.filter((item) => !missing.includes(item));
+  return {
+    decisions: keep(requirements.decisions, report.decisions.missing),
+    files: keep(requirements.files, report.files.missing),
+    terms: keep(requirements.terms, report.terms.missing),
+  };
+}
+
+/** Prompt lines asking a retry to restore what the previous attempt dropped. */
+export function buildFidelityRetryLines(report: FidelityReport): string[] {
+  const lines = ['A previous summary of this segment left out details that must be kept.'];
+  if (report.decisions.missing.length > 0) {
+    lines.push('Keep these decisions:', ...report.decisions.missing.map((decision) => `- ${decision}`));
+  }
+  if (report.files.missing.length > 0) lines.push(`Name these files: ${report.files.missing.join(', ')}`);
+  if (report.terms.missing.length > 0) lines.push(`Keep these identifiers and values verbatim: ${report.terms.missing.join(', ')}`);
+  return lines;
+}
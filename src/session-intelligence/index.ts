@@ -131,23 +131,43 @@ export function registerSessionIntelligenceEngine(
           }
         },
         _recall: {
-          search(sessionId, query, limit, types) {
+          search(sessionId, query, limit, types, options) {
             return getOrCreateWorkspaceEngine(
               config,
               resolveWorkspacePathForSession(config, sessionId),
-            )._recall.search(sessionId, query, limit, types);
+            )._recall.search(sessionId, query, limit, types, options);
           },
-          describe(sessionId, id) {
+          describe(sessionId, id, options) {
             return getOrCreateWorkspaceEngine(
               config,
               resolveWorkspacePathForSession(config, sessionId),
-            )._recall.describe(sessionId, id);
+            )._recall.describe(sessionId, id, options);
           },
-          expand(sessionId, targetId) {
+          expand(sessionId, targetId, options) {
             return getOrCreateWorkspaceEngine(
               config,
               resolveWorkspacePathForSession(config, sessionId),
-            )._recall.expand(sessionId, targetId);
+            )._recall.expand(sessionId, targetId, options);
+          },
+        },
+        _summaries: {
+          tree(sessionId) {
+            return getOrCreateWorkspaceEngine(
+              config,
+              resolveWorkspacePathForSession(config, sessionId),
+            )._summaries.tree(sessionId);
+          },
+          compare(sessionId, summaryId, options) {
+            return getOrCreateWorkspaceEngine(
+              config,
+              resolveWorkspacePathForSession(config, sessionId),
+            )._summaries.compare(sessionId, summaryId, options);
+          },
+          resummarize(sessionId, summaryId, options) {
+            return getOrCreateWorkspaceEngine(
+              config,
+              resolveWorkspacePathForSession(config, sessionId),
+            )._summaries.resummarize(sessionId, summaryId, options);
           },
         },
       } as SIEngineWithRecall;
@@ -161,7 +181,15 @@ export function registerSessionIntelligenceEngine(
 
 export { createSessionIntelligenceEngine };
 export { loadAcaFiles, buildKernelContent, buildOverlayContent } from './aca';
-export { upsertStateSlot, getStateSlot, getAllStateSlots, kernelSlotsPresent } from './state-slots';
+export {
+  upsertStateSlot,
+  getStateSlot,
+  getAllStateSlots,
+  kernelSlotsPresent,
+  pinStateSlot,
+  unpinStateSlot,
+  deleteStateSlot,
+} from './state-slots';
 export {
   classifyMessage,
   extractDecisionText,
@@ -169,11 +197,35 @@ export {
   CONTENT_TYPE_PRIORITY,
   CONTENT_TYPE_COMPACTION_ORDER,
 } from './content-type';
-export { extractStateFromMessage } from './state-extraction';
+export { extractStateFromMessage, extractStateWithModel } from './state-extraction';
+export {
+  DEFAULT_SLOT_SCHEMA,
+  loadSlotSchema,
+  validateSlotSchema,
+  getSlotDefinition,
+  mergeSlotItems,
+  parseSlotItems,
+} from './slot-schema';
+export type { SlotSchema, SlotDefinition, SlotExtractor, SlotMergePolicy } from './slot-schema';
 export { evaluateTrigger, recordCompactionEvent, resolveTriggerConfig, shouldRunProactivePass } from './trigger';
 export { computePressureSignals, buildPressureReading, classifyPressureBand, PRESSURE_THRESHOLDS } from './pressure';
 export { runNoiseSweep, runToolDecay } from './proactive-pass';
 export { search, describe, expand } from './recall';
+export { resummarizeSubtree, buildLeafSummaryPrompt } from './compactor';
+export type { ResummarizeResult } from './compactor';
+export {
+  parseSummaryId,
+  getSummaryTree,
+  findSummaryNode,
+  renderSummaryTree,
+  getSummaryRevisions,
+  extractSalientTerms,
+  compareSummaryToSources,
+  renderSummaryComparison,
+} from './summary-tree';
+export type { SummaryTreeNode, SummaryComparison, SummarySource, SummaryRevision } from './summary-tree';
+export type { RecallScope, RecallScopeInfo } from './recall';
+export type { RecallOptions } from './engine';
 export { shouldExternalize, externalizePayload, recoverPayload } from './large-file';
 export { insertPayloadRef, getPayloadRef, listPayloadRefs, markPayloadRefExpired } from './payload-store';
 export {
@@ -183,8 +235,10 @@ export {
   getDecayEligibleMessages,
   markExternalized,
   detectConsumption,
+  extractFileOperations,
   DECAY_WINDOWS,
 } from './tool-tracker';
+export type { FileOperation } from './tool-tracker';
 export {
   hashContent,
   toFileUri,
@@ -192,11 +246,20 @@ export {
   extractFilePath,
   insertResourceVersion,
   getLatestResourceVersion,
+  getResourceVersion,
+  listResourceVersions,
+  getResourceVersionContent,
+  buildUnifiedDiff,
   computeDelta,
   processFileRead,
+  processFileWrite,
   buildResourceToken,
+  renderResourceVersion,
+  renderResourceReads,
+  getFilesTouched,
+  formatFilesTouched,
 } from './resource-versions.js';
-export type { DeltaType } from './resource-versions.js';
+export type { DeltaType, ResourceAction, FileTouch, FileTouchSummary } from './resource-versions.js';
 export {
   insertSlotAssociation,
   getSlotAssociations,
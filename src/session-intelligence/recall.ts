@@ -3,11 +3,16 @@ import path from 'node:path';
 import type { DatabaseSync } from 'node:sqlite';
 import { recoverPayload } from './large-file.js';
 import { getPayloadRef } from './payload-store.js';
+import { getResourceVersion, getResourceVersionContent, listResourceVersions } from './resource-versions.js';
+import type { DeltaType } from './resource-versions.js';
 import { getRecoveryPriority } from './slot-associations.js';
 import type { RecoveryPriority } from './slot-associations.js';
 
 const DEFAULT_LIMIT = 10;
 const MAX_SNIPPET_LENGTH = 300;
+const SNIPPET_TOKENS = 24;
+const HIGHLIGHT_OPEN = '**';
+const HIGHLIGHT_CLOSE = '**';
 // Fallback only. Callers should pass config.libraryEntriesDir for deterministic resolution.
 const DEFAULT_LIBRARY_ENTRIES_DIR = path.join(
   process.env['OPENCLAW_WORKSPACE'] ?? path.join(process.env['HOME'] ?? '', '.openclaw', 'workspace'),
@@ -28,10 +33,27 @@ export type RecallHit = {
   metadata: Record<string, unknown>;
 };
 
+/**
+ * Which conversations a recall call covers: the caller's own, every
+ * conversation in this workspace's database, or an explicit list of
+ * session keys.
+ */
+export type RecallScope = 'conversation' | 'workspace' | 'sessions';
+
+export type RecallScopeInfo = {
+  requested: RecallScope;
+  applied: RecallScope;
+  /** Session keys searched */
+  sessions: string[];
+  /** Why the applied scope is narrower than the requested one */
+  reason?: string;
+};
+
 export type SearchResult = {
   hits: RecallHit[];
   totalFound: number;
   queryMs: number;
+  scope?: RecallScopeInfo;
 };
 
 export type DescribeResult = {
@@ -54,6 +76,17 @@ export type ExpandResult =
     content: string;
     recoveryPriority: RecoveryPriority;
   }
+  | {
+    type: 'resource_version';
+    versionId: string;
+    resourceUri: string;
+    turn: number;
+    contentHash: string;
+    content: string;
+    recoveryPriority: RecoveryPriority;
+    /** Every tracked version of the same resource, oldest first */
+    versions: Array<{ id: string; turn: number; delta: DeltaType; sourceAction: string }>;
+  }
   | {
     type: 'missing';
     refId: string;
@@ -100,9 +133,357 @@ function resolveLibraryEntriesDir(libraryEntriesDir?: string): string {
   return DEFAULT_LIBRARY_ENTRIES_DIR;
 }
 
+type QueryTerm = { text: string; phrase: boolean; prefix: boolean };
+
+/**
+ * Split a user query into terms: "quoted phrases", prefix* terms and plain
+ * words. Punctuation inside a word turns it into a phrase, matching how the
+ * FTS5 tokenizer splits it.
+ */
+export function parseSearchQuery(query: string): QueryTerm[] {
+  const terms: QueryTerm[] = [];
+  const pattern = /"([^"]*)"|(\S+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(query)) !== null) {
+    if (match[1] !== undefined) {
+      const words = match[1].split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+      if (words.length > 0) terms.push({ text: words.join(' '), phrase: true, prefix: false });
+      continue;
+    }
+
+    const raw = match[2];
+    const prefix = raw.endsWith('*');
+    const words = raw.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+    if (words.length === 0) continue;
+    terms.push({ text: words.join(' '), phrase: words.length > 1, prefix });
+  }
+
+  return terms;
+}
+
+/**
+ * Build an FTS5 MATCH expression (implicit AND of terms). Every term is
+ * quoted, so user input never reaches the FTS5 query syntax directly.
+ */
+export function buildFtsQuery(query: string): string | null {
+  const terms = parseSearchQuery(query);
+  if (terms.length === 0) return null;
+  return terms.map((term) => `"${term.text}"${term.prefix ? '*' : ''}`).join(' ');
+}
+
+function hasFullTextIndex(db: DatabaseSync): boolean {
+  const row = db
+    .prepare(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'messages_fts' LIMIT 1`)
+    .get() as { name: string } | undefined;
+  return Boolean(row);
+}
+
+/**
+ * Map a BM25 rank (lower is better, usually negative) into 0..1 and blend
+ * it with the per-type prior so relevance dominates ordering.
+ */
+function rankedScore(prior: number, bm25: number): number {
+  const relevance = Math.max(0, -bm25);
+  const normalized = relevance / (1 + relevance);
+  return Number((prior * 0.3 + normalized * 0.7).toFixed(4));
+}
+
+function ftsSnippet(table: string, column: number): string {
+  return `snippet(${table}, ${column}, '${HIGHLIGHT_OPEN}', '${HIGHLIGHT_CLOSE}', '…', ${SNIPPET_TOKENS})`;
+}
+
+type SearchParams = {
+  db: DatabaseSync;
+  /** Conversation the caller is in; slot ids from it stay unqualified */
+  conversationId: number;
+  /** Conversations in scope */
+  conversationIds: number[];
+  query: string;
+  limit: number;
+};
+
+function placeholders(values: unknown[]): string {
+  return values.map(() => '?').join(', ');
+}
+
+/**
+ * State slots are keyed by name per conversation, so slots from other
+ * conversations carry an `@c<conversationId>` suffix.
+ */
+function slotHitId(slotName: string, conversationId: number, currentConversationId: number): string {
+  return conversationId === currentConversationId
+    ? `slot-${slotName}`
+    : `slot-${slotName}@c${conversationId}`;
+}
+
+function parseSlotHitId(id: string): { slotName: string; conversationId?: number } {
+  const body = id.slice(5);
+  const match = /^(.*)@c(\d+)$/.exec(body);
+  if (!match) return { slotName: body };
+  return { slotName: match[1], conversationId: Number.parseInt(match[2], 10) };
+}
+
+function resolveConversationIds(conversationId: number, conversationIds?: number[]): number[] {
+  if (!Array.isArray(conversationIds)) return [conversationId];
+  return [...new Set(conversationIds)];
+}
+
+/**
+ * Label hits from the conversations table so callers can tell which
+ * session each one came from.
+ */
+function labelHitSessions(db: DatabaseSync, hits: RecallHit[]): void {
+  const ids = [...new Set(
+    hits
+      .map((hit) => hit.metadata.conversation_id)
+      .filter((id): id is number => typeof id === 'number'),
+  )];
+  if (ids.length === 0) return;
+
+  const rows = db
+    .prepare(`SELECT id, session_key FROM conversations WHERE id IN (${placeholders(ids)})`)
+    .all(...ids) as Array<{ id: number; session_key: string }>;
+  const sessionKeys = new Map(rows.map((row) => [row.id, row.session_key]));
+
+  for (const hit of hits) {
+    const sessionKey = sessionKeys.get(hit.metadata.conversation_id as number);
+    if (sessionKey !== undefined) hit.metadata.session_key = sessionKey;
+  }
+}
+
+function searchMessagesFts(p: SearchParams & { match: string }): RecallHit[] {
+  const rows = p.db
+    .prepare(
+      `SELECT m.id, m.conversation_id, m.message_index, m.role, m.content_type,
+              bm25(messages_fts) AS rank,
+              ${ftsSnippet('messages_fts', 0)} AS snippet
+         FROM messages_fts
+         JOIN messages m ON m.id = messages_fts.rowid
+        WHERE messages_fts MATCH ?
+          AND m.conversation_id IN (${placeholders(p.conversationIds)})
+        ORDER BY rank
+        LIMIT ?`,
+    )
+    .all(p.match, ...p.conversationIds, p.limit) as Array<{
+    id: number;
+    conversation_id: number;
+    message_index: number;
+    role: string;
+    content_type: string | null;
+    rank: number;
+    snippet: string;
+  }>;
+
+  return rows.map((row) => ({
+    type: 'message',
+    id: `msg-${row.id}`,
+    score: rankedScore(0.6, row.rank),
+    snippet: row.snippet,
+    metadata: {
+      conversation_id: row.conversation_id,
+      role: row.role,
+      index: row.message_index,
+      content_type: row.content_type,
+      bm25: row.rank,
+    },
+  }));
+}
+
+function searchMessagesLike(p: SearchParams): RecallHit[] {
+  const rows = p.db
+    .prepare(
+      `SELECT id, conversation_id, message_index, role, content, content_type
+         FROM messages
+        WHERE conversation_id IN (${placeholders(p.conversationIds)})
+          AND content LIKE '%' || ? || '%'
+        ORDER BY message_index DESC
+        LIMIT ?`,
+    )
+    .all(...p.conversationIds, p.query, p.limit) as Array<{
+    id: number;
+    conversation_id: number;
+    message_index: number;
+    role: string;
+    content: string;
+    content_type: string | null;
+  }>;
+
+  return rows.map((row) => ({
+    type: 'message',
+    id: `msg-${row.id}`,
+    score: 0.6,
+    snippet: buildSnippet(row.content),
+    metadata: {
+      conversation_id: row.conversation_id,
+      role: row.role,
+      index: row.message_index,
+      content_type: row.content_type,
+    },
+  }));
+}
+
+function searchSummariesFts(p: SearchParams & { match: string }): RecallHit[] {
+  const rows = p.db
+    .prepare(
+      `SELECT s.id, s.conversation_id, s.depth, s.source_content_types,
+              bm25(summaries_fts) AS rank,
+              ${ftsSnippet('summaries_fts', 0)} AS snippet
+         FROM summaries_fts
+         JOIN summaries s ON s.id = summaries_fts.rowid
+        WHERE summaries_fts MATCH ?
+          AND s.conversation_id IN (${placeholders(p.conversationIds)})
+        ORDER BY rank
+        LIMIT ?`,
+    )
+    .all(p.match, ...p.conversationIds, p.limit) as Array<{
+    id: number;
+    conversation_id: number;
+    depth: number;
+    source_content_types: string | null;
+    rank: number;
+    snippet: string;
+  }>;
+
+  return rows.map((row) => ({
+    type: 'summary',
+    id: `sum-${row.id}`,
+    score: rankedScore(0.7, row.rank),
+    snippet: row.snippet,
+    metadata: {
+      conversation_id: row.conversation_id,
+      summary_type: row.depth === 0 ? 'leaf' : 'condensed',
+      depth: row.depth,
+      source_content_types: row.source_content_types,
+      bm25: row.rank,
+    },
+  }));
+}
+
+function searchSummariesLike(p: SearchParams): RecallHit[] {
+  const rows = p.db
+    .prepare(
+      `SELECT id, conversation_id, content, depth, source_content_types
+         FROM summaries
+        WHERE conversation_id IN (${placeholders(p.conversationIds)})
+          AND content LIKE '%' || ? || '%'
+        ORDER BY id DESC
+        LIMIT ?`,
+    )
+    .all(...p.conversationIds, p.query, p.limit) as Array<{
+    id: number;
+    conversation_id: number;
+    content: string;
+    depth: number;
+    source_content_types: string | null;
+  }>;
+
+  return rows.map((row) => ({
+    type: 'summary',
+    id: `sum-${row.id}`,
+    score: 0.7,
+    snippet: buildSnippet(row.content),
+    metadata: {
+      conversation_id: row.conversation_id,
+      summary_type: row.depth === 0 ? 'leaf' : 'condensed',
+      depth: row.depth,
+      source_content_types: row.source_content_types,
+    },
+  }));
+}
+
+function searchStateSlotsFts(p: SearchParams & { match: string }): RecallHit[] {
+  const rows = p.db
+    .prepare(
+      `SELECT s.id, s.conversation_id, s.slot_name, s.is_pinned,
+              bm25(state_slots_fts) AS rank,
+              ${ftsSnippet('state_slots_fts', 1)} AS snippet
+         FROM state_slots_fts
+         JOIN state_slots s ON s.id = state_slots_fts.rowid
+        WHERE state_slots_fts MATCH ?
+          AND s.conversation_id IN (${placeholders(p.conversationIds)})
+        ORDER BY rank
+        LIMIT ?`,
+    )
+    .all(p.match, ...p.conversationIds, p.limit) as Array<{
+    id: number;
+    conversation_id: number;
+    slot_name: string;
+    is_pinned: number;
+    rank: number;
+    snippet: string;
+  }>;
+
+  return rows.map((row) => ({
+    type: 'state_slot',
+    id: slotHitId(row.slot_name, row.conversation_id, p.conversationId),
+    score: rankedScore(0.8, row.rank),
+    snippet: row.snippet,
+    metadata: {
+      conversation_id: row.conversation_id,
+      slot_name: row.slot_name,
+      is_pinned: row.is_pinned,
+      bm25: row.rank,
+    },
+  }));
+}
+
+function searchStateSlotsLike(p: SearchParams): RecallHit[] {
+  const rows = p.db
+    .prepare(
+      `SELECT id, conversation_id, slot_name, content, is_pinned
+         FROM state_slots
+        WHERE conversation_id IN (${placeholders(p.conversationIds)})
+          AND (content LIKE '%' || ? || '%' OR slot_name LIKE '%' || ? || '%')
+        ORDER BY slot_name
+        LIMIT ?`,
+    )
+    .all(...p.conversationIds, p.query, p.query, p.limit) as Array<{
+    id: number;
+    conversation_id: number;
+    slot_name: string;
+    content: string;
+    is_pinned: number;
+  }>;
+
+  return rows.map((row) => ({
+    type: 'state_slot',
+    id: slotHitId(row.slot_name, row.conversation_id, p.conversationId),
+    score: 0.8,
+    snippet: buildSnippet(row.content),
+    metadata: {
+      conversation_id: row.conversation_id,
+      slot_name: row.slot_name,
+      is_pinned: row.is_pinned,
+    },
+  }));
+}
+
+/**
+ * Run the FTS5 search, falling back to substring matching when the index
+ * is missing (pre-v14 database, SQLite without FTS5) or the query is empty
+ * after parsing.
+ */
+function searchTable(
+  p: SearchParams & { match: string | null; fts: boolean },
+  ftsSearch: (p: SearchParams & { match: string }) => RecallHit[],
+  likeSearch: (p: SearchParams) => RecallHit[],
+): RecallHit[] {
+  if (p.fts && p.match) {
+    try {
+      return ftsSearch({ ...p, match: p.match });
+    } catch {
+      // fall through to substring search
+    }
+  }
+  return likeSearch(p);
+}
+
 export function search(params: {
   db: DatabaseSync;
   conversationId: number;
+  /** Conversations to search; defaults to [conversationId] */
+  conversationIds?: number[];
   query: string;
   limit?: number;
   types?: RecallHitType[];
@@ -113,106 +494,38 @@ export function search(params: {
   const types = normalizeTypes(params.types);
   const query = String(params.query ?? '');
   const hits: RecallHit[] = [];
+  const conversationIds = resolveConversationIds(params.conversationId, params.conversationIds);
+  // Nothing in scope (e.g. recall denied): library entries are out of scope too
+  if (conversationIds.length === 0) {
+    return { hits: [], totalFound: 0, queryMs: Date.now() - startedAt };
+  }
+
+  const tableParams = {
+    db: params.db,
+    conversationId: params.conversationId,
+    conversationIds,
+    query,
+    limit,
+    match: buildFtsQuery(query),
+    fts: hasFullTextIndex(params.db),
+  };
 
   if (types.includes('message')) {
-    const rows = params.db
-      .prepare(
-        `SELECT id, message_index, role, content, content_type
-           FROM messages
-          WHERE conversation_id = ?
-            AND content LIKE '%' || ? || '%'
-          ORDER BY message_index DESC
-          LIMIT ?`,
-      )
-      .all(params.conversationId, query, limit) as Array<{
-      id: number;
-      message_index: number;
-      role: string;
-      content: string;
-      content_type: string | null;
-    }>;
-
-    for (const row of rows) {
-      hits.push({
-        type: 'message',
-        id: `msg-${row.id}`,
-        score: 0.6,
-        snippet: buildSnippet(row.content),
-        metadata: {
-          role: row.role,
-          index: row.message_index,
-          content_type: row.content_type,
-        },
-      });
-    }
+    hits.push(...searchTable(tableParams, searchMessagesFts, searchMessagesLike));
   }
 
   if (types.includes('summary')) {
-    const rows = params.db
-      .prepare(
-        `SELECT id, content, depth, source_content_types
-           FROM summaries
-          WHERE conversation_id = ?
-            AND content LIKE '%' || ? || '%'
-          ORDER BY id DESC
-          LIMIT ?`,
-      )
-      .all(params.conversationId, query, limit) as Array<{
-      id: number;
-      content: string;
-      depth: number;
-      source_content_types: string | null;
-    }>;
-
-    for (const row of rows) {
-      hits.push({
-        type: 'summary',
-        id: `sum-${row.id}`,
-        score: 0.7,
-        snippet: buildSnippet(row.content),
-        metadata: {
-          summary_type: row.depth === 0 ? 'leaf' : 'condensed',
-          depth: row.depth,
-          source_content_types: row.source_content_types,
-        },
-      });
-    }
+    hits.push(...searchTable(tableParams, searchSummariesFts, searchSummariesLike));
   }
 
   if (types.includes('state_slot')) {
-    const rows = params.db
-      .prepare(
-        `SELECT id, slot_name, content, is_pinned
-           FROM state_slots
-          WHERE conversation_id = ?
-            AND (content LIKE '%' || ? || '%' OR slot_name LIKE '%' || ? || '%')
-          ORDER BY slot_name
-          LIMIT ?`,
-      )
-      .all(params.conversationId, query, query, limit) as Array<{
-      id: number;
-      slot_name: string;
-      content: string;
-      is_pinned: number;
-    }>;
-
-    for (const row of rows) {
-      hits.push({
-        type: 'state_slot',
-        id: `slot-${row.slot_name}`,
-        score: 0.8,
-        snippet: buildSnippet(row.content),
-        metadata: {
-          slot_name: row.slot_name,
-          is_pinned: row.is_pinned,
-        },
-      });
-    }
+    hits.push(...searchTable(tableParams, searchStateSlotsFts, searchStateSlotsLike));
   }
 
   if (types.includes('library_entry')) {
     const libraryEntriesDir = resolveLibraryEntriesDir(params.libraryEntriesDir);
-    const lowerQuery = query.toLowerCase();
+    const terms = parseSearchQuery(query).flatMap((term) => term.text.toLowerCase().split(' '));
+    if (terms.length === 0) terms.push(query.toLowerCase());
 
     if (fs.existsSync(libraryEntriesDir)) {
       const filenames = fs.readdirSync(libraryEntriesDir)
@@ -232,7 +545,8 @@ export function search(params: {
           continue;
         }
 
-        if (!content.toLowerCase().includes(lowerQuery)) continue;
+        const lowerContent = content.toLowerCase();
+        if (!terms.every((term) => lowerContent.includes(term))) continue;
 
         hits.push({
           type: 'library_entry',
@@ -250,6 +564,8 @@ export function search(params: {
     }
   }
 
+  labelHitSessions(params.db, hits);
+
   hits.sort((a, b) => {
     if (b.score !== a.score) return b.score - a.score;
     return a.id.localeCompare(b.id);
@@ -266,6 +582,8 @@ export function search(params: {
 export function describe(params: {
   db: DatabaseSync;
   conversationId: number;
+  /** Conversations the id may belong to; defaults to [conversationId] */
+  conversationIds?: number[];
   id: string;
   libraryEntriesDir?: string;
 }): DescribeResult | null {
@@ -273,18 +591,23 @@ export function describe(params: {
     return null;
   }
 
+  const conversationIds = resolveConversationIds(params.conversationId, params.conversationIds);
+  if (conversationIds.length === 0) return null;
+  const inScope = placeholders(conversationIds);
+
   if (params.id.startsWith('msg-')) {
     const messageId = Number.parseInt(params.id.slice(4), 10);
     if (!Number.isFinite(messageId)) return null;
 
     const row = params.db
       .prepare(
-        `SELECT message_index, role, content, content_type
+        `SELECT conversation_id, message_index, role, content, content_type
            FROM messages
-          WHERE id = ? AND conversation_id = ?
+          WHERE id = ? AND conversation_id IN (${inScope})
           LIMIT 1`,
       )
-      .get(messageId, params.conversationId) as {
+      .get(messageId, ...conversationIds) as {
+      conversation_id: number;
       message_index: number;
       role: string;
       content: string;
@@ -298,6 +621,7 @@ export function describe(params: {
       id: params.id,
       fullContent: row.content,
       metadata: {
+        conversation_id: row.conversation_id,
         role: row.role,
         index: row.message_index,
         content_type: row.content_type,
@@ -311,12 +635,13 @@ export function describe(params: {
 
     const row = params.db
       .prepare(
-        `SELECT depth, content, source_content_types
+        `SELECT conversation_id, depth, content, source_content_types
            FROM summaries
-          WHERE id = ? AND conversation_id = ?
+          WHERE id = ? AND conversation_id IN (${inScope})
           LIMIT 1`,
       )
-      .get(summaryId, params.conversationId) as {
+      .get(summaryId, ...conversationIds) as {
+      conversation_id: number;
       depth: number;
       content: string;
       source_content_types: string | null;
@@ -329,6 +654,7 @@ export function describe(params: {
       id: params.id,
       fullContent: row.content,
       metadata: {
+        conversation_id: row.conversation_id,
         summary_type: row.depth === 0 ? 'leaf' : 'condensed',
         depth: row.depth,
         source_content_types: row.source_content_types,
@@ -337,8 +663,8 @@ export function describe(params: {
   }
 
   if (params.id.startsWith('slot-')) {
-    const slotName = params.id.slice(5);
-    if (slotName.length === 0) return null;
+    const { slotName, conversationId = params.conversationId } = parseSlotHitId(params.id);
+    if (slotName.length === 0 || !conversationIds.includes(conversationId)) return null;
 
     const row = params.db
       .prepare(
@@ -347,7 +673,7 @@ export function describe(params: {
           WHERE slot_name = ? AND conversation_id = ?
           LIMIT 1`,
       )
-      .get(slotName, params.conversationId) as {
+      .get(slotName, conversationId) as {
       content: string;
       is_pinned: number;
     } | undefined;
@@ -359,6 +685,7 @@ export function describe(params: {
       id: params.id,
       fullContent: row.content,
       metadata: {
+        conversation_id: conversationId,
         slot_name: slotName,
         is_pinned: row.is_pinned,
       },
@@ -443,9 +770,57 @@ function getLinkedMessageIds(
   return [];
 }
 
+/**
+ * Full content of one tracked version of a file (`rv-<id>`), plus the list
+ * of its other versions so earlier or later ones can be fetched too.
+ */
+function expandResourceVersion(
+  db: DatabaseSync,
+  targetId: string,
+  conversationIds: number[],
+): ExpandResult | null {
+  const versionId = Number.parseInt(targetId.slice(3), 10);
+  if (!Number.isFinite(versionId)) return null;
+
+  const version = getResourceVersion(db, versionId);
+  if (!version) return null;
+
+  const owner = db
+    .prepare('SELECT id FROM conversations WHERE session_key = ? LIMIT 1')
+    .get(version.conversationId) as { id: number } | undefined;
+  if (!owner || !conversationIds.includes(owner.id)) return null;
+
+  const content = getResourceVersionContent(db, version, { preferPayload: true });
+  if (typeof content !== 'string') {
+    return {
+      type: 'missing',
+      refId: targetId,
+      message: 'The message or payload this version was read from is no longer available.',
+    };
+  }
+
+  return {
+    type: 'resource_version',
+    versionId: targetId,
+    resourceUri: version.resourceUri,
+    turn: version.turn,
+    contentHash: version.contentHash,
+    content,
+    recoveryPriority: getRecoveryPriority(db, version.id),
+    versions: listResourceVersions(db, version.conversationId, version.resourceUri).map((entry) => ({
+      id: `rv-${entry.id}`,
+      turn: entry.turn,
+      delta: entry.delta,
+      sourceAction: entry.sourceAction,
+    })),
+  };
+}
+
 export function expand(params: {
   db: DatabaseSync;
   conversationId: number;
+  /** Conversations the summary may belong to; defaults to [conversationId] */
+  conversationIds?: number[];
   targetId?: string;
   summaryId?: number;
   workspacePath?: string;
@@ -459,6 +834,14 @@ export function expand(params: {
     return null;
   }
 
+  const conversationIds = resolveConversationIds(params.conversationId, params.conversationIds);
+  // Payload refs are not tied to a conversation; an empty scope must not reach them
+  if (conversationIds.length === 0) return null;
+
+  if (targetId.startsWith('rv-')) {
+    return expandResourceVersion(params.db, targetId, conversationIds);
+  }
+
   const payloadRef = getPayloadRef(params.db, targetId);
   if (payloadRef) {
     if (payloadRef.status === 'expired') {
@@ -501,11 +884,13 @@ export function expand(params: {
     return null;
   }
 
-  const summaryExists = params.db
-    .prepare('SELECT id FROM summaries WHERE id = ? AND conversation_id = ? LIMIT 1')
-    .get(summaryId, params.conversationId) as { id: number } | undefined;
+  const summaryRow = params.db
+    .prepare(
+      `SELECT conversation_id FROM summaries WHERE id = ? AND conversation_id IN (${placeholders(conversationIds)}) LIMIT 1`,
+    )
+    .get(summaryId, ...conversationIds) as { conversation_id: number } | undefined;
 
-  if (!summaryExists) {
+  if (!summaryRow) {
     return null;
   }
 
@@ -523,7 +908,7 @@ export function expand(params: {
           AND id IN (${inClause})
         ORDER BY message_index ASC`,
     )
-    .all(params.conversationId, ...messageIds) as Array<{
+    .all(summaryRow.conversation_id, ...messageIds) as Array<{
     id: number;
     message_index: number;
     role: string;
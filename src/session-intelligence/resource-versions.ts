@@ -3,10 +3,16 @@ import path from 'node:path';
 import { createHash } from 'node:crypto';
 import type { DatabaseSync } from 'node:sqlite';
 import { homedir } from 'node:os';
-import { pathToFileURL } from 'node:url';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { externalizePayload } from './large-file.js';
+import { insertPayloadRef } from './payload-store.js';
+import type { FileOperation } from './tool-tracker.js';
 
 export type DeltaType = 'new' | 'unchanged' | 'small' | 'large';
 
+/** How a version entered the chain: read by a tool, or written/edited by the agent */
+export type ResourceAction = 'read' | 'write' | 'edit';
+
 export type ResourceVersion = {
   id?: number;
   conversationId: string;
@@ -18,9 +24,21 @@ export type ResourceVersion = {
   deltaRatio: number;
   turn: number;
   sourceAction: string;
+  /** Set on reads that only show the agent's own write/edit: that version */
+  reflectsVersionId?: number;
   createdAt: string;
 };
 
+/** Re-reads whose changed-line ratio stays under this render as a diff */
+const SMALL_DELTA_RATIO = 0.15;
+const DIFF_CONTEXT_LINES = 3;
+/** Larger changed regions (old lines × new lines) are not line-diffed */
+const MAX_DIFF_CELLS = 4_000_000;
+/** Tool output around a file's content (path header, status line) */
+const READ_WRAPPER_SLACK = 200;
+
+type DiffOp = { kind: ' ' | '-' | '+'; line: string };
+
 const FILE_PATH_EXTENSIONS = ['ts', 'js', 'json', 'md', 'py', 'sh', 'yaml', 'yml', 'toml', 'txt'];
 const FILE_EXTENSION_PATTERN = new RegExp(`\\.(${FILE_PATH_EXTENSIONS.join('|')})(?:$|[?#\\s])`, 'i');
 
@@ -50,6 +68,66 @@ function estimateDiffRatio(oldContent: string, newContent: string): number {
   return Math.min(1, diffChars / maxLength);
 }
 
+function splitLines(content: string): string[] {
+  if (content.length === 0) return [];
+  const lines = content.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/**
+ * Line diff by longest common subsequence over the region between the
+ * common prefix and suffix. Returns null when that region is too large.
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffOp[] | null {
+  let start = 0;
+  while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) {
+    start += 1;
+  }
+
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+    oldEnd -= 1;
+    newEnd -= 1;
+  }
+
+  const a = oldLines.slice(start, oldEnd);
+  const b = newLines.slice(start, newEnd);
+  if (a.length * b.length > MAX_DIFF_CELLS) return null;
+
+  // lcs[i * width + j] = LCS length of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i -= 1) {
+    for (let j = b.length - 1; j >= 0; j -= 1) {
+      lcs[i * width + j] = a[i] === b[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = oldLines.slice(0, start).map((line) => ({ kind: ' ', line }));
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      ops.push({ kind: ' ', line: a[i] });
+      i += 1;
+      j += 1;
+    } else if (j < b.length && (i === a.length || lcs[i * width + j + 1] >= lcs[(i + 1) * width + j])) {
+      ops.push({ kind: '+', line: b[j] });
+      j += 1;
+    } else {
+      ops.push({ kind: '-', line: a[i] });
+      i += 1;
+    }
+  }
+  for (const line of oldLines.slice(oldEnd)) ops.push({ kind: ' ', line });
+
+  return ops;
+}
+
 function maybeReadPayloadContent(db: DatabaseSync, refId?: string): string | undefined {
   if (typeof refId !== 'string' || refId.trim().length === 0) return undefined;
 
@@ -80,20 +158,77 @@ function maybeReadPayloadContent(db: DatabaseSync, refId?: string): string | und
 function getMessageContentAtTurn(db: DatabaseSync, conversationId: string, turn: number): string | undefined {
   const row = db
     .prepare(
-      `SELECT m.content
+      `SELECT m.content, m.truncated_payload_ref
          FROM messages m
          INNER JOIN conversations c ON c.id = m.conversation_id
         WHERE c.session_key = ?
           AND m.message_index = ?
         LIMIT 1`,
     )
-    .get(conversationId, turn) as { content: string | null } | undefined;
+    .get(conversationId, turn) as { content: string | null; truncated_payload_ref: string | null } | undefined;
 
   if (!row || typeof row.content !== 'string') {
     return undefined;
   }
 
-  return row.content;
+  // Decayed tool output keeps only a payload token in the message
+  return maybeReadPayloadContent(db, row.truncated_payload_ref ?? undefined) ?? row.content;
+}
+
+/** Apply exact-text replacements; undefined when one no longer matches. */
+function applyEdits(content: string, edits: Array<{ oldText: string; newText: string }>): string | undefined {
+  let result = content;
+  for (const edit of edits) {
+    const index = result.indexOf(edit.oldText);
+    if (edit.oldText.length === 0 || index < 0) return undefined;
+    result = result.slice(0, index) + edit.newText + result.slice(index + edit.oldText.length);
+  }
+  return result;
+}
+
+type ResourceVersionRow = {
+  id: number;
+  conversation_id: string;
+  resource_uri: string;
+  parent_id: number | null;
+  content_hash: string;
+  ref_id: string | null;
+  delta: DeltaType;
+  delta_ratio: number;
+  turn: number;
+  source_action: string | null;
+  reflects_version_id: number | null;
+  created_at: string;
+};
+
+const RESOURCE_VERSION_COLUMNS = `id,
+        conversation_id,
+        resource_uri,
+        parent_id,
+        content_hash,
+        ref_id,
+        delta,
+        delta_ratio,
+        turn,
+        source_action,
+        reflects_version_id,
+        created_at`;
+
+function toResourceVersion(row: ResourceVersionRow): ResourceVersion & { id: number } {
+  return {
+    id: row.id,
+    conversationId: row.conversation_id,
+    resourceUri: row.resource_uri,
+    parentId: typeof row.parent_id === 'number' ? row.parent_id : undefined,
+    contentHash: row.content_hash,
+    refId: row.ref_id ?? undefined,
+    delta: row.delta,
+    deltaRatio: typeof row.delta_ratio === 'number' ? row.delta_ratio : 0,
+    turn: row.turn,
+    sourceAction: row.source_action ?? 'read',
+    reflectsVersionId: typeof row.reflects_version_id === 'number' ? row.reflects_version_id : undefined,
+    createdAt: row.created_at,
+  };
 }
 
 export function hashContent(content: string): string {
@@ -173,8 +308,9 @@ export function insertResourceVersion(db: DatabaseSync, version: ResourceVersion
         delta_ratio,
         turn,
         source_action,
+        reflects_version_id,
         created_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
     )
     .run(
       version.conversationId,
@@ -186,6 +322,7 @@ export function insertResourceVersion(db: DatabaseSync, version: ResourceVersion
       version.deltaRatio,
       version.turn,
       version.sourceAction,
+      version.reflectsVersionId ?? null,
       version.createdAt,
     );
 
@@ -201,52 +338,109 @@ export function getLatestResourceVersion(
   const row = db
     .prepare(
       `SELECT
-        id,
-        conversation_id,
-        resource_uri,
-        parent_id,
-        content_hash,
-        ref_id,
-        delta,
-        delta_ratio,
-        turn,
-        source_action,
-        created_at
+        ${RESOURCE_VERSION_COLUMNS}
        FROM resource_versions
        WHERE conversation_id = ?
          AND resource_uri = ?
        ORDER BY id DESC
        LIMIT 1`,
     )
-    .get(conversationId, resourceUri) as {
-    id: number;
-    conversation_id: string;
-    resource_uri: string;
-    parent_id: number | null;
-    content_hash: string;
-    ref_id: string | null;
-    delta: DeltaType;
-    delta_ratio: number;
-    turn: number;
-    source_action: string | null;
-    created_at: string;
-  } | undefined;
-
-  if (!row) return null;
+    .get(conversationId, resourceUri) as ResourceVersionRow | undefined;
 
-  return {
-    id: row.id,
-    conversationId: row.conversation_id,
-    resourceUri: row.resource_uri,
-    parentId: typeof row.parent_id === 'number' ? row.parent_id : undefined,
-    contentHash: row.content_hash,
-    refId: row.ref_id ?? undefined,
-    delta: row.delta,
-    deltaRatio: typeof row.delta_ratio === 'number' ? row.delta_ratio : 0,
-    turn: row.turn,
-    sourceAction: row.source_action ?? 'read',
-    createdAt: row.created_at,
-  };
+  return row ? toResourceVersion(row) : null;
+}
+
+export function getResourceVersion(db: DatabaseSync, id: number): (ResourceVersion & { id: number }) | null {
+  const row = db
+    .prepare(`SELECT ${RESOURCE_VERSION_COLUMNS} FROM resource_versions WHERE id = ? LIMIT 1`)
+    .get(id) as ResourceVersionRow | undefined;
+
+  return row ? toResourceVersion(row) : null;
+}
+
+/** Every tracked version of one resource in a conversation, oldest first. */
+export function listResourceVersions(
+  db: DatabaseSync,
+  conversationId: string,
+  resourceUri: string,
+): Array<ResourceVersion & { id: number }> {
+  const rows = db
+    .prepare(
+      `SELECT ${RESOURCE_VERSION_COLUMNS}
+         FROM resource_versions
+        WHERE conversation_id = ?
+          AND resource_uri = ?
+        ORDER BY id ASC`,
+    )
+    .all(conversationId, resourceUri) as ResourceVersionRow[];
+
+  return rows.map(toResourceVersion);
+}
+
+/**
+ * Reconstruct the content of a version: reads from the message they were
+ * read in (or its payload ref), writes and edits from the payload stored
+ * when they were recorded. With `preferPayload` a read's externalized
+ * (untruncated) payload wins over the stored message.
+ */
+export function getResourceVersionContent(
+  db: DatabaseSync,
+  version: ResourceVersion,
+  options?: { preferPayload?: boolean },
+): string | undefined {
+  const fromPayload = () => maybeReadPayloadContent(db, version.refId);
+  if (version.sourceAction !== 'read') return fromPayload();
+
+  const fromMessage = () => getMessageContentAtTurn(db, version.conversationId, version.turn);
+  return options?.preferPayload
+    ? (fromPayload() ?? fromMessage())
+    : (fromMessage() ?? fromPayload());
+}
+
+/**
+ * Render the difference between two versions as a unified diff. Returns null
+ * when the changed region is too large to diff line by line.
+ */
+export function buildUnifiedDiff(
+  oldContent: string,
+  newContent: string,
+  options?: { oldLabel?: string; newLabel?: string; context?: number },
+): string | null {
+  const ops = diffLines(splitLines(oldContent), splitLines(newContent));
+  if (!ops) return null;
+
+  const context = options?.context ?? DIFF_CONTEXT_LINES;
+  const hunks: Array<[number, number]> = [];
+  for (let index = 0; index < ops.length; index += 1) {
+    if (ops[index].kind === ' ') continue;
+    const start = Math.max(0, index - context);
+    const end = Math.min(ops.length, index + context + 1);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = end;
+    } else {
+      hunks.push([start, end]);
+    }
+  }
+
+  const lines = [`--- ${options?.oldLabel ?? 'a'}`, `+++ ${options?.newLabel ?? 'b'}`];
+  let opIndex = 0;
+  let oldLine = 0;
+  let newLine = 0;
+  for (const [start, end] of hunks) {
+    for (; opIndex < start; opIndex += 1) {
+      if (ops[opIndex].kind !== '+') oldLine += 1;
+      if (ops[opIndex].kind !== '-') newLine += 1;
+    }
+
+    const slice = ops.slice(start, end);
+    const oldCount = slice.filter((op) => op.kind !== '+').length;
+    const newCount = slice.filter((op) => op.kind !== '-').length;
+    lines.push(`@@ -${oldCount === 0 ? oldLine : oldLine + 1},${oldCount} +${newCount === 0 ? newLine : newLine + 1},${newCount} @@`);
+    for (const op of slice) lines.push(`${op.kind}${op.line}`);
+  }
+
+  return lines.join('\n');
 }
 
 export function computeDelta(
@@ -267,15 +461,42 @@ export function computeDelta(
     return { delta: 'large', deltaRatio: 1 };
   }
 
-  const ratio = estimateDiffRatio(oldContent, newContent);
+  // Share of changed lines; positional character comparison when the change
+  // is too large to diff (it is then large either way)
+  const oldLines = splitLines(oldContent);
+  const newLines = splitLines(newContent);
+  const ops = diffLines(oldLines, newLines);
+  const ratio = ops && oldLines.length + newLines.length > 0
+    ? ops.filter((op) => op.kind !== ' ').length / (oldLines.length + newLines.length)
+    : estimateDiffRatio(oldContent, newContent);
   const normalizedRatio = Number.isFinite(ratio) ? Math.max(0, Math.min(1, ratio)) : 1;
 
   return {
-    delta: normalizedRatio < 0.15 ? 'small' : 'large',
+    delta: normalizedRatio < SMALL_DELTA_RATIO ? 'small' : 'large',
     deltaRatio: normalizedRatio,
   };
 }
 
+/**
+ * Whether a read only shows what the agent itself wrote: the same content,
+ * or the written content inside a thin tool-output wrapper.
+ */
+function reflectsOwnWrite(
+  db: DatabaseSync,
+  written: ResourceVersion & { id: number },
+  contentHash: string,
+  content: string,
+): boolean {
+  if (written.sourceAction === 'read') return false;
+  if (written.contentHash === contentHash) return true;
+
+  const writtenContent = getResourceVersionContent(db, written)?.trim();
+  return typeof writtenContent === 'string'
+    && writtenContent.length > 0
+    && content.includes(writtenContent)
+    && content.length - writtenContent.length <= READ_WRAPPER_SLACK;
+}
+
 export function processFileRead(
   db: DatabaseSync,
   conversationId: string,
@@ -287,19 +508,90 @@ export function processFileRead(
   const resourceUri = toFileUri(filePath);
   const previous = getLatestResourceVersion(db, conversationId, resourceUri);
   const contentHash = hashContent(content);
+  const reflects = previous !== null && reflectsOwnWrite(db, previous, contentHash, content);
+
+  const previousContent = previous && !reflects ? getResourceVersionContent(db, previous) : undefined;
+
+  // A read of the agent's own write carries no news: same as that version
+  const { delta, deltaRatio } = reflects
+    ? { delta: 'unchanged' as const, deltaRatio: 0 }
+    : computeDelta(previous?.contentHash ?? null, contentHash, previousContent, content);
 
-  const previousContent = previous
-    ? (getMessageContentAtTurn(db, conversationId, previous.turn) ?? maybeReadPayloadContent(db, previous.refId))
-    : undefined;
+  const createdAt = new Date().toISOString();
+  const version: ResourceVersion = {
+    conversationId,
+    resourceUri,
+    parentId: previous?.id,
+    contentHash,
+    refId,
+    delta,
+    deltaRatio,
+    turn,
+    sourceAction: 'read',
+    reflectsVersionId: reflects ? previous?.id : undefined,
+    createdAt,
+  };
+
+  const id = insertResourceVersion(db, version);
+  return { id, ...version };
+}
+
+/**
+ * Record a write or edit the agent made. The resulting content is kept as a
+ * payload when it is known — given outright by a write, or derived by
+ * applying an edit's replacements to the previous version — so later reads
+ * can be diffed against it. Otherwise the version carries a hash of the
+ * operation and counts as a large change.
+ */
+export function processFileWrite(
+  db: DatabaseSync,
+  conversationId: string,
+  operation: Pick<FileOperation, 'action' | 'path' | 'content' | 'edits'>,
+  turn: number,
+  options?: { workspacePath?: string },
+): ResourceVersion & { id: number } {
+  const resourceUri = toFileUri(operation.path);
+  const previous = getLatestResourceVersion(db, conversationId, resourceUri);
+  // A read that only echoed an earlier write has no cleaner content than that write
+  const base = previous?.reflectsVersionId !== undefined
+    ? (getResourceVersion(db, previous.reflectsVersionId) ?? previous)
+    : previous;
+  const previousContent = base ? getResourceVersionContent(db, base) : undefined;
+
+  const content = operation.content
+    ?? (operation.edits && operation.edits.length > 0 && typeof previousContent === 'string'
+      ? applyEdits(previousContent, operation.edits)
+      : undefined);
+  const contentHash = typeof content === 'string'
+    ? hashContent(content)
+    : hashContent(`${operation.action}:${resourceUri}:${turn}:${JSON.stringify(operation.edits ?? [])}`);
+
+  // payload_refs are keyed by the numeric conversation row, not the session key
+  const conversation = db
+    .prepare('SELECT id FROM conversations WHERE session_key = ? LIMIT 1')
+    .get(conversationId) as { id: number } | undefined;
+
+  let refId: string | undefined;
+  if (typeof content === 'string' && options?.workspacePath && conversation) {
+    const payloadConversationId = String(conversation.id);
+    const payloadRef = externalizePayload(options.workspacePath, payloadConversationId, content);
+    if (payloadRef.storagePath) {
+      insertPayloadRef(db, {
+        ...payloadRef,
+        conversationId: payloadConversationId,
+        hint: `${operation.action} ${operation.path}`,
+      });
+      refId = payloadRef.refId;
+    }
+  }
 
   const { delta, deltaRatio } = computeDelta(
     previous?.contentHash ?? null,
     contentHash,
-    previousContent,
+    typeof content === 'string' ? previousContent : undefined,
     content,
   );
 
-  const createdAt = new Date().toISOString();
   const version: ResourceVersion = {
     conversationId,
     resourceUri,
@@ -309,8 +601,8 @@ export function processFileRead(
     delta,
     deltaRatio,
     turn,
-    sourceAction: 'read',
-    createdAt,
+    sourceAction: operation.action,
+    createdAt: new Date().toISOString(),
   };
 
   const id = insertResourceVersion(db, version);
@@ -319,16 +611,203 @@ export function processFileRead(
 
 export function buildResourceToken(
   version: ResourceVersion & { id: number },
-  _prevVersion?: (ResourceVersion & { id: number }) | null,
+  prevVersion?: (ResourceVersion & { id: number }) | null,
+  diff?: string | null,
 ): string {
   if (version.delta === 'unchanged') {
-    return `<<RESOURCE_UNCHANGED:${version.resourceUri}:${version.contentHash}:${version.turn}>>`;
+    const token = `<<RESOURCE_UNCHANGED:${version.resourceUri}:${version.contentHash}:${version.turn}>>`;
+    if (!prevVersion) return token;
+    return version.reflectsVersionId === prevVersion.id
+      ? `${token}\nShows your own ${prevVersion.sourceAction} at turn ${prevVersion.turn} (si_expand rv-${version.id} for the full file).`
+      : `${token}\nSame content as the ${prevVersion.sourceAction} at turn ${prevVersion.turn} (si_expand rv-${version.id} for the full file).`;
   }
 
   if (version.delta === 'small') {
     const ratio = version.deltaRatio.toFixed(4);
-    return `<<RESOURCE_DELTA:${version.resourceUri}:${version.contentHash}:${ratio}:${version.turn}>>`;
+    const token = `<<RESOURCE_DELTA:${version.resourceUri}:${version.contentHash}:${ratio}:${version.turn}>>`;
+    if (!prevVersion || !diff) return token;
+    return `${token}\nChanges since the ${prevVersion.sourceAction} at turn ${prevVersion.turn} (si_expand rv-${version.id} for the full file):\n${diff}`;
   }
 
   return '';
 }
+
+/**
+ * What the model sees for a re-read: a unified diff against the previous
+ * version for small deltas, a marker for unchanged ones. Returns null when
+ * the full content should be shown instead — first reads, large deltas, or
+ * when the previous version can no longer be reconstructed.
+ */
+export function renderResourceVersion(
+  db: DatabaseSync,
+  version: ResourceVersion & { id: number },
+): string | null {
+  if (typeof version.parentId !== 'number') return null;
+  if (version.delta !== 'unchanged' && version.delta !== 'small') return null;
+
+  const previous = getResourceVersion(db, version.parentId);
+  if (!previous) return null;
+  if (version.delta === 'unchanged') return buildResourceToken(version, previous);
+
+  const previousContent = getResourceVersionContent(db, previous);
+  const content = getResourceVersionContent(db, version);
+  if (typeof previousContent !== 'string' || typeof content !== 'string') return null;
+
+  const diff = buildUnifiedDiff(previousContent, content, {
+    oldLabel: `${version.resourceUri} (turn ${previous.turn})`,
+    newLabel: `${version.resourceUri} (turn ${version.turn})`,
+  });
+  if (!diff) return null;
+
+  const rendered = buildResourceToken(version, previous, diff);
+  return rendered.length < content.length ? rendered : null;
+}
+
+/**
+ * Compact renderings of every re-read in a conversation, keyed by the turn
+ * (message index) the read happened at.
+ */
+export function renderResourceReads(db: DatabaseSync, conversationId: string): Map<number, string> {
+  const rows = db
+    .prepare(
+      `SELECT ${RESOURCE_VERSION_COLUMNS}
+         FROM resource_versions
+        WHERE conversation_id = ?
+          AND parent_id IS NOT NULL
+          AND COALESCE(source_action, 'read') = 'read'
+          AND delta IN ('unchanged', 'small')
+        ORDER BY id ASC`,
+    )
+    .all(conversationId) as ResourceVersionRow[];
+
+  const rendered = new Map<number, string>();
+  for (const row of rows) {
+    const text = renderResourceVersion(db, toResourceVersion(row));
+    if (text !== null) rendered.set(row.turn, text);
+  }
+
+  return rendered;
+}
+
+// ──────────────────────────────────────────────────────────────
+// Files touched
+// ──────────────────────────────────────────────────────────────
+
+export type FileTouch = {
+  versionId: number;
+  resourceUri: string;
+  path: string;
+  action: ResourceAction;
+  turn: number;
+  delta: DeltaType;
+  /** A read that only showed the agent's own earlier write/edit */
+  reflectsOwnEdit: boolean;
+};
+
+export type FileTouchSummary = {
+  path: string;
+  reads: number;
+  writes: number;
+  edits: number;
+  firstTurn: number;
+  lastTurn: number;
+  lastAction: ResourceAction;
+  /** Re-reads that found content the agent did not write itself */
+  externalChanges: number;
+};
+
+function toDisplayPath(resourceUri: string): string {
+  if (!resourceUri.startsWith('file://')) return resourceUri;
+  try {
+    return fileURLToPath(resourceUri);
+  } catch {
+    return resourceUri;
+  }
+}
+
+/**
+ * Every read, write and edit of a conversation in turn order, plus a
+ * per-file rollup. Optionally limited to a turn range (inclusive).
+ */
+export function getFilesTouched(
+  db: DatabaseSync,
+  conversationId: string,
+  options?: { fromTurn?: number; toTurn?: number },
+): { timeline: FileTouch[]; files: FileTouchSummary[] } {
+  const rows = db
+    .prepare(
+      `SELECT ${RESOURCE_VERSION_COLUMNS}
+         FROM resource_versions
+        WHERE conversation_id = ?
+          AND turn >= ?
+          AND turn <= ?
+        ORDER BY turn ASC, id ASC`,
+    )
+    .all(
+      conversationId,
+      options?.fromTurn ?? Number.MIN_SAFE_INTEGER,
+      options?.toTurn ?? Number.MAX_SAFE_INTEGER,
+    ) as ResourceVersionRow[];
+
+  const timeline: FileTouch[] = [];
+  const byPath = new Map<string, FileTouchSummary>();
+
+  for (const row of rows) {
+    const version = toResourceVersion(row);
+    const action: ResourceAction = version.sourceAction === 'write' || version.sourceAction === 'edit'
+      ? version.sourceAction
+      : 'read';
+    const touch: FileTouch = {
+      versionId: row.id,
+      resourceUri: version.resourceUri,
+      path: toDisplayPath(version.resourceUri),
+      action,
+      turn: version.turn,
+      delta: version.delta,
+      reflectsOwnEdit: version.reflectsVersionId !== undefined,
+    };
+    timeline.push(touch);
+
+    const summary = byPath.get(touch.path) ?? {
+      path: touch.path,
+      reads: 0,
+      writes: 0,
+      edits: 0,
+      firstTurn: touch.turn,
+      lastTurn: touch.turn,
+      lastAction: action,
+      externalChanges: 0,
+    };
+    const previousAction = byPath.has(touch.path) ? summary.lastAction : undefined;
+    if (action === 'read') summary.reads += 1;
+    else if (action === 'write') summary.writes += 1;
+    else summary.edits += 1;
+    summary.lastTurn = touch.turn;
+    summary.lastAction = action;
+    // Only read-to-read changes are certain; after an edit of unknown result the
+    // next read may simply show that edit
+    if (action === 'read' && previousAction === 'read' && touch.delta !== 'unchanged') {
+      summary.externalChanges += 1;
+    }
+    byPath.set(touch.path, summary);
+  }
+
+  return { timeline, files: [...byPath.values()] };
+}
+
+/** One line per file, most recently touched first, for summaries and checkpoints. */
+export function formatFilesTouched(files: FileTouchSummary[], options?: { limit?: number }): string[] {
+  const limit = options?.limit ?? 20;
+  const sorted = [...files].sort((a, b) => b.lastTurn - a.lastTurn);
+  const lines = sorted.slice(0, limit).map((file) => {
+    const counts = [
+      file.writes > 0 ? `${file.writes} write${file.writes === 1 ? '' : 's'}` : '',
+      file.edits > 0 ? `${file.edits} edit${file.edits === 1 ? '' : 's'}` : '',
+      file.reads > 0 ? `${file.reads} read${file.reads === 1 ? '' : 's'}` : '',
+    ].filter(Boolean).join(', ');
+    const external = file.externalChanges > 0 ? `; changed outside the agent ${file.externalChanges}×` : '';
+    return `${file.path} — ${counts} (turns ${file.firstTurn}-${file.lastTurn}, last ${file.lastAction}${external})`;
+  });
+  if (sorted.length > limit) lines.push(`… and ${sorted.length - limit} more file(s)`);
+  return lines;
+}
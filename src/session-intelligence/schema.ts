@@ -5,11 +5,12 @@
  * Walk 1b adds summary DAG tables and message summarized-state tracking.
  * Walk 2 adds ACA state-slot persistence for identity protection lanes.
  * Walk 3 adds compaction event persistence for threshold/cooldown logic.
+ * Version 14 adds FTS5 full-text indexes for recall search.
  */
 
 import type { DatabaseSync } from 'node:sqlite';
 
-const LATEST_SCHEMA_VERSION = 13;
+const LATEST_SCHEMA_VERSION = 17;
 
 function nowIso(): string {
   return new Date().toISOString();
@@ -270,6 +271,131 @@ function applyVersion11Migration(db: DatabaseSync): void {
   db.exec('CREATE INDEX IF NOT EXISTS idx_resource_versions_uri ON resource_versions(conversation_id, resource_uri)');
 }
 
+function applyVersion14Migration(db: DatabaseSync): void {
+  // messages and summaries are external-content indexes kept in sync by
+  // triggers. state_slots is written with INSERT OR REPLACE, whose implicit
+  // delete does not fire triggers, so its index stores its own copy and
+  // drops orphaned rows on every insert.
+  try {
+    db.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts USING fts5(
+        content,
+        content='messages',
+        content_rowid='id',
+        tokenize='unicode61 remove_diacritics 2',
+        prefix='2 3'
+      )
+    `);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (message.toLowerCase().includes('no such module')) {
+      console.warn('[clawtext-session-intelligence] SQLite built without FTS5; recall search falls back to LIKE.');
+      return;
+    }
+    throw error;
+  }
+
+  db.exec(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS summaries_fts USING fts5(
+      content,
+      content='summaries',
+      content_rowid='id',
+      tokenize='unicode61 remove_diacritics 2',
+      prefix='2 3'
+    )
+  `);
+
+  db.exec(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS state_slots_fts USING fts5(
+      slot_name,
+      content,
+      tokenize='unicode61 remove_diacritics 2',
+      prefix='2 3'
+    )
+  `);
+
+  db.exec(`
+    CREATE TRIGGER IF NOT EXISTS messages_fts_insert AFTER INSERT ON messages BEGIN
+      INSERT INTO messages_fts(rowid, content) VALUES (new.id, new.content);
+    END;
+    CREATE TRIGGER IF NOT EXISTS messages_fts_delete AFTER DELETE ON messages BEGIN
+      INSERT INTO messages_fts(messages_fts, rowid, content) VALUES ('delete', old.id, old.content);
+    END;
+    CREATE TRIGGER IF NOT EXISTS messages_fts_update AFTER UPDATE OF content ON messages BEGIN
+      INSERT INTO messages_fts(messages_fts, rowid, content) VALUES ('delete', old.id, old.content);
+      INSERT INTO messages_fts(rowid, content) VALUES (new.id, new.content);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS summaries_fts_insert AFTER INSERT ON summaries BEGIN
+      INSERT INTO summaries_fts(rowid, content) VALUES (new.id, new.content);
+    END;
+    CREATE TRIGGER IF NOT EXISTS summaries_fts_delete AFTER DELETE ON summaries BEGIN
+      INSERT INTO summaries_fts(summaries_fts, rowid, content) VALUES ('delete', old.id, old.content);
+    END;
+    CREATE TRIGGER IF NOT EXISTS summaries_fts_update AFTER UPDATE OF content ON summaries BEGIN
+      INSERT INTO summaries_fts(summaries_fts, rowid, content) VALUES ('delete', old.id, old.content);
+      INSERT INTO summaries_fts(rowid, content) VALUES (new.id, new.content);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS state_slots_fts_insert AFTER INSERT ON state_slots BEGIN
+      DELETE FROM state_slots_fts WHERE rowid NOT IN (SELECT id FROM state_slots);
+      INSERT INTO state_slots_fts(rowid, slot_name, content) VALUES (new.id, new.slot_name, new.content);
+    END;
+    CREATE TRIGGER IF NOT EXISTS state_slots_fts_delete AFTER DELETE ON state_slots BEGIN
+      DELETE FROM state_slots_fts WHERE rowid = old.id;
+    END;
+    CREATE TRIGGER IF NOT EXISTS state_slots_fts_update AFTER UPDATE OF slot_name, content ON state_slots BEGIN
+      DELETE FROM state_slots_fts WHERE rowid = old.id;
+      INSERT INTO state_slots_fts(rowid, slot_name, content) VALUES (new.id, new.slot_name, new.content);
+    END;
+  `);
+
+  // Backfill existing rows
+  db.exec(`INSERT INTO messages_fts(messages_fts) VALUES ('rebuild')`);
+  db.exec(`INSERT INTO summaries_fts(summaries_fts) VALUES ('rebuild')`);
+  db.exec('DELETE FROM state_slots_fts');
+  db.exec('INSERT INTO state_slots_fts(rowid, slot_name, content) SELECT id, slot_name, content FROM state_slots');
+}
+
+function applyVersion15Migration(db: DatabaseSync): void {
+  // Reads that merely show the agent's own write/edit point at that version
+  const columns = db
+    .prepare('PRAGMA table_info(resource_versions)')
+    .all() as Array<{ name: string }>;
+  if (!columns.some((column) => column.name === 'reflects_version_id')) {
+    db.exec('ALTER TABLE resource_versions ADD COLUMN reflects_version_id INTEGER');
+  }
+}
+
+function applyVersion16Migration(db: DatabaseSync): void {
+  // Re-summarization rewrites a summary in place; the replaced text is kept here
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS summary_revisions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      summary_id INTEGER NOT NULL REFERENCES summaries(id),
+      content TEXT NOT NULL,
+      model TEXT,
+      prompt TEXT,
+      reason TEXT,
+      created_at TEXT NOT NULL
+    )
+  `);
+  db.exec('CREATE INDEX IF NOT EXISTS idx_summary_revisions_summary ON summary_revisions(summary_id, id);');
+}
+
+function applyVersion17Migration(db: DatabaseSync): void {
+  // Lowest fidelity score of the summaries a compaction wrote, and how many it rejected
+  const columns = db
+    .prepare('PRAGMA table_info(compaction_events)')
+    .all() as Array<{ name: string }>;
+  if (!columns.some((column) => column.name === 'fidelity_score')) {
+    db.exec('ALTER TABLE compaction_events ADD COLUMN fidelity_score REAL');
+  }
+  if (!columns.some((column) => column.name === 'fidelity_rejections')) {
+    db.exec('ALTER TABLE compaction_events ADD COLUMN fidelity_rejections INTEGER NOT NULL DEFAULT 0');
+  }
+}
+
 export function migrate(db: DatabaseSync): void {
   createBaseSchema(db);
 
@@ -413,6 +539,38 @@ export function migrate(db: DatabaseSync): void {
     db
       .prepare('INSERT INTO schema_version (version, applied_at) VALUES (?, ?)')
       .run(13, nowIso());
+    version = 13;
+  }
+
+  if (version < 14) {
+    applyVersion14Migration(db);
+    db
+      .prepare('INSERT INTO schema_version (version, applied_at) VALUES (?, ?)')
+      .run(14, nowIso());
+    version = 14;
+  }
+
+  if (version < 15) {
+    applyVersion15Migration(db);
+    db
+      .prepare('INSERT INTO schema_version (version, applied_at) VALUES (?, ?)')
+      .run(15, nowIso());
+    version = 15;
+  }
+
+  if (version < 16) {
+    applyVersion16Migration(db);
+    db
+      .prepare('INSERT INTO schema_version (version, applied_at) VALUES (?, ?)')
+      .run(16, nowIso());
+    version = 16;
+  }
+
+  if (version < 17) {
+    applyVersion17Migration(db);
+    db
+      .prepare('INSERT INTO schema_version (version, applied_at) VALUES (?, ?)')
+      .run(17, nowIso());
   }
 }
 
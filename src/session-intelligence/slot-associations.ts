@@ -84,26 +84,25 @@ export function associateResourceWithSlots(
   resourceVersionId: number,
   turn: number,
 ): void {
-  const minTurn = turn - 3;
+  // state_slots is keyed by the numeric conversation id and holds the
+  // current value only, so every live problem/decision slot is associated
   const rows = db
     .prepare(
-      `SELECT slot_name, slot_value, turn FROM state_slots
-        WHERE conversation_id = ?
-          AND slot_name IN ('active_problem', 'decisions_made')
-          AND turn >= ?
-        ORDER BY turn DESC
-        LIMIT 6`,
+      `SELECT s.slot_name, s.content
+         FROM state_slots s
+         INNER JOIN conversations c ON c.id = s.conversation_id
+        WHERE c.session_key = ?
+          AND s.slot_name IN ('active_problem', 'decisions_made')`,
     )
-    .all(conversationId, minTurn) as Array<{
+    .all(conversationId) as Array<{
     slot_name: string;
-    slot_value: string;
-    turn: number;
+    content: string;
   }>;
 
   for (const row of rows) {
     const priority: RecoveryPriority = row['slot_name'] === 'active_problem' ? 'high' : 'normal';
     const snapshot =
-      typeof row['slot_value'] === 'string' ? row['slot_value'].slice(0, 500) : undefined;
+      typeof row['content'] === 'string' ? row['content'].slice(0, 500) : undefined;
     insertSlotAssociation(db, {
       resourceVersionId,
       conversationId,
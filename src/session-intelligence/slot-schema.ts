@@ -0,0 +1,283 @@
+/**
+ * Declarative state slot schema.
+ *
+ * Each slot names the extractors that fill it and how new items merge into
+ * what the slot already holds. The default schema keeps the original
+ * `decisions_made` / `active_problem` behaviour and adds open questions,
+ * constraints, todos, environment facts and user preferences.
+ *
+ * A workspace can extend or replace it with
+ *   {workspacePath}/.clawtext/slot-schema.json
+ * or through `SessionIntelligenceConfig.slotSchema`.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { ContentType } from './content-type';
+
+export type SlotMergePolicy = 'append' | 'replace' | 'set-union' | 'capped-list';
+
+export type SlotExtractor =
+  | {
+    type: 'regex';
+    pattern: string;
+    flags?: string;
+    /** Capture group used as the item; the whole match when omitted */
+    group?: number;
+    roles?: string[];
+    contentTypes?: ContentType[];
+  }
+  | {
+    /** The content-type classifier's decision / problem extraction */
+    type: 'classifier';
+    classifier: 'decision' | 'problem';
+  }
+  | {
+    /** Ask the summarization model; runs after ingest, best-effort */
+    type: 'llm';
+    instruction: string;
+    roles?: string[];
+    /** Only messages matching this pattern are sent to the model */
+    trigger?: string;
+  };
+
+export type SlotDefinition = {
+  name: string;
+  description?: string;
+  merge: SlotMergePolicy;
+  /** capped-list (default 10) and set-union only */
+  maxItems?: number;
+  enabled?: boolean;
+  extractors: SlotExtractor[];
+};
+
+export type SlotSchema = {
+  slots: SlotDefinition[];
+  /** Model calls allowed per hour across all llm extractors (default 20) */
+  llmMaxCallsPerHour?: number;
+  llmModel?: string;
+};
+
+/** Slot file shape: entries override defaults by name unless replaceDefaults is set */
+export type SlotSchemaFile = Partial<SlotSchema> & { replaceDefaults?: boolean };
+
+const SCHEMA_FILE = path.join('.clawtext', 'slot-schema.json');
+const RESERVED_SLOT_NAMES = new Set(['identity_kernel', 'active_overlay']);
+const MERGE_POLICIES: SlotMergePolicy[] = ['append', 'replace', 'set-union', 'capped-list'];
+const DEFAULT_CAPPED_LIST_SIZE = 10;
+const MAX_ITEM_CHARS = 200;
+
+export const DEFAULT_SLOT_SCHEMA: SlotSchema = {
+  slots: [
+    {
+      name: 'decisions_made',
+      description: 'Decisions the assistant stated',
+      merge: 'capped-list',
+      maxItems: 10,
+      extractors: [{ type: 'classifier', classifier: 'decision' }],
+    },
+    {
+      name: 'active_problem',
+      description: 'What the user is currently working on',
+      merge: 'replace',
+      extractors: [{ type: 'classifier', classifier: 'problem' }],
+    },
+    {
+      name: 'open_questions',
+      description: 'Questions the user asked',
+      merge: 'capped-list',
+      maxItems: 5,
+      extractors: [{ type: 'regex', pattern: '[^?.!\\n]{10,}\\?', flags: 'g', roles: ['user'] }],
+    },
+    {
+      name: 'constraints',
+      description: 'Hard requirements the user set',
+      merge: 'set-union',
+      maxItems: 20,
+      extractors: [{
+        type: 'regex',
+        pattern: "\\b(?:must not|must|never|do not|don't|avoid)\\s+[^.!?\\n]{3,120}",
+        flags: 'gi',
+        roles: ['user'],
+      }],
+    },
+    {
+      name: 'todo',
+      description: 'Open todo items',
+      merge: 'set-union',
+      maxItems: 20,
+      extractors: [{
+        type: 'regex',
+        pattern: '^\\s*(?:[-*]\\s*\\[ \\]|TODO:?)\\s*(.+)$',
+        flags: 'gmi',
+        group: 1,
+        roles: ['user', 'assistant'],
+      }],
+    },
+    {
+      name: 'environment',
+      description: 'Runtimes, services and platforms in play',
+      merge: 'set-union',
+      maxItems: 20,
+      extractors: [{
+        type: 'regex',
+        pattern: '\\b(?:node|python|go|rust|java|postgres(?:ql)?|mysql|redis|ubuntu|debian|macos|windows)\\s+v?\\d+(?:\\.\\d+)*\\b',
+        flags: 'gi',
+      }],
+    },
+    {
+      name: 'user_preferences',
+      description: 'How the user wants things done',
+      merge: 'set-union',
+      maxItems: 20,
+      extractors: [{
+        type: 'regex',
+        pattern: "\\b(?:I prefer|I'd prefer|I'd rather|please always|please never|please don't)\\s+[^.!?\\n]{3,160}",
+        flags: 'gi',
+        roles: ['user'],
+      }],
+    },
+  ],
+};
+
+function assertSchema(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(`[clawtext-session-intelligence] Invalid slot schema: ${message}`);
+}
+
+function validateExtractor(slotName: string, extractor: SlotExtractor): void {
+  const where = `slot "${slotName}"`;
+  assertSchema(extractor && typeof extractor === 'object', `${where} has a non-object extractor`);
+
+  if (extractor.type === 'regex') {
+    assertSchema(typeof extractor.pattern === 'string' && extractor.pattern.length > 0, `${where} regex needs a pattern`);
+    try {
+      new RegExp(extractor.pattern, extractor.flags);
+    } catch (error) {
+      throw new Error(`[clawtext-session-intelligence] Invalid slot schema: ${where} pattern: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return;
+  }
+
+  if (extractor.type === 'classifier') {
+    assertSchema(['decision', 'problem'].includes(extractor.classifier), `${where} classifier must be decision or problem`);
+    return;
+  }
+
+  if (extractor.type === 'llm') {
+    assertSchema(typeof extractor.instruction === 'string' && extractor.instruction.trim().length > 0, `${where} llm needs an instruction`);
+    if (extractor.trigger !== undefined) new RegExp(extractor.trigger);
+    return;
+  }
+
+  throw new Error(`[clawtext-session-intelligence] Invalid slot schema: ${where} has unknown extractor type "${(extractor as { type?: unknown }).type}"`);
+}
+
+export function validateSlotSchema(schema: SlotSchema): SlotSchema {
+  assertSchema(schema && Array.isArray(schema.slots), 'slots must be an array');
+
+  const seen = new Set<string>();
+  for (const slot of schema.slots) {
+    assertSchema(typeof slot.name === 'string' && /^[a-z][a-z0-9_]*$/.test(slot.name), `bad slot name "${String(slot.name)}"`);
+    assertSchema(!RESERVED_SLOT_NAMES.has(slot.name), `"${slot.name}" is reserved`);
+    assertSchema(!seen.has(slot.name), `duplicate slot "${slot.name}"`);
+    seen.add(slot.name);
+
+    assertSchema(MERGE_POLICIES.includes(slot.merge), `slot "${slot.name}" merge must be one of ${MERGE_POLICIES.join(', ')}`);
+    if (slot.maxItems !== undefined) {
+      assertSchema(slot.merge === 'capped-list' || slot.merge === 'set-union', `slot "${slot.name}" maxItems only applies to capped-list and set-union`);
+      assertSchema(Number.isInteger(slot.maxItems) && slot.maxItems > 0, `slot "${slot.name}" maxItems must be a positive integer`);
+    }
+
+    assertSchema(Array.isArray(slot.extractors), `slot "${slot.name}" extractors must be an array`);
+    for (const extractor of slot.extractors) validateExtractor(slot.name, extractor);
+  }
+
+  return schema;
+}
+
+/**
+ * The active schema: an explicit override, else the workspace file layered
+ * on the defaults, else the defaults.
+ */
+export function loadSlotSchema(workspacePath: string, override?: SlotSchema): SlotSchema {
+  if (override) return validateSlotSchema(override);
+
+  const filePath = path.join(workspacePath, SCHEMA_FILE);
+  if (!fs.existsSync(filePath)) return DEFAULT_SLOT_SCHEMA;
+
+  let file: SlotSchemaFile;
+  try {
+    file = JSON.parse(fs.readFileSync(filePath, 'utf8')) as SlotSchemaFile;
+  } catch (error) {
+    throw new Error(`[clawtext-session-intelligence] Could not read ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const fileSlots = Array.isArray(file.slots) ? file.slots : [];
+  const slots = file.replaceDefaults === true
+    ? fileSlots
+    : [
+      ...DEFAULT_SLOT_SCHEMA.slots.map((slot) => fileSlots.find((entry) => entry.name === slot.name) ?? slot),
+      ...fileSlots.filter((entry) => !DEFAULT_SLOT_SCHEMA.slots.some((slot) => slot.name === entry.name)),
+    ];
+
+  return validateSlotSchema({
+    slots,
+    llmMaxCallsPerHour: file.llmMaxCallsPerHour,
+    llmModel: file.llmModel,
+  });
+}
+
+export function getSlotDefinition(schema: SlotSchema, slotName: string): SlotDefinition | undefined {
+  return schema.slots.find((slot) => slot.name === slotName);
+}
+
+export function hasLlmExtractors(schema: SlotSchema): boolean {
+  return schema.slots.some((slot) => slot.enabled !== false && slot.extractors.some((e) => e.type === 'llm'));
+}
+
+// ──────────────────────────────────────────────────────────────
+// Items and merging
+// ──────────────────────────────────────────────────────────────
+
+/** Slot content is one item per line. */
+export function parseSlotItems(content: string | null | undefined): string[] {
+  if (!content) return [];
+  return content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+}
+
+export function normalizeSlotItem(item: string): string {
+  return item.replace(/\s+/g, ' ').trim().slice(0, MAX_ITEM_CHARS).trim();
+}
+
+function itemKey(item: string): string {
+  return item.toLowerCase().replace(/[\s.,;:!?]+$/g, '');
+}
+
+/** Combine a slot's current items with newly extracted ones per its merge policy. */
+export function mergeSlotItems(slot: Pick<SlotDefinition, 'merge' | 'maxItems'>, existing: string[], incoming: string[]): string[] {
+  const fresh = incoming.map(normalizeSlotItem).filter((item) => item.length > 0);
+
+  switch (slot.merge) {
+    case 'replace':
+      return fresh.length > 0 ? fresh : existing;
+    case 'append':
+      return [...existing, ...fresh];
+    case 'capped-list': {
+      const cap = slot.maxItems ?? DEFAULT_CAPPED_LIST_SIZE;
+      return [...existing, ...fresh].slice(-cap);
+    }
+    case 'set-union': {
+      const merged = [...existing];
+      const keys = new Set(existing.map(itemKey));
+      for (const item of fresh) {
+        if (keys.has(itemKey(item))) continue;
+        keys.add(itemKey(item));
+        merged.push(item);
+      }
+      return slot.maxItems ? merged.slice(-slot.maxItems) : merged;
+    }
+  }
+}
@@ -1,9 +1,30 @@
 import type { DatabaseSync } from 'node:sqlite';
-import { extractDecisionText, extractProblemText, type ContentType } from './content-type';
+import { extractDecisionText, extractProblemText, readContent, type ContentType } from './content-type';
+import {
+  DEFAULT_SLOT_SCHEMA,
+  mergeSlotItems,
+  parseSlotItems,
+  type SlotDefinition,
+  type SlotExtractor,
+  type SlotSchema,
+} from './slot-schema';
 import { getStateSlot, upsertStateSlot } from './state-slots';
 
 type UnknownRecord = Record<string, unknown>;
 
+type ModelApi = {
+  complete(model: string, prompt: string): Promise<string>;
+};
+
+type CallBudget = {
+  canSummarize(): boolean;
+  recordCall(): void;
+};
+
+// Tool output and heartbeats describe the tools, not the conversation
+const DEFAULT_REGEX_CONTENT_TYPES: ContentType[] = ['anchor', 'decision', 'active'];
+const MAX_LLM_MESSAGE_CHARS = 4000;
+
 function isRecord(value: unknown): value is UnknownRecord {
   return typeof value === 'object' && value !== null;
 }
@@ -13,53 +34,141 @@ function getRole(message: unknown): string {
   return typeof message.role === 'string' ? message.role.toLowerCase() : '';
 }
 
-function normalizeDecisions(content: string): string[] {
-  return content
-    .split(/\r?\n/)
-    .map((line) => line.trim())
-    .filter((line) => line.length > 0);
+function roleAllowed(roles: string[] | undefined, role: string): boolean {
+  return !roles || roles.length === 0 || roles.some((entry) => entry.toLowerCase() === role);
 }
 
-function appendDecision(existingContent: string | null, nextDecision: string): string {
-  const decisions = existingContent ? normalizeDecisions(existingContent) : [];
-  decisions.push(nextDecision.trim());
+function runExtractor(extractor: SlotExtractor, message: unknown, contentType: ContentType): string[] {
+  const role = getRole(message);
+
+  if (extractor.type === 'classifier') {
+    if (extractor.classifier === 'decision') {
+      if (contentType !== 'decision') return [];
+      const text = extractDecisionText(message);
+      return text === null ? [] : [text];
+    }
+
+    if (contentType !== 'active' || role !== 'user') return [];
+    const text = extractProblemText(message);
+    return text === null ? [] : [text];
+  }
+
+  if (extractor.type === 'regex') {
+    if (!roleAllowed(extractor.roles, role)) return [];
+    if (!(extractor.contentTypes ?? DEFAULT_REGEX_CONTENT_TYPES).includes(contentType)) return [];
 
-  if (decisions.length > 10) {
-    return decisions.slice(decisions.length - 10).join('\n');
+    const flags = extractor.flags?.includes('g') ? extractor.flags : `${extractor.flags ?? ''}g`;
+    const pattern = new RegExp(extractor.pattern, flags);
+    const items: string[] = [];
+    for (const match of readContent(message).matchAll(pattern)) {
+      const value = match[extractor.group ?? 0];
+      if (typeof value === 'string' && value.trim().length > 0) items.push(value);
+    }
+    return items;
   }
 
-  return decisions.join('\n');
+  // llm extractors run asynchronously in extractStateWithModel
+  return [];
 }
 
+function writeSlotItems(db: DatabaseSync, conversationId: number, slot: SlotDefinition, items: string[], loadedFrom: string): void {
+  if (items.length === 0) return;
+
+  const existing = getStateSlot(db, conversationId, slot.name);
+  // Pinned slots were set by hand; extraction leaves them alone
+  if (existing?.isPinned) return;
+
+  const current = parseSlotItems(existing?.content);
+  const next = mergeSlotItems(slot, current, items);
+  if (next.length === 0 || next.join('\n') === current.join('\n')) return;
+
+  upsertStateSlot(db, conversationId, slot.name, next.join('\n'), {
+    loadedFrom,
+    isPinned: false,
+  });
+}
+
+/**
+ * Fill state slots from one message with the schema's regex and classifier
+ * extractors. Runs inside the ingest transaction.
+ */
 export function extractStateFromMessage(params: {
   db: DatabaseSync;
   conversationId: number;
   message: unknown;
   contentType: ContentType;
+  schema?: SlotSchema;
 }): void {
   const { db, conversationId, message, contentType } = params;
+  const schema = params.schema ?? DEFAULT_SLOT_SCHEMA;
 
-  if (contentType === 'decision') {
-    const decisionText = extractDecisionText(message);
-    if (decisionText === null) return;
+  for (const slot of schema.slots) {
+    if (slot.enabled === false) continue;
+    const items = slot.extractors.flatMap((extractor) => runExtractor(extractor, message, contentType));
+    writeSlotItems(db, conversationId, slot, items, 'extraction');
+  }
+}
 
-    const existing = getStateSlot(db, conversationId, 'decisions_made');
-    const next = appendDecision(existing?.content ?? null, decisionText);
+export function buildSlotExtractionPrompt(slot: SlotDefinition, instruction: string, role: string, text: string): string {
+  return [
+    `Extract items for the "${slot.name}" slot${slot.description ? ` (${slot.description})` : ''} from the message below.`,
+    instruction.trim(),
+    'Reply with one short item per line and nothing else. Reply NONE if there is nothing to extract.',
+    `Message (${role || 'unknown'}):`,
+    text.slice(0, MAX_LLM_MESSAGE_CHARS),
+  ].join('\n');
+}
 
-    upsertStateSlot(db, conversationId, 'decisions_made', next, {
-      loadedFrom: 'extraction',
-      isPinned: false,
-    });
-    return;
-  }
+function parseModelItems(reply: string): string[] {
+  return reply
+    .split(/\r?\n/)
+    .map((line) => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').trim())
+    .filter((line) => line.length > 0 && !/^none\.?$/i.test(line));
+}
 
-  if (contentType === 'active' && getRole(message) === 'user') {
-    const problemText = extractProblemText(message);
-    if (problemText === null) return;
+/**
+ * Run the schema's llm extractors over one message. Each matching extractor
+ * is one model call, subject to the call budget; failures are logged and
+ * leave the slot as it was.
+ */
+export async function extractStateWithModel(params: {
+  db: DatabaseSync;
+  conversationId: number;
+  message: unknown;
+  contentType: ContentType;
+  schema: SlotSchema;
+  api: ModelApi;
+  model: string;
+  budget?: CallBudget;
+}): Promise<number> {
+  const { db, conversationId, message, contentType, schema, api, model, budget } = params;
+  if (contentType === 'tool_result' || contentType === 'noise') return 0;
+
+  const role = getRole(message);
+  const text = readContent(message).trim();
+  if (text.length === 0) return 0;
 
-    upsertStateSlot(db, conversationId, 'active_problem', problemText, {
-      loadedFrom: 'extraction',
-      isPinned: false,
-    });
+  let calls = 0;
+  for (const slot of schema.slots) {
+    if (slot.enabled === false) continue;
+
+    for (const extractor of slot.extractors) {
+      if (extractor.type !== 'llm' || !roleAllowed(extractor.roles, role)) continue;
+      if (extractor.trigger && !new RegExp(extractor.trigger, 'i').test(text)) continue;
+      if (budget && !budget.canSummarize()) return calls;
+
+      try {
+        const reply = await api.complete(model, buildSlotExtractionPrompt(slot, extractor.instruction, role, text));
+        budget?.recordCall();
+        calls += 1;
+        writeSlotItems(db, conversationId, slot, parseModelItems(reply), 'llm-extraction');
+      } catch (error) {
+        console.warn(
+          `[clawtext-session-intelligence] slot extraction failed for ${slot.name}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
   }
+
+  return calls;
 }
@@ -136,3 +136,22 @@ export function pinStateSlot(db: DatabaseSync, conversationId: number, slotName:
     )
     .run(new Date().toISOString(), conversationId, slotName);
 }
+
+export function unpinStateSlot(db: DatabaseSync, conversationId: number, slotName: string): void {
+  db
+    .prepare(
+      `UPDATE state_slots
+          SET is_pinned = 0,
+              updated_at = ?
+        WHERE conversation_id = ?
+          AND slot_name = ?`,
+    )
+    .run(new Date().toISOString(), conversationId, slotName);
+}
+
+export function deleteStateSlot(db: DatabaseSync, conversationId: number, slotName: string): boolean {
+  const result = db
+    .prepare('DELETE FROM state_slots WHERE conversation_id = ? AND slot_name = ?')
+    .run(conversationId, slotName) as StatementRunResult;
+  return (result.changes ?? 0) > 0;
+}
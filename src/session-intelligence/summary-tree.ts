@@ -0,0 +1,416 @@
+/**
+ * Browsing the summary DAG: the tree of leaf and condensed summaries of a
+ * conversation, and how much of its sources a summary kept.
+ */
+
+import type { DatabaseSync } from 'node:sqlite';
+import { getSummaryLineage } from './dag';
+
+type SummaryRow = {
+  id: number;
+  conversation_id: number;
+  depth: number;
+  content: string;
+  token_count: number | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type SummaryTreeNode = {
+  id: number;
+  depth: number;
+  content: string;
+  tokenCount: number | null;
+  createdAt: string;
+  updatedAt: string;
+  /** Messages under this node, through every descendant */
+  messageCount: number;
+  /** First and last message_index covered */
+  messageRange: [number, number] | null;
+  revisions: number;
+  children: SummaryTreeNode[];
+};
+
+export type SummarySource = {
+  kind: 'message' | 'summary';
+  id: number;
+  /** message_index for messages, summary id for summaries */
+  label: string;
+  role?: string;
+  preview: string;
+  terms: number;
+  keptTerms: number;
+};
+
+export type SummaryComparison = {
+  summaryId: number;
+  depth: number;
+  against: 'messages' | 'children';
+  /** Share of the sources' salient terms that appear in the summary */
+  coverage: number;
+  totalTerms: number;
+  missingTerms: string[];
+  /** Salient terms in the summary found in no source */
+  unsupportedTerms: string[];
+  sources: SummarySource[];
+};
+
+const DEFAULT_PREVIEW_CHARS = 80;
+const MAX_LISTED_TERMS = 25;
+
+const TERM_STOPWORDS = new Set([
+  'the', 'this', 'that', 'then', 'there', 'these', 'those', 'they', 'what', 'when', 'where', 'which', 'while',
+  'with', 'will', 'would', 'should', 'could', 'have', 'has', 'had', 'and', 'but', 'for', 'from', 'not', 'you',
+  'your', 'our', 'are', 'was', 'were', 'its', 'also', 'just', 'okay', 'yes', 'sure', 'thanks', 'please', 'let',
+  'user', 'assistant', 'summary', 'after', 'before', 'because', 'some', 'all', 'any', 'each', 'now', 'here',
+]);
+
+/** Parse `sum-7` or `7`. */
+export function parseSummaryId(value: string | number): number | null {
+  if (typeof value === 'number') return Number.isInteger(value) && value > 0 ? value : null;
+  const match = /^(?:sum-)?(\d+)$/.exec(value.trim());
+  return match ? Number(match[1]) : null;
+}
+
+export function getSummaryRow(db: DatabaseSync, summaryId: number): SummaryRow | null {
+  const row = db
+    .prepare(
+      `SELECT id, conversation_id, depth, content, token_count, created_at, updated_at
+         FROM summaries
+        WHERE id = ?
+        LIMIT 1`,
+    )
+    .get(summaryId) as SummaryRow | undefined;
+  return row ?? null;
+}
+
+/** Child summary ids of a condensed summary, oldest first. */
+export function getChildSummaryIds(db: DatabaseSync, summaryId: number): number[] {
+  const rows = db
+    .prepare('SELECT child_summary_id FROM summary_parents WHERE parent_summary_id = ? ORDER BY child_summary_id ASC')
+    .all(summaryId) as Array<{ child_summary_id: number }>;
+  return rows.map((row) => row.child_summary_id);
+}
+
+/** Messages a leaf summary was written from, in conversation order. */
+export function getSummaryMessages(
+  db: DatabaseSync,
+  summaryId: number,
+): Array<{ id: number; role: string; content: string; message_index: number }> {
+  return db
+    .prepare(
+      `SELECT m.id, m.role, m.content, m.message_index
+         FROM summary_messages sm
+         JOIN messages m ON m.id = sm.message_id
+        WHERE sm.summary_id = ?
+        ORDER BY m.message_index ASC`,
+    )
+    .all(summaryId) as Array<{ id: number; role: string; content: string; message_index: number }>;
+}
+
+/**
+ * Every summary of a conversation as a forest: condensed summaries hold
+ * their children, roots are summaries nothing condensed yet. Roots are
+ * ordered by the first message they cover.
+ */
+export function getSummaryTree(db: DatabaseSync, conversationId: number): SummaryTreeNode[] {
+  const rows = db
+    .prepare(
+      `SELECT id, conversation_id, depth, content, token_count, created_at, updated_at
+         FROM summaries
+        WHERE conversation_id = ?
+        ORDER BY id ASC`,
+    )
+    .all(conversationId) as SummaryRow[];
+  if (rows.length === 0) return [];
+
+  const edges = db
+    .prepare(
+      `SELECT sp.parent_summary_id, sp.child_summary_id
+         FROM summary_parents sp
+         JOIN summaries s ON s.id = sp.parent_summary_id
+        WHERE s.conversation_id = ?
+        ORDER BY sp.child_summary_id ASC`,
+    )
+    .all(conversationId) as Array<{ parent_summary_id: number; child_summary_id: number }>;
+
+  const messageStats = db
+    .prepare(
+      `SELECT sm.summary_id, COUNT(*) AS count, MIN(m.message_index) AS first, MAX(m.message_index) AS last
+         FROM summary_messages sm
+         JOIN messages m ON m.id = sm.message_id
+         JOIN summaries s ON s.id = sm.summary_id
+        WHERE s.conversation_id = ?
+        GROUP BY sm.summary_id`,
+    )
+    .all(conversationId) as Array<{ summary_id: number; count: number; first: number; last: number }>;
+
+  const revisionCounts = db
+    .prepare(
+      `SELECT r.summary_id, COUNT(*) AS count
+         FROM summary_revisions r
+         JOIN summaries s ON s.id = r.summary_id
+        WHERE s.conversation_id = ?
+        GROUP BY r.summary_id`,
+    )
+    .all(conversationId) as Array<{ summary_id: number; count: number }>;
+
+  const childrenOf = new Map<number, number[]>();
+  const isChild = new Set<number>();
+  for (const edge of edges) {
+    childrenOf.set(edge.parent_summary_id, [...(childrenOf.get(edge.parent_summary_id) ?? []), edge.child_summary_id]);
+    isChild.add(edge.child_summary_id);
+  }
+  const statsOf = new Map(messageStats.map((row) => [row.summary_id, row]));
+  const revisionsOf = new Map(revisionCounts.map((row) => [row.summary_id, row.count]));
+  const rowOf = new Map(rows.map((row) => [row.id, row]));
+
+  const build = (id: number, path: Set<number>): SummaryTreeNode | null => {
+    const row = rowOf.get(id);
+    if (!row || path.has(id)) return null;
+    const nextPath = new Set(path).add(id);
+
+    const children = (childrenOf.get(id) ?? [])
+      .map((childId) => build(childId, nextPath))
+      .filter((node): node is SummaryTreeNode => node !== null);
+
+    const own = statsOf.get(id);
+    let messageCount = own?.count ?? 0;
+    let range: [number, number] | null = own ? [own.first, own.last] : null;
+    for (const child of children) {
+      messageCount += child.messageCount;
+      if (child.messageRange) {
+        range = range
+          ? [Math.min(range[0], child.messageRange[0]), Math.max(range[1], child.messageRange[1])]
+          : child.messageRange;
+      }
+    }
+
+    return {
+      id,
+      depth: row.depth,
+      content: row.content,
+      tokenCount: row.token_count,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      messageCount,
+      messageRange: range,
+      revisions: revisionsOf.get(id) ?? 0,
+      children,
+    };
+  };
+
+  return rows
+    .filter((row) => !isChild.has(row.id))
+    .map((row) => build(row.id, new Set()))
+    .filter((node): node is SummaryTreeNode => node !== null)
+    .sort((a, b) => (a.messageRange?.[0] ?? Number.MAX_SAFE_INTEGER) - (b.messageRange?.[0] ?? Number.MAX_SAFE_INTEGER) || a.id - b.id);
+}
+
+/** Find a node (and its subtree) in a forest. */
+export function findSummaryNode(nodes: SummaryTreeNode[], summaryId: number): SummaryTreeNode | null {
+  for (const node of nodes) {
+    if (node.id === summaryId) return node;
+    const found = findSummaryNode(node.children, summaryId);
+    if (found) return found;
+  }
+  return null;
+}
+
+function preview(text: string, chars: number): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > chars ? `${flat.slice(0, chars - 1)}…` : flat;
+}
+
+/** Text rendering of a summary forest, one line per node. */
+export function renderSummaryTree(nodes: SummaryTreeNode[], options?: { previewChars?: number; full?: boolean }): string[] {
+  const previewChars = options?.previewChars ?? DEFAULT_PREVIEW_CHARS;
+  const lines: string[] = [];
+
+  const walk = (node: SummaryTreeNode, prefix: string, isLast: boolean, isRoot: boolean) => {
+    const branch = isRoot ? '' : (isLast ? '└─ ' : '├─ ');
+    const range = node.messageRange ? `msgs ${node.messageRange[0]}-${node.messageRange[1]} (${node.messageCount})` : 'no messages';
+    const kind = node.depth === 0 ? 'leaf' : `depth ${node.depth}`;
+    const revised = node.revisions > 0 ? `  revised ×${node.revisions}` : '';
+    const tokens = typeof node.tokenCount === 'number' ? `  ~${node.tokenCount} tok` : '';
+    lines.push(`${prefix}${branch}sum-${node.id}  ${kind}  ${range}${tokens}${revised}`);
+
+    const childPrefix = isRoot ? prefix : `${prefix}${isLast ? '   ' : '│  '}`;
+    const textPrefix = `${childPrefix}${node.children.length > 0 ? '│  ' : '   '}`;
+    if (options?.full) {
+      for (const line of node.content.split(/\r?\n/)) lines.push(`${textPrefix}${line}`);
+    } else {
+      lines.push(`${textPrefix}"${preview(node.content, previewChars)}"`);
+    }
+
+    node.children.forEach((child, i) => walk(child, childPrefix, i === node.children.length - 1, false));
+  };
+
+  nodes.forEach((node, i) => walk(node, '', i === nodes.length - 1, true));
+  return lines;
+}
+
+export type SummaryRevision = {
+  id: number;
+  summaryId: number;
+  /** Content the summary had before this rewrite */
+  content: string;
+  /** Model and instructions of the rewrite that replaced it */
+  model: string | null;
+  prompt: string | null;
+  reason: string | null;
+  createdAt: string;
+};
+
+/** Earlier versions of a summary, newest first. */
+export function getSummaryRevisions(db: DatabaseSync, summaryId: number): SummaryRevision[] {
+  const rows = db
+    .prepare(
+      `SELECT id, summary_id, content, model, prompt, reason, created_at
+         FROM summary_revisions
+        WHERE summary_id = ?
+        ORDER BY id DESC`,
+    )
+    .all(summaryId) as Array<{
+      id: number;
+      summary_id: number;
+      content: string;
+      model: string | null;
+      prompt: string | null;
+      reason: string | null;
+      created_at: string;
+    }>;
+  return rows.map((row) => ({
+    id: row.id,
+    summaryId: row.summary_id,
+    content: row.content,
+    model: row.model,
+    prompt: row.prompt,
+    reason: row.reason,
+    createdAt: row.created_at,
+  }));
+}
+
+// ──────────────────────────────────────────────────────────────
+// Summary vs sources
+// ──────────────────────────────────────────────────────────────
+
+/**
+ * Terms a faithful summary is expected to carry over: code spans, paths and
+ * file names, identifiers, versions and numbers, and capitalised names.
+ */
+export function extractSalientTerms(text: string): string[] {
+  const terms = new Set<string>();
+  const add = (term: string) => {
+    const cleaned = term.replace(/^[^\w/.~-]+|[^\w/]+$/g, '').toLowerCase();
+    if (cleaned.length < 3 || TERM_STOPWORDS.has(cleaned)) return;
+    terms.add(cleaned);
+  };
+
+  for (const match of text.matchAll(/`([^`\n]{2,80})`/g)) add(match[1]);
+  for (const match of text.matchAll(/(?:[\w.~-]+\/)+[\w.-]+|\b[\w-]+\.(?:ts|js|mjs|json|md|py|go|rs|ya?ml|toml|sql|sh|txt|conf)\b/g)) add(match[0]);
+  for (const match of text.matchAll(/\b[A-Za-z]+(?:_[A-Za-z0-9]+)+\b|\b[a-z]+(?:[A-Z][a-z0-9]+)+\b|\b[a-z][a-z0-9]*(?:-[a-z0-9]+)+\b/g)) add(match[0]);
+  for (const match of text.matchAll(/\bv?\d+(?:\.\d+)+\b|\b\d{2,}\b/g)) add(match[0]);
+  // Capitalised words that do not start a sentence
+  for (const match of text.matchAll(/(?<![.!?:]\s|^|\n)\b[A-Z][a-zA-Z0-9]{2,}\b/g)) add(match[0]);
+
+  return [...terms];
+}
+
+function keptIn(summaryText: string, term: string): boolean {
+  return summaryText.includes(term);
+}
+
+/**
+ * Compare a summary with what it was written from: its messages (leaves,
+ * or any summary with `against: 'messages'`) or its child summaries.
+ * Coverage is the share of the sources' salient terms the summary still
+ * contains; terms only the summary has may be invented.
+ */
+export function compareSummaryToSources(
+  db: DatabaseSync,
+  summaryId: number,
+  options?: { against?: 'messages' | 'children' },
+): SummaryComparison | null {
+  const summary = getSummaryRow(db, summaryId);
+  if (!summary) return null;
+
+  const childIds = getChildSummaryIds(db, summaryId);
+  const against = options?.against ?? (childIds.length > 0 ? 'children' : 'messages');
+
+  type Source = Omit<SummarySource, 'terms' | 'keptTerms'> & { content: string };
+  let sources: Source[];
+  if (against === 'children') {
+    sources = childIds
+      .map((id) => getSummaryRow(db, id))
+      .filter((row): row is SummaryRow => row !== null)
+      .map((row) => ({ kind: 'summary', id: row.id, label: `sum-${row.id}`, preview: preview(row.content, 100), content: row.content }));
+  } else {
+    // The whole lineage: a condensed summary answers for every message below it
+    const { messageIds } = getSummaryLineage(db, summaryId);
+    const rows = messageIds.length === 0
+      ? []
+      : db
+        .prepare(
+          `SELECT id, role, content, message_index
+             FROM messages
+            WHERE id IN (${messageIds.map(() => '?').join(', ')})
+            ORDER BY message_index ASC`,
+        )
+        .all(...messageIds) as Array<{ id: number; role: string; content: string; message_index: number }>;
+    sources = rows.map((row) => ({
+      kind: 'message',
+      id: row.id,
+      label: String(row.message_index),
+      role: row.role,
+      preview: preview(row.content, 100),
+      content: row.content,
+    }));
+  }
+
+  const summaryText = summary.content.toLowerCase();
+  const termCounts = new Map<string, number>();
+  const sourceText = sources.map((source) => source.content).join('\n').toLowerCase();
+
+  const scored: SummarySource[] = sources.map(({ content, ...source }) => {
+    const terms = extractSalientTerms(content);
+    for (const term of terms) termCounts.set(term, (termCounts.get(term) ?? 0) + 1);
+    return { ...source, terms: terms.length, keptTerms: terms.filter((term) => keptIn(summaryText, term)).length };
+  });
+
+  const allTerms = [...termCounts.keys()];
+  const missing = allTerms
+    .filter((term) => !keptIn(summaryText, term))
+    .sort((a, b) => (termCounts.get(b) ?? 0) - (termCounts.get(a) ?? 0) || a.localeCompare(b));
+  const unsupported = extractSalientTerms(summary.content).filter((term) => !sourceText.includes(term));
+
+  return {
+    summaryId,
+    depth: summary.depth,
+    against,
+    coverage: allTerms.length === 0 ? 1 : (allTerms.length - missing.length) / allTerms.length,
+    totalTerms: allTerms.length,
+    missingTerms: missing.slice(0, MAX_LISTED_TERMS),
+    unsupportedTerms: unsupported.slice(0, MAX_LISTED_TERMS),
+    sources: scored,
+  };
+}
+
+export function renderSummaryComparison(comparison: SummaryComparison): string[] {
+  const kind = comparison.depth === 0 ? 'leaf' : `depth ${comparison.depth}`;
+  const lines = [
+    `sum-${comparison.summaryId} (${kind}) vs ${comparison.sources.length} source ${comparison.against === 'children' ? 'summaries' : 'messages'}: `
+      + `${Math.round(comparison.coverage * 100)}% of ${comparison.totalTerms} salient terms kept`,
+  ];
+  if (comparison.missingTerms.length > 0) lines.push(`Missing: ${comparison.missingTerms.join(', ')}`);
+  if (comparison.unsupportedTerms.length > 0) lines.push(`Not in sources: ${comparison.unsupportedTerms.join(', ')}`);
+
+  const dropped = comparison.sources.filter((source) => source.terms > 0 && source.keptTerms === 0);
+  if (dropped.length > 0) {
+    lines.push('Sources with nothing kept:');
+    for (const source of dropped) {
+      lines.push(`  [${source.label}]${source.role ? ` ${source.role}` : ''}: ${source.preview}`);
+    }
+  }
+  return lines;
+}
@@ -13,6 +13,21 @@ type ToolMetaInsert = {
   decayEligibleTurn: number;
 };
 
+/**
+ * A file change the agent made through a tool call. `content` is known for
+ * whole-file writes, `edits` for exact-text replacements; shell and patch
+ * edits usually carry neither.
+ */
+export type FileOperation = {
+  action: 'write' | 'edit';
+  path: string;
+  tool: string;
+  content?: string;
+  edits?: Array<{ oldText: string; newText: string }>;
+};
+
+type ToolCall = { name: string; args: Record<string, unknown> };
+
 type DecayEligibleRow = {
   messageId: string;
   callType: CallType;
@@ -47,6 +62,18 @@ export const DECAY_WINDOWS: Record<CallType, number> = {
   unknown: 3,
 };
 
+const WRITE_TOOL_PATTERN = /^(write|write_?file|writefile|create_?file)$/i;
+const EDIT_TOOL_PATTERN = /(edit|str_replace|patch)/i;
+const EXEC_TOOL_PATTERN = /^(exec|bash|shell|run_?command|run_?terminal_?cmd|terminal)$/i;
+const PATH_ARG_KEYS = ['path', 'file_path', 'filePath', 'filename', 'file', 'target_file'];
+const CONTENT_ARG_KEYS = ['content', 'contents', 'file_text', 'text'];
+const EDIT_ARG_PAIRS: Array<[string, string]> = [
+  ['old_string', 'new_string'],
+  ['old_str', 'new_str'],
+  ['oldText', 'newText'],
+  ['old_text', 'new_text'],
+];
+
 function normalize(text: string): string {
   return text.replace(/\s+/g, ' ').trim().toLowerCase();
 }
@@ -79,7 +106,8 @@ export function detectCallType(content: string, role: string): CallType {
   const normalized = normalize(content);
 
   if (/\b(read_file|readfile|\bcat\b)\b/.test(normalized)) return 'read';
-  if (/\b(write_file|writefile)\b/.test(normalized)) return 'write';
+  if (/\b(write_file|writefile|edit_file|str_replace\w*|apply_patch|multi_edit)\b/.test(normalized)) return 'write';
+  if (/\bsed -i\b/.test(normalized)) return 'write';
   if (/\b(web_search|search|brave)\b/.test(normalized)) return 'search';
   if (/\b(send_message|post|create)\b/.test(normalized)) return 'action';
 
@@ -89,6 +117,166 @@ export function detectCallType(content: string, role: string): CallType {
   return 'unknown';
 }
 
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseToolArgs(value: unknown): Record<string, unknown> {
+  if (isRecord(value)) return value;
+  if (typeof value !== 'string') return {};
+  try {
+    const parsed = JSON.parse(value) as unknown;
+    return isRecord(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function toToolCall(value: unknown): ToolCall | null {
+  if (!isRecord(value)) return null;
+  const fn = isRecord(value.function) ? value.function : value;
+  const name = typeof fn.name === 'string' ? fn.name : '';
+  if (name.length === 0) return null;
+  return { name, args: parseToolArgs(fn.arguments ?? fn.input ?? fn.args) };
+}
+
+/**
+ * Tool calls in an assistant message: OpenAI-style `tool_calls`, the same
+ * inside `parts`, or `toolCall` / `tool_use` content blocks.
+ */
+function collectToolCalls(message: unknown): ToolCall[] {
+  if (!isRecord(message)) return [];
+  const raw: unknown[] = [];
+
+  if (Array.isArray(message.tool_calls)) raw.push(...message.tool_calls);
+  if (Array.isArray(message.parts)) {
+    for (const part of message.parts) {
+      if (isRecord(part) && Array.isArray(part.tool_calls)) raw.push(...part.tool_calls);
+    }
+  }
+  if (Array.isArray(message.content)) {
+    for (const block of message.content) {
+      if (isRecord(block) && ['toolCall', 'tool_call', 'tool_use'].includes(String(block.type))) raw.push(block);
+    }
+  }
+
+  return raw.map(toToolCall).filter((call): call is ToolCall => call !== null);
+}
+
+function stringArg(args: Record<string, unknown>, keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = args[key];
+    if (typeof value === 'string' && value.length > 0) return value;
+  }
+  return undefined;
+}
+
+function collectEdits(args: Record<string, unknown>): Array<{ oldText: string; newText: string }> {
+  const sources = Array.isArray(args.edits) ? args.edits.filter(isRecord) : [args];
+  const edits: Array<{ oldText: string; newText: string }> = [];
+  for (const source of sources) {
+    for (const [oldKey, newKey] of EDIT_ARG_PAIRS) {
+      if (typeof source[oldKey] === 'string' && typeof source[newKey] === 'string') {
+        edits.push({ oldText: source[oldKey] as string, newText: source[newKey] as string });
+        break;
+      }
+    }
+  }
+  return edits;
+}
+
+/** Files named in a patch body (`*** Update File:` or `+++ b/` headers). */
+function patchPaths(patch: string): Array<{ path: string; added: boolean }> {
+  const found = new Map<string, boolean>();
+  for (const match of patch.matchAll(/^\*\*\* (Add|Update) File: (.+)$/gm)) {
+    found.set(match[2].trim(), match[1] === 'Add');
+  }
+  for (const match of patch.matchAll(/^\+\+\+ (?:b\/)?(\S+)/gm)) {
+    if (match[1] !== '/dev/null' && !found.has(match[1])) found.set(match[1], false);
+  }
+  return [...found].map(([path, added]) => ({ path, added }));
+}
+
+/** Files a shell command writes: heredoc and `>` redirects, `tee`, `sed -i`. */
+function shellFileOperations(command: string, tool: string): FileOperation[] {
+  const operations: FileOperation[] = [];
+  const seen = new Set<string>();
+  const add = (operation: FileOperation) => {
+    if (seen.has(operation.path) || operation.path.startsWith('/dev/')) return;
+    seen.add(operation.path);
+    operations.push(operation);
+  };
+
+  for (const match of command.matchAll(/\bcat\s*>\s*(['"]?)([^\s'"<>|;&]+)\1\s*<<-?\s*(['"]?)(\w+)\3\n([\s\S]*?)\n\4(?:\n|$)/g)) {
+    add({ action: 'write', path: match[2], tool, content: `${match[5]}\n` });
+  }
+  // Heredoc bodies are file content, not commands
+  const script = command.replace(/<<-?\s*(['"]?)(\w+)\1\n[\s\S]*?\n\2(?=\n|$)/g, '');
+
+  // sed -i: the last argument of each command in the pipeline/list
+  const tokens = script.match(/'[^']*'|"[^"]*"|[;&|\n]+|[^\s'";&|]+/g) ?? [];
+  let segment: string[] = [];
+  for (const token of [...tokens, ';']) {
+    if (!/^[;&|\n]+$/.test(token)) {
+      segment.push(token);
+      continue;
+    }
+    const target = segment[segment.length - 1]?.replace(/^['"]|['"]$/g, '');
+    if (segment[0] === 'sed' && segment.some((arg) => /^(-i|--in-place)/.test(arg)) && segment.length > 2 && target && !target.startsWith('-')) {
+      add({ action: 'edit', path: target, tool });
+    }
+    segment = [];
+  }
+  for (const match of script.matchAll(/\btee\s+(?:-a\s+)?(['"]?)([^\s'"<>|;&]+)\1/g)) {
+    add({ action: 'write', path: match[2], tool });
+  }
+  for (const match of script.matchAll(/(?:^|[^>\d&=-])>{1,2}\s*(['"]?)([\w./~-]+\.\w+)\1/gm)) {
+    add({ action: 'write', path: match[2], tool });
+  }
+
+  return operations;
+}
+
+/**
+ * File writes and edits requested by an assistant message's tool calls.
+ */
+export function extractFileOperations(message: unknown): FileOperation[] {
+  const operations: FileOperation[] = [];
+
+  for (const call of collectToolCalls(message)) {
+    const { name, args } = call;
+    const filePath = stringArg(args, PATH_ARG_KEYS);
+    const command = typeof args.command === 'string' ? args.command : undefined;
+
+    if (EXEC_TOOL_PATTERN.test(name) && command) {
+      operations.push(...shellFileOperations(command, name));
+      continue;
+    }
+
+    if (WRITE_TOOL_PATTERN.test(name) || (EDIT_TOOL_PATTERN.test(name) && command === 'create')) {
+      if (filePath) operations.push({ action: 'write', path: filePath, tool: name, content: stringArg(args, CONTENT_ARG_KEYS) });
+      continue;
+    }
+
+    if (!EDIT_TOOL_PATTERN.test(name) || command === 'view') continue;
+
+    if (filePath) {
+      const edits = collectEdits(args);
+      operations.push({ action: 'edit', path: filePath, tool: name, ...(edits.length > 0 ? { edits } : {}) });
+      continue;
+    }
+
+    const patch = stringArg(args, ['input', 'patch', 'diff']);
+    if (patch) {
+      for (const target of patchPaths(patch)) {
+        operations.push({ action: target.added ? 'write' : 'edit', path: target.path, tool: name });
+      }
+    }
+  }
+
+  return operations;
+}
+
 export function insertToolCallMeta(db: DatabaseSync, meta: ToolMetaInsert): void {
   db
     .prepare(
@@ -85,13 +85,16 @@ export function recordCompactionEvent(params: {
   messagesAfter?: number;
   summaryNodeId?: number;
   outcome: 'success' | 'skipped' | 'failed';
+  fidelityScore?: number | null;
+  fidelityRejections?: number;
 }): void {
   try {
     params.db
       .prepare(
         `INSERT INTO compaction_events
-          (conversation_id, triggered_at, trigger_reason, pressure_before, pressure_after, messages_before, messages_after, summary_node_id, outcome)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          (conversation_id, triggered_at, trigger_reason, pressure_before, pressure_after, messages_before, messages_after, summary_node_id, outcome,
+           fidelity_score, fidelity_rejections)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       )
       .run(
         params.conversationId,
@@ -103,6 +106,8 @@ export function recordCompactionEvent(params: {
         params.messagesAfter ?? null,
         params.summaryNodeId ?? null,
         params.outcome,
+        params.fidelityScore ?? null,
+        params.fidelityRejections ?? 0,
       );
   } catch (error) {
     console.warn(
@@ -7,6 +7,7 @@
 
 import type { CompactorConfig } from './compactor';
 import type { ContentType } from './content-type';
+import type { SlotSchema } from './slot-schema';
 
 export type ConversationRow = {
   id: number;
@@ -61,6 +62,9 @@ export type SessionIntelligenceConfig = {
   summarizationApi?: {
     complete(model: string, prompt: string): Promise<string>;
   };
+  /** State slot schema; defaults to {workspacePath}/.clawtext/slot-schema.json
+   *  layered on the built-in slots. */
+  slotSchema?: SlotSchema;
   /** Optional per-session workspace resolver. If provided, bootstrap uses this
    *  to load the correct ACA identity files for each agent session. */
   workspaceResolver?: (sessionId: string) => string;
@@ -10,6 +10,7 @@ export type ContextSlotSource =
   | 'advisor'
   | 'session-matrix'
   | 'extraction'
+  | 'knowledge-graph'
   | 'recent-history'
   | 'mid-history'
   | 'deep-history'
@@ -1,6 +1,7 @@
 import fs from 'fs';
 import path from 'path';
 import { getClawTextProdStateRoot } from '../runtime-paths.js';
+import { writeFileAtomic } from '../atomic-write.js';
 
 export type AdvisorStatus = 'active' | 'paused' | 'disabled' | 'retired';
 export type AdvisorScope = 'single-session' | 'multi-session' | 'project-wide' | 'global';
@@ -118,7 +119,7 @@ function normalizeRoutingStrategy(value: unknown): RoutingStrategy {
   return ['static', 'hybrid', 'manual-lock'].includes(candidate) ? candidate : 'hybrid';
 }
 
-function normalizeAdvisor(input: unknown): AdvisorDefinition | null {
+export function normalizeAdvisor(input: unknown): AdvisorDefinition | null {
   if (!input || typeof input !== 'object') return null;
   const raw = input as Record<string, unknown>;
   const id = String(raw.id ?? '').trim();
@@ -148,7 +149,7 @@ function normalizeAdvisor(input: unknown): AdvisorDefinition | null {
   };
 }
 
-function normalizeRoutingRule(input: unknown): RoutingRule | null {
+export function normalizeRoutingRule(input: unknown): RoutingRule | null {
   if (!input || typeof input !== 'object') return null;
   const raw = input as Record<string, unknown>;
   const domain = String(raw.domain ?? '').trim();
@@ -229,8 +230,8 @@ export function saveAdvisorState(workspacePath: string, state: AdvisorState): Ad
       .filter((value): value is RoutingRule => Boolean(value)),
   };
 
-  fs.writeFileSync(getAdvisorDefinitionsPath(workspacePath), `${JSON.stringify(normalized.advisors, null, 2)}\n`, 'utf8');
-  fs.writeFileSync(getAdvisorRoutingRulesPath(workspacePath), `${JSON.stringify(normalized.routingRules, null, 2)}\n`, 'utf8');
+  writeFileAtomic(getAdvisorDefinitionsPath(workspacePath), `${JSON.stringify(normalized.advisors, null, 2)}\n`);
+  writeFileAtomic(getAdvisorRoutingRulesPath(workspacePath), `${JSON.stringify(normalized.routingRules, null, 2)}\n`);
 
   return normalized;
 }
@@ -1,6 +1,7 @@
 import fs from 'fs';
 import path from 'path';
 import { getClawTextProdStateRoot } from '../runtime-paths.js';
+import { writeFileAtomic } from '../atomic-write.js';
 
 export type SessionStatus = 'active' | 'idle' | 'archived' | 'superseded' | 'failed';
 export type ParticipantRole = 'contributors' | 'observers';
@@ -252,8 +253,8 @@ export function saveSessionMatrixState(workspacePath: string, state: SessionMatr
     indexes: buildIndexes(sessions),
   };
 
-  fs.writeFileSync(getSessionMatrixPath(workspacePath), `${JSON.stringify(normalized.sessions, null, 2)}\n`, 'utf8');
-  fs.writeFileSync(getSessionMatrixIndexesPath(workspacePath), `${JSON.stringify(normalized.indexes, null, 2)}\n`, 'utf8');
+  writeFileAtomic(getSessionMatrixPath(workspacePath), `${JSON.stringify(normalized.sessions, null, 2)}\n`);
+  writeFileAtomic(getSessionMatrixIndexesPath(workspacePath), `${JSON.stringify(normalized.indexes, null, 2)}\n`);
 
   return normalized;
 }
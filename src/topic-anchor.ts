@@ -4,6 +4,15 @@ import {
   getClawTextProdStateRoot,
   getClawTextTopicAnchorsDir,
 } from './runtime-paths.js';
+import { detectContradiction } from './contradiction-detector.js';
+import {
+  getMemoryConflict,
+  loadMemoryConflicts,
+  markMemoryConflictResolved,
+  recordMemoryConflict,
+  type MemoryConflict,
+  type MemoryConflictResolution,
+} from './memory-conflicts.js';
 
 export interface TopicAnchorData {
   topic: string;
@@ -238,6 +247,56 @@ function extractDecisionCandidates(recentContent: string[]): string[] {
   );
 }
 
+function sameText(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * Add decision candidates to the anchor one at a time. A candidate that
+ * contradicts an existing key decision drops it and queues the pair as a
+ * memory conflict; the returned history lines note each drop. Candidates a
+ * reviewer already rejected, and pairs already recorded, are not re-raised
+ * when the same messages come round again.
+ */
+function mergeDecisions(workspacePath: string, anchor: TopicAnchorData, candidates: string[]): string[] {
+  const known = loadMemoryConflicts(workspacePath, { source: 'topic-anchor' }).filter((c) => c.topic === anchor.topic);
+  const rejected = (text: string) => known.some((c) => (
+    c.resolution === 'keep-older'
+      ? sameText(c.newer.text, text)
+      : c.resolution !== 'keep-both' && sameText(c.older.text, text)
+  ));
+  const recorded = (a: string, b: string) => known.some((c) => (
+    (sameText(c.older.text, a) && sameText(c.newer.text, b)) || (sameText(c.older.text, b) && sameText(c.newer.text, a))
+  ));
+
+  const stamp = new Date().toISOString().slice(0, 10);
+  const notes: string[] = [];
+  for (const candidate of candidates) {
+    if (rejected(candidate) || anchor.keyDecisions.some((d) => sameText(d, candidate))) continue;
+
+    for (const decision of [...anchor.keyDecisions]) {
+      if (recorded(decision, candidate)) continue;
+      const found = detectContradiction(decision, candidate, { assumeDecision: true });
+      if (!found) continue;
+
+      anchor.keyDecisions = anchor.keyDecisions.filter((d) => d !== decision);
+      const conflict = recordMemoryConflict(workspacePath, {
+        source: 'topic-anchor',
+        topic: anchor.topic,
+        reason: found.reason,
+        overlap: found.overlap,
+        older: { text: decision },
+        newer: { text: candidate },
+      });
+      known.push(conflict);
+      notes.push(`${stamp}: decision superseded, conflict ${conflict.id} open for review — ${decision.slice(0, 90)}`);
+    }
+    anchor.keyDecisions.push(candidate);
+  }
+  anchor.keyDecisions = anchor.keyDecisions.slice(-MAX_DECISIONS);
+  return notes;
+}
+
 function buildHistoryLine(params: TopicAnchorSyncParams): string {
   const stamp = new Date().toISOString().slice(0, 10);
   const lastSnippet = params.recentContent.filter(Boolean).slice(-1)[0] || '';
@@ -274,10 +333,7 @@ export function syncTopicAnchor(workspacePath: string, params: TopicAnchorSyncPa
   const nextStatus = summarizeCurrentStatus(params.recentContent, anchor.currentStatus);
   if (nextStatus) anchor.currentStatus = nextStatus;
 
-  anchor.keyDecisions = uniquePreserveOrder([
-    ...anchor.keyDecisions,
-    ...extractDecisionCandidates(params.recentContent),
-  ]).slice(-MAX_DECISIONS);
+  const superseded = mergeDecisions(workspacePath, anchor, extractDecisionCandidates(params.recentContent));
 
   if (params.trigger !== 'rolling') {
     const nextHistory = buildHistoryLine(params);
@@ -285,6 +341,9 @@ export function syncTopicAnchor(workspacePath: string, params: TopicAnchorSyncPa
   } else if (anchor.history.length === 0 && params.recentContent.length > 0) {
     anchor.history = [buildHistoryLine(params)];
   }
+  if (superseded.length > 0) {
+    anchor.history = uniquePreserveOrder([...anchor.history, ...superseded]).slice(-MAX_HISTORY);
+  }
 
   return {
     filePath: saveTopicAnchor(workspacePath, anchor),
@@ -292,6 +351,42 @@ export function syncTopicAnchor(workspacePath: string, params: TopicAnchorSyncPa
   };
 }
 
+/**
+ * Settle a topic-anchor conflict queued by syncTopicAnchor. keep-older puts
+ * the dropped decision back in place of the newer one, keep-both puts it
+ * back alongside, keep-newer only closes the conflict.
+ */
+export function resolveTopicAnchorConflict(
+  workspacePath: string,
+  conflictId: string,
+  resolution: MemoryConflictResolution,
+  resolvedBy?: string,
+): MemoryConflict {
+  const conflict = getMemoryConflict(workspacePath, conflictId);
+  if (!conflict) throw new Error(`Memory conflict ${conflictId} not found`);
+  if (conflict.source !== 'topic-anchor' || !conflict.topic) {
+    throw new Error(`Memory conflict ${conflictId} is between memories; resolve it with ClawTextMemory.resolveConflict`);
+  }
+  if (conflict.status === 'resolved') {
+    throw new Error(`Memory conflict ${conflictId} is already resolved (${conflict.resolution})`);
+  }
+
+  const anchor = loadTopicAnchor(workspacePath, conflict.topic);
+  if (anchor && resolution !== 'keep-newer') {
+    if (resolution === 'keep-older') {
+      anchor.keyDecisions = anchor.keyDecisions.filter((d) => !sameText(d, conflict.newer.text));
+    }
+    if (!anchor.keyDecisions.some((d) => sameText(d, conflict.older.text))) {
+      anchor.keyDecisions = [...anchor.keyDecisions, conflict.older.text].slice(-MAX_DECISIONS);
+    }
+    const stamp = new Date().toISOString().slice(0, 10);
+    anchor.history = [...anchor.history, `${stamp}: conflict ${conflictId} resolved (${resolution})`].slice(-MAX_HISTORY);
+    saveTopicAnchor(workspacePath, anchor);
+  }
+
+  return markMemoryConflictResolved(workspacePath, conflictId, resolution, resolvedBy);
+}
+
 export function formatTopicAnchorForSlot(anchor: TopicAnchorData, options?: { maxStatusLines?: number; maxDecisionLines?: number; maxHistoryLines?: number }): string {
   const maxStatusLines = options?.maxStatusLines ?? 14;
   const maxDecisionLines = options?.maxDecisionLines ?? 16;
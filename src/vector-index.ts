@@ -0,0 +1,203 @@
+/**
+ * Persisted vector index for hybrid retrieval.
+ *
+ *   memory/vectors/<providerId>.json
+ *
+ * Entries are keyed by document id and carry a hash of the embedded text,
+ * so rebuilding after a cluster or library refresh only embeds documents
+ * that are new or changed. Vectors are stored rounded, and sparse when
+ * mostly zero, to keep the file small.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { cosineSimilarity, type EmbeddingProvider } from './embeddings.js';
+
+export interface VectorIndexEntry {
+  hash: string;
+  vector: number[];
+}
+
+/** On-disk entry: dense, or sparse (`indices`/`values`) for hashed vectors */
+interface StoredVectorEntry {
+  hash: string;
+  vector?: number[];
+  indices?: number[];
+  values?: number[];
+}
+
+export interface VectorIndexFile {
+  provider: string;
+  dimensions: number;
+  builtAt: string;
+  entries: Record<string, StoredVectorEntry>;
+}
+
+export interface VectorDocument {
+  id: string;
+  text: string;
+}
+
+export interface VectorIndexSyncResult {
+  embedded: number;
+  reused: number;
+  removed: number;
+}
+
+/** Reciprocal-rank-fusion constant (Cormack et al.) */
+export const RRF_K = 60;
+const VECTOR_PRECISION = 5;
+const DEFAULT_MIN_SIMILARITY = 0.3;
+
+export function getVectorIndexDir(workspacePath: string): string {
+  return path.join(workspacePath, 'memory', 'vectors');
+}
+
+export function getVectorIndexPath(workspacePath: string, providerId: string): string {
+  return path.join(getVectorIndexDir(workspacePath), `${providerId}.json`);
+}
+
+function hashText(text: string): string {
+  return crypto.createHash('sha1').update(text).digest('hex');
+}
+
+function roundVector(vector: number[]): number[] {
+  const factor = 10 ** VECTOR_PRECISION;
+  return vector.map((value) => Math.round(value * factor) / factor);
+}
+
+function toStored(entry: VectorIndexEntry): StoredVectorEntry {
+  const indices: number[] = [];
+  const values: number[] = [];
+  entry.vector.forEach((value, i) => {
+    if (value !== 0) {
+      indices.push(i);
+      values.push(value);
+    }
+  });
+  return indices.length * 2 < entry.vector.length
+    ? { hash: entry.hash, indices, values }
+    : { hash: entry.hash, vector: entry.vector };
+}
+
+function fromStored(stored: StoredVectorEntry, dimensions: number): VectorIndexEntry {
+  if (stored.vector) return { hash: stored.hash, vector: stored.vector };
+  const vector = new Array<number>(dimensions).fill(0);
+  (stored.indices ?? []).forEach((index, i) => {
+    vector[index] = stored.values?.[i] ?? 0;
+  });
+  return { hash: stored.hash, vector };
+}
+
+export class VectorIndex {
+  private readonly filePath: string;
+  private readonly provider: EmbeddingProvider;
+  private entries = new Map<string, VectorIndexEntry>();
+
+  constructor(workspacePath: string, provider: EmbeddingProvider) {
+    this.provider = provider;
+    this.filePath = getVectorIndexPath(workspacePath, provider.id);
+    this.load();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get providerId(): string {
+    return this.provider.id;
+  }
+
+  get minSimilarity(): number {
+    return this.provider.minSimilarity ?? DEFAULT_MIN_SIMILARITY;
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) return;
+    try {
+      const raw = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as VectorIndexFile;
+      if (raw.provider !== this.provider.id || raw.dimensions !== this.provider.dimensions) return;
+      this.entries = new Map(
+        Object.entries(raw.entries ?? {}).map(([id, stored]) => [id, fromStored(stored, raw.dimensions)]),
+      );
+    } catch (error) {
+      console.warn('[ClawText vectors] Failed to load vector index, rebuilding:', error);
+      this.entries.clear();
+    }
+  }
+
+  private save(): void {
+    const dir = path.dirname(this.filePath);
+    if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+    const file: VectorIndexFile = {
+      provider: this.provider.id,
+      dimensions: this.provider.dimensions,
+      builtAt: new Date().toISOString(),
+      entries: Object.fromEntries([...this.entries].map(([id, entry]) => [id, toStored(entry)])),
+    };
+    fs.writeFileSync(this.filePath, JSON.stringify(file));
+  }
+
+  /**
+   * Bring the index in line with `documents`: embed new or changed texts,
+   * drop entries for documents that no longer exist, and persist when
+   * anything changed.
+   */
+  sync(documents: VectorDocument[]): VectorIndexSyncResult {
+    const result: VectorIndexSyncResult = { embedded: 0, reused: 0, removed: 0 };
+    const pending: Array<{ id: string; text: string; hash: string }> = [];
+    const live = new Set<string>();
+
+    for (const doc of documents) {
+      live.add(doc.id);
+      const hash = hashText(doc.text);
+      if (this.entries.get(doc.id)?.hash === hash) {
+        result.reused++;
+        continue;
+      }
+      pending.push({ id: doc.id, text: doc.text, hash });
+    }
+
+    if (pending.length > 0) {
+      const vectors = this.provider.embed(pending.map((doc) => doc.text));
+      pending.forEach((doc, i) => {
+        this.entries.set(doc.id, { hash: doc.hash, vector: roundVector(vectors[i]) });
+      });
+      result.embedded = pending.length;
+    }
+
+    for (const id of [...this.entries.keys()]) {
+      if (!live.has(id)) {
+        this.entries.delete(id);
+        result.removed++;
+      }
+    }
+
+    if (result.embedded > 0 || result.removed > 0) this.save();
+    return result;
+  }
+
+  embedQuery(query: string): number[] {
+    return this.provider.embed([query])[0];
+  }
+
+  similarity(queryVector: number[], id: string): number {
+    const entry = this.entries.get(id);
+    return entry ? cosineSimilarity(queryVector, entry.vector) : 0;
+  }
+}
+
+/**
+ * Reciprocal-rank fusion: each list contributes 1 / (k + rank) for every id
+ * it ranks (rank is 1-based). Ids missing from a list get nothing from it.
+ */
+export function reciprocalRankFusion(rankings: string[][], k: number = RRF_K): Map<string, number> {
+  const fused = new Map<string, number>();
+  for (const ranking of rankings) {
+    ranking.forEach((id, index) => {
+      fused.set(id, (fused.get(id) ?? 0) + 1 / (k + index + 1));
+    });
+  }
+  return fused;
+}
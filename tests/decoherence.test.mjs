@@ -0,0 +1,134 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import {
+  buildDecoherenceReport,
+  getQuarantinedMemoryIds,
+  loadDecoherenceAlerts,
+  loadQuarantine,
+  recordDecoherenceEvent,
+  reviewQuarantine,
+} from '../dist/decoherence.js';
+import { ClawTextRAG } from '../dist/rag.js';
+
+delete process.env.CLAWTEXT_STATE_ROOT;
+
+function tmpWorkspace() {
+  return fs.mkdtempSync(path.join(os.tmpdir(), 'clawtext-decoherence-'));
+}
+
+function event(memoryId, query, overrides = {}) {
+  return {
+    timestamp: new Date().toISOString(),
+    currentAgentId: 'agent-builder',
+    leakedAgentId: 'agent-coder',
+    memoryId,
+    visibility: 'shared',
+    query,
+    action: 'leaked',
+    ...overrides,
+  };
+}
+
+function setupSharedMemory(workspacePath) {
+  const memory = {
+    id: 'mem-keys', content: 'The deploy signing key rotates on Fridays', type: 'fact', source: 'test',
+    project: 'ops', confidence: 0.9, keywords: ['deploy', 'signing'], agentId: 'agent-coder', visibility: 'shared',
+    updatedAt: new Date().toISOString(),
+  };
+  const apiDir = path.join(workspacePath, 'memory', 'api-memories');
+  fs.mkdirSync(apiDir, { recursive: true });
+  fs.writeFileSync(path.join(apiDir, 'mem-keys.json'), JSON.stringify({ ...memory, body: memory.content }));
+  const clustersDir = path.join(workspacePath, 'memory', 'clusters');
+  fs.mkdirSync(clustersDir, { recursive: true });
+  fs.writeFileSync(path.join(clustersDir, 'cluster-ops.json'), JSON.stringify({
+    builtAt: new Date().toISOString(), projectId: 'ops', memories: [memory],
+  }));
+  return path.join(apiDir, 'mem-keys.json');
+}
+
+test('decoherence: a pair crossing the threshold raises one alert per window', () => {
+  const workspacePath = tmpWorkspace();
+  const warn = console.warn;
+  const warnings = [];
+  console.warn = (msg) => warnings.push(msg);
+  try {
+    const reactions = [];
+    for (let i = 0; i < 7; i++) {
+      reactions.push(recordDecoherenceEvent(workspacePath, event(`mem-${i}`, `query ${i % 2}`)));
+    }
+    assert.deepEqual(reactions.map((r) => Boolean(r.alert)), [false, false, false, false, true, false, false]);
+    recordDecoherenceEvent(workspacePath, event('mem-x', 'other pair', { currentAgentId: 'agent-ops' }));
+  } finally {
+    console.warn = warn;
+  }
+
+  const alerts = loadDecoherenceAlerts(workspacePath);
+  assert.equal(alerts.length, 1);
+  assert.equal(alerts[0].count, 5);
+  assert.deepEqual(alerts[0].queries, ['query 0', 'query 1']);
+  assert.equal(warnings.length, 1);
+  assert.deepEqual(loadQuarantine(workspacePath), [], 'no single memory repeated');
+});
+
+test('decoherence: repeated leaks quarantine a memory, even its cluster copy, until reviewed', () => {
+  const workspacePath = tmpWorkspace();
+  const apiFile = setupSharedMemory(workspacePath);
+  ClawTextRAG.invalidateCache();
+  const rag = new ClawTextRAG(workspacePath);
+  rag.setConfig({ retrievalMode: 'lexical' });
+  assert.deepEqual(rag.findRelevantMemories('deploy signing key', [], 'agent-builder').map((m) => m.id), ['mem-keys']);
+
+  recordDecoherenceEvent(workspacePath, event('mem-keys', 'deploy signing key'));
+  recordDecoherenceEvent(workspacePath, event('mem-keys', 'signing key rotation'));
+  const { quarantined } = recordDecoherenceEvent(workspacePath, event('mem-keys', 'deploy signing key', { currentAgentId: 'agent-ops' }));
+  assert.equal(quarantined.status, 'quarantined');
+  assert.equal(quarantined.previousVisibility, 'shared');
+  assert.deepEqual(quarantined.agents, ['agent-builder', 'agent-ops']);
+  assert.equal(JSON.parse(fs.readFileSync(apiFile, 'utf8')).visibility, 'private');
+  assert.ok(getQuarantinedMemoryIds(workspacePath).has('mem-keys'));
+
+  assert.deepEqual(rag.findRelevantMemories('deploy signing key', [], 'agent-builder'), []);
+  assert.deepEqual(rag.findRelevantMemories('deploy signing key', [], 'agent-coder').map((m) => m.id), ['mem-keys'], 'the author still sees it');
+
+  reviewQuarantine(workspacePath, 'mem-keys', 'release', 'alice');
+  const released = JSON.parse(fs.readFileSync(apiFile, 'utf8'));
+  assert.equal(released.visibility, 'shared');
+  assert.equal(released.quarantinedAt, undefined);
+  assert.equal(loadQuarantine(workspacePath, 'released')[0].reviewedBy, 'alice');
+  assert.throws(() => reviewQuarantine(workspacePath, 'mem-keys', 'confirm'), /No open quarantine/);
+
+  const afterRelease = recordDecoherenceEvent(workspacePath, event('mem-keys', 'deploy signing key'));
+  assert.equal(afterRelease.quarantined, null, 'events before the release no longer count');
+  recordDecoherenceEvent(workspacePath, event('mem-keys', 'deploy signing key'));
+  recordDecoherenceEvent(workspacePath, event('mem-keys', 'deploy signing key'));
+  reviewQuarantine(workspacePath, 'mem-keys', 'confirm');
+  assert.equal(JSON.parse(fs.readFileSync(apiFile, 'utf8')).visibility, 'private');
+  assert.ok(getQuarantinedMemoryIds(workspacePath).has('mem-keys'), 'confirmed memories stay held');
+});
+
+test('decoherence: report shows per-pair trends by day and the triggering queries', () => {
+  const workspacePath = tmpWorkspace();
+  const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+  recordDecoherenceEvent(workspacePath, event('mem-a', 'release checklist', { timestamp: yesterday, action: 'filtered' }));
+  recordDecoherenceEvent(workspacePath, event('mem-a', 'release checklist'));
+  recordDecoherenceEvent(workspacePath, event('mem-b', 'staging creds'));
+  recordDecoherenceEvent(workspacePath, event('mem-b', 'staging creds', { currentAgentId: 'agent-ops', leakedAgentId: 'agent-builder' }));
+
+  const report = buildDecoherenceReport(workspacePath);
+  assert.equal(report.stats.totalEvents, 4);
+  const [top, other] = report.pairs;
+  assert.equal(top.leakedAgentId, 'agent-coder');
+  assert.equal(top.total, 3);
+  assert.equal(top.filtered, 1);
+  assert.deepEqual(Object.values(top.byDay).sort(), [1, 2]);
+  assert.deepEqual(top.topQueries, [{ query: 'release checklist', count: 2 }, { query: 'staging creds', count: 1 }]);
+  assert.equal(other.currentAgentId, 'agent-ops');
+  assert.deepEqual(report.memories.map((m) => [m.memoryId, m.events]), [['mem-a', 2], ['mem-b', 2]]);
+
+  const recent = buildDecoherenceReport(workspacePath, { since: new Date(Date.now() - 60 * 60 * 1000).toISOString() });
+  assert.equal(recent.stats.totalEvents, 3);
+});
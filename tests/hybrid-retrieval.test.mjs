@@ -0,0 +1,92 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { HashingEmbeddingProvider, cosineSimilarity } from '../dist/embeddings.js';
+import { VectorIndex, reciprocalRankFusion, getVectorIndexPath } from '../dist/vector-index.js';
+import { ClawTextRAG } from '../dist/rag.js';
+
+function tmpWorkspace(memories) {
+  const workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'clawtext-hybrid-'));
+  const clustersDir = path.join(workspace, 'memory', 'clusters');
+  fs.mkdirSync(clustersDir, { recursive: true });
+  fs.writeFileSync(path.join(clustersDir, 'cluster-ops.json'), JSON.stringify({
+    builtAt: new Date().toISOString(),
+    projectId: 'ops',
+    memories,
+  }));
+  return workspace;
+}
+
+function memory(id, content, keywords = []) {
+  return {
+    id,
+    content,
+    type: 'fact',
+    source: 'test',
+    project: 'ops',
+    confidence: 0.9,
+    keywords,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+test('embeddings: hashing provider is deterministic and matches word variants', () => {
+  const provider = new HashingEmbeddingProvider();
+  const [a, b, c] = provider.embed(['deploying the gateway', 'gateway deployment', 'lunch menu for friday']);
+  const [again] = provider.embed(['deploying the gateway']);
+
+  assert.deepEqual(a, again);
+  assert.equal(a.length, provider.dimensions);
+  assert.ok(Math.abs(cosineSimilarity(a, a) - 1) < 1e-9, 'vectors are L2-normalized');
+  assert.ok(cosineSimilarity(a, b) > cosineSimilarity(a, c));
+});
+
+test('vector index: reciprocal-rank fusion rewards agreement between rankings', () => {
+  const fused = reciprocalRankFusion([['a', 'b', 'c'], ['b', 'd']]);
+  assert.equal(fused.get('a'), 1 / 61);
+  assert.equal(fused.get('b'), 1 / 62 + 1 / 61);
+  assert.ok(fused.get('b') > fused.get('a'));
+  assert.ok(fused.has('d'));
+});
+
+test('vector index: persists next to clusters and only re-embeds changed documents', () => {
+  const workspace = tmpWorkspace([]);
+  const provider = new HashingEmbeddingProvider();
+  const first = new VectorIndex(workspace, provider).sync([
+    { id: 'm1', text: 'proxmox cluster upgrade' },
+    { id: 'm2', text: 'discord bot tokens' },
+  ]);
+  assert.deepEqual(first, { embedded: 2, reused: 0, removed: 0 });
+  assert.ok(fs.existsSync(getVectorIndexPath(workspace, provider.id)));
+  assert.ok(getVectorIndexPath(workspace, provider.id).startsWith(path.join(workspace, 'memory', 'vectors')));
+
+  const second = new VectorIndex(workspace, provider).sync([
+    { id: 'm1', text: 'proxmox cluster upgrade' },
+    { id: 'm3', text: 'new memory' },
+  ]);
+  assert.deepEqual(second, { embedded: 1, reused: 1, removed: 1 });
+});
+
+test('rag: hybrid retrieval finds memories the lexical ranking misses', () => {
+  const workspace = tmpWorkspace([
+    memory('m-deploy', 'We redeployed the gateway behind the staging proxy', ['gateway']),
+    memory('m-lunch', 'Team lunch moved to Friday at noon', ['lunch']),
+    memory('m-tokens', 'Discord bot tokens rotate every ninety days', ['discord']),
+  ]);
+
+  ClawTextRAG.invalidateCache();
+  const lexical = new ClawTextRAG(workspace);
+  lexical.setConfig({ retrievalMode: 'lexical' });
+  assert.deepEqual(lexical.findRelevantMemories('redeployments'), []);
+
+  ClawTextRAG.invalidateCache();
+  const hybrid = new ClawTextRAG(workspace);
+  assert.equal(hybrid.getStats().vectorsIndexed, 3);
+  const hits = hybrid.findRelevantMemories('redeployments');
+  assert.equal(hits[0]?.id, 'm-deploy');
+  assert.ok(!hits.some((hit) => hit.id === 'm-lunch'));
+  ClawTextRAG.invalidateCache();
+});
@@ -0,0 +1,181 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { applyIac, detectDrift, importConfig, listHistory, parseDesiredState, planIac, rollbackIac } from '../dist/iac/index.js';
+import { diffConfigBundle, exportConfigBundle, parseConfigBundle } from '../dist/iac/bundle.js';
+import { getPermissionsRoot, listVaultOverrides, loadRoles, saveRole, saveVaultOverride } from '../dist/permissions/index.js';
+import { loadExtractionState } from '../dist/extraction/extraction-router.js';
+import { loadAdvisorState } from '../dist/slots/advisor.js';
+import { loadNodeRegistry } from '../dist/fleet/index.js';
+import { readTransactions } from '../dist/record/index.js';
+
+delete process.env.CLAWTEXT_STATE_ROOT;
+
+function tmpWorkspace() {
+  return fs.mkdtempSync(path.join(os.tmpdir(), 'clawtext-iac-'));
+}
+
+function stateRootOf(workspacePath) {
+  return path.join(workspacePath, 'state', 'clawtext', 'prod');
+}
+
+const DESIRED = `
+version: 1
+defaults:
+  recallBudget: high
+roles:
+  lead:
+    displayName: Lead
+    members: [lead-1]
+    operationalLearningAccess: true
+strategies:
+  deep:
+    mode: full
+    displayName: Deep Analysis
+topicMappings:
+  finance: deep
+  "*": deep
+tagFilters:
+  decisions-only:
+    tagFilters:
+      - include: [decision]
+advisors:
+  ops-advisor:
+    name: Ops Advisor
+    domains: [ops]
+routingRules:
+  ops:
+    seedAdvisorId: ops-advisor
+    strategy: static
+nodes:
+  cerberus:
+    displayName: Cerberus
+    endpoints: { api: "http://cerberus:7700" }
+    capabilities: [memory, record]
+    roles: [secondary]
+`;
+
+test('iac: desired-state files are validated', () => {
+  assert.throws(() => parseDesiredState('vaults: {}'), /unknown section "vaults"/);
+  assert.throws(() => parseDesiredState('roles:\n  x:\n    recall: "yes"'), /invalid value for recall/);
+  assert.throws(() => parseDesiredState('roles:\n  x:\n    colour: red'), /unknown permission field "colour"/);
+  assert.throws(() => parseDesiredState('strategies:\n  s:\n    mode: turbo'), /mode must be one of/);
+  assert.throws(() => parseDesiredState('advisors:\n  a:\n    domains: [x]'), /needs a name/);
+  assert.throws(() => parseDesiredState('version: 2'), /unsupported version/);
+  assert.deepEqual(parseDesiredState('roles:\ntagFilters: {}').managed, ['role', 'tag-filter']);
+});
+
+test('iac: plan diffs desired against current and apply writes + journals it', () => {
+  const workspacePath = tmpWorkspace();
+  const root = getPermissionsRoot(workspacePath);
+  saveRole(root, { roleId: 'legacy', displayName: 'Legacy', members: [] });
+  const desired = parseDesiredState(DESIRED, 'clawtext.yaml');
+
+  const plan = planIac(workspacePath, desired);
+  assert.deepEqual(plan.changes.map((c) => `${c.action} ${c.type}:${c.id}`), [
+    'modify defaults:global',
+    'add role:lead',
+    'remove role:legacy',
+    'add strategy:deep',
+    'modify mapping:*',
+    'add mapping:finance',
+    'add tag-filter:decisions-only',
+    'add advisor:ops-advisor',
+    'add routing-rule:ops',
+    'add node:cerberus',
+  ]);
+  assert.deepEqual(plan.warnings, []);
+  assert.deepEqual(plan.drift, []);
+
+  const before = readTransactions({ stateRoot: stateRootOf(workspacePath) }).length;
+  const result = applyIac(workspacePath, desired);
+  assert.equal(result.applied, 10);
+
+  assert.deepEqual(loadRoles(root).map((r) => r.roleId), ['lead']);
+  const extraction = loadExtractionState(workspacePath);
+  assert.equal(extraction.strategies.deep.strategyId, 'deep');
+  assert.deepEqual(extraction.mappings, { mappings: [{ topic: 'finance', strategy: 'deep' }], default: 'deep' });
+  assert.equal(loadAdvisorState(workspacePath).routingRules[0].currentAdvisorId, 'ops-advisor');
+  const node = loadNodeRegistry(stateRootOf(workspacePath)).nodes.cerberus;
+  assert.deepEqual([node.status, node.endpoints.api], ['offline', 'http://cerberus:7700']);
+
+  const txns = readTransactions({ stateRoot: stateRootOf(workspacePath) }).slice(before);
+  assert.equal(txns.length, result.journaled);
+  const applied = txns.filter((t) => t.type === 'config.applied');
+  assert.equal(applied.length, 7);
+  assert.deepEqual(applied[0].payload.resourceType, 'strategy');
+  assert.equal(applied[0].payload.source, 'clawtext.yaml');
+  assert.ok(txns.some((t) => t.type === 'vault.permission_changed' && t.payload.field === 'roles.legacy.displayName' && t.payload.newValue === null));
+
+  assert.deepEqual(planIac(workspacePath, desired).changes, [], 'a second plan is empty');
+});
+
+test('iac: out-of-band edits show up as drift and apply restores them', () => {
+  const workspacePath = tmpWorkspace();
+  const desired = parseDesiredState(DESIRED);
+  applyIac(workspacePath, desired);
+  assert.deepEqual(detectDrift(workspacePath), []);
+
+  const root = getPermissionsRoot(workspacePath);
+  saveRole(root, { roleId: 'lead', displayName: 'Lead', members: ['lead-1', 'intruder'], operationalLearningAccess: true });
+  saveRole(root, { roleId: 'shadow', displayName: 'Shadow', members: [] });
+
+  assert.deepEqual(detectDrift(workspacePath).map((d) => [d.type, d.id, d.kind, d.fields]), [
+    ['role', 'lead', 'modified', ['members']],
+    ['role', 'shadow', 'added', ['displayName', 'members']],
+  ]);
+  const plan = planIac(workspacePath, desired);
+  assert.equal(plan.drift.length, 2);
+  assert.deepEqual(plan.changes.map((c) => `${c.action} ${c.id}`), ['modify lead', 'remove shadow']);
+
+  applyIac(workspacePath, desired);
+  assert.deepEqual(detectDrift(workspacePath), []);
+  assert.deepEqual(loadRoles(root).find((r) => r.roleId === 'lead').members, ['lead-1']);
+});
+
+test('iac: export bundles the configuration and import restores it elsewhere', () => {
+  const source = tmpWorkspace();
+  applyIac(source, parseDesiredState(DESIRED));
+  saveVaultOverride(getPermissionsRoot(source), { vaultId: 'ops', globalOverride: { recallMaxTokens: 2048 } });
+  const reflectPath = path.join(stateRootOf(source), 'reflect', 'config.json');
+  fs.mkdirSync(path.dirname(reflectPath), { recursive: true });
+  fs.writeFileSync(reflectPath, JSON.stringify({ enabled: false, budget: 'medium' }));
+
+  const bundle = parseConfigBundle(JSON.stringify(exportConfigBundle(source)));
+  assert.deepEqual(bundle.reflect, { enabled: false, budget: 'medium' });
+  assert.throws(() => parseConfigBundle('{"format":"other"}'), /not a clawtext-config bundle/);
+
+  const target = tmpWorkspace();
+  assert.deepEqual(diffConfigBundle(target, bundle), ['permissions', 'extraction', 'tagFilters', 'advisors', 'reflect']);
+  const report = importConfig(target, bundle, 'bundle.json');
+  assert.deepEqual(report.stores, ['permissions', 'extraction', 'tagFilters', 'advisors', 'reflect']);
+  assert.deepEqual(diffConfigBundle(target, bundle), []);
+  assert.equal(listVaultOverrides(getPermissionsRoot(target))[0].globalOverride.recallMaxTokens, 2048);
+  assert.deepEqual(listHistory(target).map((e) => e.source), ['initial', 'import:bundle.json']);
+});
+
+test('iac: rollback restores the configuration as of an earlier history entry', () => {
+  const workspacePath = tmpWorkspace();
+  const root = getPermissionsRoot(workspacePath);
+  applyIac(workspacePath, parseDesiredState(DESIRED, 'v1.yaml'));
+  applyIac(workspacePath, parseDesiredState(DESIRED.replace('members: [lead-1]', 'members: [lead-1, lead-2]').replace('"*": deep', '"*": lightweight'), 'v2.yaml'));
+  saveVaultOverride(root, { vaultId: 'scratch', globalOverride: { recall: false } });
+
+  assert.deepEqual(listHistory(workspacePath).map((e) => [e.id, e.source]), [[0, 'initial'], [1, 'apply:v1.yaml'], [2, 'apply:v2.yaml']]);
+  assert.throws(() => rollbackIac(workspacePath, 9), /no history entry 9/);
+
+  const report = rollbackIac(workspacePath, 1);
+  assert.deepEqual(report.stores, ['permissions', 'extraction']);
+  assert.deepEqual(loadRoles(root).find((r) => r.roleId === 'lead').members, ['lead-1']);
+  assert.equal(loadExtractionState(workspacePath).mappings.default, 'deep');
+  assert.deepEqual(listVaultOverrides(root), [], 'overrides added after the entry are removed');
+  assert.deepEqual(detectDrift(workspacePath), [], 'the drift baseline of entry 1 comes back too');
+  assert.equal(listHistory(workspacePath).at(-1).source, 'rollback:1');
+
+  rollbackIac(workspacePath, 0);
+  assert.deepEqual(loadRoles(root), []);
+  assert.equal(fs.existsSync(path.join(stateRootOf(workspacePath), 'iac', 'applied.json')), false);
+});
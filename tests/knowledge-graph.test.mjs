@@ -0,0 +1,159 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import {
+  describeGraphEntity,
+  extractGraphObservation,
+  findEntityOwners,
+  ingestIntoKnowledgeGraph,
+  loadKnowledgeGraph,
+  queryGraphFacts,
+  syncKnowledgeGraph,
+} from '../dist/graph/index.js';
+import { KnowledgeGraphProvider } from '../dist/providers/knowledge-graph-provider.js';
+import { ClawTextMemory } from '../dist/memory.js';
+import { ClawTextLibraryIngest } from '../dist/library-ingest.js';
+
+delete process.env.CLAWTEXT_STATE_ROOT;
+
+function tmpWorkspace() {
+  return fs.mkdtempSync(path.join(os.tmpdir(), 'clawtext-graph-'));
+}
+
+const source = (id, text, observedAt, extra = {}) => ({ id, text, observedAt, project: 'payments', ...extra });
+
+test('graph: extraction finds entities and relations between them', () => {
+  const observation = extractGraphObservation(source(
+    'm1',
+    'Alice owns the billing service. The billing service depends on the ledger database; config lives in src/billing/config.yaml.',
+    '2026-01-10T00:00:00.000Z',
+    { entities: ['entity://user/ragesaq', 'stripe'] },
+  ));
+
+  assert.deepEqual(observation.entities.map((e) => e.id).sort(), [
+    'file:src/billing/config.yaml',
+    'person:alice',
+    'person:ragesaq',
+    'project:payments',
+    'service:billing-service',
+    'service:ledger-database',
+    'topic:stripe',
+  ]);
+  const relations = observation.facts.filter((f) => f.predicate !== 'part-of').map((f) => `${f.subject} ${f.predicate} ${f.object}`);
+  assert.deepEqual(relations, [
+    'person:alice owns service:billing-service',
+    'service:billing-service depends-on service:ledger-database',
+  ]);
+  assert.ok(observation.facts.some((f) => f.subject === 'service:billing-service' && f.predicate === 'part-of' && f.object === 'project:payments'));
+  assert.deepEqual(extractGraphObservation(source('m2', 'The weather was nice today', '2026-01-10T00:00:00.000Z', { project: 'general' })).entities, []);
+});
+
+test('graph: ownership is time-bounded and answerable as of a date', () => {
+  const workspacePath = tmpWorkspace();
+  ingestIntoKnowledgeGraph(workspacePath, [
+    source('m2', 'Bob took over the billing service from Alice.', '2026-03-01T09:00:00.000Z'),
+    source('m1', 'Alice owns the billing service.', '2026-01-10T09:00:00.000Z'),
+  ]);
+
+  assert.deepEqual(findEntityOwners(workspacePath, 'billing service', '2026-02-01').map((e) => e.name), ['Alice']);
+  assert.deepEqual(findEntityOwners(workspacePath, 'billing service', '2026-03-01').map((e) => e.name), ['Bob']);
+  assert.deepEqual(findEntityOwners(workspacePath, 'billing service', '2025-12-31'), []);
+
+  const about = describeGraphEntity(workspacePath, 'billing service');
+  assert.deepEqual(about.incoming.filter((f) => f.predicate === 'owns').map((f) => f.subject), ['person:bob']);
+  assert.deepEqual(about.ended.map((f) => [f.subject, f.validTo]), [['person:alice', '2026-03-01T09:00:00.000Z']]);
+  assert.equal(queryGraphFacts(workspacePath, { predicate: 'owns', includeEnded: true }).length, 2);
+  assert.throws(() => queryGraphFacts(workspacePath, { subject: 'nobody-here' }), /no entity matches/);
+
+  const again = ingestIntoKnowledgeGraph(workspacePath, [source('m1', 'Alice owns the billing service.', '2026-01-10T09:00:00.000Z')]);
+  assert.equal(again.sources, 0, 'unchanged sources are skipped');
+});
+
+test('graph: memory writes keep the graph in step and sync reads clusters', async () => {
+  const workspacePath = tmpWorkspace();
+  const memory = new ClawTextMemory(workspacePath);
+  const stale = await memory.add('The checkout service uses the redis cache cluster', { project: 'shop' });
+  assert.equal(queryGraphFacts(workspacePath, { subject: 'checkout service', predicate: 'depends-on' }).length, 1);
+
+  await memory.supersede(stale.id, 'The checkout service uses the memcached cluster', 'cache swap');
+  const deps = queryGraphFacts(workspacePath, { subject: 'checkout service', predicate: 'depends-on' });
+  assert.deepEqual(deps.map((f) => f.object), ['service:memcached-cluster']);
+
+  const clustersDir = path.join(workspacePath, 'memory', 'clusters');
+  fs.mkdirSync(clustersDir, { recursive: true });
+  fs.writeFileSync(path.join(clustersDir, 'cluster-ops.json'), JSON.stringify({
+    projectId: 'ops',
+    memories: [{ id: 'ingested-1', content: '@dana maintains the deploy worker', project: 'ops', type: 'fact', updatedAt: '2026-02-02T00:00:00.000Z' }],
+  }));
+  const result = syncKnowledgeGraph(workspacePath);
+  assert.equal(result.sources, 1, 'API memories were already read on add');
+  assert.deepEqual(findEntityOwners(workspacePath, 'deploy worker').map((e) => e.id), ['person:dana']);
+  assert.equal(syncKnowledgeGraph(workspacePath).sources, 0);
+});
+
+test('graph: library ingest feeds newly imported documents to the graph', async () => {
+  const workspacePath = tmpWorkspace();
+  const manifest = {
+    slug: 'ops-docs',
+    title: 'Ops docs',
+    source_type: 'official-docs',
+    trust_level: 'official',
+    status: 'active',
+    topics: ['deploys'],
+    sources: [{ url: 'https://docs.example/deploys', role: 'guide' }],
+  };
+  const fetchImpl = async () => new Response('@dana maintains the deploy worker', { headers: { 'content-type': 'text/plain' } });
+  const ingest = new ClawTextLibraryIngest(workspacePath);
+  const [doc] = (await ingest.ingestCollection(manifest, { fetchImpl })).documents;
+
+  assert.ok(loadKnowledgeGraph(workspacePath).ingested[doc.id]);
+  assert.deepEqual(findEntityOwners(workspacePath, 'deploy worker').map((e) => e.id), ['person:dana']);
+  assert.ok(describeGraphEntity(workspacePath, 'topic:deploys'));
+});
+
+test('graph: provider injects current facts about entities the message mentions', () => {
+  const workspacePath = tmpWorkspace();
+  ingestIntoKnowledgeGraph(workspacePath, [
+    source('m1', 'Alice owns the billing service.', '2026-01-10T09:00:00.000Z'),
+    source('m2', 'The billing service depends on the ledger database.', '2026-01-11T09:00:00.000Z'),
+  ]);
+  const ctx = { channelId: 'c1', sessionKey: 's1', modelContextWindowTokens: 160000, currentTurnCount: 1 };
+
+  const provider = new KnowledgeGraphProvider({ workspacePath, query: 'Why is the billing service slow today?' });
+  assert.equal(provider.available(ctx), true);
+  const [slot, ...rest] = provider.fill(ctx, 4096);
+  assert.equal(slot.source, 'knowledge-graph');
+  assert.match(slot.content, /^## Known: billing service \(service\)/);
+  assert.match(slot.content, /Alice owns billing service \(since 2026-01-10\)/);
+  assert.match(slot.content, /billing service depends-on ledger database/);
+  assert.ok(rest.every((s) => s.id !== slot.id));
+
+  assert.deepEqual(new KnowledgeGraphProvider({ workspacePath, query: 'unrelated question' }).fill(ctx, 4096), []);
+  assert.equal(new KnowledgeGraphProvider({ workspacePath: tmpWorkspace(), query: 'billing service' }).available(ctx), false);
+  assert.equal(loadKnowledgeGraph(workspacePath).entities['person:alice'].mentions, 1);
+});
+
+test('graph: private and cross-agent facts are only injected for the agents they are scoped to', async () => {
+  const workspacePath = tmpWorkspace();
+  const memory = new ClawTextMemory(workspacePath);
+  await memory.add('Alice owns the billing service.', { agentId: 'agent-a', visibility: 'private' });
+  await memory.add('The billing service depends on the ledger database.', { agentId: 'agent-a', visibility: 'shared' });
+  await memory.add('Bob owns the search service.', { agentId: 'agent-a', visibility: 'cross-agent', targetAgent: 'agent-c' });
+  const ctx = { channelId: 'c1', sessionKey: 's1', modelContextWindowTokens: 160000, currentTurnCount: 1 };
+  const inject = (agentId, query) => new KnowledgeGraphProvider({ workspacePath, query, agentId })
+    .fill(ctx, 4096)
+    .map((slot) => slot.content)
+    .join('\n');
+
+  const forB = inject('agent-b', 'Who looks after the billing service and the search service?');
+  assert.doesNotMatch(forB, /Alice/, "another agent's private fact is never injected");
+  assert.doesNotMatch(forB, /Bob/);
+  assert.match(forB, /billing service depends-on ledger database/, 'shared facts still are');
+  assert.doesNotMatch(inject(null, 'billing service'), /Alice/, 'no agent sees shared facts only');
+
+  assert.match(inject('agent-a', 'billing service'), /Alice owns billing service/);
+  assert.match(inject('agent-c', 'search service'), /Bob/);
+});
@@ -0,0 +1,153 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { ClawTextMemory } from '../dist/memory.js';
+import { contradicts, detectContradiction } from '../dist/contradiction-detector.js';
+import { loadMemoryConflicts } from '../dist/memory-conflicts.js';
+import { loadTopicAnchor, resolveTopicAnchorConflict, syncTopicAnchor } from '../dist/topic-anchor.js';
+
+delete process.env.CLAWTEXT_STATE_ROOT;
+
+function tmpWorkspace() {
+  return fs.mkdtempSync(path.join(os.tmpdir(), 'clawtext-memory-'));
+}
+
+test('memory: update keeps prior versions and re-derives content fields', async () => {
+  const memory = new ClawTextMemory(tmpWorkspace());
+  const created = await memory.add('The staging gateway listens on port 8080', { project: 'ops' });
+  assert.equal(created.version, 1);
+
+  const updated = await memory.update(created.id, { content: 'The staging gateway listens on port 9090', tags: ['ports'] }, 'port change');
+  assert.equal(updated.version, 2);
+  assert.equal(updated.body, 'The staging gateway listens on port 9090');
+  assert.notEqual(updated.dedupeHash, created.dedupeHash);
+  assert.deepEqual(updated.tags, ['ports']);
+  assert.equal(await memory.update('mem_missing', { tags: [] }), null);
+
+  const history = await memory.history(created.id);
+  assert.equal(history.versions.length, 1);
+  assert.equal(history.versions[0].reason, 'port change');
+  assert.equal(history.versions[0].memory.body, 'The staging gateway listens on port 8080');
+});
+
+test('memory: supersede hides the stale memory and links the chain', async () => {
+  const memory = new ClawTextMemory(tmpWorkspace());
+  const stale = await memory.add('Deploys go out from the jenkins server every friday', { project: 'ops', tags: ['deploy'] });
+
+  const { superseded, replacement } = await memory.supersede(
+    stale.id,
+    'Deploys go out from the github actions runner every friday',
+    'jenkins retired',
+  );
+  assert.equal(superseded.status, 'superseded');
+  assert.equal(superseded.supersededBy, replacement.id);
+  assert.deepEqual(replacement.relations.supersedes, [stale.id]);
+  assert.equal(replacement.project, 'ops');
+  assert.deepEqual(replacement.tags, ['deploy']);
+
+  const hits = await memory.search('deploys friday');
+  assert.deepEqual(hits.map((h) => h.id), [replacement.id]);
+  const withStale = await memory.search('deploys friday', { includeSuperseded: true });
+  assert.equal(withStale.length, 2);
+
+  const history = await memory.history(replacement.id);
+  assert.deepEqual(history.lineage, [stale.id, replacement.id]);
+  assert.deepEqual((await memory.history(stale.id)).lineage, [stale.id, replacement.id]);
+
+  await assert.rejects(() => memory.supersede(stale.id, 'anything else', 'again'), /already superseded/);
+  await assert.rejects(() => memory.update(stale.id, { tags: [] }), /superseded by/);
+});
+
+test('contradiction detector: cues, negation and changed values', () => {
+  assert.equal(detectContradiction('We decided to use Postgres for storage', 'We switched to SQLite instead of Postgres').reason, 'explicit');
+  assert.equal(detectContradiction('We decided to cache sessions in redis', 'We decided not to cache sessions').reason, 'negation');
+  assert.equal(detectContradiction('Decision: the gateway listens on port 8080', 'Decision: the gateway listens on port 9090').reason, 'value');
+  assert.equal(detectContradiction('We decided not to cache sessions', 'We decided not to cache sessions either'), null, 'both negated');
+  assert.equal(detectContradiction('We decided to ship the beta on friday', 'We decided to write docs on friday'), null);
+  assert.equal(detectContradiction('The gateway listens on port 8080', 'The gateway listens on port 9090'), null, 'not decisions');
+  assert.ok(detectContradiction('The gateway listens on port 8080', 'The gateway listens on port 9090', { assumeDecision: true }));
+  assert.equal(contradicts('We decided to use Postgres for storage', ['unrelated chatter', 'We are going with SQLite rather than Postgres']), true);
+});
+
+test('memory: decisions that differ in one plain word are not contradictions', () => {
+  const assumeDecision = { assumeDecision: true };
+  assert.equal(detectContradiction('We decided to use Postgres for the billing service', 'We decided to use Postgres for the analytics service', assumeDecision), null);
+  assert.equal(detectContradiction('We will use TypeScript for the frontend', 'We will use TypeScript for the backend', assumeDecision), null);
+  assert.equal(detectContradiction('ship the API docs', 'ship the SDK docs', assumeDecision), null);
+
+  assert.equal(detectContradiction('We decided to use Postgres for the billing service', 'We now use Postgres for the analytics service', assumeDecision).reason, 'value', 'change cue');
+  assert.equal(detectContradiction('Decision: deploy with Node 18', 'Decision: deploy with Node 20').reason, 'value', 'version');
+  assert.equal(detectContradiction('Decision: cache sessions on redis-01', 'Decision: cache sessions on redis-02').reason, 'value', 'identifier');
+});
+
+test('memory: unrelated decisions do not contradict each other', async () => {
+  const assumeDecision = { assumeDecision: true };
+  assert.equal(detectContradiction('We decided the deploy window is Friday afternoon.', 'We decided to deprecate the legacy logging library.', assumeDecision), null, 'only cue words shared');
+  assert.equal(detectContradiction('We decided billing invoices go out monthly', 'We decided to replace the billing dashboard colours', assumeDecision), null, 'one shared noun');
+  assert.equal(detectContradiction('We decided to use Redis for billing', 'We decided not to page on-call for billing', assumeDecision), null);
+  assert.equal(detectContradiction('We decided to log with winston', 'We decided to replace winston with pino', assumeDecision).reason, 'explicit', 'names what it replaces');
+
+  const workspacePath = tmpWorkspace();
+  const memory = new ClawTextMemory(workspacePath);
+  const window = await memory.add('We decided the deploy window is Friday afternoon.', { project: 'ops', type: 'decision' });
+  const logging = await memory.add('We decided to deprecate the legacy logging library.', { project: 'ops', type: 'decision' });
+  assert.deepEqual(logging.relations.supersedes, []);
+  assert.deepEqual((await memory.search('deploy window', { project: 'ops' })).map((m) => m.id), [window.id]);
+  assert.equal(loadMemoryConflicts(workspacePath).length, 0);
+});
+
+test('memory: a contradicting decision supersedes the old one and is queued for review', async () => {
+  const workspacePath = tmpWorkspace();
+  const memory = new ClawTextMemory(workspacePath);
+  const old = await memory.add('We decided to use Postgres for session storage', { project: 'ops', type: 'decision' });
+  const unrelated = await memory.add('We decided to run backups nightly', { project: 'ops', type: 'decision' });
+  const otherProject = await memory.add('We decided to use Postgres for session storage here too', { project: 'web', type: 'decision' });
+
+  const next = await memory.add('Decision: use SQLite for session storage', { project: 'ops' });
+  assert.deepEqual(next.relations.supersedes, [old.id]);
+  assert.deepEqual((await memory.search('session storage', { project: 'ops' })).map((m) => m.id), [next.id]);
+  assert.equal((await memory.history(old.id)).current.supersededBy, next.id);
+
+  const [conflict] = loadMemoryConflicts(workspacePath, { status: 'open' });
+  assert.deepEqual([conflict.source, conflict.reason, conflict.older.id, conflict.newer.id], ['memory', 'value', old.id, next.id]);
+  assert.equal(loadMemoryConflicts(workspacePath).length, 1, `${unrelated.id} and ${otherProject.id} are untouched`);
+
+  const resolved = await memory.resolveConflict(conflict.id, 'keep-older', 'lead-1');
+  assert.deepEqual([resolved.status, resolved.resolution, resolved.resolvedBy], ['resolved', 'keep-older', 'lead-1']);
+  const restored = (await memory.history(old.id)).current;
+  assert.equal(restored.status, 'promoted');
+  assert.equal(restored.supersededBy, undefined);
+  assert.deepEqual((await memory.history(next.id)).current.supersededBy, old.id);
+  assert.deepEqual((await memory.search('session storage', { project: 'ops' })).map((m) => m.id), [old.id]);
+  await assert.rejects(() => memory.resolveConflict(conflict.id, 'keep-newer'), /already resolved/);
+});
+
+test('topic anchor: contradicted key decisions are dropped and queued for review', () => {
+  const workspacePath = tmpWorkspace();
+  const sync = (recentContent) => syncTopicAnchor(workspacePath, {
+    topic: 'infra', sessionKey: 's1', trigger: 'rolling', messagesSince: recentContent.length, recentContent,
+  });
+
+  sync(['We decided to deploy from jenkins every friday']);
+  sync(['We decided to deploy from jenkins every friday', 'We decided to deploy from GitHub Actions every friday']);
+  let anchor = loadTopicAnchor(workspacePath, 'infra');
+  assert.deepEqual(anchor.keyDecisions, ['We decided to deploy from GitHub Actions every friday']);
+  assert.match(anchor.history.at(-1), /decision superseded, conflict conf_\w+ open for review/);
+
+  const [conflict] = loadMemoryConflicts(workspacePath, { source: 'topic-anchor' });
+  assert.equal(conflict.topic, 'infra');
+  sync(['We decided to deploy from jenkins every friday', 'We decided to deploy from GitHub Actions every friday']);
+  assert.equal(loadMemoryConflicts(workspacePath).length, 1, 'a re-sync does not raise it again');
+
+  resolveTopicAnchorConflict(workspacePath, conflict.id, 'keep-both');
+  sync(['We decided to deploy from jenkins every friday', 'We decided to deploy from GitHub Actions every friday']);
+  anchor = loadTopicAnchor(workspacePath, 'infra');
+  assert.deepEqual(anchor.keyDecisions, [
+    'We decided to deploy from GitHub Actions every friday',
+    'We decided to deploy from jenkins every friday',
+  ]);
+  assert.equal(loadMemoryConflicts(workspacePath, { status: 'open' }).length, 0);
+});
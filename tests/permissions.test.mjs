@@ -0,0 +1,181 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import {
+  enforcePermission,
+  isProviderExcluded,
+  readPermissionDenials,
+  resolvePermissions,
+  resolvePrincipal,
+} from '../dist/permissions/index.js';
+import { explainPermissions, simulatePermissionChange, commitPermissionChange, parsePermissionValue } from '../dist/permissions/policy.js';
+import { parsePermissionChange } from '../dist/cli/perms-cli.js';
+import { readTransactions } from '../dist/record/index.js';
+import { ClawTextMemory } from '../dist/memory.js';
+import { OperationalRetrievalManager } from '../dist/operational-retrieval.js';
+import { ClawTextInjectionPlugin } from '../dist/plugin.js';
+import { createSessionIntelligenceEngine } from '../dist/session-intelligence/engine.js';
+
+delete process.env.CLAWTEXT_STATE_ROOT;
+
+function tmpWorkspace() {
+  return fs.mkdtempSync(path.join(os.tmpdir(), 'clawtext-perms-'));
+}
+
+function writePermissions(workspacePath, relPath, value) {
+  const target = path.join(workspacePath, 'state', 'clawtext', 'prod', 'permissions', relPath);
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  fs.writeFileSync(target, JSON.stringify(value));
+}
+
+const GUEST = { userId: 'guest-1', vaultId: 'ops' };
+const LEAD = { userId: 'lead-1', vaultId: 'ops' };
+
+function seedRoles(workspacePath) {
+  writePermissions(workspacePath, 'roles/guest.json', {
+    roleId: 'guest', displayName: 'Guest', members: ['guest-1'], recall: false, retain: false,
+  });
+  writePermissions(workspacePath, 'roles/lead.json', {
+    roleId: 'lead', displayName: 'Lead', members: ['lead-1'], operationalLearningAccess: true, excludeProviders: ['openai'],
+  });
+}
+
+test('permissions: enforcePermission gates operations and logs denials', () => {
+  const workspacePath = tmpWorkspace();
+  seedRoles(workspacePath);
+
+  assert.equal(enforcePermission(LEAD, 'recall', 'memory', workspacePath).allowed, true);
+  assert.equal(enforcePermission(LEAD, 'operationalLearningAccess', 'operational', workspacePath).allowed, true);
+  assert.equal(enforcePermission(LEAD, 'crossSessionVisibility', 'si-recall', workspacePath).allowed, false);
+
+  const denied = enforcePermission(GUEST, 'operationalLearningAccess', 'operational', workspacePath);
+  assert.equal(denied.allowed, false);
+  assert.match(denied.reason, /^recall not granted to guest-1 in vault ops/);
+
+  const denials = readPermissionDenials(workspacePath);
+  assert.deepEqual(denials.map((d) => [d.surface, d.operation, d.userId]), [
+    ['si-recall', 'crossSessionVisibility', 'lead-1'],
+    ['operational', 'operationalLearningAccess', 'guest-1'],
+  ]);
+  assert.equal(denials[1].source, 'role');
+});
+
+test('permissions: principal and provider helpers', () => {
+  assert.deepEqual(resolvePrincipal({ senderId: 'u-9', agentId: 'pylon' }), { userId: 'u-9', vaultId: 'pylon' });
+  assert.deepEqual(resolvePrincipal({}), { userId: 'unknown', vaultId: 'default' });
+
+  const workspacePath = tmpWorkspace();
+  seedRoles(workspacePath);
+  const lead = resolvePermissions(LEAD, workspacePath);
+  assert.equal(isProviderExcluded(lead, 'openai/gpt-4o'), true);
+  assert.equal(isProviderExcluded(lead, 'anthropic/claude-haiku-4-5'), false);
+  assert.equal(isProviderExcluded(lead, undefined), false);
+});
+
+test('permissions: memory add/search and operational retrieval honour the principal', async () => {
+  const workspacePath = tmpWorkspace();
+  seedRoles(workspacePath);
+  const memory = new ClawTextMemory(workspacePath);
+
+  await assert.rejects(() => memory.add('Guests cannot write this', { principal: GUEST }), /Permission denied: retain/);
+  await memory.add('The backup window opens at midnight', { principal: LEAD });
+  assert.equal((await memory.search('backup window', { principal: LEAD })).length, 1);
+  assert.deepEqual(await memory.search('backup window', { principal: GUEST }), []);
+
+  const retrieval = new OperationalRetrievalManager(workspacePath);
+  const result = await retrieval.retrieveForTask({ userMessage: 'debug the failing deploy error', principal: GUEST });
+  assert.deepEqual(result.patterns, []);
+  assert.match(result.accessDenied, /not granted to guest-1/);
+});
+
+test('permissions: si_search and si_describe return nothing when recall is denied', async () => {
+  const workspacePath = tmpWorkspace();
+  seedRoles(workspacePath);
+  const libraryEntriesDir = path.join(workspacePath, 'library-entries');
+  fs.mkdirSync(libraryEntriesDir, { recursive: true });
+  fs.writeFileSync(path.join(libraryEntriesDir, 'runbook.md'), '# Runbook\nRotate the vault tokens every Friday.');
+
+  const engine = createSessionIntelligenceEngine({ workspacePath, libraryEntriesDir });
+  try {
+    const lead = engine._recall.search('s-perm', 'vault tokens', 10, undefined, { principal: LEAD });
+    assert.deepEqual(lead.hits.map((hit) => hit.id), ['lib-runbook.md']);
+
+    const guest = engine._recall.search('s-perm', 'vault tokens', 10, undefined, { principal: GUEST });
+    assert.equal(guest.hits.length, 0);
+    assert.equal(guest.totalFound, 0);
+    assert.match(guest.scope.reason, /recall not granted/);
+    assert.equal(engine._recall.describe('s-perm', 'lib-runbook.md', { principal: GUEST }), null);
+    assert.notEqual(engine._recall.describe('s-perm', 'lib-runbook.md', { principal: LEAD }), null);
+  } finally {
+    await engine.dispose();
+  }
+});
+
+test('permissions: prompt injection is skipped without recall or for excluded providers', async () => {
+  const workspacePath = tmpWorkspace();
+  seedRoles(workspacePath);
+  const previous = process.env.OPENCLAW_WORKSPACE_PATH;
+  process.env.OPENCLAW_WORKSPACE_PATH = workspacePath;
+  try {
+    const plugin = new ClawTextInjectionPlugin();
+    const guest = await plugin.onBeforePromptBuild({ systemPrompt: 'base', userMessage: 'hello there', principal: GUEST });
+    assert.equal(guest.systemPrompt, 'base');
+    assert.match(guest.injectionStats.denied, /recall not granted/);
+
+    const lead = await plugin.onBeforePromptBuild({
+      systemPrompt: 'base', userMessage: 'hello there', model: 'openai/gpt-4o', principal: LEAD,
+    });
+    assert.equal(lead.systemPrompt, 'base');
+    assert.match(lead.injectionStats.denied, /excluded/);
+    assert.equal(readPermissionDenials(workspacePath).at(-1).operation, 'excludeProviders');
+  } finally {
+    if (previous === undefined) delete process.env.OPENCLAW_WORKSPACE_PATH;
+    else process.env.OPENCLAW_WORKSPACE_PATH = previous;
+  }
+});
+
+test('permissions policy: explain reports the layer behind each field', () => {
+  const workspacePath = tmpWorkspace();
+  seedRoles(workspacePath);
+  writePermissions(workspacePath, 'vaults/ops.json', { vaultId: 'ops', roleOverrides: { lead: { recallBudget: 'high' } } });
+  writePermissions(workspacePath, 'users/lead-1/ops.json', { userId: 'lead-1', vaultId: 'ops', recallMaxTokens: 2048 });
+
+  const explained = explainPermissions(LEAD, workspacePath);
+  const origin = (field) => explained.fields.find((f) => f.field === field);
+  assert.deepEqual(explained.roles, ['lead']);
+  assert.equal(explained.source, 'user');
+  assert.deepEqual([origin('recall').value, origin('recall').origin.ref], [true, 'built-in']);
+  assert.equal(origin('operationalLearningAccess').origin.ref, 'role:lead');
+  assert.deepEqual([origin('recallBudget').value, origin('recallBudget').origin.ref], ['high', 'vault:ops/role:lead']);
+  assert.deepEqual([origin('recallMaxTokens').value, origin('recallMaxTokens').origin.layer], [2048, 'user']);
+  assert.equal(resolvePermissions(LEAD, workspacePath).recallMaxTokens, 2048);
+});
+
+test('permissions policy: simulate previews a change, commit writes and journals it', () => {
+  const workspacePath = tmpWorkspace();
+  seedRoles(workspacePath);
+  writePermissions(workspacePath, 'users/guest-1/ops.json', { userId: 'guest-1', vaultId: 'ops', retain: false });
+
+  assert.throws(() => parsePermissionValue('recall', 'yes'), /true or false/);
+  assert.deepEqual(parsePermissionValue('excludeProviders', 'openai, google'), ['openai', 'google']);
+  assert.throws(() => parsePermissionChange(['role', 'set', 'guest', 'colour', 'red']), /unknown permission field/);
+
+  const change = parsePermissionChange(['role', 'set', 'guest', 'retain', 'true']);
+  const simulation = simulatePermissionChange(change, workspacePath);
+  assert.equal(simulation.principals, 4, 'two users × (ops, default)');
+  assert.deepEqual(simulation.affected.map((a) => [a.userId, a.vaultId, a.changes.map((c) => c.field)]), [
+    ['guest-1', 'default', ['retain']],
+  ], 'the user override keeps retain off in ops');
+  assert.equal(readTransactions({ stateRoot: path.join(workspacePath, 'state', 'clawtext', 'prod') }).length, 0);
+
+  assert.equal(commitPermissionChange(change, workspacePath), 1);
+  assert.equal(resolvePermissions({ userId: 'guest-1', vaultId: 'default' }, workspacePath).retain, true);
+  assert.equal(commitPermissionChange(parsePermissionChange(['role', 'add-member', 'guest', 'new-1']), workspacePath), 1);
+  assert.throws(() => commitPermissionChange(parsePermissionChange(['role', 'create', 'guest']), workspacePath), /already exists/);
+
+  const journal = readTransactions({ stateRoot: path.join(workspacePath, 'state', 'clawtext', 'prod') });
+  assert.deepEqual(journal.map((t) => t.payload.field), ['roles.guest.retain', 'roles.guest.members']);
+});
@@ -0,0 +1,178 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { readTransactions, verifyChain } from '../dist/record/index.js';
+import { replayJournal } from '../dist/record/replay.js';
+import { ClawTextMemory } from '../dist/memory.js';
+import { loadMemoryConflicts } from '../dist/memory-conflicts.js';
+import { OperationalMemoryManager } from '../dist/operational.js';
+import { OperationalCaptureManager } from '../dist/operational-capture.js';
+import { getPermissionsRoot, saveRole, saveUserOverride, saveVaultOverride, ALL_VAULTS_ID } from '../dist/permissions/index.js';
+import { loadNodeRegistry } from '../dist/fleet/index.js';
+import { handleInboundHeartbeat } from '../dist/peer/index.js';
+
+delete process.env.CLAWTEXT_STATE_ROOT;
+
+function tmpWorkspace() {
+  return fs.mkdtempSync(path.join(os.tmpdir(), 'clawtext-emit-'));
+}
+
+function stateRootOf(workspacePath) {
+  return path.join(workspacePath, 'state', 'clawtext', 'prod');
+}
+
+function journal(workspacePath) {
+  return readTransactions({ stateRoot: stateRootOf(workspacePath) });
+}
+
+test('record emitters: memory add/delete and operational writes are journaled', async () => {
+  const workspacePath = tmpWorkspace();
+  const memory = new ClawTextMemory(workspacePath);
+  const kept = await memory.add('Backups run nightly at 02:00', { project: 'ops', tags: ['backup'], sessionId: 's-1' });
+  await memory.add('Backups run nightly at 02:00');
+  const dropped = await memory.add('Temporary note to drop');
+  assert.equal(await memory.delete(dropped.id, 'cleanup'), true);
+
+  const operational = new OperationalMemoryManager(workspacePath);
+  operational.create({ patternKey: 'exec-timeout', summary: 'exec times out', fix: 'raise timeout', status: 'candidate' });
+  operational.create({ patternKey: 'exec-timeout-dup', summary: 'exec times out again', recurrenceCount: 2 });
+  operational.merge('exec-timeout', 'exec-timeout-dup');
+  operational.promote('exec-timeout', 'tools-md', 'reviewed');
+  operational.create({ patternKey: 'quiet', summary: 'not journaled' }, { journal: false });
+
+  new OperationalCaptureManager(workspacePath).capture({
+    type: 'error-pattern',
+    summary: 'gateway 502',
+    symptom: 'HTTP 502 from gateway',
+    trigger: 'web_fetch',
+    scope: 'tool',
+    evidence: ['log line'],
+    metadata: { sessionId: 's-2' },
+  });
+
+  const txns = journal(workspacePath);
+  assert.deepEqual(txns.map((t) => t.type), [
+    'memory.extracted',
+    'memory.extracted',
+    'memory.extracted',
+    'memory.deleted',
+    'operational.pattern',
+    'operational.pattern',
+    'operational.pattern',
+    'memory.promoted',
+    'operational.failure',
+  ]);
+  assert.equal(txns[0].payload.sessionId, 's-1');
+  assert.equal(txns[0].payload.memories[0].memoryId, kept.id);
+  assert.equal(txns[1].payload.memories[0].memoryId, kept.id, 'dedupe merge journals the existing id');
+  assert.deepEqual(txns[3].payload, { memoryId: dropped.id, reason: 'cleanup' });
+  assert.equal(txns[6].payload.frequency, 3);
+  assert.equal(txns[6].payload.mergedFrom, 'exec-timeout-dup');
+  assert.deepEqual(
+    [txns[7].payload.fromLane, txns[7].payload.toLane, txns[7].payload.reason],
+    ['operational', 'tools-md', 'reviewed'],
+  );
+  assert.equal(txns[8].payload.tool, 'web_fetch');
+  assert.equal(verifyChain(stateRootOf(workspacePath)).valid, true);
+
+  const target = tmpWorkspace();
+  const report = replayJournal({ targetWorkspace: target, stateRoot: stateRootOf(workspacePath) });
+  assert.equal(report.memories, 1);
+  assert.deepEqual(report.promotions, { applied: 1, unmatched: [] });
+  const opIndex = JSON.parse(fs.readFileSync(path.join(stateRootOf(target), 'operational', 'index.json'), 'utf-8'));
+  assert.equal(opIndex['exec-timeout'].status, 'promoted');
+  assert.equal(journal(target).length, txns.length, 'replay does not journal its own writes');
+});
+
+test('record emitters: memory updates, supersedes and conflict resolutions replay back', async () => {
+  const workspacePath = tmpWorkspace();
+  const memory = new ClawTextMemory(workspacePath);
+  const edited = await memory.add('Staging deploys go out on Tuesdays', { project: 'ops', tags: ['deploy'] });
+  await memory.update(edited.id, { content: 'Staging deploys go out on Thursdays', tags: ['deploy', 'staging'] });
+  const replaced = await memory.add('The on-call rota lives in the wiki', { project: 'ops' });
+  const { replacement } = await memory.supersede(replaced.id, 'The on-call rota lives in PagerDuty', 'moved');
+  const older = await memory.add('Decision: the gateway listens on port 8080', { project: 'ops', type: 'decision' });
+  await memory.add('Decision: the gateway listens on port 9090', { project: 'ops', type: 'decision' });
+  const [conflict] = loadMemoryConflicts(workspacePath, { status: 'open' });
+  await memory.resolveConflict(conflict.id, 'keep-older');
+
+  const versions = journal(workspacePath)
+    .filter((t) => t.type === 'memory.extracted')
+    .flatMap((t) => t.payload.memories)
+    .filter((m) => typeof m.version === 'number');
+  assert.ok(versions.some((m) => m.memoryId === edited.id && m.version === 2), 'update is journaled');
+  assert.ok(versions.some((m) => m.memoryId === replaced.id && m.supersededBy === replacement.id), 'supersede is journaled');
+
+  const target = tmpWorkspace();
+  replayJournal({ targetWorkspace: target, stateRoot: stateRootOf(workspacePath) });
+  const read = (dir, id) => JSON.parse(fs.readFileSync(path.join(dir, 'memory', 'api-memories', `${id}.json`), 'utf-8'));
+  const pick = (m) => ({
+    body: m.body,
+    tags: m.tags,
+    status: m.status,
+    version: m.version ?? 1,
+    supersededBy: m.supersededBy,
+    supersedes: m.relations.supersedes,
+  });
+  const ids = (dir) => fs.readdirSync(path.join(dir, 'memory', 'api-memories'))
+    .filter((f) => f.endsWith('.json'))
+    .map((f) => f.slice(0, -'.json'.length))
+    .sort();
+  const sourceIds = ids(workspacePath);
+  const replayedIds = ids(target);
+  assert.deepEqual(replayedIds, sourceIds);
+  for (const id of sourceIds) assert.deepEqual(pick(read(target, id)), pick(read(workspacePath, id)), id);
+  assert.equal(read(target, older.id).status, 'promoted', 'keep-older restores the older decision');
+});
+
+test('record emitters: permission writes journal one change per field and replay back', () => {
+  const workspacePath = tmpWorkspace();
+  const root = getPermissionsRoot(workspacePath);
+
+  assert.equal(saveRole(root, { roleId: 'guest', displayName: 'Guest', members: ['g1'], recall: false }), 3);
+  assert.equal(saveRole(root, { roleId: 'guest', displayName: 'Guest', members: ['g1'], recall: false }), 0);
+  saveVaultOverride(root, { vaultId: 'ops', globalOverride: { recallBudget: 'high' }, roleOverrides: { guest: { recall: true } } });
+  saveUserOverride(root, { userId: 'g1', vaultId: 'ops', retain: false });
+  saveUserOverride(root, { userId: 'g1', vaultId: 'ops', retain: true });
+
+  const changes = journal(workspacePath).map((t) => [t.payload.vaultId, t.payload.userId ?? null, t.payload.field, t.payload.newValue]);
+  assert.deepEqual(changes, [
+    [ALL_VAULTS_ID, null, 'roles.guest.displayName', 'Guest'],
+    [ALL_VAULTS_ID, null, 'roles.guest.members', ['g1']],
+    [ALL_VAULTS_ID, null, 'roles.guest.recall', false],
+    ['ops', null, 'recallBudget', 'high'],
+    ['ops', null, 'roleOverrides.guest.recall', true],
+    ['ops', 'g1', 'retain', false],
+    ['ops', 'g1', 'retain', true],
+  ]);
+
+  const target = tmpWorkspace();
+  replayJournal({ targetWorkspace: target, stateRoot: stateRootOf(workspacePath) });
+  const perms = path.join(stateRootOf(target), 'permissions');
+  const read = (rel) => JSON.parse(fs.readFileSync(path.join(perms, rel), 'utf-8'));
+  assert.deepEqual(read('roles/guest.json'), { roleId: 'guest', displayName: 'Guest', members: ['g1'], recall: false });
+  assert.deepEqual(read('vaults/ops.json').roleOverrides, { guest: { recall: true } });
+  assert.equal(read('users/g1/ops.json').retain, true);
+});
+
+test('record emitters: heartbeats journal registration and status changes only', () => {
+  const stateRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'clawtext-emit-hb-'));
+  const beat = (seq, status) => handleInboundHeartbeat(
+    { type: 'heartbeat', nodeId: 'cerberus', seq, status, timestamp: new Date().toISOString() },
+    stateRoot,
+  );
+  beat(1, 'online');
+  beat(2, 'online');
+  beat(3, 'degraded');
+
+  assert.equal(loadNodeRegistry(stateRoot).nodes.cerberus.seq, 3);
+  const txns = readTransactions({ stateRoot });
+  assert.deepEqual(txns.map((t) => t.type), ['node.registered', 'node.heartbeat', 'node.heartbeat']);
+  assert.deepEqual(
+    txns.slice(1).map((t) => [t.payload.previousStatus, t.payload.status]),
+    [[null, 'online'], ['online', 'degraded']],
+  );
+});
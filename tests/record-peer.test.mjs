@@ -0,0 +1,339 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { appendTransaction, readTransactions, readTransactionsSince, verifyChain, getRecordStatus, compactJournal } from '../dist/record/index.js';
+import { upsertNode, loadNodeRegistry, saveNodeConfig } from '../dist/fleet/index.js';
+import { syncWithPeers, pullFromPeer, getPeerStatus, sendHeartbeat, pushToPeer, handleInboundPush } from '../dist/peer/index.js';
+import { startPeerServer } from '../dist/peer/server.js';
+import { generateNodeKeyPair, trustPeerKey } from '../dist/record/signing.js';
+import { reconcileJournal } from '../dist/record/merge.js';
+import { replayJournal, selectReplayTransactions } from '../dist/record/replay.js';
+
+function tmpStateRoot(name) {
+  return fs.mkdtempSync(path.join(os.tmpdir(), `clawtext-${name}-`));
+}
+
+function setupNode(nodeId) {
+  const stateRoot = tmpStateRoot(nodeId);
+  saveNodeConfig({ nodeId, displayName: nodeId, endpoints: { api: '' }, capabilities: ['record'], roles: ['primary'] }, stateRoot);
+  const key = generateNodeKeyPair(stateRoot);
+  return { stateRoot, publicKey: key.publicKey };
+}
+
+function peerEntry(nodeId, url) {
+  return {
+    nodeId,
+    displayName: nodeId,
+    endpoints: { api: url, record: url },
+    capabilities: ['record'],
+    roles: ['primary'],
+    status: 'online',
+    lastSeen: new Date().toISOString(),
+    seq: 0,
+  };
+}
+
+test('peer server: status, pull range and heartbeat routes', async () => {
+  const rootA = tmpStateRoot('peer-a');
+  appendTransaction('memory.extracted', { sessionId: 's1', memories: [] }, { stateRoot: rootA, sourceNode: 'node-a' });
+  appendTransaction('session.checkpoint', { sessionId: 's1', summary: 'x', openLoops: [], decisions: [] }, { stateRoot: rootA, sourceNode: 'node-a' });
+
+  // No keys on this node → signatures not required
+  const a = await startPeerServer({ port: 0, stateRoot: rootA, nodeId: 'node-a', basePath: '/record' });
+  try {
+    const peer = peerEntry('node-a', a.url);
+
+    const status = await getPeerStatus(peer);
+    assert.equal(status.nodeId, 'node-a');
+    assert.equal(status.seq, 2);
+    assert.equal(status.hash, getRecordStatus(rootA).lastHash);
+
+    const pulled = await pullFromPeer(peer, 2, 2);
+    assert.equal(pulled.length, 1);
+    assert.equal(pulled[0].type, 'session.checkpoint');
+
+    const ok = await sendHeartbeat(peer, {
+      type: 'heartbeat', nodeId: 'node-b', seq: 0, status: 'online', timestamp: new Date().toISOString(),
+    });
+    assert.equal(ok, true);
+    assert.equal(loadNodeRegistry(rootA).nodes['node-b'].status, 'online');
+
+    const missing = await fetch(a.url + '/nope');
+    assert.equal(missing.status, 404);
+    const badRange = await fetch(a.url + '/pull?from=abc');
+    assert.equal(badRange.status, 400);
+  } finally {
+    await a.close();
+  }
+});
+
+test('peer server: two signed local instances replicate via syncWithPeers', async () => {
+  const nodeA = setupNode('node-a');
+  const nodeB = setupNode('node-b');
+  const rootA = nodeA.stateRoot;
+  const rootB = nodeB.stateRoot;
+
+  for (let i = 0; i < 3; i++) {
+    appendTransaction('memory.extracted', { sessionId: `s${i}`, memories: [] }, { stateRoot: rootA });
+  }
+  assert.ok(readTransactions({ stateRoot: rootA }).every((t) => t.sourceNode === 'node-a' && t.signature));
+
+  const a = await startPeerServer({ port: 0, stateRoot: rootA });
+  const b = await startPeerServer({ port: 0, stateRoot: rootB });
+  try {
+    // Before trust is established, A rejects B's requests
+    assert.equal(await getPeerStatus(peerEntry('node-a', a.url), rootB), null);
+
+    upsertNode({ ...peerEntry('node-a', a.url), publicKey: nodeA.publicKey }, rootB);
+    trustPeerKey('node-b', nodeB.publicKey, rootA);
+
+    // B pulls A's history
+    const first = await syncWithPeers(rootB);
+    assert.deepEqual(first.map((r) => [r.peer, r.pulled, r.pushed, r.errors.length]), [['node-a', 3, 0, 0]]);
+    assert.deepEqual(
+      readTransactions({ stateRoot: rootB }).map((t) => t.id),
+      readTransactions({ stateRoot: rootA }).map((t) => t.id)
+    );
+
+    // B writes, then pushes the new entry back to A
+    appendTransaction('operational.failure', { sessionId: 's9', tool: 'exec', error: 'timeout', context: {} }, { stateRoot: rootB });
+    const second = await syncWithPeers(rootB);
+    assert.equal(second[0].pushed, 1);
+    assert.equal(getRecordStatus(rootA).lastSeq, 4);
+
+    // Re-pushing the same transactions is idempotent
+    const again = await pushToPeer(peerEntry('node-a', a.url), readTransactions({ stateRoot: rootB }), rootB);
+    assert.deepEqual(again, { accepted: 0, skipped: 4, errors: [] });
+
+    assert.equal(verifyChain(rootA, { requireSignatures: true }).valid, true);
+    assert.equal(verifyChain(rootB, { requireSignatures: true }).valid, true);
+  } finally {
+    await a.close();
+    await b.close();
+  }
+});
+
+test('record signing: forged, tampered and unsigned transactions are rejected', async () => {
+  const nodeA = setupNode('node-a');
+  const rogue = tmpStateRoot('rogue');
+  const target = setupNode('node-t');
+  trustPeerKey('node-a', nodeA.publicKey, target.stateRoot);
+
+  const good = appendTransaction('memory.extracted', {
+    sessionId: 's1',
+    memories: [{ text: 'deploy via blue/green', confidence: 0.9, tags: ['decision'] }],
+  }, { stateRoot: nodeA.stateRoot });
+
+  // Rogue node (unknown key) claims to be node-a
+  generateNodeKeyPair(rogue);
+  const forged = appendTransaction('vault.permission_changed', { vaultId: 'v', userId: 'u', field: 'recall', oldValue: false, newValue: true }, { stateRoot: rogue, sourceNode: 'node-a' });
+
+  // Tampered nested payload keeps the payload hash but breaks the signature
+  const tampered = {
+    ...good,
+    payload: { ...good.payload, memories: [{ text: 'deploy straight to prod', confidence: 0.9, tags: ['decision'] }] },
+  };
+
+  const unsigned = { ...appendTransaction('memory.extracted', { sessionId: 's', memories: [] }, { stateRoot: tmpStateRoot('nokey'), sourceNode: 'node-a' }) };
+
+  const result = await handleInboundPush({ transactions: [tampered, forged, unsigned, good], sourceNode: 'node-a' }, target.stateRoot);
+  assert.equal(result.accepted, 1);
+  assert.equal(result.errors.length, 3);
+  assert.match(result.errors.join('\n'), /invalid signature/);
+  assert.match(result.errors.join('\n'), /unsigned/);
+  assert.equal(readTransactions({ stateRoot: target.stateRoot })[0].payload.memories[0].text, 'deploy via blue/green');
+
+  // Editing a signed entry on disk is caught by verifyChain
+  const txnsPath = path.join(nodeA.stateRoot, 'record', 'transactions.jsonl');
+  const line = JSON.parse(fs.readFileSync(txnsPath, 'utf-8').trim());
+  line.sourceNode = 'node-x';
+  fs.writeFileSync(txnsPath, JSON.stringify(line) + '\n');
+  assert.equal(verifyChain(nodeA.stateRoot, { requireSignatures: true }).valid, false);
+});
+
+test('record vector: a rejected transaction leaves a gap that the next pull fills', async () => {
+  const nodeA = setupNode('node-a');
+  const target = setupNode('node-t');
+  trustPeerKey('node-a', nodeA.publicKey, target.stateRoot);
+
+  const txns = ['first', 'second', 'third'].map((sessionId) =>
+    appendTransaction('memory.extracted', { sessionId, memories: [] }, { stateRoot: nodeA.stateRoot })
+  );
+  const tampered = { ...txns[1], payload: { sessionId: 'forged', memories: [] } };
+
+  const first = await handleInboundPush({ transactions: [txns[0], tampered, txns[2]], sourceNode: 'node-a' }, target.stateRoot);
+  assert.equal(first.accepted, 2);
+  const status = getRecordStatus(target.stateRoot);
+  assert.equal(status.vector['node-a'], 1);
+  assert.deepEqual(status.ahead, { 'node-a': [3] });
+
+  // The vector still asks for nodeSeq 2, so the next pull brings it back
+  const missing = readTransactionsSince(status.vector, nodeA.stateRoot);
+  assert.deepEqual(missing.map((t) => t.nodeSeq), [2, 3]);
+  const second = await handleInboundPush({ transactions: missing, sourceNode: 'node-a' }, target.stateRoot);
+  assert.equal(second.accepted, 1);
+  assert.equal(second.skipped, 1);
+
+  const healed = getRecordStatus(target.stateRoot);
+  assert.equal(healed.vector['node-a'], 3);
+  assert.equal(healed.ahead, undefined);
+  assert.deepEqual(readTransactionsSince(healed.vector, nodeA.stateRoot), []);
+});
+
+test('record merge: concurrent primaries converge on the same resolved state', async () => {
+  const nodeA = setupNode('node-a');
+  const nodeB = setupNode('node-b');
+  trustPeerKey('node-b', nodeB.publicKey, nodeA.stateRoot);
+
+  // Shared history, then both nodes write to the same keys without seeing each other
+  appendTransaction('operational.pattern', { patternId: 'p1', signature: 'exec-timeout', frequency: 2, recovery: 'retry' }, { stateRoot: nodeA.stateRoot });
+  const a = await startPeerServer({ port: 0, stateRoot: nodeA.stateRoot });
+  try {
+    upsertNode({ ...peerEntry('node-a', a.url), publicKey: nodeA.publicKey }, nodeB.stateRoot);
+    await syncWithPeers(nodeB.stateRoot);
+
+    const perm = (value) => ({ vaultId: 'finance', userId: 'u1', field: 'recall', oldValue: true, newValue: value });
+    appendTransaction('vault.permission_changed', perm(false), { stateRoot: nodeA.stateRoot });
+    appendTransaction('vault.permission_changed', perm(true), { stateRoot: nodeB.stateRoot });
+    appendTransaction('operational.pattern', { patternId: 'p1', frequency: 7 }, { stateRoot: nodeA.stateRoot });
+    appendTransaction('operational.pattern', { patternId: 'p1', frequency: 4, recovery: 'add timeout' }, { stateRoot: nodeB.stateRoot });
+    appendTransaction('memory.promoted', { memoryId: 'm1', fromLane: 'working', toLane: 'curated', reason: 'a' }, { stateRoot: nodeA.stateRoot });
+    appendTransaction('memory.promoted', { memoryId: 'm1', fromLane: 'working', toLane: 'archive', reason: 'b' }, { stateRoot: nodeB.stateRoot });
+
+    const [result] = await syncWithPeers(nodeB.stateRoot);
+    assert.equal(result.pulled, 3);
+    assert.equal(result.pushed, 3);
+    assert.equal(result.conflicts, 3);
+
+    const reportA = reconcileJournal(nodeA.stateRoot);
+    const reportB = reconcileJournal(nodeB.stateRoot);
+    assert.deepEqual(reportA.state, reportB.state);
+    assert.deepEqual(reportA.conflicts, reportB.conflicts);
+
+    // Deny wins for concurrent boolean permission changes
+    assert.equal(reportA.state.permissions['finance|u1|recall'].value, false);
+    // Concurrent pattern observations keep the highest frequency
+    assert.equal(reportA.state.patterns.p1.frequency, 7);
+    assert.deepEqual(reportA.conflicts.map((c) => c.rule).sort(), ['deny-wins', 'last-writer-wins', 'merge-max-frequency']);
+
+    // A causally later write is not a conflict
+    appendTransaction('vault.permission_changed', perm(true), { stateRoot: nodeB.stateRoot });
+    const after = reconcileJournal(nodeB.stateRoot);
+    assert.equal(after.state.permissions['finance|u1|recall'].value, true);
+  } finally {
+    await a.close();
+  }
+});
+
+test('record replay: rebuilds workspace state from the journal, optionally up to a seq', () => {
+  const source = tmpStateRoot('replay-src');
+  const opts = { stateRoot: source, sourceNode: 'node-a' };
+  appendTransaction('memory.extracted', { sessionId: 's1', memories: [
+    { text: 'deploy via blue/green', confidence: 0.9, tags: ['decision'] },
+    { text: 'staging lives on pve-2', confidence: 0.7, tags: ['infra'] },
+  ] }, opts);
+  appendTransaction('library.added', { entryId: 'rbac-model', title: 'RBAC Permission Model', content: 'Roles, vaults, users.', tags: ['permissions'] }, opts);
+  appendTransaction('operational.failure', { sessionId: 's1', tool: 'exec', error: 'command timed out', context: {} }, opts);
+  appendTransaction('operational.failure', { sessionId: 's2', tool: 'exec', error: 'command timed out', context: {} }, opts);
+  appendTransaction('operational.pattern', { patternId: 'exec-timeout', signature: 'exec-timeout-on-long-command', frequency: 5, recovery: 'add timeout parameter' }, opts);
+  appendTransaction('vault.permission_changed', { vaultId: 'finance', userId: 'u1', field: 'recall', oldValue: true, newValue: false }, opts);
+  appendTransaction('vault.permission_changed', { vaultId: 'finance', field: 'recallBudget', oldValue: 'low', newValue: 'high' }, opts);
+  appendTransaction('memory.extracted', { sessionId: 's2', memories: [{ text: 'deploy via blue/green', confidence: 0.9, tags: ['repeat'] }] }, opts);
+
+  const full = tmpStateRoot('replay-full');
+  const report = replayJournal({ targetWorkspace: full, stateRoot: source });
+  assert.equal(report.transactions, 8);
+  assert.equal(report.memories, 2);
+  assert.equal(report.libraryEntries, 1);
+  assert.equal(report.failures, 1);
+  assert.equal(report.patterns, 1);
+  assert.equal(report.permissions, 2);
+
+  const memDir = path.join(full, 'memory', 'api-memories');
+  const mems = fs.readdirSync(memDir).map((f) => JSON.parse(fs.readFileSync(path.join(memDir, f), 'utf-8')));
+  const deploy = mems.find((m) => m.body === 'deploy via blue/green');
+  assert.equal(deploy.mentionCount, 2);
+  assert.deepEqual(deploy.tags, ['decision', 'repeat']);
+
+  const prod = path.join(full, 'state', 'clawtext', 'prod');
+  assert.match(fs.readFileSync(path.join(prod, 'library', 'entries', 'rbac-model.md'), 'utf-8'), /# RBAC Permission Model/);
+  const userOverride = JSON.parse(fs.readFileSync(path.join(prod, 'permissions', 'users', 'u1', 'finance.json'), 'utf-8'));
+  assert.equal(userOverride.recall, false);
+  const vaultOverride = JSON.parse(fs.readFileSync(path.join(prod, 'permissions', 'vaults', 'finance.json'), 'utf-8'));
+  assert.equal(vaultOverride.globalOverride.recallBudget, 'high');
+  const opIndex = JSON.parse(fs.readFileSync(path.join(prod, 'operational', 'index.json'), 'utf-8'));
+  assert.equal(opIndex['exec-timeout'].recurrenceCount, 5);
+  assert.equal(Object.values(opIndex).find((e) => e.status === 'raw').recurrenceCount, 2);
+
+  // The restored journal continues the source's hash chain
+  assert.equal(getRecordStatus(prod).lastHash, getRecordStatus(source).lastHash);
+  assert.equal(verifyChain(prod).valid, true);
+
+  // Point-in-time replay stops at the requested seq
+  const partial = tmpStateRoot('replay-partial');
+  const early = replayJournal({ targetWorkspace: partial, stateRoot: source, toSeq: 2 });
+  assert.equal(early.transactions, 2);
+  assert.equal(early.permissions, 0);
+  assert.equal(fs.existsSync(path.join(partial, 'state', 'clawtext', 'prod', 'permissions')), false);
+
+  // Refuses to overwrite a populated target
+  assert.throws(() => replayJournal({ targetWorkspace: full, stateRoot: source }), /not empty/);
+});
+
+test('record replay: --until cuts the journal at the first later transaction, not by timestamp alone', () => {
+  const txns = [
+    { seq: 1, timestamp: '2026-10-13T10:00:00Z' },
+    { seq: 3, timestamp: '2026-10-13T09:00:00Z' },
+    { seq: 2, timestamp: '2026-10-13T12:00:00Z' },
+    { seq: 4, timestamp: '2026-10-13T11:00:00Z' },
+  ];
+  // seq 4 is a peer transaction stamped before the cut but appended after seq 2
+  assert.deepEqual(selectReplayTransactions(txns, { until: '2026-10-13T11:30:00Z' }).map((t) => t.seq), [1]);
+  assert.deepEqual(selectReplayTransactions(txns, { until: '2026-10-13T12:00:00Z' }).map((t) => t.seq), [1, 2, 3, 4]);
+  assert.deepEqual(selectReplayTransactions(txns, { toSeq: 2, until: '2026-10-14T00:00:00Z' }).map((t) => t.seq), [1, 2]);
+  assert.throws(() => selectReplayTransactions(txns, { until: 'yesterday' }), /invalid --until/);
+});
+
+test('record segments: rotation, signed snapshots and compaction', () => {
+  const node = setupNode('node-s');
+  const root = node.stateRoot;
+  saveNodeConfig({ nodeId: 'node-s', displayName: 'node-s', endpoints: { api: '' }, capabilities: ['record'], roles: ['primary'], journal: { maxSegmentEntries: 3 } }, root);
+
+  for (let i = 1; i <= 8; i++) {
+    appendTransaction('memory.extracted', { sessionId: `s${i}`, memories: [] }, { stateRoot: root });
+  }
+
+  const status = getRecordStatus(root);
+  assert.deepEqual(status.segments.map((s) => [s.firstSeq, s.lastSeq]), [[1, 3], [4, 6]]);
+  assert.equal(status.snapshotSeq, 6);
+  assert.equal(status.active.count, 2);
+
+  // Range and vector reads span segments and the active file
+  assert.deepEqual(readTransactions({ stateRoot: root, from: 3, to: 5 }).map((t) => t.seq), [3, 4, 5]);
+  assert.deepEqual(readTransactionsSince({ 'node-s': 5 }, root).map((t) => t.seq), [6, 7, 8]);
+
+  const compacted = compactJournal(root, { keepSegments: 1 });
+  assert.equal(compacted.snapshot.seq, 8);
+  assert.deepEqual(compacted.archived.map((s) => s.firstSeq), [1, 4]);
+  assert.ok(fs.existsSync(path.join(root, 'record', 'compacted', compacted.archived[0].file + '.gz')));
+
+  // Archived history stays readable; verification can start at the snapshot
+  assert.equal(readTransactions({ stateRoot: root }).length, 8);
+  assert.equal(verifyChain(root, { requireSignatures: true }).checked, 8);
+  appendTransaction('memory.extracted', { sessionId: 's9', memories: [] }, { stateRoot: root });
+  const fromSnapshot = verifyChain(root, { requireSignatures: true, fromSnapshot: true });
+  assert.equal(fromSnapshot.valid, true);
+  assert.equal(fromSnapshot.snapshotSeq, 8);
+  assert.equal(fromSnapshot.checked, 1);
+
+  // A tampered snapshot is rejected
+  const snapPath = path.join(root, 'record', 'snapshots', '000000000008.json');
+  const snap = JSON.parse(fs.readFileSync(snapPath, 'utf-8'));
+  fs.writeFileSync(snapPath, JSON.stringify({ ...snap, hash: 'sha256-forged' }));
+  const forged = verifyChain(root, { fromSnapshot: true });
+  assert.equal(forged.valid, false);
+  assert.match(forged.reason, /untrusted snapshot/);
+});
@@ -0,0 +1,156 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import {
+  getArchiveIndexPath,
+  loadGcReports,
+  parseRetentionAge,
+  restoreArchivedMemory,
+  runRetentionGc,
+  searchArchive,
+} from '../dist/retention.js';
+import { saveExtractionState } from '../dist/extraction/extraction-router.js';
+import { pinMemory } from '../dist/salience.js';
+import { ClawTextMemory } from '../dist/memory.js';
+import { loadKnowledgeGraph, syncKnowledgeGraph } from '../dist/graph/index.js';
+import { readTransactions } from '../dist/record/index.js';
+
+delete process.env.CLAWTEXT_STATE_ROOT;
+
+const DAY = 24 * 60 * 60 * 1000;
+const daysAgo = (n) => new Date(Date.now() - n * DAY).toISOString();
+
+function strategy(strategyId, retention) {
+  return { strategyId, displayName: strategyId, description: '', mode: 'full', ...(retention ? { retention } : {}) };
+}
+
+function setupWorkspace() {
+  const workspacePath = fs.mkdtempSync(path.join(os.tmpdir(), 'clawtext-retention-'));
+  saveExtractionState(workspacePath, {
+    strategies: {
+      short: strategy('short', { everyNTurns: 1, maxAge: '30d', tags: [] }),
+      capped: strategy('capped', { everyNTurns: 1, maxEntries: 2, tags: [] }),
+      keep: strategy('keep'),
+    },
+    mappings: { mappings: [{ topic: 'ops', strategy: 'short' }, { topic: 'notes', strategy: 'capped' }], default: 'keep' },
+  });
+
+  const apiDir = path.join(workspacePath, 'memory', 'api-memories');
+  fs.mkdirSync(apiDir, { recursive: true });
+  const write = (id, project, body, age) => fs.writeFileSync(path.join(apiDir, `${id}.json`), JSON.stringify({
+    id, project, body, summary: body, keywords: body.toLowerCase().split(' '), status: 'promoted',
+    createdAt: daysAgo(age), updatedAt: daysAgo(age),
+  }));
+  write('mem-ops-old', 'ops', 'Rotate the staging proxy certificate', 60);
+  write('mem-ops-new', 'ops', 'Staging proxy moved to port 8443', 2);
+  write('mem-ops-pinned', 'ops', 'Runbook for proxy outages lives in the wiki', 90);
+  write('mem-notes-1', 'notes', 'Reading list entry one', 10);
+  write('mem-notes-2', 'notes', 'Reading list entry two', 5);
+  write('mem-notes-3', 'notes', 'Reading list entry three', 1);
+  write('mem-general', 'general', 'An old general note about lunch', 400);
+  pinMemory(workspacePath, 'mem-ops-pinned');
+
+  const clustersDir = path.join(workspacePath, 'memory', 'clusters');
+  fs.mkdirSync(clustersDir, { recursive: true });
+  fs.writeFileSync(path.join(clustersDir, 'cluster-ops.json'), JSON.stringify({
+    projectId: 'ops',
+    builtAt: new Date().toISOString(),
+    memories: [
+      { id: 'ingested-ops', content: 'Old ingested note on proxy tuning', project: 'ops', keywords: ['proxy'], createdAt: daysAgo(45), lastMentionedAt: daysAgo(45), updatedAt: new Date().toISOString() },
+      { id: 'mem-ops-old', content: 'Rotate the staging proxy certificate', project: 'ops', sourceType: 'api' },
+    ],
+  }));
+
+  const journalDir = path.join(workspacePath, 'journal');
+  fs.mkdirSync(journalDir, { recursive: true });
+  fs.writeFileSync(path.join(journalDir, '2020-01-01.jsonl'), '{"ts":1}\n');
+  fs.writeFileSync(path.join(journalDir, `${new Date().toISOString().slice(0, 10)}.jsonl`), '{"ts":2}\n');
+  return workspacePath;
+}
+
+test('retention: ages parse and bad ones are rejected', () => {
+  assert.equal(parseRetentionAge('30d'), 30 * DAY);
+  assert.equal(parseRetentionAge('2w'), 14 * DAY);
+  assert.equal(parseRetentionAge('12h'), DAY / 2);
+  assert.throws(() => parseRetentionAge('soon'), /Invalid retention age/);
+});
+
+test('retention: dry run reports, the real run archives per topic', () => {
+  const workspacePath = setupWorkspace();
+  const apiDir = path.join(workspacePath, 'memory', 'api-memories');
+
+  const dry = runRetentionGc(workspacePath, { dryRun: true });
+  const summarize = (report) => report.archived.map((a) => `${a.kind}:${a.id}:${a.reason}`).sort();
+  assert.deepEqual(summarize(dry), [
+    'api-memory:mem-notes-1:max-entries',
+    'api-memory:mem-ops-old:max-age',
+    'cluster-entry:ingested-ops:max-age',
+    'journal:2020-01-01.jsonl:max-age',
+  ]);
+  assert.equal(dry.pinnedKept, 1);
+  assert.equal(dry.archiveFile, null);
+  assert.equal(dry.topics.general.retention, null);
+  assert.ok(fs.existsSync(path.join(apiDir, 'mem-ops-old.json')), 'dry run moves nothing');
+  assert.equal(loadGcReports(workspacePath).length, 1, 'dry runs still write a report');
+
+  const real = runRetentionGc(workspacePath);
+  assert.deepEqual(summarize(real), summarize(dry));
+  assert.ok(real.archiveFile);
+  assert.deepEqual(fs.readdirSync(apiDir).sort(), [
+    'mem-general.json', 'mem-notes-2.json', 'mem-notes-3.json', 'mem-ops-new.json', 'mem-ops-pinned.json',
+  ]);
+  const cluster = JSON.parse(fs.readFileSync(path.join(workspacePath, 'memory', 'clusters', 'cluster-ops.json'), 'utf8'));
+  assert.deepEqual(cluster.memories, [], 'archived entries and cluster copies of archived API memories are removed');
+  assert.ok(fs.existsSync(path.join(path.dirname(getArchiveIndexPath(workspacePath)), 'journal', '2020-01-01.jsonl.gz')));
+  assert.equal(fs.readdirSync(path.join(workspacePath, 'journal')).length, 1);
+
+  assert.equal(runRetentionGc(workspacePath).archived.length, 0, 'a second run finds nothing new');
+});
+
+test('retention: archived memories stay searchable and can be restored', async () => {
+  const workspacePath = setupWorkspace();
+  runRetentionGc(workspacePath);
+
+  const [hit] = searchArchive(workspacePath, 'proxy certificate');
+  assert.equal(hit.memory.id, 'mem-ops-old');
+  assert.equal(hit.archive.reason, 'max-age');
+  assert.deepEqual(searchArchive(workspacePath, 'proxy certificate', { project: 'notes' }), []);
+
+  const memory = new ClawTextMemory(workspacePath);
+  assert.ok(!(await memory.search('certificate')).some((m) => m.id === 'mem-ops-old'));
+  const withArchive = await memory.search('certificate', { includeArchived: true });
+  assert.equal(withArchive.find((m) => m.id === 'mem-ops-old').archived.reason, 'max-age');
+
+  restoreArchivedMemory(workspacePath, 'mem-ops-old');
+  assert.ok(fs.existsSync(path.join(workspacePath, 'memory', 'api-memories', 'mem-ops-old.json')));
+  assert.deepEqual(searchArchive(workspacePath, 'proxy certificate').map((r) => r.memory.id), ['ingested-ops']);
+  assert.ok(!runRetentionGc(workspacePath).archived.some((a) => a.id === 'mem-ops-old'), 'restoring counts as activity');
+  assert.throws(() => restoreArchivedMemory(workspacePath, 'mem-ops-old'), /not found/);
+});
+
+test('retention: archiving journals memory.deleted and retires graph sources; restoring adds them back', () => {
+  const workspacePath = setupWorkspace();
+  const stateRoot = path.join(workspacePath, 'state', 'clawtext', 'prod');
+  syncKnowledgeGraph(workspacePath);
+  assert.ok(loadKnowledgeGraph(workspacePath).ingested['mem-ops-old']);
+
+  runRetentionGc(workspacePath);
+  const deleted = readTransactions({ stateRoot }).filter((t) => t.type === 'memory.deleted').map((t) => t.payload);
+  assert.deepEqual(deleted.sort((a, b) => a.memoryId.localeCompare(b.memoryId)), [
+    { memoryId: 'mem-notes-1', reason: 'archived' },
+    { memoryId: 'mem-ops-old', reason: 'archived' },
+  ]);
+  const ingested = loadKnowledgeGraph(workspacePath).ingested;
+  assert.equal(ingested['mem-ops-old'], undefined);
+  assert.equal(ingested['ingested-ops'], undefined, 'archived cluster entries are retired too');
+  assert.ok(ingested['mem-ops-new']);
+
+  restoreArchivedMemory(workspacePath, 'mem-ops-old');
+  assert.ok(loadKnowledgeGraph(workspacePath).ingested['mem-ops-old']);
+  const restored = readTransactions({ stateRoot }).at(-1);
+  assert.equal(restored.type, 'memory.extracted');
+  assert.equal(restored.payload.memories[0].memoryId, 'mem-ops-old');
+});
@@ -0,0 +1,85 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import {
+  recallAtK,
+  reciprocalRank,
+  ndcgAtK,
+  validateQuerySet,
+  runEval,
+  saveBaseline,
+  loadBaseline,
+  compareReports,
+} from '../dist/eval/index.js';
+
+function grades(entries) {
+  return new Map(entries.map((id) => (Array.isArray(id) ? id : [id, 1])));
+}
+
+function fakeLane(id, rankings) {
+  return { id, retrieve: (query, k) => (rankings[query.query] ?? []).slice(0, k) };
+}
+
+const SET = {
+  name: 'unit',
+  k: 3,
+  lanes: ['rag'],
+  queries: [
+    { id: 'q1', query: 'alpha', relevant: ['a'] },
+    { id: 'q2', query: 'beta', relevant: { b: 2, c: 1 } },
+  ],
+};
+
+test('eval metrics: recall@k, reciprocal rank and graded nDCG', () => {
+  const relevant = grades(['a', 'b']);
+  assert.equal(recallAtK(['x', 'a', 'y'], relevant, 3), 0.5);
+  assert.equal(recallAtK(['x', 'a', 'b'], relevant, 2), 0.5);
+  assert.equal(reciprocalRank(['x', 'y', 'b'], relevant), 1 / 3);
+  assert.equal(reciprocalRank(['x'], relevant), 0);
+
+  const graded = grades([['best', 3], ['ok', 1]]);
+  assert.equal(ndcgAtK(['best', 'ok'], graded, 5), 1);
+  assert.ok(ndcgAtK(['ok', 'best'], graded, 5) < 1);
+  assert.equal(ndcgAtK(['none'], graded, 5), 0);
+});
+
+test('eval sets: validation rejects malformed sets', () => {
+  assert.doesNotThrow(() => validateQuerySet(SET));
+  assert.throws(() => validateQuerySet({ name: 'x', queries: [] }), /no queries/);
+  assert.throws(() => validateQuerySet({ ...SET, lanes: ['vector'] }), /unknown lane/);
+  assert.throws(
+    () => validateQuerySet({ name: 'x', queries: [{ id: 'q', query: 'q', relevant: [] }] }),
+    /no relevant ids/,
+  );
+});
+
+test('eval runs: scores lanes and diffs against a stored baseline', () => {
+  const workspacePath = fs.mkdtempSync(path.join(os.tmpdir(), 'clawtext-eval-'));
+  const before = runEval(SET, {
+    workspacePath,
+    createLane: (id) => fakeLane(id, { alpha: ['a', 'z'], beta: ['c', 'b'] }),
+  });
+  assert.equal(before.lanes.rag.metrics.queries, 2);
+  assert.equal(before.lanes.rag.metrics.recallAtK, 1);
+  assert.equal(before.lanes.rag.metrics.mrr, 1);
+  assert.ok(before.lanes.rag.metrics.ndcg < 1, 'beta puts the lower-graded hit first');
+
+  const baselinePath = saveBaseline(before, workspacePath);
+  assert.ok(baselinePath.includes(path.join('dev', 'evals', 'baselines')));
+  const stored = loadBaseline(workspacePath, 'unit');
+  assert.deepEqual(stored, before);
+
+  const after = runEval(SET, {
+    workspacePath,
+    createLane: (id) => fakeLane(id, { alpha: ['z', 'a'], beta: ['b', 'c'] }),
+  });
+  const diff = compareReports(after, stored);
+  const rag = diff.lanes.find((l) => l.lane === 'rag');
+  assert.equal(rag.mrr.delta, -0.25);
+  assert.deepEqual(rag.regressions.map((q) => q.id), ['q1']);
+  assert.deepEqual(rag.improvements.map((q) => q.id), ['q2']);
+  assert.deepEqual(diff.missingLanes, []);
+});
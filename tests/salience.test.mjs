@@ -0,0 +1,103 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import {
+  buildSalienceReport,
+  computeSalience,
+  loadSalienceState,
+  pinMemory,
+  SALIENCE_FLOOR,
+} from '../dist/salience.js';
+import { ClawTextRAG } from '../dist/rag.js';
+import { ClawTextMemory } from '../dist/memory.js';
+
+delete process.env.CLAWTEXT_STATE_ROOT;
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.parse('2026-06-01T00:00:00.000Z');
+const daysAgo = (n) => new Date(NOW - n * DAY).toISOString();
+
+function tmpWorkspace() {
+  return fs.mkdtempSync(path.join(os.tmpdir(), 'clawtext-salience-'));
+}
+
+test('salience: half-life by type, stretched by mentions and hits, held by pins', () => {
+  const discussion = computeSalience({ type: 'note', content: 'maybe we should look at caching', updatedAt: daysAgo(60) }, NOW);
+  assert.equal(discussion.halfLifeDays, 60);
+  assert.ok(Math.abs(discussion.decay - 0.5) < 1e-9);
+  assert.ok(Math.abs(discussion.salience - (SALIENCE_FLOOR + (1 - SALIENCE_FLOOR) * 0.5)) < 1e-9);
+
+  assert.equal(computeSalience({ type: 'decision', updatedAt: daysAgo(900) }, NOW).salience, 1);
+
+  const mentioned = computeSalience({ type: 'note', content: 'maybe we should look at caching', updatedAt: daysAgo(60), mentionCount: 4 }, NOW);
+  assert.ok(mentioned.effectiveHalfLifeDays > discussion.effectiveHalfLifeDays);
+  assert.ok(mentioned.salience > discussion.salience);
+
+  const retrieved = computeSalience({ type: 'note', content: 'maybe we should look at caching', updatedAt: daysAgo(60), hitCount: 1, lastHitAt: daysAgo(1) }, NOW);
+  assert.equal(retrieved.lastReinforcedAt, daysAgo(1));
+  assert.ok(retrieved.salience > 0.95);
+
+  assert.equal(computeSalience({ type: 'note', content: 'ok', updatedAt: daysAgo(365) }, NOW).halfLifeDays, 7, 'acks keep a minimum half-life');
+  assert.equal(computeSalience({ type: 'note', content: 'ok', updatedAt: daysAgo(365), pinned: true }, NOW).salience, 1);
+});
+
+test('salience: RAG ranks equally relevant memories by salience; pins and injections count', () => {
+  const workspacePath = tmpWorkspace();
+  const clustersDir = path.join(workspacePath, 'memory', 'clusters');
+  fs.mkdirSync(clustersDir, { recursive: true });
+  const memory = (id, updatedAt) => ({
+    id, content: 'The staging gateway restarts nightly at two', type: 'fact', source: 'test',
+    project: 'ops', confidence: 0.9, keywords: ['gateway'], updatedAt,
+  });
+  fs.writeFileSync(path.join(clustersDir, 'cluster-ops.json'), JSON.stringify({
+    builtAt: new Date().toISOString(),
+    projectId: 'ops',
+    memories: [memory('m-old', new Date(Date.now() - 400 * DAY).toISOString()), memory('m-new', new Date().toISOString())],
+  }));
+
+  ClawTextRAG.invalidateCache();
+  const rag = new ClawTextRAG(workspacePath);
+  rag.setConfig({ retrievalMode: 'lexical' });
+  assert.deepEqual(rag.findRelevantMemories('staging gateway restarts').map((m) => m.id), ['m-new', 'm-old']);
+  assert.deepEqual(loadSalienceState(workspacePath).hits, {}, 'ranking alone records no hits');
+
+  pinMemory(workspacePath, 'm-old');
+  assert.equal(rag.findRelevantMemories('staging gateway restarts')[0].id, 'm-old');
+
+  const { injected } = rag.injectMemories('system', 'staging gateway restarts');
+  assert.equal(injected, 2);
+  const { hits } = loadSalienceState(workspacePath);
+  assert.equal(hits['m-old'].count, 1);
+  assert.equal(hits['m-new'].count, 1);
+});
+
+test('salience: report lists fading API memories and pins take them off it', async () => {
+  const workspacePath = tmpWorkspace();
+  const memory = new ClawTextMemory(workspacePath);
+  const stale = await memory.add('Maybe the nightly export could move to the replica?', { project: 'data' });
+  const fresh = await memory.add('Maybe we could shard the export queue?', { project: 'data' });
+  const file = path.join(workspacePath, 'memory', 'api-memories', `${stale.id}.json`);
+  const old = new Date(Date.now() - 240 * DAY).toISOString();
+  fs.writeFileSync(file, JSON.stringify({ ...stale, createdAt: old, observedAt: old, updatedAt: old, lastMentionedAt: old }));
+
+  const report = buildSalienceReport(workspacePath);
+  assert.equal(report.total, 2);
+  assert.deepEqual(report.entries.map((e) => e.id), [stale.id, fresh.id]);
+  assert.equal(report.fading, 1);
+  assert.equal(report.entries[0].fading, true);
+
+  await memory.search('nightly export', { project: 'data' });
+  assert.equal(loadSalienceState(workspacePath).hits[stale.id].count, 1);
+  assert.equal(buildSalienceReport(workspacePath).fading, 0, 'a retrieval hit restarts the decay clock');
+
+  memory.pin(stale.id, 'alice');
+  const pinned = buildSalienceReport(workspacePath);
+  assert.equal(pinned.fading, 0);
+  assert.equal(pinned.pinned, 1);
+  assert.equal(memory.unpin(stale.id), true);
+  assert.equal(memory.unpin(stale.id), false);
+  assert.throws(() => memory.pin('mem_missing'), /not found/);
+});
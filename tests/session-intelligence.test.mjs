@@ -17,6 +17,7 @@ import {
   getDecayEligibleMessages,
   markConsumed,
   markExternalized,
+  extractFileOperations,
   DECAY_WINDOWS,
 } from '../dist/session-intelligence/tool-tracker.js';
 import {
@@ -24,13 +25,38 @@ import {
   computeDelta,
   toFileUri,
   processFileRead,
+  processFileWrite,
+  getFilesTouched,
+  formatFilesTouched,
+  buildUnifiedDiff,
+  renderResourceVersion,
+  renderResourceReads,
 } from '../dist/session-intelligence/resource-versions.js';
 import {
   insertSlotAssociation,
   getSlotAssociations,
   getRecoveryPriority,
+  associateResourceWithSlots,
 } from '../dist/session-intelligence/slot-associations.js';
-import { expand } from '../dist/session-intelligence/recall.js';
+import { describe, expand, search, buildFtsQuery } from '../dist/session-intelligence/recall.js';
+import { upsertStateSlot, getStateSlot, pinStateSlot } from '../dist/session-intelligence/state-slots.js';
+import { extractStateFromMessage, extractStateWithModel } from '../dist/session-intelligence/state-extraction.js';
+import { loadSlotSchema, mergeSlotItems, DEFAULT_SLOT_SCHEMA } from '../dist/session-intelligence/slot-schema.js';
+import { createLeafSummary, createCondensedSummary } from '../dist/session-intelligence/dag.js';
+import {
+  resolveCompactorConfig,
+  resummarizeSubtree,
+  runLeafPass,
+  SummarizationTracker,
+} from '../dist/session-intelligence/compactor.js';
+import { collectFidelityRequirements, scoreSummaryFidelity } from '../dist/session-intelligence/fidelity.js';
+import { recordCompactionEvent } from '../dist/session-intelligence/trigger.js';
+import {
+  getSummaryTree,
+  renderSummaryTree,
+  compareSummaryToSources,
+  getSummaryRevisions,
+} from '../dist/session-intelligence/summary-tree.js';
 
 // ── helpers ──────────────────────────────────────────────────────────────────
 
@@ -71,8 +97,8 @@ process.on('exit', cleanupTempDirs);
 
 // ── 1. Schema migration ───────────────────────────────────────────────────────
 
-test('schema: LATEST_SCHEMA_VERSION is 12', () => {
-  assert.equal(LATEST_SCHEMA_VERSION, 12);
+test('schema: LATEST_SCHEMA_VERSION is 17', () => {
+  assert.equal(LATEST_SCHEMA_VERSION, 17);
 });
 
 test('schema: migrate() on fresh DB creates all required tables', () => {
@@ -92,6 +118,9 @@ test('schema: migrate() on fresh DB creates all required tables', () => {
     'resource_versions',
     'resource_slot_associations',
     'schema_version',
+    'messages_fts',
+    'summaries_fts',
+    'state_slots_fts',
   ];
   for (const t of required) {
     assert.ok(tables.includes(t), `missing table: ${t}`);
@@ -105,7 +134,7 @@ test('schema: migrate() on existing DB is idempotent', () => {
   const version = db
     .prepare(`SELECT MAX(version) as v FROM schema_version`)
     .get().v;
-  assert.equal(version, 12);
+  assert.equal(version, 17);
 });
 
 // ── 2. Payload ref lifecycle ──────────────────────────────────────────────────
@@ -184,6 +213,40 @@ test('tool-tracker: detectCallType classifies correctly', () => {
   assert.equal(detectCallType('some random tool output', 'assistant'), 'unknown');
 });
 
+test('tool-tracker: detectCallType treats edits and in-place rewrites as writes', () => {
+  assert.equal(detectCallType('write_file wrote 120 bytes', 'tool'), 'write');
+  assert.equal(detectCallType('str_replace_editor: edited src/app.ts', 'tool'), 'write');
+  assert.equal(detectCallType('apply_patch: Done!', 'tool'), 'write');
+  assert.equal(detectCallType("sed -i 's/a/b/' notes.md", 'tool'), 'write');
+});
+
+test('tool-tracker: extractFileOperations reads write, edit and shell tool calls', () => {
+  const ops = extractFileOperations({
+    role: 'assistant',
+    tool_calls: [
+      { id: 'c1', function: { name: 'write_file', arguments: JSON.stringify({ path: 'src/a.ts', content: 'export {};\n' }) } },
+      { id: 'c2', function: { name: 'str_replace_editor', arguments: { command: 'str_replace', path: 'src/b.ts', old_str: 'x = 1', new_str: 'x = 2' } } },
+      { id: 'c3', function: { name: 'str_replace_editor', arguments: { command: 'view', path: 'src/b.ts' } } },
+      { id: 'c4', function: { name: 'read_file', arguments: { path: 'src/c.ts' } } },
+    ],
+  });
+  assert.deepEqual(ops, [
+    { action: 'write', path: 'src/a.ts', tool: 'write_file', content: 'export {};\n' },
+    { action: 'edit', path: 'src/b.ts', tool: 'str_replace_editor', edits: [{ oldText: 'x = 1', newText: 'x = 2' }] },
+  ]);
+
+  const shell = extractFileOperations({
+    role: 'assistant',
+    content: [{
+      type: 'toolCall',
+      name: 'bash',
+      arguments: { command: "cat > conf.yml <<'EOF'\nport: 8080\n> not a redirect.txt\nEOF\nsed -i 's/8080/9090/' conf.yml && echo done > log.txt" },
+    }],
+  });
+  assert.deepEqual(shell.map((op) => [op.action, op.path]), [['write', 'conf.yml'], ['write', 'log.txt']]);
+  assert.equal(shell[0].content, 'port: 8080\n> not a redirect.txt\n');
+});
+
 test('tool-tracker: DECAY_WINDOWS has correct values', () => {
   assert.equal(DECAY_WINDOWS['exec'], 2);
   assert.equal(DECAY_WINDOWS['action'], 1);
@@ -321,6 +384,101 @@ test('resource-versions: processFileRead changed content → large version', ()
   assert.ok(v2.delta === 'large' || v2.delta === 'small', `expected large or small, got ${v2.delta}`);
 });
 
+function seedFileReads(db, label, contents) {
+  const convId = seedConversation(db, label);
+  const insert = db.prepare(`INSERT INTO messages (conversation_id, role, content, content_type, message_index, created_at)
+    VALUES (?, ?, ?, ?, ?, ?)`);
+  const versions = contents.map((content, turn) => {
+    insert.run(convId, 'toolResult', content, 'tool_result', turn, new Date().toISOString());
+    return processFileRead(db, `sk-${label}`, '/repo/src/big.ts', content, turn);
+  });
+  return { convId, versions };
+}
+
+const bigFile = (changed) => Array.from({ length: 200 }, (_, i) => (
+  i === 120 && changed ? `export const limit = ${changed};` : `export const line${i} = ${i};`
+)).join('\n');
+
+test('resource-versions: buildUnifiedDiff emits hunks with context', () => {
+  const diff = buildUnifiedDiff('a\nb\nc\nd\n', 'new\na\nb\nc\nd\n', { oldLabel: 'old', newLabel: 'new' });
+  assert.equal(diff, ['--- old', '+++ new', '@@ -1,3 +1,4 @@', '+new', ' a', ' b', ' c'].join('\n'));
+  assert.equal(buildUnifiedDiff('same\n', 'same\n'), '--- a\n+++ b');
+});
+
+test('resource-versions: small re-reads render as a diff, unchanged ones as a marker', () => {
+  const db = createTestDb();
+  const { versions } = seedFileReads(db, 'conv-rv-diff', [bigFile(), bigFile(42), bigFile(42)]);
+  assert.equal(versions[1].delta, 'small', 'one changed line in 200 is small even though it shifts no characters');
+  assert.equal(versions[2].delta, 'unchanged');
+
+  const rendered = renderResourceVersion(db, versions[1]);
+  assert.match(rendered, /^<<RESOURCE_DELTA:file:\/\/\/repo\/src\/big\.ts:/);
+  assert.match(rendered, new RegExp(`si_expand rv-${versions[1].id}`));
+  assert.match(rendered, /^-export const line120 = 120;$/m);
+  assert.match(rendered, /^\+export const limit = 42;$/m);
+  assert.ok(rendered.length < bigFile(42).length / 5, 'the diff is a fraction of the file');
+
+  assert.match(renderResourceVersion(db, versions[2]), /RESOURCE_UNCHANGED[\s\S]*same content as the read at turn 1/i);
+  assert.equal(renderResourceVersion(db, versions[0]), null, 'first reads are shown in full');
+  assert.deepEqual([...renderResourceReads(db, 'sk-conv-rv-diff').keys()], [1, 2]);
+});
+
+test('resource-versions: a read of the agent\'s own write or edit is recognised as such', () => {
+  const db = createTestDb();
+  const wp = createTempDir();
+  seedConversation(db, 'conv-rv-own');
+  const file = '/repo/src/cfg.ts';
+  const original = 'export const port = 80;\nexport const host = "a";\n';
+
+  const written = processFileWrite(db, 'sk-conv-rv-own', { action: 'write', path: file, content: original }, 0, { workspacePath: wp });
+  assert.equal(written.sourceAction, 'write');
+  assert.equal(written.delta, 'new');
+  assert.ok(written.refId, 'known content is kept as a payload');
+
+  const wrapped = processFileRead(db, 'sk-conv-rv-own', file, `File: ${file}\n${original}`, 1);
+  assert.equal(wrapped.reflectsVersionId, written.id);
+  assert.equal(wrapped.delta, 'unchanged');
+  assert.match(renderResourceVersion(db, wrapped), /your own write at turn 0/);
+
+  const edited = processFileWrite(db, 'sk-conv-rv-own', {
+    action: 'edit', path: file, edits: [{ oldText: 'port = 80', newText: 'port = 8080' }],
+  }, 2, { workspacePath: wp });
+  assert.equal(edited.parentId, wrapped.id);
+  const afterEdit = processFileRead(db, 'sk-conv-rv-own', file, original.replace('port = 80', 'port = 8080'), 3);
+  assert.equal(afterEdit.reflectsVersionId, edited.id, 'edit content is derived from the previous read');
+
+  const external = processFileRead(db, 'sk-conv-rv-own', file, 'export const port = 1;\n', 4);
+  assert.equal(external.reflectsVersionId, undefined);
+  assert.notEqual(external.delta, 'unchanged');
+});
+
+test('resource-versions: getFilesTouched returns the timeline and a per-file rollup', () => {
+  const db = createTestDb();
+  processFileRead(db, 'conv-ft', '/repo/a.ts', 'a1', 0);
+  processFileWrite(db, 'conv-ft', { action: 'edit', path: '/repo/a.ts' }, 1);
+  processFileRead(db, 'conv-ft', '/repo/a.ts', 'a2', 2);
+  processFileWrite(db, 'conv-ft', { action: 'write', path: '/repo/b.ts', content: 'b' }, 3);
+  processFileRead(db, 'conv-ft', '/repo/b.ts', 'b', 4);
+  processFileRead(db, 'conv-ft', '/repo/a.ts', 'a3', 5);
+  processFileRead(db, 'conv-other', '/repo/c.ts', 'c', 0);
+
+  const { timeline, files } = getFilesTouched(db, 'conv-ft');
+  assert.deepEqual(timeline.map((t) => [t.path, t.action, t.turn, t.reflectsOwnEdit]), [
+    ['/repo/a.ts', 'read', 0, false],
+    ['/repo/a.ts', 'edit', 1, false],
+    ['/repo/a.ts', 'read', 2, false],
+    ['/repo/b.ts', 'write', 3, false],
+    ['/repo/b.ts', 'read', 4, true],
+    ['/repo/a.ts', 'read', 5, false],
+  ]);
+  const a = files.find((f) => f.path === '/repo/a.ts');
+  assert.deepEqual([a.reads, a.edits, a.writes, a.externalChanges, a.lastTurn], [3, 1, 0, 1, 5]);
+
+  const ranged = getFilesTouched(db, 'conv-ft', { fromTurn: 3, toTurn: 4 });
+  assert.deepEqual(ranged.files.map((f) => f.path), ['/repo/b.ts']);
+  assert.deepEqual(formatFilesTouched(ranged.files), ['/repo/b.ts — 1 write, 1 read (turns 3-4, last read)']);
+});
+
 // ── 5. Slot associations ──────────────────────────────────────────────────────
 
 test('slot-associations: insertSlotAssociation + getSlotAssociations round-trips', () => {
@@ -373,6 +531,17 @@ test('slot-associations: getRecoveryPriority returns normal when only normal ass
   assert.equal(getRecoveryPriority(db, 20), 'normal');
 });
 
+test('slot-associations: associateResourceWithSlots links a read to the live problem slot', () => {
+  const db = createTestDb();
+  const convId = seedConversation(db, 'conv-sa-live');
+  upsertStateSlot(db, convId, 'active_problem', 'Build fails on the proxy config');
+  associateResourceWithSlots(db, 'sk-conv-sa-live', 30, 4);
+  const [assoc] = getSlotAssociations(db, 30);
+  assert.equal(assoc.slotId, 'active_problem');
+  assert.equal(assoc.slotValueSnapshot, 'Build fails on the proxy config');
+  assert.equal(getRecoveryPriority(db, 30), 'high');
+});
+
 // ── 6. expand() dispatch ──────────────────────────────────────────────────────
 
 test('expand: payload refId returns { type: payload, content, recoveryPriority }', () => {
@@ -411,3 +580,374 @@ test('expand: expired refId returns { type: expired }', () => {
   assert.ok(result, 'should return a result');
   assert.equal(result.type, 'expired');
 });
+
+test('expand: rv- id returns the full file version and its sibling versions', () => {
+  const db = createTestDb();
+  const { convId, versions } = seedFileReads(db, 'conv-rv-expand', [bigFile(), bigFile(7)]);
+
+  const result = expand({ db, conversationId: convId, targetId: `rv-${versions[0].id}` });
+  assert.equal(result.type, 'resource_version');
+  assert.equal(result.content, bigFile());
+  assert.equal(result.resourceUri, 'file:///repo/src/big.ts');
+  assert.deepEqual(result.versions.map((v) => [v.id, v.delta]), [[`rv-${versions[0].id}`, 'new'], [`rv-${versions[1].id}`, 'small']]);
+
+  const otherConvId = seedConversation(db, 'conv-rv-other');
+  assert.equal(expand({ db, conversationId: otherConvId, targetId: `rv-${versions[0].id}` }), null, 'versions are scoped to their conversation');
+  assert.equal(expand({ db, conversationId: convId, targetId: 'rv-999' }), null);
+});
+
+// ── 7. Full-text recall search ────────────────────────────────────────────────
+
+test('search: FTS5 ranks by BM25 and supports phrases, prefixes and highlighting', () => {
+  const db = createTestDb();
+  const convId = seedConversation(db, 'conv-fts-1');
+  const otherConvId = seedConversation(db, 'conv-fts-2');
+  const insert = db.prepare(`INSERT INTO messages (conversation_id, role, content, message_index, created_at)
+    VALUES (?, ?, ?, ?, ?)`);
+  const now = new Date().toISOString();
+  insert.run(convId, 'user', 'We decided to deploy with blue/green on the Proxmox cluster.', 0, now);
+  insert.run(convId, 'assistant', 'Deployment notes: Deploy deploy deploy — rollbacks use green first.', 1, now);
+  for (let i = 2; i < 10; i++) {
+    insert.run(convId, 'user', `Unrelated chatter about lunch, round ${i}.`, i, now);
+  }
+  insert.run(otherConvId, 'user', 'deploy in another conversation', 0, now);
+  upsertStateSlot(db, convId, 'active_project', 'Proxmox migration');
+  upsertStateSlot(db, convId, 'active_project', 'Cluster migration to PROXMOX 9');
+
+  const byTerm = search({ db, conversationId: convId, query: 'DEPLOY', types: ['message'] });
+  assert.equal(byTerm.hits.length, 2, 'case-insensitive and scoped to the conversation');
+  assert.equal(byTerm.hits[0].metadata.index, 1, 'more occurrences rank higher');
+  assert.match(byTerm.hits[0].snippet, /\*\*Deploy\*\* \*\*deploy\*\*/);
+  assert.ok(byTerm.hits[0].score > byTerm.hits[1].score);
+
+  const phrase = search({ db, conversationId: convId, query: '"blue green"', types: ['message'] });
+  assert.deepEqual(phrase.hits.map((h) => h.metadata.index), [0]);
+
+  const prefix = search({ db, conversationId: convId, query: 'rollback*', types: ['message'] });
+  assert.deepEqual(prefix.hits.map((h) => h.metadata.index), [1]);
+
+  // Replaced state slots are re-indexed without stale rows
+  const slots = search({ db, conversationId: convId, query: 'proxmox', types: ['state_slot'] });
+  assert.equal(slots.hits.length, 1);
+  assert.match(slots.hits[0].snippet, /Cluster migration/);
+
+  // Operators and stray quotes in user input are treated as plain terms
+  assert.equal(buildFtsQuery('deploy OR "blue'), '"deploy" "OR" "blue"');
+  assert.doesNotThrow(() => search({ db, conversationId: convId, query: 'NEAR( ) "' }));
+});
+
+// ── 8. Cross-conversation recall ──────────────────────────────────────────────
+
+test('search: conversationIds widens scope and labels hits by session', () => {
+  const db = createTestDb();
+  const convId = seedConversation(db, 'conv-scope-1');
+  const otherConvId = seedConversation(db, 'conv-scope-2');
+  const insert = db.prepare(`INSERT INTO messages (conversation_id, role, content, message_index, created_at)
+    VALUES (?, ?, ?, ?, ?)`);
+  const now = new Date().toISOString();
+  insert.run(convId, 'user', 'The release train leaves on Friday.', 0, now);
+  insert.run(otherConvId, 'user', 'Release notes live in the wiki.', 0, now);
+  upsertStateSlot(db, otherConvId, 'active_project', 'release tooling');
+
+  const own = search({ db, conversationId: convId, query: 'release', types: ['message', 'state_slot'] });
+  assert.deepEqual(own.hits.map((h) => h.metadata.session_key), ['sk-conv-scope-1']);
+
+  const wide = search({
+    db, conversationId: convId, conversationIds: [convId, otherConvId], query: 'release', types: ['message', 'state_slot'],
+  });
+  assert.equal(wide.hits.length, 3);
+  assert.deepEqual(
+    [...new Set(wide.hits.map((h) => h.metadata.session_key))].sort(),
+    ['sk-conv-scope-1', 'sk-conv-scope-2'],
+  );
+
+  // Slots from other conversations are qualified and resolvable only in scope
+  const slot = wide.hits.find((h) => h.type === 'state_slot');
+  assert.equal(slot.id, `slot-active_project@c${otherConvId}`);
+  assert.equal(describe({ db, conversationId: convId, id: slot.id }), null);
+  const described = describe({ db, conversationId: convId, conversationIds: [convId, otherConvId], id: slot.id });
+  assert.equal(described.fullContent, 'release tooling');
+
+  assert.equal(search({ db, conversationId: convId, conversationIds: [], query: 'release' }).hits.length, 0);
+});
+
+// ── 9. State slot schema ──────────────────────────────────────────────────────
+
+test('slot-schema: merge policies append, replace, de-duplicate and cap', () => {
+  const existing = ['a', 'b'];
+  assert.deepEqual(mergeSlotItems({ merge: 'append' }, existing, ['b', 'c']), ['a', 'b', 'b', 'c']);
+  assert.deepEqual(mergeSlotItems({ merge: 'replace' }, existing, ['c']), ['c']);
+  assert.deepEqual(mergeSlotItems({ merge: 'replace' }, existing, []), existing, 'nothing extracted keeps the slot');
+  assert.deepEqual(mergeSlotItems({ merge: 'set-union' }, existing, ['B.', 'c', 'c']), ['a', 'b', 'c']);
+  assert.deepEqual(mergeSlotItems({ merge: 'capped-list', maxItems: 3 }, existing, ['c', 'd']), ['b', 'c', 'd']);
+});
+
+test('state-extraction: the default schema fills structured slots and leaves pinned ones alone', () => {
+  const db = createTestDb();
+  const convId = seedConversation(db, 'conv-slots');
+  const ingest = (role, content, contentType = 'active') => extractStateFromMessage({ db, conversationId: convId, message: { role, content }, contentType });
+
+  ingest('user', "We're on Node 22 with Postgres 16. You must not touch the prod database. I prefer small commits.\n- [ ] rotate the API keys");
+  ingest('user', 'Also never force-push to main. Why does the migration hang on startup?');
+  ingest('user', 'Rerun it — again, you must not touch the prod database.');
+  ingest('tool', 'TODO: this comes from a tool and is ignored', 'tool_result');
+
+  const slot = (name) => getStateSlot(db, convId, name)?.content.split('\n');
+  assert.deepEqual(slot('environment'), ['Node 22', 'Postgres 16']);
+  assert.deepEqual(slot('constraints'), ['must not touch the prod database', 'never force-push to main']);
+  assert.deepEqual(slot('user_preferences'), ['I prefer small commits']);
+  assert.deepEqual(slot('todo'), ['rotate the API keys']);
+  assert.deepEqual(slot('open_questions'), ['Why does the migration hang on startup?']);
+  assert.match(slot('active_problem')[0], /Why does the migration hang on startup\?$/);
+
+  for (let i = 0; i < 12; i++) ingest('assistant', `We decided to use option ${i}.`, 'decision');
+  assert.equal(slot('decisions_made').length, 10, 'decisions stay capped at the last 10');
+  assert.equal(slot('decisions_made')[9], 'We decided to use option 11.');
+
+  pinStateSlot(db, convId, 'constraints');
+  ingest('user', 'You must keep the old API working.');
+  assert.equal(slot('constraints').length, 2, 'pinned slots are not extended');
+});
+
+test('slot-schema: workspace file layers over defaults and is validated', () => {
+  const wp = createTempDir();
+  fs.mkdirSync(path.join(wp, '.clawtext'), { recursive: true });
+  const file = path.join(wp, '.clawtext', 'slot-schema.json');
+  fs.writeFileSync(file, JSON.stringify({
+    slots: [
+      { name: 'todo', merge: 'append', enabled: false, extractors: [] },
+      { name: 'tickets', merge: 'set-union', extractors: [{ type: 'regex', pattern: '\\b[A-Z]+-\\d+\\b' }] },
+    ],
+  }));
+  const schema = loadSlotSchema(wp);
+  assert.equal(schema.slots.length, DEFAULT_SLOT_SCHEMA.slots.length + 1);
+  assert.equal(schema.slots.find((s) => s.name === 'todo').enabled, false);
+
+  const db = createTestDb();
+  const convId = seedConversation(db, 'conv-slot-file');
+  extractStateFromMessage({ db, conversationId: convId, message: { role: 'user', content: 'See OPS-12 and OPS-12, TODO: x' }, contentType: 'active', schema });
+  assert.equal(getStateSlot(db, convId, 'tickets').content, 'OPS-12');
+  assert.equal(getStateSlot(db, convId, 'todo'), null);
+
+  fs.writeFileSync(file, JSON.stringify({ slots: [{ name: 'identity_kernel', merge: 'replace', extractors: [] }] }));
+  assert.throws(() => loadSlotSchema(wp), /reserved/);
+  fs.writeFileSync(file, JSON.stringify({ slots: [{ name: 'risks', merge: 'replace', maxItems: 3, extractors: [] }] }));
+  assert.throws(() => loadSlotSchema(wp), /maxItems only applies/);
+});
+
+test('state-extraction: llm extractors call the model within budget and merge its items', async () => {
+  const db = createTestDb();
+  const convId = seedConversation(db, 'conv-slot-llm');
+  const schema = {
+    slots: [{
+      name: 'risks', merge: 'set-union', extractors: [{ type: 'llm', instruction: 'List the risks.', roles: ['user'], trigger: 'risk' }],
+    }],
+  };
+  const prompts = [];
+  const api = { complete: async (model, prompt) => { prompts.push({ model, prompt }); return '- Disk may fill\n- Cert expires Friday\nNONE'; } };
+  let budgetLeft = 1;
+  const budget = { canSummarize: () => budgetLeft > 0, recordCall: () => { budgetLeft -= 1; } };
+  const run = (content) => extractStateWithModel({
+    db, conversationId: convId, message: { role: 'user', content }, contentType: 'active', schema, api, model: 'm', budget,
+  });
+
+  assert.equal(await run('Nothing relevant here'), 0, 'trigger filters messages');
+  assert.equal(await run('What is the risk with the rollout?'), 1);
+  assert.match(prompts[0].prompt, /"risks" slot[\s\S]*List the risks\.[\s\S]*Message \(user\):\nWhat is the risk/);
+  assert.equal(getStateSlot(db, convId, 'risks').content, 'Disk may fill\nCert expires Friday');
+  assert.equal(getStateSlot(db, convId, 'risks').loadedFrom, 'llm-extraction');
+  assert.equal(await run('Another risk?'), 0, 'budget exhausted');
+});
+
+// ── 10. Summary DAG browsing ──────────────────────────────────────────────────
+
+function seedSummaryDag(db, label) {
+  const convId = seedConversation(db, label);
+  const insert = db.prepare(`INSERT INTO messages (conversation_id, role, content, message_index, created_at)
+    VALUES (?, ?, ?, ?, ?)`);
+  const now = new Date().toISOString();
+  const texts = [
+    'The deploy of `api-gateway` fails with ECONNREFUSED on port 8443.',
+    'Check config/gateway.yaml — upstream_host points at the old Redis box.',
+    'Switched upstream_host to redis-02 and bumped to v2.4.1.',
+    'Now the healthcheck in scripts/health.sh times out after 30 seconds.',
+  ];
+  const ids = texts.map((text, i) => Number(insert.run(convId, i % 2 ? 'assistant' : 'user', text, i, now).lastInsertRowid));
+  const leafA = createLeafSummary(db, convId, [{ id: ids[0] }, { id: ids[1] }], 'Gateway deploy failed; upstream_host in config/gateway.yaml was wrong.', '["active"]');
+  const leafB = createLeafSummary(db, convId, [{ id: ids[2] }, { id: ids[3] }], 'Moved to redis-02; healthcheck now times out.', '["active"]');
+  const root = createCondensedSummary(db, convId, [leafA, leafB], 'Fixed the gateway upstream, healthcheck still failing.', '["active"]');
+  return { convId, leafA, leafB, root };
+}
+
+test('summary-tree: getSummaryTree nests condensed summaries over their leaves', () => {
+  const db = createTestDb();
+  const { convId, leafA, leafB, root } = seedSummaryDag(db, 'conv-dag-tree');
+
+  const tree = getSummaryTree(db, convId);
+  assert.equal(tree.length, 1);
+  assert.equal(tree[0].id, root);
+  assert.equal(tree[0].depth, 1);
+  assert.deepEqual(tree[0].messageRange, [0, 3]);
+  assert.equal(tree[0].messageCount, 4);
+  assert.deepEqual(tree[0].children.map((node) => [node.id, node.messageRange]), [[leafA, [0, 1]], [leafB, [2, 3]]]);
+
+  const lines = renderSummaryTree(tree);
+  assert.match(lines[0], new RegExp(`^sum-${root}  depth 1  msgs 0-3 \\(4\\)`));
+  assert.ok(lines.some((line) => line.startsWith(`├─ sum-${leafA}  leaf  msgs 0-1 (2)`)));
+  assert.ok(lines.some((line) => line.startsWith(`└─ sum-${leafB}  leaf  msgs 2-3 (2)`)));
+  assert.deepEqual(getSummaryTree(db, seedConversation(db, 'conv-dag-empty')), []);
+});
+
+test('summary-tree: compareSummaryToSources reports dropped and invented terms', () => {
+  const db = createTestDb();
+  const { leafB, root } = seedSummaryDag(db, 'conv-dag-diff');
+
+  const leaf = compareSummaryToSources(db, leafB);
+  assert.equal(leaf.against, 'messages');
+  assert.equal(leaf.sources.length, 2);
+  assert.ok(leaf.missingTerms.includes('v2.4.1'));
+  assert.ok(leaf.missingTerms.includes('scripts/health.sh'));
+  assert.ok(!leaf.missingTerms.includes('redis-02'));
+  assert.ok(leaf.coverage > 0 && leaf.coverage < 1);
+
+  const condensed = compareSummaryToSources(db, root);
+  assert.equal(condensed.against, 'children');
+  assert.deepEqual(condensed.sources.map((source) => source.label).sort(), [`sum-${leafB - 1}`, `sum-${leafB}`]);
+
+  const deep = compareSummaryToSources(db, root, { against: 'messages' });
+  assert.equal(deep.sources.length, 4);
+  assert.ok(deep.missingTerms.includes('econnrefused'));
+  assert.equal(compareSummaryToSources(db, 9999), null);
+});
+
+test('compactor: resummarizeSubtree rewrites children before parents and keeps revisions', async () => {
+  const db = createTestDb();
+  const { convId, leafA, leafB, root } = seedSummaryDag(db, 'conv-dag-resum');
+  const calls = [];
+  const api = {
+    complete: async (model, prompt) => {
+      calls.push({ model, prompt });
+      return `rewrite ${calls.length} by ${model}`;
+    },
+  };
+  const config = resolveCompactorConfig({ summarizationModel: 'big-model' });
+
+  const result = await resummarizeSubtree(db, api, root, config, new SummarizationTracker(10), {
+    instructions: 'Keep every file path and version number.',
+    reason: 'lossy',
+  });
+  assert.deepEqual(result.updatedIds, [leafA, leafB, root]);
+  assert.equal(result.calls, 3);
+  assert.ok(calls.every((call) => call.model === 'big-model'));
+  assert.match(calls[0].prompt, /^Keep every file path and version number\.\nOutput plain text only\./);
+  assert.match(calls[0].prompt, /\[1\] assistant: Check config\/gateway\.yaml/);
+  // The parent is rebuilt from the new text of its children
+  assert.match(calls[2].prompt, /rewrite 1 by big-model[\s\S]*rewrite 2 by big-model/);
+
+  const [node] = getSummaryTree(db, convId);
+  assert.equal(node.content, 'rewrite 3 by big-model');
+  assert.equal(node.revisions, 1);
+  const [revision] = getSummaryRevisions(db, root);
+  assert.equal(revision.content, 'Fixed the gateway upstream, healthcheck still failing.');
+  assert.equal(revision.model, 'big-model');
+  assert.equal(revision.reason, 'lossy');
+
+  // A spent cap stops the rewrite; finished nodes stay rewritten
+  const capped = await resummarizeSubtree(db, api, root, config, new SummarizationTracker(1));
+  assert.deepEqual(capped.updatedIds, [leafA]);
+  assert.equal(capped.reason, 'summarization_cap_reached');
+  assert.equal(getSummaryRevisions(db, leafA).length, 2);
+  assert.equal((await resummarizeSubtree(db, api, 9999, config, new SummarizationTracker(1))).reason, 'no_summary');
+});
+
+// ── 11. Summary fidelity ──────────────────────────────────────────────────────
+
+const FIDELITY_MESSAGES = [
+  { role: 'user', content: 'The worker in src/queue/worker.ts drops jobs after 300 retries.' },
+  { role: 'assistant', content: "We'll use Postgres advisory locks for the job queue instead of Redis." },
+  { role: 'user', content: 'Also bump MAX_RETRIES in src/queue/worker.ts.' },
+  { role: 'assistant', content: 'Done: MAX_RETRIES is now 500.' },
+];
+
+test('fidelity: decisions, files and terms are scored against the summary', () => {
+  const requirements = collectFidelityRequirements(FIDELITY_MESSAGES, ['/repo/src/queue/worker.ts']);
+  assert.equal(requirements.decisions.length, 1);
+  assert.ok(requirements.terms.includes('max_retries'));
+  assert.ok(requirements.terms.includes('src/queue/worker.ts'));
+
+  const faithful = scoreSummaryFidelity(
+    'Job queue moves to Postgres advisory locks instead of Redis; MAX_RETRIES raised from 300 to 500 in src/queue/worker.ts.',
+    requirements,
+  );
+  assert.equal(faithful.decisions.kept, 1);
+  assert.equal(faithful.files.kept, 1, 'a path in the summary covers the tracked absolute path');
+  assert.ok(faithful.score > 0.9);
+
+  const lossy = scoreSummaryFidelity('The user and assistant discussed the queue.', requirements);
+  assert.deepEqual(lossy.decisions.missing, requirements.decisions);
+  assert.deepEqual(lossy.files.missing, ['/repo/src/queue/worker.ts']);
+  assert.ok(lossy.score < 0.2);
+  assert.equal(scoreSummaryFidelity('anything', { decisions: [], files: [], terms: [] }).score, 1);
+});
+
+function seedFidelityConversation(db, label) {
+  const convId = seedConversation(db, label);
+  const insert = db.prepare(`INSERT INTO messages (conversation_id, role, content, message_index, created_at)
+    VALUES (?, ?, ?, ?, ?)`);
+  const now = new Date().toISOString();
+  FIDELITY_MESSAGES.forEach((message, i) => insert.run(convId, message.role, message.content, i, now));
+  return convId;
+}
+
+test('compactor: a lossy leaf summary is retried with what it dropped, then accepted', async () => {
+  const db = createTestDb();
+  const convId = seedFidelityConversation(db, 'conv-fidelity-retry');
+  const prompts = [];
+  const replies = [
+    'They talked about the queue.',
+    "We'll use Postgres advisory locks for the job queue instead of Redis. MAX_RETRIES in src/queue/worker.ts went from 300 to 500.",
+  ];
+  const api = { complete: async (_model, prompt) => { prompts.push(prompt); return replies[prompts.length - 1]; } };
+  const config = resolveCompactorConfig({ freshTailSize: 0, leafBatchSize: 4 });
+
+  const result = await runLeafPass(db, api, convId, config, new SummarizationTracker(10));
+  assert.equal(result.summarizedCount, 4);
+  assert.equal(prompts.length, 2);
+  assert.match(prompts[1], /left out details[\s\S]*Keep these decisions:\n- We'll use Postgres[\s\S]*max_retries/);
+  assert.equal(result.fidelity.accepted, 1);
+  assert.equal(result.fidelity.retried, 1);
+  assert.ok(result.fidelity.lowestScore > 0.9);
+  assert.match(db.prepare('SELECT content FROM summaries WHERE conversation_id = ?').get(convId).content, /advisory locks/);
+});
+
+test('compactor: a summary still lossy after retries is rejected and recorded', async () => {
+  const db = createTestDb();
+  const convId = seedFidelityConversation(db, 'conv-fidelity-reject');
+  let calls = 0;
+  const api = { complete: async () => { calls += 1; return 'They talked about the queue.'; } };
+
+  const result = await runLeafPass(db, api, convId, resolveCompactorConfig({ freshTailSize: 0, leafBatchSize: 4, fidelityRetries: 2 }), new SummarizationTracker(10));
+  assert.equal(calls, 3);
+  assert.equal(result.summarizedCount, 0);
+  assert.equal(result.reason, 'low_fidelity');
+  assert.equal(result.fidelity.rejected, 1);
+  assert.equal(db.prepare('SELECT COUNT(*) AS n FROM summaries').get().n, 0);
+  assert.equal(db.prepare('SELECT COUNT(*) AS n FROM messages WHERE summarized = 1').get().n, 0, 'messages stay raw');
+
+  // minFidelityScore 0 accepts anything
+  const lenient = await runLeafPass(db, api, convId, resolveCompactorConfig({ freshTailSize: 0, leafBatchSize: 4, minFidelityScore: 0 }), new SummarizationTracker(10));
+  assert.equal(lenient.summarizedCount, 4);
+
+  recordCompactionEvent({
+    db, conversationId: convId, triggerReason: 'threshold', pressureBefore: 0.9, messagesBefore: 4, outcome: 'skipped',
+    fidelityScore: null, fidelityRejections: result.fidelity.rejected,
+  });
+  recordCompactionEvent({
+    db, conversationId: convId, triggerReason: 'threshold', pressureBefore: 0.9, messagesBefore: 4, outcome: 'success',
+    fidelityScore: lenient.fidelity.lowestScore,
+  });
+  const events = db.prepare('SELECT outcome, fidelity_score, fidelity_rejections FROM compaction_events ORDER BY id').all();
+  assert.deepEqual(events.map((e) => [e.outcome, e.fidelity_rejections]), [['skipped', 1], ['success', 0]]);
+  assert.equal(events[0].fidelity_score, null);
+  assert.ok(events[1].fidelity_score >= 0 && events[1].fidelity_score < 0.2);
+});